@@ -10,8 +10,9 @@ const vercelApp = express();
 vercelApp.use(cors({
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Pharmacy-Key'],
+  exposedHeaders: ['Content-Range', 'X-Content-Range', 'Link', 'X-Total-Count']
 }));
 
 // Aplicar middleware y configuraciones
@@ -32,8 +33,10 @@ vercelApp.use(helmet({
 // Middleware para parsear JSON
 vercelApp.use(express.json());
 
-// Usar todas las rutas y middleware de la aplicación principal
-vercelApp.use('/api', app);
+// Usar todas las rutas y middleware de la aplicación principal. Sus rutas ya incluyen
+// el prefijo /api, así que se montan en la raíz: montarlas en /api las dejaría en
+// /api/api/... y ni el frontend ni las tareas programadas de vercel.json llegarían
+vercelApp.use(app);
 
 // Ruta de health check para Vercel
 vercelApp.get('/api/health', (req, res) => {
@@ -0,0 +1,186 @@
+import request from 'supertest';
+import { app } from '../index';
+import Appointment from '../models/Appointment';
+import AuditLog from '../models/AuditLog';
+import MedicalRecord from '../models/MedicalRecord';
+import User from '../models/User';
+import { initialStatusHistory, StatusActor } from '../services/appointmentStatus';
+import { startOfDay } from '../utils/time';
+
+describe('Care-team access to medical records', () => {
+  const password = 'password123';
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({
+      email,
+      password,
+      name: email.split('@')[0],
+      role,
+      documentId,
+      address: 'Calle Falsa 123',
+      phone: '123456789',
+      birthDate: '1990-01-01',
+    }).save();
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app).post('/api/auth/login').send({ email, password });
+    return response.body.token;
+  };
+
+  let recordId: string;
+  let patientId: string;
+  let specialistId: string;
+
+  beforeEach(async () => {
+    const patient = await createUser('paciente@example.com', 'patient', 'ACC000001');
+    const familyDoctor = await createUser('cabecera@example.com', 'doctor', 'ACC000002');
+    const specialist = await createUser('especialista@example.com', 'doctor', 'ACC000003');
+    patientId = patient.id;
+    specialistId = specialist.id;
+
+    const record = await MedicalRecord.create({
+      patient: patient._id,
+      doctor: familyDoctor._id,
+      type: 'control',
+      symptoms: ['cefalea'],
+      diagnosis: 'Migraña',
+      treatment: { medications: [], recommendations: 'Control en un mes' },
+      notes: 'Derivar a neurología',
+    });
+    recordId = record.id;
+  });
+
+  const readRecord = async (email: string) =>
+    request(app)
+      .get(`/api/medical-records/${recordId}`)
+      .set('Authorization', `Bearer ${await login(email)}`);
+
+  it('should deny access without a care relationship', async () => {
+    const response = await readRecord('especialista@example.com');
+    expect(response.status).toBe(403);
+  });
+
+  const createAppointment = (bookedBy: StatusActor) =>
+    Appointment.create({
+      patient: patientId,
+      doctor: specialistId,
+      date: startOfDay(new Date()),
+      startTime: '10:00',
+      endTime: '10:30',
+      type: 'presencial',
+      reason: 'Interconsulta',
+      statusHistory: initialStatusHistory(bookedBy),
+    });
+
+  it('should grant access through an active appointment booked for the patient', async () => {
+    const admin = await createUser('admin@example.com', 'admin', 'ACC000004');
+    await createAppointment({ id: admin.id, role: 'admin' });
+
+    const response = await readRecord('especialista@example.com');
+    expect(response.status).toBe(200);
+  });
+
+  it('should not grant access through an appointment the doctor booked themselves', async () => {
+    await createAppointment({ id: specialistId, role: 'doctor' });
+
+    const response = await readRecord('especialista@example.com');
+    expect(response.status).toBe(403);
+  });
+
+  it('should not let an unrelated doctor write a record to grant themselves access', async () => {
+    const token = await login('especialista@example.com');
+
+    const created = await request(app)
+      .post('/api/medical-records')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ patient: patientId, doctor: specialistId, type: 'control', diagnosis: 'Migraña' });
+    expect(created.status).toBe(403);
+    expect(await MedicalRecord.countDocuments({ doctor: specialistId })).toBe(0);
+
+    // Un borrador propio tampoco abre el resto de la historia
+    await MedicalRecord.create({
+      patient: patientId,
+      doctor: specialistId,
+      type: 'control',
+      symptoms: ['cefalea'],
+      diagnosis: 'Migraña',
+      treatment: { medications: [], recommendations: 'Control en un mes' },
+    });
+    const patient = await request(app)
+      .get(`/api/fhir/Patient/${patientId}`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(patient.status).toBe(403);
+  });
+
+  it('should grant access through consent until it is revoked', async () => {
+    const patientToken = await login('paciente@example.com');
+    const consent = await request(app)
+      .post('/api/consents')
+      .set('Authorization', `Bearer ${patientToken}`)
+      .send({ granteeId: specialistId, recordTypes: ['control'], durationDays: 30 });
+    expect(consent.status).toBe(201);
+
+    expect((await readRecord('especialista@example.com')).status).toBe(200);
+
+    const list = await request(app)
+      .get('/api/medical-records')
+      .set('Authorization', `Bearer ${await login('especialista@example.com')}`);
+    expect(list.body).toHaveLength(1);
+
+    const revoke = await request(app)
+      .patch(`/api/consents/${consent.body._id}/revoke`)
+      .set('Authorization', `Bearer ${patientToken}`);
+    expect(revoke.status).toBe(200);
+
+    expect((await readRecord('especialista@example.com')).status).toBe(403);
+  });
+
+  it('should grant flagged access through break-glass', async () => {
+    const specialistToken = await login('especialista@example.com');
+    const access = await request(app)
+      .post('/api/break-glass')
+      .set('Authorization', `Bearer ${specialistToken}`)
+      .send({ patientId, justification: 'Paciente inconsciente en urgencias, necesito antecedentes' });
+    expect(access.status).toBe(201);
+    expect(access.body).toHaveProperty('reviewStatus', 'pendiente');
+
+    expect((await readRecord('especialista@example.com')).status).toBe(200);
+
+    const flagged = await AuditLog.findOne({ resource: recordId, outcome: 'exito' });
+    expect(String(flagged?.details?.breakGlass)).toBe(access.body._id);
+  });
+
+  it('should flag FHIR exports made under break-glass', async () => {
+    const specialistToken = await login('especialista@example.com');
+    const access = await request(app)
+      .post('/api/break-glass')
+      .set('Authorization', `Bearer ${specialistToken}`)
+      .send({ patientId, justification: 'Paciente inconsciente en urgencias, necesito antecedentes' });
+
+    const bundle = await request(app)
+      .get('/api/fhir/Encounter')
+      .query({ patient: `Patient/${patientId}` })
+      .set('Authorization', `Bearer ${specialistToken}`);
+    expect(bundle.status).toBe(200);
+    expect(bundle.body.entry).toHaveLength(1);
+
+    const flagged = await AuditLog.findOne({ action: 'exportacion', outcome: 'exito' });
+    expect((flagged?.details?.breakGlass as unknown[]).map(String)).toEqual([access.body._id]);
+  });
+
+  it('should flag vital-sign series read under break-glass', async () => {
+    const specialistToken = await login('especialista@example.com');
+    const access = await request(app)
+      .post('/api/break-glass')
+      .set('Authorization', `Bearer ${specialistToken}`)
+      .send({ patientId, justification: 'Paciente inconsciente en urgencias, necesito antecedentes' });
+
+    const series = await request(app)
+      .get(`/api/vital-signs/${patientId}`)
+      .set('Authorization', `Bearer ${specialistToken}`);
+    expect(series.status).toBe(200);
+
+    const flagged = await AuditLog.findOne({ 'details.vitalSigns': true, outcome: 'exito' });
+    expect(String(flagged?.details?.breakGlass)).toBe(access.body._id);
+  });
+});
@@ -0,0 +1,73 @@
+import request from 'supertest';
+import { app } from '../index';
+import Appointment from '../models/Appointment';
+import AppointmentSeries from '../models/AppointmentSeries';
+import User from '../models/User';
+
+describe('Appointment series', () => {
+  const password = 'password123';
+  const profile = {
+    password,
+    address: 'Calle Falsa 123',
+    phone: '123456789',
+    birthDate: '1990-01-01',
+  };
+
+  it('should edit and cancel this and the following occurrences', async () => {
+    const doctor = await new User({
+      ...profile,
+      email: 'medico@example.com',
+      name: 'medico',
+      role: 'doctor',
+      documentId: 'SER000001',
+      schedule: [{ day: 'Lunes', startTime: '08:00', endTime: '10:00' }],
+    }).save();
+    const patient = await new User({
+      ...profile,
+      email: 'paciente@example.com',
+      name: 'paciente',
+      role: 'patient',
+      documentId: 'SER000002',
+    }).save();
+    const token = (await request(app).post('/api/auth/login').send({ email: 'medico@example.com', password })).body.token;
+
+    // Cuatro lunes seguidos a partir del 2030-01-07
+    const created = await request(app)
+      .post('/api/appointment-series')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        patientId: patient.id,
+        doctorId: doctor.id,
+        startDate: '2030-01-07',
+        startTime: '08:00',
+        endTime: '08:30',
+        type: 'presencial',
+        reason: 'Rehabilitación',
+        recurrence: 'FREQ=WEEKLY;COUNT=4',
+      });
+    expect(created.status).toBe(201);
+    const seriesId = created.body.series._id;
+    const occurrences = () => Appointment.find({ series: seriesId }).sort({ date: 1 });
+    const [, second, third] = await occurrences();
+
+    const updated = await request(app)
+      .put(`/api/appointment-series/${seriesId}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ scope: 'following', appointmentId: third.id, startTime: '09:00', endTime: '09:30' });
+    expect(updated.status).toBe(200);
+    expect(updated.body.updated).toHaveLength(2);
+    expect((await occurrences()).map((occurrence) => occurrence.startTime)).toEqual(['08:00', '08:00', '09:00', '09:00']);
+
+    const cancelled = await request(app)
+      .patch(`/api/appointment-series/${seriesId}/cancel`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ scope: 'following', appointmentId: second.id, reason: 'Alta médica' });
+    expect(cancelled.status).toBe(200);
+    expect(cancelled.body.cancelled).toHaveLength(3);
+    expect((await occurrences()).map((occurrence) => occurrence.status)).toEqual([
+      'pendiente', 'cancelada', 'cancelada', 'cancelada',
+    ]);
+    const series = await AppointmentSeries.findById(seriesId);
+    expect(series!.recurrence.until).toEqual(new Date('2030-01-13T00:00:00.000Z'));
+  });
+});
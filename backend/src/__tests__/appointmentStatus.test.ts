@@ -0,0 +1,65 @@
+import mongoose from 'mongoose';
+import Appointment from '../models/Appointment';
+import {
+  applyStatusTransition,
+  canTransition,
+  getAllowedTransitions,
+  isFinalStatus,
+} from '../services/appointmentStatus';
+
+describe('Appointment status machine', () => {
+  const doctor = { id: new mongoose.Types.ObjectId().toString(), role: 'doctor' };
+  const patient = { id: new mongoose.Types.ObjectId().toString(), role: 'patient' };
+
+  const buildAppointment = (status: string) => new Appointment({
+    patient: patient.id,
+    doctor: doctor.id,
+    date: new Date('2030-01-07'),
+    startTime: '08:00',
+    endTime: '08:30',
+    type: 'presencial',
+    reason: 'Control',
+    status,
+  });
+
+  it('should allow the regular lifecycle for doctors', () => {
+    expect(canTransition('pendiente', 'confirmada', 'doctor')).toBe(true);
+    expect(canTransition('confirmada', 'completada', 'doctor')).toBe(true);
+  });
+
+  it('should restrict transitions by role', () => {
+    expect(getAllowedTransitions('pendiente', 'patient')).toEqual(['cancelada']);
+    expect(canTransition('confirmada', 'completada', 'patient')).toBe(false);
+  });
+
+  it('should not allow leaving final states', () => {
+    expect(isFinalStatus('completada')).toBe(true);
+    expect(getAllowedTransitions('completada', 'admin')).toEqual([]);
+    expect(canTransition('completada', 'cancelada', 'admin')).toBe(false);
+  });
+
+  it('should record each applied transition in the history', () => {
+    const appointment = buildAppointment('pendiente');
+
+    expect(applyStatusTransition(appointment, 'cancelada', patient, 'Viaje')).toBe(true);
+
+    expect(appointment.status).toBe('cancelada');
+    expect(appointment.statusHistory).toHaveLength(1);
+    expect(appointment.statusHistory[0]).toMatchObject({
+      from: 'pendiente',
+      to: 'cancelada',
+      role: 'patient',
+      reason: 'Viaje',
+    });
+    expect(appointment.statusHistory[0].changedBy.toString()).toBe(patient.id);
+  });
+
+  it('should leave the appointment untouched on invalid transitions', () => {
+    const appointment = buildAppointment('completada');
+
+    expect(applyStatusTransition(appointment, 'cancelada', doctor)).toBe(false);
+
+    expect(appointment.status).toBe('completada');
+    expect(appointment.statusHistory).toHaveLength(0);
+  });
+});
@@ -0,0 +1,84 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import request from 'supertest';
+import { app } from '../index';
+import MedicalRecord from '../models/MedicalRecord';
+import User from '../models/User';
+import { sha256 } from '../services/attachmentService';
+import { LocalDiskStorage, registerStorage } from '../services/storage/backends';
+
+describe('Medical record attachments', () => {
+  const password = 'password123';
+  const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'adjuntos-'));
+  const pdf = Buffer.from('%PDF-1.4\n% resultado de laboratorio\n%%EOF\n', 'latin1');
+
+  beforeAll(() => registerStorage(new LocalDiskStorage(storageDir)));
+  afterAll(() => fs.rmSync(storageDir, { recursive: true, force: true }));
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({
+      email,
+      password,
+      name: email.split('@')[0],
+      role,
+      documentId,
+      address: 'Calle Falsa 123',
+      phone: '123456789',
+      birthDate: '1990-01-01',
+    }).save();
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app).post('/api/auth/login').send({ email, password });
+    return response.body.token;
+  };
+
+  it('should store uploads with a checksum and stream them only to authorized users', async () => {
+    const patient = await createUser('paciente@example.com', 'patient', 'ADJ000001');
+    const doctor = await createUser('medico@example.com', 'doctor', 'ADJ000002');
+    await createUser('otro@example.com', 'patient', 'ADJ000003');
+    const record = await MedicalRecord.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      type: 'control',
+      symptoms: ['fatiga'],
+      diagnosis: 'Anemia',
+      treatment: { medications: [], recommendations: 'Hierro' },
+      notes: 'Pendiente analítica',
+    });
+    const token = await login('medico@example.com');
+
+    const spoofed = await request(app)
+      .post(`/api/medical-records/${record.id}/attachments`)
+      .set('Authorization', `Bearer ${token}`)
+      .field('type', 'laboratorio')
+      .attach('file', Buffer.from('no es un pdf'), { filename: 'hemograma.pdf', contentType: 'application/pdf' });
+    expect(spoofed.status).toBe(415);
+
+    const uploaded = await request(app)
+      .post(`/api/medical-records/${record.id}/attachments`)
+      .set('Authorization', `Bearer ${token}`)
+      .field('type', 'laboratorio')
+      .attach('file', pdf, { filename: 'hemograma.pdf', contentType: 'application/pdf' });
+    expect(uploaded.status).toBe(201);
+    expect(uploaded.body).toMatchObject({ name: 'hemograma.pdf', size: pdf.length, checksum: sha256(pdf) });
+
+    const download = await request(app)
+      .get(`/api/medical-records/${record.id}/attachments/${uploaded.body._id}`)
+      .set('Authorization', `Bearer ${await login('paciente@example.com')}`)
+      .buffer(true)
+      .parse((res, callback) => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    expect(download.status).toBe(200);
+    expect(download.headers['content-type']).toBe('application/pdf');
+    expect((download.body as Buffer).equals(pdf)).toBe(true);
+
+    const denied = await request(app)
+      .get(`/api/medical-records/${record.id}/attachments/${uploaded.body._id}`)
+      .set('Authorization', `Bearer ${await login('otro@example.com')}`);
+    expect(denied.status).toBe(403);
+  });
+});
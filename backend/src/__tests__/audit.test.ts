@@ -0,0 +1,75 @@
+import request from 'supertest';
+import { app } from '../index';
+import AuditLog from '../models/AuditLog';
+import MedicalRecord from '../models/MedicalRecord';
+import User from '../models/User';
+
+describe('Audit log', () => {
+  const password = 'password123';
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({
+      email,
+      password,
+      name: email.split('@')[0],
+      role,
+      documentId,
+      address: 'Calle Falsa 123',
+      phone: '123456789',
+      birthDate: '1990-01-01',
+    }).save();
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app).post('/api/auth/login').send({ email, password });
+    return response.body.token;
+  };
+
+  it('should record reads, denials and show them to the patient', async () => {
+    const patient = await createUser('paciente@example.com', 'patient', 'AUD000001');
+    const doctor = await createUser('medico@example.com', 'doctor', 'AUD000002');
+    await createUser('otro@example.com', 'doctor', 'AUD000003');
+
+    const record = await MedicalRecord.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      type: 'consulta',
+      symptoms: ['tos'],
+      diagnosis: 'Resfriado',
+      treatment: { medications: [], recommendations: 'Reposo' },
+      notes: 'Sin complicaciones',
+    });
+
+    const allowed = await request(app)
+      .get(`/api/medical-records/${record.id}`)
+      .set('Authorization', `Bearer ${await login('medico@example.com')}`);
+    expect(allowed.status).toBe(200);
+
+    const denied = await request(app)
+      .get(`/api/medical-records/${record.id}`)
+      .set('Authorization', `Bearer ${await login('otro@example.com')}`);
+    expect(denied.status).toBe(403);
+
+    const outcomes = (await AuditLog.find({ resource: record._id })).map((entry) => entry.outcome).sort();
+    expect(outcomes).toEqual(['denegado', 'exito']);
+
+    const mine = await request(app)
+      .get('/api/audit/me')
+      .set('Authorization', `Bearer ${await login('paciente@example.com')}`);
+    expect(mine.status).toBe(200);
+    expect(mine.body).toHaveLength(1);
+    expect(mine.body[0].actor).toHaveProperty('name', 'medico');
+  });
+
+  it('should not allow audit entries to be modified', async () => {
+    const entry = await AuditLog.create({
+      actor: (await createUser('admin@example.com', 'admin', 'AUD000004'))._id,
+      actorRole: 'admin',
+      action: 'lectura',
+      resourceType: 'MedicalRecord',
+      outcome: 'exito',
+    });
+
+    await expect(AuditLog.updateOne({ _id: entry._id }, { outcome: 'error' })).rejects.toThrow();
+    await expect(AuditLog.deleteOne({ _id: entry._id })).rejects.toThrow();
+  });
+});
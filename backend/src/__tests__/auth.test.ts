@@ -3,6 +3,9 @@ import { app } from '../index';
 import User from '../models/User';
 import bcrypt from 'bcryptjs';
 import mongoose from 'mongoose';
+import Notification from '../models/Notification';
+import { dispatchPendingNotifications } from '../services/notifications/notificationService';
+import { OutgoingMessage, registerTransport } from '../services/notifications/transports';
 
 describe('Auth Endpoints', () => {
   const baseUser = {
@@ -117,4 +120,205 @@ describe('Auth Endpoints', () => {
       expect(response.body).toHaveProperty('message');
     });
   });
-}); 
\ No newline at end of file
+
+  describe('Refresh tokens y sesiones', () => {
+    const credentials = {
+      email: 'session@example.com',
+      password: 'password123'
+    };
+
+    beforeEach(async () => {
+      await new User({
+        ...credentials,
+        name: 'Session Test User',
+        role: 'patient',
+        ...baseUser,
+        documentId: 'SES123456'
+      }).save();
+    });
+
+    const login = async () => {
+      const response = await request(app).post('/api/auth/login').send(credentials);
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('refreshToken');
+      return response.body as { token: string; refreshToken: string };
+    };
+
+    it('should rotate the refresh token', async () => {
+      const { refreshToken } = await login();
+
+      const response = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toHaveProperty('token');
+      expect(response.body.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the session when a rotated refresh token is reused', async () => {
+      const { refreshToken } = await login();
+
+      const first = await request(app).post('/api/auth/refresh').send({ refreshToken });
+      expect(first.status).toBe(200);
+
+      const reuse = await request(app).post('/api/auth/refresh').send({ refreshToken });
+      expect(reuse.status).toBe(401);
+
+      // El token legítimo más reciente también queda invalidado
+      const next = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: first.body.refreshToken });
+      expect(next.status).toBe(401);
+
+      const profile = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${first.body.token}`);
+      expect(profile.status).toBe(401);
+    });
+
+    it('should reject the access token after logout', async () => {
+      const { token, refreshToken } = await login();
+
+      const logout = await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${token}`);
+      expect(logout.status).toBe(200);
+
+      const profile = await request(app)
+        .get('/api/auth/profile')
+        .set('Authorization', `Bearer ${token}`);
+      expect(profile.status).toBe(401);
+
+      const refresh = await request(app).post('/api/auth/refresh').send({ refreshToken });
+      expect(refresh.status).toBe(401);
+    });
+  });
+
+  describe('Recuperación de contraseña y verificación de email', () => {
+    const userData = {
+      email: 'reset@example.com',
+      password: 'password123',
+      name: 'Reset Test User',
+      role: 'patient',
+      ...baseUser,
+      documentId: 'RST123456'
+    };
+
+    // El token solo viaja en el enlace del correo entregado; no se guarda en la bandeja de salida
+    const sent: OutgoingMessage[] = [];
+    registerTransport('email', { send: async (message) => { sent.push(message); } });
+
+    const tokenFromEmail = async (subject: string) => {
+      await dispatchPendingNotifications();
+      const message = sent.filter((email) => email.subject === subject).pop();
+      return message?.body.match(/token=([\w-]+)/)?.[1] as string;
+    };
+
+    it('should login right after registering', async () => {
+      const register = await request(app).post('/api/auth/register').send(userData);
+      expect(register.status).toBe(201);
+      expect(register.body.user).toHaveProperty('emailVerified', false);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: userData.password });
+      expect(login.status).toBe(200);
+    });
+
+    it('should verify the email with the token sent after registering', async () => {
+      await request(app).post('/api/auth/register').send(userData);
+      const queued = await Notification.findOne({ template: 'verificar_email' }).select('+body');
+      expect(queued?.body).toBeUndefined();
+      const token = await tokenFromEmail('Confirme su correo electrónico');
+
+      const response = await request(app).post('/api/auth/verify-email').send({ token });
+      expect(response.status).toBe(200);
+
+      const user = await User.findOne({ email: userData.email });
+      expect(user?.emailVerified).toBe(true);
+    });
+
+    it('should not reveal whether an email is registered', async () => {
+      await new User(userData).save();
+
+      const known = await request(app).post('/api/auth/forgot-password').send({ email: userData.email });
+      const unknown = await request(app).post('/api/auth/forgot-password').send({ email: 'nadie@example.com' });
+
+      expect(known.status).toBe(200);
+      expect(unknown.status).toBe(200);
+      expect(known.body).toEqual(unknown.body);
+    });
+
+    it('should reset the password only once with the same token', async () => {
+      await new User(userData).save();
+      await request(app).post('/api/auth/forgot-password').send({ email: userData.email });
+      const token = await tokenFromEmail('Restablecer contraseña');
+
+      const reset = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'nueva-clave-1' });
+      expect(reset.status).toBe(200);
+
+      const reuse = await request(app)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'nueva-clave-2' });
+      expect(reuse.status).toBe(400);
+
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: 'nueva-clave-1' });
+      expect(login.status).toBe(200);
+    });
+
+    it('should require the current password to change it', async () => {
+      await new User(userData).save();
+      const { body } = await request(app)
+        .post('/api/auth/login')
+        .send({ email: userData.email, password: userData.password });
+
+      const wrong = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: 'incorrecta', newPassword: 'nueva-clave-1' });
+      expect(wrong.status).toBe(400);
+
+      const ok = await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${body.token}`)
+        .send({ currentPassword: userData.password, newPassword: 'nueva-clave-1' });
+      expect(ok.status).toBe(200);
+    });
+  });
+
+  describe('Protección contra fuerza bruta', () => {
+    const credentials = {
+      email: 'bruteforce@example.com',
+      password: 'password123'
+    };
+
+    beforeEach(async () => {
+      await new User({
+        ...credentials,
+        name: 'Brute Force User',
+        role: 'patient',
+        ...baseUser,
+        documentId: 'BRF123456'
+      }).save();
+    });
+
+    it('should lock the account after repeated failures', async () => {
+      for (let attempt = 0; attempt < 5; attempt++) {
+        const response = await request(app)
+          .post('/api/auth/login')
+          .send({ email: credentials.email, password: 'wrongpassword' });
+        expect(response.status).toBe(401);
+      }
+
+      // Bloqueada incluso con la contraseña correcta
+      const locked = await request(app).post('/api/auth/login').send(credentials);
+      expect(locked.status).toBe(429);
+      expect(locked.headers).toHaveProperty('retry-after');
+    }, 20000);
+  });
+});
@@ -0,0 +1,64 @@
+import { computeFreeSlots, isWithinSchedule } from '../services/availabilityService';
+import { toInstant } from '../utils/time';
+
+describe('Availability', () => {
+  // 2030-01-07 es lunes
+  const monday = new Date('2030-01-07T00:00:00.000Z');
+  const now = new Date('2030-01-01T00:00:00.000Z');
+  const schedule = [
+    { day: 'Lunes', startTime: '08:00', endTime: '10:00' },
+    { day: 'Martes', startTime: '14:00', endTime: '15:00' },
+  ];
+
+  describe('computeFreeSlots', () => {
+    it('should expand schedule blocks into slots of the requested duration', () => {
+      const slots = computeFreeSlots(schedule, [], monday, monday, 30, now);
+
+      expect(slots.map((slot) => slot.startTime)).toEqual(['08:00', '08:30', '09:00', '09:30']);
+      expect(slots[0]).toEqual({ date: '2030-01-07', startTime: '08:00', endTime: '08:30' });
+    });
+
+    it('should exclude slots overlapping busy intervals', () => {
+      const busy = [{ date: monday, startTime: '08:45', endTime: '09:15' }];
+
+      const slots = computeFreeSlots(schedule, busy, monday, monday, 30, now);
+
+      expect(slots.map((slot) => slot.startTime)).toEqual(['08:00', '09:30']);
+    });
+
+    it('should cover every day of the range', () => {
+      const tuesday = new Date('2030-01-08T00:00:00.000Z');
+
+      const slots = computeFreeSlots(schedule, [], monday, tuesday, 60, now);
+
+      expect(slots).toEqual([
+        { date: '2030-01-07', startTime: '08:00', endTime: '09:00' },
+        { date: '2030-01-07', startTime: '09:00', endTime: '10:00' },
+        { date: '2030-01-08', startTime: '14:00', endTime: '15:00' },
+      ]);
+    });
+
+    it('should skip days in the past', () => {
+      const slots = computeFreeSlots(schedule, [], monday, monday, 30, new Date('2030-01-08T00:00:00.000Z'));
+
+      expect(slots).toHaveLength(0);
+    });
+
+    it('should skip slots of today that have already started', () => {
+      const slots = computeFreeSlots(schedule, [], monday, monday, 30, toInstant(monday, '08:40'));
+
+      expect(slots.map((slot) => slot.startTime)).toEqual(['09:00', '09:30']);
+    });
+  });
+
+  describe('isWithinSchedule', () => {
+    it('should accept intervals inside a schedule block', () => {
+      expect(isWithinSchedule(schedule, monday, '09:00', '10:00')).toBe(true);
+    });
+
+    it('should reject intervals outside the schedule', () => {
+      expect(isWithinSchedule(schedule, monday, '09:30', '10:30')).toBe(false);
+      expect(isWithinSchedule(schedule, monday, '14:00', '15:00')).toBe(false);
+    });
+  });
+});
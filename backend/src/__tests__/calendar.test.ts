@@ -0,0 +1,59 @@
+import request from 'supertest';
+import { app } from '../index';
+import Appointment from '../models/Appointment';
+import User from '../models/User';
+
+describe('Calendar feed', () => {
+  const password = 'password123';
+  const profile = {
+    password,
+    address: 'Calle Falsa 123',
+    phone: '123456789',
+    birthDate: '1990-01-01',
+  };
+
+  const setup = async () => {
+    const doctor = await new User({ ...profile, email: 'medico@example.com', name: 'Dra. Ruiz', role: 'doctor', documentId: 'CAL000001' }).save();
+    const patient = await new User({ ...profile, email: 'paciente@example.com', name: 'Ana', role: 'patient', documentId: 'CAL000002' }).save();
+    await Appointment.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      date: new Date(),
+      startTime: '08:00',
+      endTime: '08:30',
+      type: 'presencial',
+      reason: 'Control',
+    });
+    return (await request(app).post('/api/auth/login').send({ email: 'paciente@example.com', password })).body.token;
+  };
+
+  const createToken = async (token: string): Promise<string> =>
+    (await request(app).post('/api/calendar/feed-token').set('Authorization', `Bearer ${token}`)).body.token;
+
+  const feed = (feedToken: string) => request(app).get(`/api/calendar/feed/${feedToken}.ics`);
+
+  it('should serve the feed for the current token only', async () => {
+    const token = await setup();
+    const first = await createToken(token);
+
+    const calendar = await feed(first);
+    expect(calendar.status).toBe(200);
+    expect(calendar.headers['content-type']).toMatch(/^text\/calendar/);
+    expect(calendar.text).toContain('SUMMARY:Cita médica con Dra. Ruiz');
+    expect(calendar.text).not.toContain('Control');
+
+    const second = await createToken(token);
+    expect((await feed(first)).status).toBe(404);
+    expect((await feed(second)).status).toBe(200);
+
+    await request(app).delete('/api/calendar/feed-token').set('Authorization', `Bearer ${token}`);
+    expect((await feed(second)).status).toBe(404);
+  });
+
+  it('should stop serving the feed of a deactivated account', async () => {
+    const feedToken = await createToken(await setup());
+    await User.updateOne({ email: 'paciente@example.com' }, { active: false });
+
+    expect((await feed(feedToken)).status).toBe(404);
+  });
+});
@@ -0,0 +1,50 @@
+import mongoose from 'mongoose';
+import MedicalRecord from '../models/MedicalRecord';
+import { buildSnippet, matchRecord } from '../services/clinicalSearch';
+import { textTerms } from '../utils/text';
+
+describe('Clinical search', () => {
+  const record = (diagnosis: string, notes: string, symptoms: string[] = []) =>
+    new MedicalRecord({
+      patient: new mongoose.Types.ObjectId(),
+      doctor: new mongoose.Types.ObjectId(),
+      type: 'consulta',
+      symptoms,
+      diagnosis,
+      treatment: { medications: [{ name: 'Ibuprofeno 600 mg' }], recommendations: 'Reposo relativo' },
+      notes,
+    });
+
+  it('should fold accents, plurals and gender to the same Spanish stems', () => {
+    expect(textTerms('Dolores torácicos')).toEqual(textTerms('dolor toracico'));
+    expect(textTerms('neumonías de repetición')).toEqual(textTerms('Neumonia repeticion'));
+    expect(textTerms('crónica')).toEqual(textTerms('crónico'));
+    // Las palabras vacías no cuentan como términos
+    expect(textTerms('de la y el')).toEqual([]);
+  });
+
+  it('should rank diagnosis and phrase matches higher and require every term', () => {
+    const terms = textTerms('dolor torácico');
+    const inDiagnosis = matchRecord(record('Dolor torácico atípico', 'Sin cambios en el ECG'), terms)!;
+    const inNotes = matchRecord(record('Ansiedad', 'Refiere dolor de espalda y molestia torácica'), terms)!;
+
+    expect(inDiagnosis.score).toBeGreaterThan(inNotes.score);
+    expect(inDiagnosis.snippets).toEqual([
+      { field: 'diagnosis', text: 'Dolor torácico atípico', highlights: [{ start: 0, end: 5 }, { start: 6, end: 14 }] },
+    ]);
+    expect(inNotes.snippets[0].field).toBe('notes');
+    expect(matchRecord(record('Cefalea tensional', 'Dolor cervical'), terms)).toBeNull();
+  });
+
+  it('should cut long texts around the first match without splitting words', () => {
+    const text = `${'Paciente estable sin incidencias. '.repeat(6)}Presenta fiebre alta nocturna. ${'Control en una semana. '.repeat(6)}`;
+    const start = text.indexOf('fiebre');
+    const snippet = buildSnippet('notes', text, [{ start, end: start + 6 }]);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(162);
+    const [highlight] = snippet.highlights;
+    expect(snippet.text.slice(highlight.start, highlight.end)).toBe('fiebre');
+  });
+});
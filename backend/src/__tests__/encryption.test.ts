@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { resetKeyring } from '../config/encryption';
+import '../models/ImportJob';
+import MedicalRecord from '../models/MedicalRecord';
+import '../models/MedicalRecordVersion';
+import '../models/Prescription';
+import User from '../models/User';
+import { getEncryptedModels, reencryptDocument } from '../models/plugins/encryptedFields';
+import { blindIndex, decryptValue, encryptValue, isEncrypted, keyIdOf } from '../utils/encryption';
+
+const newKey = () => crypto.randomBytes(32).toString('base64');
+
+describe('Field-level encryption', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    process.env.ENCRYPTION_KEYS = `k1:${newKey()}`;
+    process.env.BLIND_INDEX_KEY = newKey();
+    delete process.env.ENCRYPTION_ACTIVE_KEY;
+    resetKeyring();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    resetKeyring();
+  });
+
+  const buildRecord = () => new MedicalRecord({
+    patient: new mongoose.Types.ObjectId(),
+    doctor: new mongoose.Types.ObjectId(),
+    type: 'consulta',
+    symptoms: ['tos', 'fiebre'],
+    diagnosis: 'Bronquitis aguda',
+    treatment: {
+      medications: [{ name: 'Amoxicilina', dosage: '500 mg', frequency: '8 h', duration: '7 días', startDate: new Date() }],
+      recommendations: 'Reposo e hidratación',
+    },
+    notes: 'Control en una semana',
+  });
+
+  it('should round-trip values with AES-GCM and detect tampering', () => {
+    const encrypted = encryptValue('Hipertensión');
+    expect(isEncrypted(encrypted)).toBe(true);
+    expect(keyIdOf(encrypted)).toBe('k1');
+    expect(encryptValue('Hipertensión')).not.toBe(encrypted);
+    expect(decryptValue(encrypted)).toBe('Hipertensión');
+
+    const parts = encrypted.split(':');
+    parts[4] = Buffer.from('otro texto').toString('base64');
+    expect(() => decryptValue(parts.join(':'))).toThrow();
+  });
+
+  it('should store configured fields encrypted and expose them in plaintext', () => {
+    const record = buildRecord();
+
+    expect(isEncrypted(record.get('diagnosis', null, { getters: false }))).toBe(true);
+    expect(isEncrypted(record.get('symptoms', null, { getters: false })[0])).toBe(true);
+    expect(isEncrypted(record.get('treatment.medications.0.name', null, { getters: false }))).toBe(true);
+
+    expect(record.diagnosis).toBe('Bronquitis aguda');
+    expect(record.symptoms).toEqual(['tos', 'fiebre']);
+
+    const json = JSON.parse(JSON.stringify(record));
+    expect(json.diagnosis).toBe('Bronquitis aguda');
+    expect(json.symptoms).toEqual(['tos', 'fiebre']);
+    expect(json.treatment.medications[0].name).toBe('Amoxicilina');
+    expect(json.treatment.recommendations).toBe('Reposo e hidratación');
+    expect(json).not.toHaveProperty('id');
+  });
+
+  it('should re-encrypt old values with the active key', () => {
+    const record = buildRecord();
+
+    process.env.ENCRYPTION_KEYS = `${process.env.ENCRYPTION_KEYS},k2:${newKey()}`;
+    resetKeyring();
+
+    expect(reencryptDocument(record)).toBe(true);
+    expect(keyIdOf(record.get('diagnosis', null, { getters: false }))).toBe('k2');
+    expect(keyIdOf(record.get('treatment.medications.0.dosage', null, { getters: false }))).toBe('k2');
+    expect(record.diagnosis).toBe('Bronquitis aguda');
+    expect(reencryptDocument(record)).toBe(false);
+  });
+
+  it('should register every model with encrypted fields for key rotation', () => {
+    const models = getEncryptedModels();
+    expect(models.map(({ model }) => model.modelName).sort())
+      .toEqual(['ImportJob', 'MedicalRecord', 'MedicalRecordVersion', 'Prescription', 'User']);
+    expect(models.find(({ model }) => model.modelName === 'User')?.blindIndexFields).toEqual(['documentIdHash']);
+  });
+
+  it('should compute a deterministic blind index for the document', () => {
+    const user = new User({ documentId: ' abc123 ' });
+
+    expect(isEncrypted(user.get('documentId', null, { getters: false }))).toBe(true);
+    expect(user.documentId).toBe('abc123');
+    expect(blindIndex('ABC123')).toBe(blindIndex(' abc123'));
+  });
+
+  it('should store TOTP seeds encrypted', () => {
+    const user = new User({ twoFactorSecret: 'JBSWY3DPEHPK3PXP', twoFactorPendingSecret: 'KRSXG5CTMVRXEZLU' });
+
+    expect(isEncrypted(user.get('twoFactorSecret', null, { getters: false }))).toBe(true);
+    expect(isEncrypted(user.get('twoFactorPendingSecret', null, { getters: false }))).toBe(true);
+    expect(user.twoFactorSecret).toBe('JBSWY3DPEHPK3PXP');
+  });
+});
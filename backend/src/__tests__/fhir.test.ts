@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import MedicalRecord from '../models/MedicalRecord';
+import { recordToFhir } from '../services/fhir/resources';
+import { parseDateParams, parseReferenceParam } from '../services/fhir/search';
+
+describe('FHIR export', () => {
+  it('should map a medical record to encounter, condition, observations and medication requests', () => {
+    const record = new MedicalRecord({
+      patient: new mongoose.Types.ObjectId(),
+      doctor: new mongoose.Types.ObjectId(),
+      date: new Date('2024-03-10T15:00:00Z'),
+      type: 'emergencia',
+      symptoms: ['dolor torácico'],
+      diagnosis: 'Angina estable',
+      treatment: {
+        medications: [{
+          name: 'Nitroglicerina',
+          dosage: '0.4 mg',
+          frequency: 'si dolor',
+          duration: '30 días',
+          startDate: new Date('2024-03-10'),
+          endDate: new Date('2024-04-10'),
+        }],
+        recommendations: 'Reposo',
+      },
+      vitalSigns: { bloodPressure: { systolic: 150, diastolic: 95 }, heartRate: 98 },
+      notes: 'Derivado a cardiología',
+    });
+
+    const resources = recordToFhir(record);
+    expect(resources.map((resource) => resource.resourceType)).toEqual([
+      'Encounter',
+      'Condition',
+      'Observation',
+      'Observation',
+      'MedicationRequest',
+    ]);
+
+    const [encounter, condition, pressure, heartRate, medication] = resources;
+    expect(encounter).toMatchObject({ id: record.id, class: { code: 'EMER' } });
+    expect(condition).toMatchObject({ code: { text: 'Angina estable' }, encounter: { reference: `Encounter/${record.id}` } });
+    expect(pressure).toMatchObject({
+      status: 'preliminary',
+      code: { coding: [{ code: '85354-9' }] },
+      component: [
+        { code: { coding: [{ code: '8480-6' }] }, valueQuantity: { value: 150, code: 'mm[Hg]' } },
+        { code: { coding: [{ code: '8462-4' }] }, valueQuantity: { value: 95, code: 'mm[Hg]' } },
+      ],
+    });
+    expect(heartRate).toMatchObject({ code: { coding: [{ code: '8867-4' }] }, valueQuantity: { value: 98 } });
+    expect(medication).toMatchObject({ status: 'completed', medicationCodeableConcept: { text: 'Nitroglicerina' } });
+  });
+
+  it('should parse date and reference search parameters', () => {
+    expect(parseDateParams('2024-03')).toEqual({
+      $gte: new Date('2024-03-01T00:00:00Z'),
+      $lt: new Date('2024-04-01T00:00:00Z'),
+    });
+    expect(parseDateParams(['ge2024-01-01', 'le2024-06-30'])).toEqual({
+      $gte: new Date('2024-01-01T00:00:00Z'),
+      $lt: new Date('2024-07-01T00:00:00Z'),
+    });
+    expect(parseDateParams('ayer')).toBeNull();
+
+    const id = new mongoose.Types.ObjectId().toString();
+    expect(parseReferenceParam(`Patient/${id}`, 'Patient')).toBe(id);
+    expect(parseReferenceParam('Patient/abc', 'Patient')).toBeNull();
+  });
+});
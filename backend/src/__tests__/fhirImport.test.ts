@@ -0,0 +1,165 @@
+import request from 'supertest';
+import { app } from '../index';
+import ImportJob from '../models/ImportJob';
+import MedicalRecord from '../models/MedicalRecord';
+import User, { documentIdQuery } from '../models/User';
+
+describe('FHIR import', () => {
+  const password = 'password123';
+
+  const bundle = {
+    resourceType: 'Bundle',
+    type: 'collection',
+    entry: [
+      {
+        resource: {
+          resourceType: 'Patient',
+          id: 'p1',
+          identifier: [{ system: 'urn:otra-clinica:dni', value: 'IMP000001' }],
+          name: [{ given: ['Ana'], family: 'Pérez' }],
+          telecom: [{ system: 'email', value: 'ana@example.com' }],
+          birthDate: '1985-04-12',
+        },
+      },
+      {
+        resource: {
+          resourceType: 'Encounter',
+          id: 'e1',
+          class: { code: 'AMB' },
+          subject: { reference: 'Patient/p1' },
+          period: { start: '2023-11-02T10:00:00Z' },
+          reasonCode: [{ text: 'cefalea' }],
+        },
+      },
+      {
+        resource: {
+          resourceType: 'Condition',
+          id: 'c1',
+          encounter: { reference: 'Encounter/e1' },
+          code: { coding: [{ code: 'G43.9', display: 'Migraña' }] },
+        },
+      },
+      {
+        resource: {
+          resourceType: 'Observation',
+          id: 'o1',
+          encounter: { reference: 'Encounter/e1' },
+          code: { coding: [{ system: 'http://loinc.org', code: '8867-4' }] },
+          valueQuantity: { value: 72, unit: '/min' },
+        },
+      },
+      {
+        resource: {
+          resourceType: 'Observation',
+          id: 'o2',
+          code: { coding: [{ system: 'http://loinc.org', code: '8310-5' }] },
+          valueQuantity: { value: 37, unit: 'Cel' },
+        },
+      },
+    ],
+  };
+
+  const waitForJob = async (id: string) => {
+    for (let attempt = 0; attempt < 50; attempt++) {
+      const job = await ImportJob.findById(id);
+      if (job && (job.status === 'completado' || job.status === 'fallido')) return job;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+    throw new Error('La importación no terminó');
+  };
+
+  it('should report a dry run, import once and skip on re-import', async () => {
+    await new User({
+      email: 'medico@example.com',
+      password,
+      name: 'medico',
+      role: 'doctor',
+      documentId: 'IMP000002',
+      address: 'Calle Falsa 123',
+      phone: '123456789',
+      birthDate: '1980-01-01',
+    }).save();
+    const login = await request(app).post('/api/auth/login').send({ email: 'medico@example.com', password });
+
+    const submit = (dryRun: boolean) =>
+      request(app)
+        .post('/api/imports')
+        .query({ source: 'otra-clinica', dryRun })
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .set('Content-Type', 'application/fhir+json')
+        .send(JSON.stringify(bundle));
+
+    const dryRun = await submit(true);
+    expect(dryRun.status).toBe(202);
+    const report = await waitForJob(dryRun.body._id);
+    expect(report.summary).toEqual({
+      Patient: { creado: 1 },
+      Encounter: { creado: 1 },
+      Condition: { creado: 1 },
+      Observation: { creado: 1, error: 1 },
+    });
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0]).toMatchObject({ index: 4, resourceId: 'o2' });
+    expect(await User.exists(documentIdQuery('IMP000001'))).toBeNull();
+
+    const first = await waitForJob((await submit(false)).body._id);
+    expect(first.summary.Encounter).toEqual({ creado: 1 });
+    const record = await MedicalRecord.findOne({ 'importSource.resourceId': 'Encounter/e1' });
+    expect(record).toMatchObject({ diagnosis: 'Migraña', symptoms: ['cefalea'] });
+    expect(record!.vitalSigns.heartRate).toBe(72);
+
+    const second = await waitForJob((await submit(false)).body._id);
+    expect(second.summary).toMatchObject({ Patient: { existente: 1 }, Encounter: { existente: 1 } });
+    expect(await MedicalRecord.countDocuments()).toBe(1);
+  });
+
+  it('should not attach data to existing patients the doctor cannot access', async () => {
+    const profile = { password, address: 'Calle Falsa 123', phone: '123456789', birthDate: '1980-01-01' };
+    await new User({ ...profile, email: 'medico@example.com', name: 'medico', role: 'doctor', documentId: 'IMP000002' }).save();
+    await new User({ ...profile, email: 'ana@example.com', name: 'Ana', role: 'patient', documentId: 'IMP000001' }).save();
+    const login = await request(app).post('/api/auth/login').send({ email: 'medico@example.com', password });
+
+    const response = await request(app)
+      .post('/api/imports')
+      .query({ source: 'otra-clinica' })
+      .set('Authorization', `Bearer ${login.body.token}`)
+      .set('Content-Type', 'application/fhir+json')
+      .send(JSON.stringify(bundle));
+    const job = await waitForJob(response.body._id);
+
+    expect(job.summary).toMatchObject({ Patient: { error: 1 }, Encounter: { error: 1 } });
+    expect(await MedicalRecord.countDocuments()).toBe(0);
+  });
+
+  it('should report appointments that collide with one of the doctor', async () => {
+    const profile = { password, address: 'Calle Falsa 123', phone: '123456789', birthDate: '1980-01-01' };
+    await new User({ ...profile, email: 'medico@example.com', name: 'medico', role: 'doctor', documentId: 'IMP000002' }).save();
+    const login = await request(app).post('/api/auth/login').send({ email: 'medico@example.com', password });
+    const appointment = (id: string) => ({
+      resource: {
+        resourceType: 'Appointment',
+        id,
+        status: 'booked',
+        start: '2030-01-07T13:00:00Z',
+        end: '2030-01-07T13:30:00Z',
+        participant: [{ actor: { reference: 'Patient/p1' } }],
+      },
+    });
+
+    const response = await request(app)
+      .post('/api/imports')
+      .query({ source: 'otra-clinica' })
+      .set('Authorization', `Bearer ${login.body.token}`)
+      .set('Content-Type', 'application/fhir+json')
+      .send(JSON.stringify({ ...bundle, entry: [bundle.entry[0], appointment('a1'), appointment('a2')] }));
+    const job = await waitForJob(response.body._id);
+
+    expect(job.status).toBe('completado');
+    expect(job.summary.Appointment).toEqual({ creado: 1, error: 1 });
+    expect(job.issues).toHaveLength(1);
+    expect(job.issues[0]).toMatchObject({
+      resourceId: 'a2',
+      message: 'El doctor ya tiene una cita vigente que empieza a esa hora',
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import mongoose from 'mongoose';
+import Appointment from '../models/Appointment';
+import { appointmentToEvent, buildCalendar } from '../services/icalendar';
+
+describe('iCalendar', () => {
+  const unfold = (calendar: string): string[] => calendar.replace(/\r\n /g, '').split('\r\n');
+
+  it('should escape text values', () => {
+    const calendar = buildCalendar([], 'Citas; Pérez, Ana\\Sur\nCentro');
+
+    expect(unfold(calendar)).toContain('X-WR-CALNAME:Citas\\; Pérez\\, Ana\\\\Sur\\nCentro');
+  });
+
+  it('should fold long lines at 75 octets without splitting characters', () => {
+    const calendar = buildCalendar([], 'Consultorio de traumatología pediátrica y rehabilitación — niñas y niños');
+    const lines = calendar.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(8);
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(unfold(calendar)).toContain(
+      'X-WR-CALNAME:Consultorio de traumatología pediátrica y rehabilitación — niñas y niños'
+    );
+  });
+
+  it('should end every line with CRLF and map the appointment to a VEVENT', () => {
+    const appointment = new Appointment({
+      patient: new mongoose.Types.ObjectId(),
+      doctor: new mongoose.Types.ObjectId(),
+      date: new Date('2030-01-07T00:00:00.000Z'),
+      startTime: '08:00',
+      endTime: '08:30',
+      type: 'presencial',
+      reason: 'Control, anual',
+      status: 'cancelada',
+    });
+
+    const calendar = buildCalendar([appointmentToEvent(appointment, { counterpart: 'Dra. Ruiz', includeReason: true })]);
+    const lines = unfold(calendar);
+
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(lines).toContain(`UID:${appointment._id}@gestion-medica`);
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(lines).toContain('SUMMARY:Cita médica con Dra. Ruiz');
+    expect(lines).toContain('DESCRIPTION:Consulta presencial\\nMotivo: Control\\, anual');
+  });
+});
@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import MedicalRecord from '../models/MedicalRecord';
+import { recordToFhir } from '../services/fhir/resources';
+import { diagnosisCodesError, normalizeIcd10Code, searchIcd10 } from '../services/icd10';
+
+describe('ICD-10 catalog', () => {
+  it('should search by code prefix and accent-insensitive description prefix', () => {
+    expect(normalizeIcd10Code('j450')).toBe('J45.0');
+    expect(normalizeIcd10Code('asma')).toBeNull();
+
+    expect(searchIcd10('J45').map((entry) => entry.code)).toEqual(['J45', 'J45.0', 'J45.9']);
+    expect(searchIcd10('neumonia bact')).toEqual([
+      { code: 'J15', description: 'Neumonía bacteriana, no clasificada en otra parte' },
+    ]);
+    // Las descripciones que empiezan por el término van primero
+    expect(searchIcd10('úlcera').map((entry) => entry.code)).toEqual(['K25', 'K26']);
+  });
+
+  it('should require existing codes and a single primary diagnosis', () => {
+    expect(diagnosisCodesError([{ code: 'I10', primary: true }, { code: 'e119' }])).toBeNull();
+    expect(diagnosisCodesError([{ code: 'X99.9', primary: true }])).toBe('Código CIE-10 inexistente: X99.9');
+    expect(diagnosisCodesError([{ code: 'I10' }])).toBe('Debe haber exactamente un diagnóstico principal');
+    expect(diagnosisCodesError([{ code: 'I10', primary: true }, { code: 'i10' }])).toBe('Código CIE-10 repetido: I10');
+  });
+
+  it('should export coded diagnoses as FHIR conditions', async () => {
+    const record = new MedicalRecord({
+      patient: new mongoose.Types.ObjectId(),
+      doctor: new mongoose.Types.ObjectId(),
+      type: 'control',
+      symptoms: [],
+      diagnosis: 'HTA mal controlada',
+      diagnosisCodes: [{ code: 'i10', primary: true }, { code: 'E119' }],
+      treatment: { medications: [], recommendations: 'Dieta hiposódica' },
+      notes: 'Control trimestral',
+    });
+    await record.validate();
+
+    expect(record.diagnosisCodes!.map(({ code, display }) => [code, display])).toEqual([
+      ['I10', 'Hipertensión esencial (primaria)'],
+      ['E11.9', 'Diabetes mellitus tipo 2 sin mención de complicación'],
+    ]);
+
+    const [encounter, primary, secondary] = recordToFhir(record);
+    expect(encounter.diagnosis).toEqual([
+      { condition: { reference: `Condition/${record.id}-dx` }, rank: 1 },
+      { condition: { reference: `Condition/${record.id}-dx-E11.9` }, rank: 2 },
+    ]);
+    expect(primary.code).toEqual({
+      coding: [{ system: 'http://hl7.org/fhir/sid/icd-10', code: 'I10', display: 'Hipertensión esencial (primaria)' }],
+      text: 'HTA mal controlada',
+    });
+    expect(secondary).toMatchObject({ id: `${record.id}-dx-E11.9`, code: { coding: [{ code: 'E11.9' }] } });
+  });
+});
@@ -0,0 +1,50 @@
+import { Request } from 'express';
+import { encodeCursor, InvalidListingError, keysetFilter, ListingOptions, parseListing } from '../services/listing';
+
+describe('Listing parameters', () => {
+  const options: ListingOptions = {
+    sortKeys: { date: ['date', 'startTime'], createdAt: ['createdAt'] },
+    defaultSort: 'date',
+    fields: ['status', 'date', 'patient'],
+    fieldDependencies: { status: ['validUntil'] },
+  };
+  const listingFor = (query: Record<string, string>) => parseListing({ query } as unknown as Request, options);
+
+  it('should apply defaults and whitelist sort keys, limits and fields', () => {
+    expect(listingFor({})).toEqual({
+      sort: 'date',
+      sortFields: [['date', 1], ['startTime', 1], ['_id', 1]],
+      limit: 50,
+      after: undefined,
+      fields: undefined,
+      count: false,
+    });
+    expect(listingFor({ sort: '-createdAt', fields: 'status,patient', count: 'true', limit: '10' })).toMatchObject({
+      sortFields: [['createdAt', -1], ['_id', -1]],
+      fields: ['status', 'validUntil', 'patient'],
+      count: true,
+      limit: 10,
+    });
+
+    expect(() => listingFor({ sort: 'notes' })).toThrow(InvalidListingError);
+    expect(() => listingFor({ limit: '101' })).toThrow('El límite debe estar entre 1 y 100');
+    expect(() => listingFor({ fields: 'status,password' })).toThrow('Campos no disponibles: password');
+  });
+
+  it('should only accept cursors issued for the same sort', () => {
+    const cursor = encodeCursor('-createdAt', ['2024-05-01T10:00:00.000Z', '663a1f0c2f8b4a0012345678']);
+    expect(listingFor({ sort: '-createdAt', cursor }).after).toEqual(['2024-05-01T10:00:00.000Z', '663a1f0c2f8b4a0012345678']);
+    expect(() => listingFor({ sort: 'createdAt', cursor })).toThrow('Cursor inválido');
+    expect(() => listingFor({ sort: '-createdAt', cursor: 'no-es-un-cursor' })).toThrow('Cursor inválido');
+  });
+
+  it('should continue after the last item including ties on earlier keys', () => {
+    expect(keysetFilter([['date', 1], ['startTime', 1], ['_id', 1]], ['2024-05-01', '09:30', 'abc'])).toEqual({
+      $or: [
+        { date: { $gt: '2024-05-01' } },
+        { date: '2024-05-01', startTime: { $gt: '09:30' } },
+        { date: '2024-05-01', startTime: '09:30', _id: { $gt: 'abc' } },
+      ],
+    });
+  });
+});
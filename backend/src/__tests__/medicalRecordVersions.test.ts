@@ -0,0 +1,118 @@
+import request from 'supertest';
+import { app } from '../index';
+import Appointment from '../models/Appointment';
+import MedicalRecord from '../models/MedicalRecord';
+import User from '../models/User';
+import { initialStatusHistory } from '../services/appointmentStatus';
+import { startOfDay } from '../utils/time';
+
+describe('Medical record versions', () => {
+  const password = 'password123';
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({
+      email,
+      password,
+      name: email.split('@')[0],
+      role,
+      documentId,
+      address: 'Calle Falsa 123',
+      phone: '123456789',
+      birthDate: '1990-01-01',
+    }).save();
+
+  const login = async (email: string): Promise<string> => {
+    const response = await request(app).post('/api/auth/login').send({ email, password });
+    return response.body.token;
+  };
+
+  it('should lock signed records and keep amendments in the history', async () => {
+    const patient = await createUser('paciente@example.com', 'patient', 'VER000001');
+    const doctor = await createUser('medico@example.com', 'doctor', 'VER000002');
+    const token = await login('medico@example.com');
+    // El paciente ha pedido cita con el doctor, que así puede escribir en su historia
+    await Appointment.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      date: startOfDay(new Date()),
+      startTime: '10:00',
+      endTime: '10:30',
+      type: 'presencial',
+      reason: 'Resfriado',
+      statusHistory: initialStatusHistory({ id: patient.id, role: 'patient' }),
+    });
+
+    const created = await request(app)
+      .post('/api/medical-records')
+      .set('Authorization', `Bearer ${token}`)
+      .send({
+        patient: patient.id,
+        doctor: doctor.id,
+        type: 'consulta',
+        diagnosis: 'Resfriado',
+        treatment: { medications: [], recommendations: 'Reposo' },
+        vitalSigns: { bloodPressure: '150/95', heartRate: 72 },
+        notes: 'Sin complicaciones',
+      });
+    expect(created.status).toBe(201);
+    expect(created.body.vitalSigns.bloodPressure).toEqual({ systolic: 150, diastolic: 95 });
+    expect(created.body.vitalSignFlags).toEqual([
+      expect.objectContaining({ measure: 'systolic', level: 'anormal', direction: 'alto' }),
+      expect.objectContaining({ measure: 'diastolic', level: 'anormal', direction: 'alto' }),
+    ]);
+    const id = created.body._id;
+
+    const edited = await request(app)
+      .put(`/api/medical-records/${id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ patient: patient.id, doctor: doctor.id, type: 'consulta', diagnosis: 'Gripe' });
+    expect(edited.status).toBe(200);
+    expect(edited.body).toHaveProperty('version', 2);
+
+    const signed = await request(app).post(`/api/medical-records/${id}/sign`).set('Authorization', `Bearer ${token}`);
+    expect(signed.status).toBe(200);
+    expect(signed.body).toHaveProperty('status', 'firmado');
+    const signedAt = new Date();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const locked = await request(app)
+      .put(`/api/medical-records/${id}`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ patient: patient.id, doctor: doctor.id, type: 'consulta', diagnosis: 'Neumonía' });
+    expect(locked.status).toBe(409);
+
+    const amended = await request(app)
+      .post(`/api/medical-records/${id}/amendments`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ reason: 'Resultado de radiografía', changes: { diagnosis: 'Neumonía' } });
+    expect(amended.status).toBe(200);
+    expect(amended.body).toHaveProperty('diagnosis', 'Neumonía');
+
+    const history = await request(app)
+      .get(`/api/medical-records/${id}/versions`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(history.status).toBe(200);
+    expect(history.body.versions.map((version: any) => version.kind)).toEqual([
+      'creacion',
+      'edicion',
+      'firma',
+      'enmienda',
+    ]);
+    const amendment = history.body.versions[3];
+    expect(amendment).toHaveProperty('reason', 'Resultado de radiografía');
+    expect(amendment.changes).toEqual([{ path: 'diagnosis', before: 'Gripe', after: 'Neumonía' }]);
+    expect(amendment.signature).toMatch(/^[a-f0-9]{64}$/);
+
+    const asSigned = await request(app)
+      .get(`/api/medical-records/${id}`)
+      .query({ at: signedAt.toISOString() })
+      .set('Authorization', `Bearer ${token}`);
+    expect(asSigned.status).toBe(200);
+    expect(asSigned.body).toHaveProperty('diagnosis', 'Gripe');
+    expect(asSigned.body).toHaveProperty('version', 3);
+
+    const record = await MedicalRecord.findById(id);
+    record!.diagnosis = 'Otro';
+    await expect(record!.save()).rejects.toThrow(/enmienda/);
+  });
+});
@@ -0,0 +1,43 @@
+import { checkMedicationSafety, findCatalogMedication, searchCatalog } from '../services/medicationSafety';
+
+describe('Medication safety', () => {
+  it('should resolve free-text medications against the catalog', () => {
+    expect(findCatalogMedication('Ibuprofeno 400 mg')?.name).toBe('Ibuprofeno');
+    expect(findCatalogMedication('AMOXICILINA ÁCIDO CLAVULÁNICO 875/125')?.name).toBe('Amoxicilina/Ácido clavulánico');
+    expect(findCatalogMedication('aspirina 100')?.ingredients).toEqual(['acido acetilsalicilico']);
+    expect(findCatalogMedication('Producto desconocido')).toBeUndefined();
+    expect(searchCatalog('losar').map((entry) => entry.name)).toEqual(['Losartán']);
+  });
+
+  it('should block severe allergies, including drug classes', () => {
+    const warnings = checkMedicationSafety(
+      ['Amoxicilina 500 mg', 'Paracetamol 1 g'],
+      [{ substance: 'Penicilinas', severity: 'grave', reaction: 'anafilaxia' }]
+    );
+    expect(warnings).toEqual([
+      expect.objectContaining({ type: 'alergia', medication: 'Amoxicilina 500 mg', severity: 'grave', blocking: true }),
+    ]);
+
+    const mild = checkMedicationSafety(['Aspirina 100 mg'], [{ substance: 'ácido acetilsalicílico', severity: 'leve' }]);
+    expect(mild).toEqual([expect.objectContaining({ type: 'alergia', blocking: false })]);
+  });
+
+  it('should detect interactions and duplicates with active medications', () => {
+    const warnings = checkMedicationSafety(
+      ['Ibuprofeno 600 mg', 'Sildenafil 50 mg'],
+      [],
+      [
+        { name: 'Warfarina 5 mg', source: 'registro', id: 'r1' },
+        { name: 'Nitroglicerina sublingual', source: 'receta', id: 'p1' },
+        { name: 'Advil', source: 'receta', id: 'p2' },
+      ]
+    );
+
+    expect(warnings.map(({ type, medication, conflictsWith, blocking }) => [type, medication, conflictsWith, blocking])).toEqual([
+      ['interaccion', 'Ibuprofeno 600 mg', 'Warfarina 5 mg', true],
+      ['duplicidad', 'Ibuprofeno 600 mg', 'Advil', false],
+      ['interaccion', 'Sildenafil 50 mg', 'Nitroglicerina sublingual', true],
+    ]);
+    expect(warnings[0].activeIn).toEqual({ source: 'registro', id: 'r1' });
+  });
+});
@@ -0,0 +1,75 @@
+import request from 'supertest';
+import { app } from '../index';
+import Appointment from '../models/Appointment';
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { initialStatusHistory } from '../services/appointmentStatus';
+import { notifyAppointmentEvent } from '../services/notifications/notificationService';
+import { addDays, startOfDay } from '../utils/time';
+
+describe('Notifications', () => {
+  const password = 'password123';
+  const profile = {
+    password,
+    address: 'Calle Falsa 123',
+    phone: '123456789',
+    birthDate: '1990-01-01',
+  };
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({ ...profile, email, name: email.split('@')[0], role, documentId }).save();
+
+  const login = async (email: string): Promise<string> =>
+    (await request(app).post('/api/auth/login').send({ email, password })).body.token;
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should only let the cron secret or an admin dispatch the outbox', async () => {
+    process.env.CRON_SECRET = 'secreto-del-cron';
+    await createUser('paciente@example.com', 'patient', 'NOT000001');
+
+    const cron = await request(app)
+      .get('/api/notifications/dispatch')
+      .set('Authorization', 'Bearer secreto-del-cron');
+    expect(cron.status).toBe(200);
+
+    const wrong = await request(app)
+      .get('/api/notifications/dispatch')
+      .set('Authorization', 'Bearer secreto-del-cro');
+    expect(wrong.status).toBe(401);
+
+    const patient = await request(app)
+      .get('/api/notifications/dispatch')
+      .set('Authorization', `Bearer ${await login('paciente@example.com')}`);
+    expect(patient.status).toBe(403);
+  });
+
+  it('should cancel pending reminders once the appointment is completed', async () => {
+    const patient = await createUser('paciente@example.com', 'patient', 'NOT000001');
+    const doctor = await createUser('medico@example.com', 'doctor', 'NOT000002');
+    const appointment = await Appointment.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      date: addDays(startOfDay(new Date()), 3),
+      startTime: '10:00',
+      endTime: '10:30',
+      type: 'presencial',
+      reason: 'Control',
+      status: 'confirmada',
+      statusHistory: initialStatusHistory({ id: patient.id, role: 'patient' }),
+    });
+    await notifyAppointmentEvent(appointment, 'creada');
+    const reminders = { appointment: appointment._id, template: 'recordatorio_cita' };
+    expect(await Notification.countDocuments({ ...reminders, status: 'pendiente' })).toBeGreaterThan(0);
+
+    const response = await request(app)
+      .put(`/api/appointments/${appointment.id}`)
+      .set('Authorization', `Bearer ${await login('medico@example.com')}`)
+      .send({ status: 'completada' });
+    expect(response.status).toBe(200);
+
+    expect(await Notification.countDocuments({ ...reminders, status: 'pendiente' })).toBe(0);
+  });
+});
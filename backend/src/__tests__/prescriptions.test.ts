@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import Prescription from '../models/Prescription';
+import { IUser } from '../models/User';
+import { effectiveStatus, findPharmacy, publicPrescriptionView, renderPrescriptionPdf } from '../services/prescriptionService';
+import { generateVerificationCode, normalizeVerificationCode } from '../utils/tokens';
+
+describe('Prescriptions', () => {
+  const buildPrescription = (validUntil: Date) =>
+    new Prescription({
+      patient: new mongoose.Types.ObjectId(),
+      doctor: new mongoose.Types.ObjectId(),
+      prescriberLicense: 'MP-1234',
+      medications: [{ name: 'Amoxicilina 500 mg', dosage: '1 comprimido', frequency: 'cada 8 horas', duration: '7 días', quantity: '1 caja' }],
+      verificationCode: generateVerificationCode(),
+      issuedAt: new Date('2024-06-01T00:00:00Z'),
+      validUntil,
+    });
+
+  it('should generate codes that survive manual transcription', () => {
+    const code = generateVerificationCode();
+    expect(code).toMatch(/^[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}-[0-9A-HJKMNP-TV-Z]{4}$/);
+    expect(normalizeVerificationCode(code.toLowerCase().replace(/-/g, ' '))).toBe(code);
+    expect(normalizeVerificationCode('abcd-efgh-ijkO')).toBe('ABCD-EFGH-1JK0');
+    expect(normalizeVerificationCode('ABCD-EFGH')).toBeNull();
+    expect(normalizeVerificationCode('ABCD-EFGH-JKMU')).toBeNull();
+  });
+
+  it('should derive the expired status and mask the public view', () => {
+    const expired = buildPrescription(new Date(Date.now() - 1000));
+    const valid = buildPrescription(new Date(Date.now() + 24 * 60 * 60 * 1000));
+    expect(effectiveStatus(expired)).toBe('vencida');
+    expect(effectiveStatus(valid)).toBe('emitida');
+
+    const view = publicPrescriptionView(valid, { name: 'Juan Pérez', documentId: '12345678' } as IUser, null);
+    expect(view.patient).toEqual({ name: 'J. P.', documentId: '*****678' });
+    expect(view.prescriber.licenseNumber).toBe('MP-1234');
+  });
+
+  it('should identify pharmacies by their API key', () => {
+    process.env.PHARMACY_API_KEYS = 'Farmacia Central:clave-1,Farmacia Norte:clave-2';
+    expect(findPharmacy('clave-2')).toEqual({ name: 'Farmacia Norte' });
+    expect(findPharmacy('otra')).toBeNull();
+    expect(findPharmacy(undefined)).toBeNull();
+  });
+
+  it('should render a printable PDF', async () => {
+    const prescription = buildPrescription(new Date(Date.now() + 24 * 60 * 60 * 1000));
+    const pdf = await renderPrescriptionPdf(
+      prescription,
+      { name: 'Juan Pérez', documentId: '12345678', birthDate: new Date('1980-01-01') } as IUser,
+      { name: 'Dra. Ana Gómez', specialty: 'Medicina general' } as IUser
+    );
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+});
@@ -0,0 +1,68 @@
+import { expandRecurrence, MAX_OCCURRENCES, parseRRule } from '../services/recurrence';
+import { formatDate } from '../utils/time';
+
+describe('Recurrence', () => {
+  // 2030-01-07 es lunes
+  const monday = new Date('2030-01-07T00:00:00.000Z');
+
+  describe('parseRRule', () => {
+    it('should parse frequency, interval and count', () => {
+      expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;COUNT=6')).toEqual({
+        frequency: 'WEEKLY',
+        interval: 2,
+        count: 6,
+        until: undefined,
+      });
+    });
+
+    it('should parse UNTIL as a date and default the interval to one', () => {
+      expect(parseRRule('FREQ=DAILY;UNTIL=20300110T000000Z')).toEqual({
+        frequency: 'DAILY',
+        interval: 1,
+        count: undefined,
+        until: new Date('2030-01-10T00:00:00.000Z'),
+      });
+    });
+
+    it('should reject unknown frequencies and invalid values', () => {
+      expect(parseRRule('FREQ=YEARLY;COUNT=2')).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;INTERVAL=0')).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;COUNT=1.5')).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;UNTIL=mañana')).toBeNull();
+      expect(parseRRule('FREQ=WEEKLY;COUNT')).toBeNull();
+    });
+  });
+
+  describe('expandRecurrence', () => {
+    it('should stop after COUNT occurrences', () => {
+      const dates = expandRecurrence(monday, { frequency: 'WEEKLY', interval: 2, count: 3 });
+
+      expect(dates.map(formatDate)).toEqual(['2030-01-07', '2030-01-21', '2030-02-04']);
+    });
+
+    it('should include UNTIL and nothing after it', () => {
+      const dates = expandRecurrence(monday, {
+        frequency: 'DAILY',
+        interval: 1,
+        until: new Date('2030-01-10T00:00:00.000Z'),
+      });
+
+      expect(dates.map(formatDate)).toEqual(['2030-01-07', '2030-01-08', '2030-01-09', '2030-01-10']);
+    });
+
+    it('should cap the number of occurrences', () => {
+      expect(expandRecurrence(monday, { frequency: 'DAILY', interval: 1, count: 500 })).toHaveLength(MAX_OCCURRENCES);
+      expect(expandRecurrence(monday, {
+        frequency: 'DAILY',
+        interval: 1,
+        until: new Date('2040-01-01T00:00:00.000Z'),
+      })).toHaveLength(MAX_OCCURRENCES);
+    });
+
+    it('should skip months without the start day', () => {
+      const dates = expandRecurrence(new Date('2030-01-31T00:00:00.000Z'), { frequency: 'MONTHLY', interval: 1, count: 3 });
+
+      expect(dates.map(formatDate)).toEqual(['2030-01-31', '2030-03-31', '2030-05-31']);
+    });
+  });
+});
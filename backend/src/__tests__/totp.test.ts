@@ -0,0 +1,33 @@
+import { base32Decode, base32Encode, buildOtpauthUri, totpCode, verifyTotp } from '../utils/totp';
+
+// Vectores de prueba del RFC 6238 (SHA1), recortados a 6 dígitos
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  it('should encode and decode base32', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+    expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+  });
+
+  it('should generate the RFC 6238 codes', () => {
+    expect(totpCode(RFC_SECRET, Math.floor(59 / 30))).toBe('287082');
+    expect(totpCode(RFC_SECRET, Math.floor(1111111109 / 30))).toBe('081804');
+    expect(totpCode(RFC_SECRET, Math.floor(1234567890 / 30))).toBe('005924');
+  });
+
+  it('should accept codes from the adjacent step only', () => {
+    const now = 1111111109 * 1000;
+    const step = Math.floor(1111111109 / 30);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), 1, now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), 1, now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), 1, now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abc123', 1, now)).toBeNull();
+  });
+
+  it('should build an otpauth URI', () => {
+    const uri = buildOtpauthUri(RFC_SECRET, 'medico@example.com', 'Gestion Medica');
+    expect(uri).toMatch(/^otpauth:\/\/totp\/Gestion%20Medica%3Amedico%40example\.com\?/);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+  });
+});
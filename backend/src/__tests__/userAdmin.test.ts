@@ -0,0 +1,86 @@
+import request from 'supertest';
+import { app } from '../index';
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { dispatchPendingNotifications } from '../services/notifications/notificationService';
+import { OutgoingMessage, registerTransport } from '../services/notifications/transports';
+
+describe('User administration', () => {
+  const password = 'password123';
+  const profile = {
+    address: 'Calle Falsa 123',
+    phone: '123456789',
+    birthDate: '1990-01-01',
+  };
+
+  const createUser = (email: string, role: string, documentId: string) =>
+    new User({ email, password, name: email.split('@')[0], role, documentId, ...profile }).save();
+
+  const sent: OutgoingMessage[] = [];
+  registerTransport('email', { send: async (message) => { sent.push(message); } });
+
+  const login = (email: string) => request(app).post('/api/auth/login').send({ email, password });
+
+  const adminToken = async (): Promise<string> => {
+    await createUser('admin@example.com', 'admin', 'ADM000001');
+    return (await login('admin@example.com')).body.token;
+  };
+
+  it('should only allow patients to register publicly', async () => {
+    const response = await request(app)
+      .post('/api/auth/register')
+      .send({ email: 'intruso@example.com', password, name: 'Intruso', role: 'admin', documentId: 'ADM000009', ...profile });
+
+    expect(response.status).toBe(400);
+    expect(await User.exists({ email: 'intruso@example.com' })).toBeNull();
+  });
+
+  it('should create staff accounts through single-use invitations', async () => {
+    const token = await adminToken();
+
+    const invited = await request(app)
+      .post('/api/admin/invitations')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ email: 'nueva@example.com', role: 'doctor', name: 'Dra. Nueva', specialty: 'Cardiología', licenseNumber: 'MN-1234' });
+    expect(invited.status).toBe(201);
+    expect(invited.body).toHaveProperty('status', 'pendiente');
+
+    // El enlace solo existe en el correo entregado
+    const queued = await Notification.findOne({ invitation: invited.body._id }).select('+body');
+    expect(queued?.body).toBeUndefined();
+    await dispatchPendingNotifications();
+    const invitationToken = /token=([\w-]+)/.exec(sent[sent.length - 1].body)![1];
+    const account = { token: invitationToken, password, documentId: 'ADM000002', ...profile };
+
+    const accepted = await request(app).post('/api/auth/invitations/accept').send(account);
+    expect(accepted.status).toBe(201);
+    expect(accepted.body.user).toMatchObject({ role: 'doctor', email: 'nueva@example.com', emailVerified: true });
+
+    const reused = await request(app).post('/api/auth/invitations/accept').send({ ...account, documentId: 'ADM000003' });
+    expect(reused.status).toBe(400);
+  });
+
+  it('should block login after deactivation and keep the last admin', async () => {
+    const token = await adminToken();
+    const patient = await createUser('paciente@example.com', 'patient', 'ADM000004');
+    const admin = await User.findOne({ email: 'admin@example.com' });
+
+    const deactivated = await request(app)
+      .post(`/api/admin/users/${patient.id}/deactivate`)
+      .set('Authorization', `Bearer ${token}`);
+    expect(deactivated.status).toBe(200);
+    expect((await login('paciente@example.com')).status).toBe(403);
+
+    const self = await request(app)
+      .patch(`/api/admin/users/${admin!.id}/role`)
+      .set('Authorization', `Bearer ${token}`)
+      .send({ role: 'patient' });
+    expect(self.status).toBe(409);
+
+    const search = await request(app)
+      .get('/api/admin/users?q=paciente&active=false')
+      .set('Authorization', `Bearer ${token}`);
+    expect(search.body.map((user: any) => user.email)).toEqual(['paciente@example.com']);
+    expect(search.body[0]).not.toHaveProperty('password');
+  });
+});
@@ -0,0 +1,30 @@
+import request from 'supertest';
+
+// La entrada de Vercel y su configuración quedan fuera de rootDir, por eso se cargan con require
+const vercelApp = require('../../../api/index').default;
+const { crons } = require('../../../vercel.json') as { crons: { path: string }[] };
+
+describe('Vercel entry point', () => {
+  it('should serve the health check', async () => {
+    const response = await request(vercelApp).get('/api/health');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toHaveProperty('status', 'ok');
+  });
+
+  it('should route the outbox cron to the application', async () => {
+    // Sin el secreto del cron llega a cronOrAdmin, que pide autenticación
+    const response = await request(vercelApp).get('/api/notifications/dispatch');
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should route every scheduled job to an endpoint guarded by cronOrAdmin', async () => {
+    expect(crons.map((cron) => cron.path)).toContain('/api/imports/process');
+
+    for (const cron of crons) {
+      const response = await request(vercelApp).get(cron.path);
+      expect(response.status).toBe(401);
+    }
+  });
+});
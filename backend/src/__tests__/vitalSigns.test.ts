@@ -0,0 +1,40 @@
+import { summarizeSeries } from '../services/vitalSignsService';
+import { ageAt, ageGroup, evaluateVitalSigns } from '../utils/vitalSigns';
+
+describe('Vital signs', () => {
+  const at = new Date('2024-06-01T00:00:00Z');
+
+  it('should use age-aware reference ranges', () => {
+    expect(ageAt(new Date('2020-06-02'), at)).toBe(3);
+    expect(ageGroup(3)).toBe('preescolar');
+
+    // 120 lpm es normal en un niño de 3 años y anormal en un adulto
+    expect(evaluateVitalSigns({ heartRate: 120 }, new Date('2020-06-02'), at)).toEqual([]);
+    expect(evaluateVitalSigns({ heartRate: 120 }, new Date('1980-01-01'), at)).toEqual([
+      { measure: 'heartRate', value: 120, level: 'anormal', direction: 'alto', low: 60, high: 100 },
+    ]);
+  });
+
+  it('should flag critical values', () => {
+    const flags = evaluateVitalSigns(
+      { bloodPressure: { systolic: 190, diastolic: 85 }, oxygenSaturation: 86, temperature: 36.8 },
+      new Date('1960-03-15'),
+      at
+    );
+    expect(flags.map(({ measure, level, direction }) => [measure, level, direction])).toEqual([
+      ['systolic', 'critico', 'alto'],
+      ['oxygenSaturation', 'critico', 'bajo'],
+    ]);
+  });
+
+  it('should summarize trends between visits', () => {
+    const point = (value: number, day: number) => ({ date: new Date(2024, 0, day), record: day, value });
+    const summary = summarizeSeries({
+      heartRate: [point(80, 1), point(96, 15)],
+      temperature: [point(36.9, 1), point(37.1, 15)],
+    });
+
+    expect(summary.heartRate).toMatchObject({ count: 2, change: 16, trend: 'sube', min: 80, max: 96, average: 88 });
+    expect(summary.temperature).toMatchObject({ change: 0.2, trend: 'estable' });
+  });
+});
@@ -0,0 +1,100 @@
+import request from 'supertest';
+import { app } from '../index';
+import SlotOffer from '../models/SlotOffer';
+import User from '../models/User';
+import WaitlistEntry from '../models/WaitlistEntry';
+import { offerSlot } from '../services/waitlistService';
+
+describe('Waitlist', () => {
+  // 2030-01-07 es lunes
+  const monday = new Date('2030-01-07T00:00:00.000Z');
+  const profile = {
+    password: 'password123',
+    address: 'Calle Falsa 123',
+    phone: '123456789',
+    birthDate: '1990-01-01',
+  };
+
+  const setup = async () => {
+    const doctor = await new User({
+      ...profile,
+      email: 'medico@example.com',
+      name: 'medico',
+      role: 'doctor',
+      documentId: 'WTL000001',
+      schedule: [{ day: 'Lunes', startTime: '08:00', endTime: '10:00' }],
+    }).save();
+    const patient = await new User({
+      ...profile,
+      email: 'paciente@example.com',
+      name: 'paciente',
+      role: 'patient',
+      documentId: 'WTL000002',
+    }).save();
+    const entry = await WaitlistEntry.create({
+      patient: patient._id,
+      doctor: doctor._id,
+      preferredFrom: monday,
+      preferredTo: monday,
+      type: 'presencial',
+      createdBy: patient._id,
+    });
+    return { doctor, entry };
+  };
+
+  const slot = (doctor: any, startTime: string, endTime: string) => ({
+    doctor: doctor._id,
+    date: monday,
+    startTime,
+    endTime,
+    type: 'presencial' as const,
+  });
+
+  afterEach(() => {
+    delete process.env.CRON_SECRET;
+  });
+
+  it('should offer concurrent freed slots to an entry only once', async () => {
+    const { doctor, entry } = await setup();
+
+    const offers = await Promise.all([
+      offerSlot(slot(doctor, '08:00', '08:30')),
+      offerSlot(slot(doctor, '09:00', '09:30')),
+    ]);
+
+    expect(offers.filter(Boolean)).toHaveLength(1);
+    expect(await SlotOffer.countDocuments({ entry: entry._id })).toBe(1);
+    expect((await WaitlistEntry.findById(entry._id))!.status).toBe('ofertada');
+  });
+
+  it('should not release expired offers when listing them', async () => {
+    const { doctor } = await setup();
+    const offer = await offerSlot(slot(doctor, '08:00', '08:30'));
+    await SlotOffer.updateOne({ _id: offer!._id }, { expiresAt: new Date(Date.now() - 1000) });
+    const login = await request(app).post('/api/auth/login').send({ email: 'paciente@example.com', password: profile.password });
+
+    const response = await request(app)
+      .get('/api/waitlist/offers')
+      .set('Authorization', `Bearer ${login.body.token}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual([]);
+    expect((await SlotOffer.findById(offer!._id))!.status).toBe('pendiente');
+  });
+
+  it('should expire offers from the scheduled job', async () => {
+    process.env.CRON_SECRET = 'secreto-del-cron';
+    const { doctor, entry } = await setup();
+    const offer = await offerSlot(slot(doctor, '08:00', '08:30'));
+    await SlotOffer.updateOne({ _id: offer!._id }, { expiresAt: new Date(Date.now() - 1000) });
+
+    const response = await request(app)
+      .get('/api/waitlist/offers/expire')
+      .set('Authorization', 'Bearer secreto-del-cron');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ expired: 1 });
+    expect((await SlotOffer.findById(offer!._id))!.status).toBe('expirada');
+    expect((await WaitlistEntry.findById(entry._id))!.status).toBe('activa');
+  });
+});
@@ -0,0 +1,28 @@
+// Configuración de autenticación. El secreto de los JWT es obligatorio: solo en
+// las pruebas se permite un valor por defecto.
+
+export const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (secret) {
+    return secret;
+  }
+  if (process.env.NODE_ENV === 'test') {
+    return 'jwt-secret-de-pruebas';
+  }
+  throw new Error('JWT_SECRET no está definida en las variables de entorno');
+};
+
+// Validez del token intermedio entre el paso de contraseña y el segundo factor
+export const CHALLENGE_TOKEN_TTL = process.env.CHALLENGE_TOKEN_TTL || '5m';
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'Gestion Medica';
+
+// Roles que no pueden iniciar sesión sin segundo factor (p. ej. "admin,doctor")
+export const TWO_FACTOR_REQUIRED_ROLES = (process.env.TWO_FACTOR_REQUIRED_ROLES || '')
+  .split(',')
+  .map((role) => role.trim())
+  .filter(Boolean);
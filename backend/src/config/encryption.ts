@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+
+// Claves para el cifrado de campos. ENCRYPTION_KEYS es una lista "id:clave" separada
+// por comas, con claves de 32 bytes en base64; ENCRYPTION_ACTIVE_KEY indica con cuál
+// se cifra (por defecto, la última). Las anteriores se conservan para poder descifrar
+// hasta que se ejecute la rotación. BLIND_INDEX_KEY se usa para los índices ciegos.
+
+export interface Keyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+  blindIndexKey: Buffer;
+}
+
+// Solo en las pruebas se permiten claves por defecto
+const testKey = (label: string): string => crypto.createHash('sha256').update(label).digest('base64');
+
+const parseKey = (value: string, name: string): Buffer => {
+  const key = Buffer.from(value, 'base64');
+  if (key.length !== 32) {
+    throw new Error(`${name} debe ser una clave de 32 bytes en base64`);
+  }
+  return key;
+};
+
+let keyring: Keyring | undefined;
+
+export const getKeyring = (): Keyring => {
+  if (keyring) return keyring;
+
+  const isTest = process.env.NODE_ENV === 'test';
+  const keyList = process.env.ENCRYPTION_KEYS || (isTest ? `test:${testKey('claves-de-pruebas')}` : '');
+  const blindIndexKey = process.env.BLIND_INDEX_KEY || (isTest ? testKey('indice-ciego-de-pruebas') : '');
+  if (!keyList || !blindIndexKey) {
+    throw new Error('ENCRYPTION_KEYS y BLIND_INDEX_KEY deben estar definidas en las variables de entorno');
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of keyList.split(',').map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    if (separator <= 0 || !/^[\w-]+$/.test(id)) {
+      throw new Error(`Entrada inválida en ENCRYPTION_KEYS: se esperaba "id:clave"`);
+    }
+    keys.set(id, parseKey(entry.slice(separator + 1), `La clave ${id}`));
+  }
+
+  const activeKeyId = process.env.ENCRYPTION_ACTIVE_KEY || [...keys.keys()].pop()!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`La clave activa ${activeKeyId} no está en ENCRYPTION_KEYS`);
+  }
+
+  keyring = { activeKeyId, keys, blindIndexKey: parseKey(blindIndexKey, 'BLIND_INDEX_KEY') };
+  return keyring;
+};
+
+// Permite recargar las claves (p. ej. en pruebas que cambian las variables de entorno)
+export const resetKeyring = (): void => {
+  keyring = undefined;
+};
@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import User, { IAllergy, IUser } from '../models/User';
+import { canAccessPatient } from '../services/accessControl';
+import { recordAudit } from '../services/auditService';
+import { foldText } from '../utils/text';
+
+const RESOURCE_TYPE = 'Allergy';
+
+// Paciente cuyas alergias se consultan o modifican, si el usuario tiene acceso a él.
+// El propio paciente puede mantener su lista; los doctores, si lo atienden.
+const loadPatient = async (req: Request, res: Response) => {
+  const patient = await User.findOne({ _id: req.params.patientId, role: 'patient' }).select('name allergies');
+  if (!patient) {
+    res.status(404).json({ message: 'Paciente no encontrado' });
+    return null;
+  }
+
+  if (!(await canAccessPatient(req.user!, patient._id))) {
+    await recordAudit(req, {
+      action: req.method === 'GET' ? 'lectura' : 'actualizacion',
+      resourceType: RESOURCE_TYPE,
+      patients: [patient._id],
+      outcome: 'denegado'
+    });
+    res.status(403).json({ message: 'No tienes permiso para acceder a las alergias de este paciente' });
+    return null;
+  }
+
+  return patient;
+};
+
+// Alergia descifrada tal como se devuelve en la respuesta
+const serializeAllergy = (patient: IUser, allergyId: string) =>
+  patient.toJSON().allergies?.find((item: IAllergy) => String(item._id) === allergyId);
+
+export const getAllergies = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = await loadPatient(req, res);
+    if (!patient) return;
+
+    await recordAudit(req, {
+      action: 'lectura',
+      resourceType: RESOURCE_TYPE,
+      patients: [patient._id],
+      outcome: 'exito'
+    });
+    res.json(patient.toJSON().allergies || []);
+  } catch (error) {
+    console.error('Error al obtener alergias:', error);
+    res.status(500).json({ message: 'Error al obtener las alergias' });
+  }
+};
+
+export const addAllergy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = await loadPatient(req, res);
+    if (!patient) return;
+
+    const { substance, reaction, severity } = req.body;
+    const duplicate = (patient.allergies || []).some(
+      (allergy) => foldText(allergy.substance) === foldText(substance)
+    );
+    if (duplicate) {
+      res.status(409).json({ message: 'La alergia ya está registrada' });
+      return;
+    }
+
+    const entry = {
+      substance,
+      reaction,
+      severity,
+      notedAt: new Date(),
+      notedBy: new mongoose.Types.ObjectId(req.user!.id)
+    };
+    patient.allergies = [...(patient.allergies || []), entry as IAllergy];
+    await patient.save();
+
+    const allergy = patient.allergies[patient.allergies.length - 1];
+    await recordAudit(req, {
+      action: 'creacion',
+      resourceType: RESOURCE_TYPE,
+      resource: allergy._id,
+      patients: [patient._id],
+      outcome: 'exito'
+    });
+    res.status(201).json(serializeAllergy(patient, String(allergy._id)));
+  } catch (error) {
+    console.error('Error al registrar alergia:', error);
+    res.status(500).json({ message: 'Error al registrar la alergia' });
+  }
+};
+
+export const updateAllergy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = await loadPatient(req, res);
+    if (!patient) return;
+
+    const allergy = (patient.allergies || []).find((item) => String(item._id) === req.params.allergyId);
+    if (!allergy) {
+      res.status(404).json({ message: 'Alergia no encontrada' });
+      return;
+    }
+
+    const { substance, reaction, severity } = req.body;
+    if (substance !== undefined) allergy.substance = substance;
+    if (reaction !== undefined) allergy.reaction = reaction;
+    if (severity !== undefined) allergy.severity = severity;
+    await patient.save();
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: RESOURCE_TYPE,
+      resource: allergy._id,
+      patients: [patient._id],
+      outcome: 'exito'
+    });
+    res.json(serializeAllergy(patient, req.params.allergyId));
+  } catch (error) {
+    console.error('Error al actualizar alergia:', error);
+    res.status(500).json({ message: 'Error al actualizar la alergia' });
+  }
+};
+
+export const deleteAllergy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = await loadPatient(req, res);
+    if (!patient) return;
+
+    const allergies = patient.allergies || [];
+    if (!allergies.some((item) => String(item._id) === req.params.allergyId)) {
+      res.status(404).json({ message: 'Alergia no encontrada' });
+      return;
+    }
+
+    patient.allergies = allergies.filter((item) => String(item._id) !== req.params.allergyId);
+    await patient.save();
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: RESOURCE_TYPE,
+      resource: req.params.allergyId,
+      patients: [patient._id],
+      outcome: 'exito',
+      details: { removed: true }
+    });
+    res.json({ message: 'Alergia eliminada' });
+  } catch (error) {
+    console.error('Error al eliminar alergia:', error);
+    res.status(500).json({ message: 'Error al eliminar la alergia' });
+  }
+};
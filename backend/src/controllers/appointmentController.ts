@@ -2,6 +2,25 @@ import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import Appointment, { IAppointment } from '../models/Appointment';
 import User from '../models/User';
+import { BookingLockTimeoutError, reserveSlot } from '../services/availabilityService';
+import {
+  applyStatusTransition,
+  initialStatusHistory,
+  invalidTransitionResponse,
+  isFinalStatus,
+} from '../services/appointmentStatus';
+import { recordAudit } from '../services/auditService';
+import { appointmentToEvent, buildCalendar, counterpartName } from '../services/icalendar';
+import { paginate } from '../services/listing';
+import {
+  assessPrescribing,
+  medicationNames,
+  safetyAuditDetails,
+  safetyBlockedResponse,
+} from '../services/medicationSafety';
+import { notifyAppointmentEvent, refreshAppointmentReminders } from '../services/notifications/notificationService';
+import { offerFreedSlot } from '../services/waitlistService';
+import { startOfDay } from '../utils/time';
 
 export const createAppointment = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -11,7 +30,7 @@ export const createAppointment = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    const { patientId, doctorId, date, time, type, notes } = req.body;
+    const { patientId, doctorId, date, startTime, endTime, type, reason, meetingUrl, notes } = req.body;
 
     // Verificar si el paciente existe
     const patient = await User.findOne({ _id: patientId, role: 'patient' });
@@ -31,36 +50,36 @@ export const createAppointment = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Verificar disponibilidad
-    const existingAppointment = await Appointment.findOne({
-      doctor: doctorId,
-      date,
-      time,
-      status: { $ne: 'cancelled' }
-    });
+    // Verificar disponibilidad y crear la cita bajo el bloqueo de la agenda
+    const day = startOfDay(date);
+    const { result: appointment, conflict } = await reserveSlot(doctor, day, startTime, endTime, () =>
+      Appointment.create({
+        patient: patientId,
+        doctor: doctorId,
+        date: day,
+        startTime,
+        endTime,
+        type,
+        reason,
+        meetingUrl,
+        notes,
+        status: 'pendiente',
+        statusHistory: initialStatusHistory(req.user!)
+      })
+    );
 
-    if (existingAppointment) {
-      res.status(400).json({
-        message: 'El doctor ya tiene una cita programada en ese horario'
-      });
+    if (conflict) {
+      res.status(409).json({ message: conflict });
       return;
     }
 
-    // Crear la cita
-    const appointment = new Appointment({
-      patient: patientId,
-      doctor: doctorId,
-      date,
-      time,
-      type,
-      notes,
-      status: 'scheduled'
-    });
-
-    await appointment.save();
-
+    await notifyAppointmentEvent(appointment!, 'creada');
     res.status(201).json(appointment);
   } catch (error) {
+    if (error instanceof BookingLockTimeoutError) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
     console.error('Error al crear cita:', error);
     res.status(500).json({ message: 'Error en el servidor' });
   }
@@ -92,10 +111,13 @@ export const getAppointments = async (req: Request, res: Response): Promise<void
       query.doctor = req.user!.id;
     }
 
-    const appointments = await Appointment.find(query)
-      .populate('patient', 'name documentId')
-      .populate('doctor', 'name specialty')
-      .sort({ date: 1, startTime: 1 });
+    const appointments = await paginate(
+      Appointment.find(query)
+        .populate('patient', 'name documentId')
+        .populate('doctor', 'name specialty'),
+      req,
+      res
+    );
 
     res.json(appointments);
   } catch (error) {
@@ -128,6 +150,18 @@ export const getAppointmentById = async (req: Request, res: Response): Promise<v
       return;
     }
 
+    // Descarga de la cita como archivo .ics
+    if (req.query.format === 'ics' || req.accepts(['json', 'text/calendar']) === 'text/calendar') {
+      const event = appointmentToEvent(appointment, {
+        counterpart: counterpartName(appointment, req.user!.id),
+        includeReason: true,
+      });
+      res.set('Content-Type', 'text/calendar; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="cita-${appointment._id}.ics"`);
+      res.send(buildCalendar([event]));
+      return;
+    }
+
     res.json(appointment);
   } catch (error) {
     console.error('Error al obtener cita:', error);
@@ -168,24 +202,115 @@ export const updateAppointment = async (req: Request, res: Response): Promise<vo
       endTime,
       type,
       status,
+      meetingUrl,
       notes,
       diagnosis,
+      diagnosisCodes,
       prescription,
     } = req.body;
 
+    const isReschedule = Boolean(date || startTime || endTime);
+    if (isReschedule && isFinalStatus(appointment.status)) {
+      res.status(409).json({
+        message: `No se puede reprogramar una cita en estado '${appointment.status}'`,
+      });
+      return;
+    }
+
+    // La prescripción se comprueba frente a las alergias y la medicación activa del paciente
+    const { safetyOverrideReason } = req.body;
+    const safety = await assessPrescribing(
+      appointment.patient,
+      medicationNames(prescription?.medications),
+      safetyOverrideReason
+    );
+    if (safety.blocked) {
+      res.status(409).json(safetyBlockedResponse(safety.warnings));
+      return;
+    }
+
+    // Los cambios de estado pasan por la máquina de estados
+    const previousStatus = appointment.status;
+    if (status && status !== appointment.status) {
+      if (!applyStatusTransition(appointment, status, req.user!, req.body.reason)) {
+        res.status(409).json(invalidTransitionResponse(appointment, status, role));
+        return;
+      }
+    }
+
     // Actualizar solo los campos proporcionados
-    if (date) appointment.date = date;
-    if (startTime) appointment.startTime = startTime;
-    if (endTime) appointment.endTime = endTime;
     if (type) appointment.type = type;
-    if (status) appointment.status = status;
+    if (meetingUrl) appointment.meetingUrl = meetingUrl;
     if (notes) appointment.notes = notes;
     if (diagnosis) appointment.diagnosis = diagnosis;
+    if (diagnosisCodes) appointment.diagnosisCodes = diagnosisCodes;
     if (prescription) appointment.prescription = prescription;
 
-    await appointment.save();
-    res.json(appointment);
+    // Un cambio de horario se valida contra la agenda igual que una reserva nueva
+    if (isReschedule) {
+      const doctor = await User.findById(appointment.doctor);
+      if (!doctor) {
+        res.status(404).json({ message: 'Doctor no encontrado' });
+        return;
+      }
+
+      const day = startOfDay(date || appointment.date);
+      const { conflict } = await reserveSlot(
+        doctor,
+        day,
+        startTime || appointment.startTime,
+        endTime || appointment.endTime,
+        () => {
+          appointment.date = day;
+          if (startTime) appointment.startTime = startTime;
+          if (endTime) appointment.endTime = endTime;
+          return appointment.save();
+        },
+        { appointment: appointment._id }
+      );
+
+      if (conflict) {
+        res.status(409).json({ message: conflict });
+        return;
+      }
+    } else {
+      await appointment.save();
+    }
+
+    if (appointment.status !== previousStatus && appointment.status === 'cancelada') {
+      await notifyAppointmentEvent(appointment, 'cancelada', req.body.reason);
+      try {
+        await offerFreedSlot(appointment);
+      } catch (error) {
+        console.error('Error al ofrecer hueco a la lista de espera:', error);
+      }
+    } else if (appointment.status !== previousStatus && isFinalStatus(appointment.status)) {
+      // Una cita completada o a la que no se asistió ya no necesita recordatorios
+      await refreshAppointmentReminders(appointment);
+    } else if (isReschedule) {
+      await notifyAppointmentEvent(appointment, 'reprogramada');
+    } else if (appointment.status !== previousStatus && appointment.status === 'confirmada') {
+      await notifyAppointmentEvent(appointment, 'confirmada');
+    }
+
+    const overrideDetails = safetyAuditDetails(safety, safetyOverrideReason);
+    if (overrideDetails.safetyOverride) {
+      await recordAudit(req, {
+        action: 'actualizacion',
+        resourceType: 'Appointment',
+        resource: appointment._id,
+        patients: [appointment.patient],
+        outcome: 'exito',
+        details: overrideDetails,
+      });
+    }
+
+    res.json(prescription ? { ...appointment.toJSON(), safetyWarnings: safety.warnings } : appointment);
   } catch (error) {
+    if (error instanceof BookingLockTimeoutError) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
     console.error('Error al actualizar cita:', error);
     res.status(500).json({ message: 'Error al actualizar la cita', error });
   }
@@ -213,11 +338,58 @@ export const cancelAppointment = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    appointment.status = 'cancelada';
+    if (!applyStatusTransition(appointment, 'cancelada', req.user!, req.body.reason)) {
+      res.status(409).json(invalidTransitionResponse(appointment, 'cancelada', role));
+      return;
+    }
+
     await appointment.save();
+    await notifyAppointmentEvent(appointment, 'cancelada', req.body.reason);
+
+    // El hueco liberado se ofrece a la lista de espera sin afectar a la cancelación
+    try {
+      await offerFreedSlot(appointment);
+    } catch (error) {
+      console.error('Error al ofrecer hueco a la lista de espera:', error);
+    }
+
     res.json({ message: 'Cita cancelada exitosamente' });
   } catch (error) {
     console.error('Error al cancelar cita:', error);
     res.status(500).json({ message: 'Error al cancelar la cita', error });
   }
-}; 
\ No newline at end of file
+}; 
+export const getAppointmentHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const appointment = await Appointment.findById(req.params.id)
+      .select('patient doctor status statusHistory')
+      .populate('statusHistory.changedBy', 'name role');
+
+    if (!appointment) {
+      res.status(404).json({ message: 'Cita no encontrada' });
+      return;
+    }
+
+    // Verificar permisos
+    const { role } = req.user!;
+    if (
+      role !== 'admin' &&
+      appointment.patient.toString() !== req.user!.id &&
+      appointment.doctor.toString() !== req.user!.id
+    ) {
+      res.status(403).json({
+        message: 'No tiene permisos para ver esta cita',
+      });
+      return;
+    }
+
+    res.json({
+      appointment: appointment._id,
+      status: appointment.status,
+      history: appointment.statusHistory,
+    });
+  } catch (error) {
+    console.error('Error al obtener historial de cita:', error);
+    res.status(500).json({ message: 'Error al obtener el historial de la cita', error });
+  }
+};
@@ -0,0 +1,356 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import Appointment, { IAppointment } from '../models/Appointment';
+import AppointmentSeries, { IAppointmentSeries, IRecurrenceRule } from '../models/AppointmentSeries';
+import User from '../models/User';
+import {
+  BookingLockTimeoutError,
+  findSlotConflict,
+  reserveSlot,
+} from '../services/availabilityService';
+import {
+  applyStatusTransition,
+  initialStatusHistory,
+  isFinalStatus,
+} from '../services/appointmentStatus';
+import { expandRecurrence, parseRRule } from '../services/recurrence';
+import {
+  notifySeriesEvent,
+  refreshAppointmentReminders,
+} from '../services/notifications/notificationService';
+import { offerFreedSlot } from '../services/waitlistService';
+import { addDays, formatDate, startOfDay } from '../utils/time';
+
+type SeriesScope = 'this' | 'following' | 'all';
+
+interface OccurrenceResult {
+  date: string;
+  status: 'creada' | 'conflicto';
+  appointment?: unknown;
+  reason?: string;
+}
+
+const canViewSeries = (series: IAppointmentSeries, user: Express.Request['user']): boolean =>
+  user!.role === 'admin' ||
+  series.patient.toString() === user!.id ||
+  series.doctor.toString() === user!.id;
+
+// Citas de la serie afectadas por una operación según el alcance indicado.
+// Las citas en estado final nunca se modifican.
+const findScopedOccurrences = async (
+  series: IAppointmentSeries,
+  scope: SeriesScope,
+  anchor?: IAppointment | null
+): Promise<IAppointment[]> => {
+  if (scope === 'this') {
+    return anchor && !isFinalStatus(anchor.status) ? [anchor] : [];
+  }
+
+  const query: any = { series: series._id };
+  if (scope === 'following') {
+    query.date = { $gte: anchor!.date };
+  }
+
+  const occurrences = await Appointment.find(query).sort({ date: 1 });
+  return occurrences.filter((occurrence) => !isFinalStatus(occurrence.status));
+};
+
+const loadAnchor = async (
+  series: IAppointmentSeries,
+  scope: SeriesScope,
+  appointmentId?: string
+): Promise<IAppointment | null | undefined> => {
+  if (scope === 'all') return undefined;
+  return Appointment.findOne({ _id: appointmentId, series: series._id });
+};
+
+export const createAppointmentSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { patientId, doctorId, startDate, startTime, endTime, type, reason, notes } = req.body;
+    const dryRun = req.query.dryRun === 'true';
+
+    const recurrence: IRecurrenceRule | null = typeof req.body.recurrence === 'string'
+      ? parseRRule(req.body.recurrence)
+      : req.body.recurrence;
+
+    if (!recurrence || (!recurrence.count && !recurrence.until)) {
+      res.status(400).json({ message: 'La regla de recurrencia debe indicar la frecuencia y COUNT o UNTIL' });
+      return;
+    }
+
+    // Verificar si el paciente existe
+    const patient = await User.findOne({ _id: patientId, role: 'patient' });
+    if (!patient) {
+      res.status(404).json({ message: 'Paciente no encontrado' });
+      return;
+    }
+
+    // Verificar si el doctor existe
+    const doctor = await User.findOne({ _id: doctorId, role: 'doctor' });
+    if (!doctor) {
+      res.status(404).json({ message: 'Doctor no encontrado' });
+      return;
+    }
+
+    const dates = expandRecurrence(startOfDay(startDate), recurrence);
+
+    if (dryRun) {
+      const occurrences: OccurrenceResult[] = [];
+      for (const date of dates) {
+        const conflict = await findSlotConflict(doctor, date, startTime, endTime);
+        occurrences.push(conflict
+          ? { date: formatDate(date), status: 'conflicto', reason: conflict }
+          : { date: formatDate(date), status: 'creada' });
+      }
+      res.json({ dryRun: true, occurrences });
+      return;
+    }
+
+    const series = await AppointmentSeries.create({
+      patient: patientId,
+      doctor: doctorId,
+      startDate: startOfDay(startDate),
+      startTime,
+      endTime,
+      type,
+      reason,
+      notes,
+      recurrence,
+      createdBy: req.user!.id,
+    });
+
+    // Cada ocurrencia se reserva por separado: las que chocan se informan y no se crean
+    const occurrences: OccurrenceResult[] = [];
+    for (const [index, date] of dates.entries()) {
+      try {
+        const { result, conflict } = await reserveSlot(doctor, date, startTime, endTime, () =>
+          Appointment.create({
+            patient: patientId,
+            doctor: doctorId,
+            date,
+            startTime,
+            endTime,
+            type,
+            reason,
+            notes,
+            series: series._id,
+            seriesIndex: index,
+            status: 'pendiente',
+            statusHistory: initialStatusHistory(req.user!),
+          })
+        );
+        if (result) {
+          await refreshAppointmentReminders(result);
+        }
+        occurrences.push(conflict
+          ? { date: formatDate(date), status: 'conflicto', reason: conflict }
+          : { date: formatDate(date), status: 'creada', appointment: result!._id });
+      } catch (error) {
+        if (!(error instanceof BookingLockTimeoutError)) throw error;
+        occurrences.push({ date: formatDate(date), status: 'conflicto', reason: error.message });
+      }
+    }
+
+    if (!occurrences.some((occurrence) => occurrence.status === 'creada')) {
+      await series.deleteOne();
+      res.status(409).json({
+        message: 'Ninguna ocurrencia de la serie está disponible',
+        occurrences,
+      });
+      return;
+    }
+
+    const created = occurrences.filter((occurrence) => occurrence.status === 'creada').length;
+    await notifySeriesEvent(series, 'creada', created);
+
+    res.status(201).json({ series, occurrences });
+  } catch (error) {
+    console.error('Error al crear serie de citas:', error);
+    res.status(500).json({ message: 'Error al crear la serie de citas' });
+  }
+};
+
+export const getAppointmentSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const series = await AppointmentSeries.findById(req.params.id)
+      .populate('patient', 'name documentId')
+      .populate('doctor', 'name specialty');
+
+    if (!series) {
+      res.status(404).json({ message: 'Serie de citas no encontrada' });
+      return;
+    }
+
+    if (!canViewSeries(series, req.user)) {
+      res.status(403).json({ message: 'No tiene permisos para ver esta serie de citas' });
+      return;
+    }
+
+    const occurrences = await Appointment.find({ series: series._id }).sort({ date: 1 });
+    res.json({ series, occurrences });
+  } catch (error) {
+    console.error('Error al obtener serie de citas:', error);
+    res.status(500).json({ message: 'Error al obtener la serie de citas' });
+  }
+};
+
+export const updateAppointmentSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const series = await AppointmentSeries.findById(req.params.id);
+    if (!series) {
+      res.status(404).json({ message: 'Serie de citas no encontrada' });
+      return;
+    }
+
+    if (req.user!.role !== 'admin' && series.doctor.toString() !== req.user!.id) {
+      res.status(403).json({ message: 'No tiene permisos para modificar esta serie de citas' });
+      return;
+    }
+
+    const { scope, appointmentId, startTime, endTime, type, notes, reason } = req.body;
+    const anchor = await loadAnchor(series, scope, appointmentId);
+    if (anchor === null) {
+      res.status(404).json({ message: 'La cita indicada no pertenece a la serie' });
+      return;
+    }
+
+    const doctor = await User.findById(series.doctor);
+    if (!doctor) {
+      res.status(404).json({ message: 'Doctor no encontrado' });
+      return;
+    }
+
+    const targets = await findScopedOccurrences(series, scope, anchor);
+    const updated: unknown[] = [];
+    const conflicts: { appointment: unknown; date: string; reason: string }[] = [];
+
+    for (const occurrence of targets) {
+      if (type) occurrence.type = type;
+      if (notes) occurrence.notes = notes;
+      if (reason) occurrence.reason = reason;
+
+      if (startTime || endTime) {
+        try {
+          const { conflict } = await reserveSlot(
+            doctor,
+            occurrence.date,
+            startTime || occurrence.startTime,
+            endTime || occurrence.endTime,
+            () => {
+              if (startTime) occurrence.startTime = startTime;
+              if (endTime) occurrence.endTime = endTime;
+              return occurrence.save();
+            },
+            { appointment: occurrence._id }
+          );
+          if (conflict) {
+            conflicts.push({ appointment: occurrence._id, date: formatDate(occurrence.date), reason: conflict });
+            continue;
+          }
+        } catch (error) {
+          if (!(error instanceof BookingLockTimeoutError)) throw error;
+          conflicts.push({ appointment: occurrence._id, date: formatDate(occurrence.date), reason: error.message });
+          continue;
+        }
+      } else {
+        await occurrence.save();
+      }
+      if (startTime || endTime) {
+        await refreshAppointmentReminders(occurrence);
+      }
+      updated.push(occurrence._id);
+    }
+
+    // Los cambios que afectan al resto de la serie también actualizan la plantilla
+    if (scope !== 'this') {
+      if (startTime) series.startTime = startTime;
+      if (endTime) series.endTime = endTime;
+      if (type) series.type = type;
+      if (notes) series.notes = notes;
+      if (reason) series.reason = reason;
+      await series.save();
+    }
+
+    await notifySeriesEvent(series, 'modificada', updated.length);
+
+    res.json({ series, updated, conflicts });
+  } catch (error) {
+    console.error('Error al actualizar serie de citas:', error);
+    res.status(500).json({ message: 'Error al actualizar la serie de citas' });
+  }
+};
+
+export const cancelAppointmentSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const series = await AppointmentSeries.findById(req.params.id);
+    if (!series) {
+      res.status(404).json({ message: 'Serie de citas no encontrada' });
+      return;
+    }
+
+    if (!canViewSeries(series, req.user)) {
+      res.status(403).json({ message: 'No tiene permisos para cancelar esta serie de citas' });
+      return;
+    }
+
+    const { scope, appointmentId, reason } = req.body;
+    const anchor = await loadAnchor(series, scope, appointmentId);
+    if (anchor === null) {
+      res.status(404).json({ message: 'La cita indicada no pertenece a la serie' });
+      return;
+    }
+
+    const targets = await findScopedOccurrences(series, scope, anchor);
+    const cancelled: unknown[] = [];
+    const skipped: { appointment: unknown; status: string }[] = [];
+
+    for (const occurrence of targets) {
+      if (applyStatusTransition(occurrence, 'cancelada', req.user!, reason)) {
+        await occurrence.save();
+        await refreshAppointmentReminders(occurrence);
+        cancelled.push(occurrence._id);
+        try {
+          await offerFreedSlot(occurrence);
+        } catch (error) {
+          console.error('Error al ofrecer hueco a la lista de espera:', error);
+        }
+      } else {
+        skipped.push({ appointment: occurrence._id, status: occurrence.status });
+      }
+    }
+
+    // La serie deja de repetirse a partir de la ocurrencia cancelada
+    if (scope === 'all') {
+      series.status = 'cancelada';
+      await series.save();
+    } else if (scope === 'following') {
+      series.recurrence.until = addDays(anchor!.date, -1);
+      await series.save();
+    }
+
+    await notifySeriesEvent(series, 'cancelada', cancelled.length, reason);
+
+    res.json({ series, cancelled, skipped });
+  } catch (error) {
+    console.error('Error al cancelar serie de citas:', error);
+    res.status(500).json({ message: 'Error al cancelar la serie de citas' });
+  }
+};
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import AuditLog from '../models/AuditLog';
+import { paginate } from '../services/listing';
+
+export const getAuditLogs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { actor, patient, action, outcome, resourceType, resource, breakGlass, from, to } = req.query;
+    const query: any = {};
+
+    if (actor) query.actor = actor;
+    if (patient) query.patients = patient;
+    if (action) query.action = action;
+    if (outcome) query.outcome = outcome;
+    if (resourceType) query.resourceType = resourceType;
+    if (resource) query.resource = resource;
+    if (breakGlass) query['details.breakGlass'] = new mongoose.Types.ObjectId(breakGlass as string);
+    if (from || to) {
+      query.createdAt = {};
+      if (from) query.createdAt.$gte = new Date(from as string);
+      if (to) query.createdAt.$lte = new Date(to as string);
+    }
+
+    const entries = await paginate(AuditLog.find(query).populate('actor', 'name email role'), req, res);
+
+    res.json(entries);
+  } catch (error) {
+    console.error('Error al obtener auditoría:', error);
+    res.status(500).json({ message: 'Error al obtener el registro de auditoría' });
+  }
+};
+
+// Accesos de otras personas a los datos clínicos del paciente autenticado
+export const getMyRecordAccess = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query = {
+      patients: req.user!.id,
+      actor: { $ne: req.user!.id },
+      outcome: 'exito',
+    };
+
+    const entries = await paginate(
+      AuditLog.find(query)
+        .select('actor actorRole action resourceType resource createdAt')
+        .populate('actor', 'name role specialty'),
+      req,
+      res
+    );
+
+    res.json(entries);
+  } catch (error) {
+    console.error('Error al obtener accesos a la historia clínica:', error);
+    res.status(500).json({ message: 'Error al obtener los accesos a la historia clínica' });
+  }
+};
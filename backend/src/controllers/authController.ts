@@ -1,11 +1,46 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult } from 'express-validator';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import User from '../models/User';
+import User, { IUser } from '../models/User';
+import Session from '../models/Session';
 import { MongoError } from 'mongodb';
+import { consumeAuthToken } from '../services/authTokenService';
+import { clearAttempts, recordAttempt } from '../services/bruteForceService';
+import {
+    isTwoFactorRequired,
+    signChallengeToken,
+    verifyChallengeToken,
+    verifySecondFactor
+} from '../services/twoFactorService';
+import { enqueueNotification } from '../services/notifications/notificationService';
+import { acceptInvitation as acceptPendingInvitation, findPendingInvitation } from '../services/invitationService';
+import {
+    createSession,
+    revokeAllSessions,
+    revokeSession,
+    rotateRefreshToken
+} from '../services/sessionService';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'tu_clave_secreta_muy_segura';
+const PASSWORD_RESET_MESSAGE =
+    'Si el correo está registrado, recibirá un enlace para restablecer la contraseña';
+
+// Los correos de seguridad se envían siempre por email, sin importar las preferencias.
+// El token del enlace se emite al enviar el correo.
+const sendVerificationEmail = async (user: IUser): Promise<void> => {
+    try {
+        await enqueueNotification(user, 'verificar_email', {}, { channels: ['email'], secureLink: 'verificar_email' });
+    } catch (error) {
+        console.error('Error al enviar verificación de email:', error);
+    }
+};
+
+const notifyPasswordChanged = async (user: IUser): Promise<void> => {
+    try {
+        await enqueueNotification(user, 'contrasena_cambiada', {}, { channels: ['email'] });
+    } catch (error) {
+        console.error('Error al notificar cambio de contraseña:', error);
+    }
+};
 
 export const register = async (req: Request, res: Response): Promise<Response> => {
     try {
@@ -14,7 +49,10 @@ export const register = async (req: Request, res: Response): Promise<Response> =
             return res.status(400).json({ errors: errors.array() });
         }
 
-        const { name, email, password, role, documentId, documentType, birthDate, phone, address } = req.body;
+        const { name, email, password, documentId, documentType, birthDate, phone, address } = req.body;
+
+        // El registro se limita por volumen: cuenta cualquier intento desde la misma IP
+        await recordAttempt(req);
 
         // Verificar si el usuario ya existe
         let user = await User.findOne({ email });
@@ -27,7 +65,7 @@ export const register = async (req: Request, res: Response): Promise<Response> =
             name,
             email,
             password,
-            role,
+            role: 'patient',
             documentId,
             documentType,
             birthDate,
@@ -35,33 +73,22 @@ export const register = async (req: Request, res: Response): Promise<Response> =
             address
         });
 
-        // Encriptar contraseña
-        const salt = await bcrypt.genSalt(10);
-        user.password = await bcrypt.hash(password, salt);
-
-        // Guardar usuario
+        // Guardar usuario (el modelo encripta la contraseña al guardar)
         await user.save();
+        await sendVerificationEmail(user);
 
-        // Crear y devolver el token
-        const payload = {
-            id: user._id,
-            email: user.email,
-            role: user.role
-        };
-
-        const token = jwt.sign(
-            payload,
-            JWT_SECRET,
-            { expiresIn: '24h' }
-        );
+        // Crear la sesión y devolver los tokens
+        const { token, refreshToken } = await createSession(user, req);
 
         return res.status(201).json({ 
             token, 
+            refreshToken,
             user: { 
                 id: user.id, 
                 name: user.name, 
                 email: user.email, 
-                role: user.role 
+                role: user.role,
+                emailVerified: user.emailVerified
             } 
         });
     } catch (error) {
@@ -88,6 +115,7 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
         
         if (!user) {
             console.log('Usuario no encontrado en la base de datos');
+            await recordAttempt(req);
             return res.status(401).json({ message: 'Credenciales inválidas' });
         }
 
@@ -98,31 +126,47 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
 
         if (!isValidPassword) {
             console.log('Contraseña inválida');
+            await recordAttempt(req);
             return res.status(401).json({ message: 'Credenciales inválidas' });
         }
 
-        // Generar token
-        const payload = {
-            id: user._id,
-            email: user.email,
-            role: user.role
-        };
+        if (!user.active) {
+            return res.status(403).json({ message: 'La cuenta está desactivada' });
+        }
+
+        await clearAttempts(req);
+
+        // Con 2FA la contraseña solo da acceso al segundo paso del login
+        if (user.twoFactorEnabled) {
+            return res.status(200).json({
+                message: 'Se requiere el código de verificación',
+                twoFactorRequired: true,
+                challengeToken: signChallengeToken(user, 'segundo_factor')
+            });
+        }
+
+        if (isTwoFactorRequired(user.role)) {
+            return res.status(200).json({
+                message: 'Debe configurar la verificación en dos pasos para continuar',
+                twoFactorSetupRequired: true,
+                challengeToken: signChallengeToken(user, 'alta_segundo_factor')
+            });
+        }
 
-        const token = jwt.sign(
-            payload,
-            JWT_SECRET,
-            { expiresIn: '24h' }
-        );
+        // Generar tokens
+        const { token, refreshToken } = await createSession(user, req);
 
         console.log('Login exitoso, generando respuesta...');
         return res.status(200).json({
             message: 'Login exitoso',
             token,
+            refreshToken,
             user: {
                 id: user._id,
                 name: user.name,
                 email: user.email,
-                role: user.role
+                role: user.role,
+                emailVerified: user.emailVerified
             }
         });
     } catch (error) {
@@ -131,6 +175,47 @@ export const login = async (req: Request, res: Response): Promise<Response> => {
     }
 };
 
+export const verifyLoginTwoFactor = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { challengeToken, code, recoveryCode } = req.body;
+
+        const userId = verifyChallengeToken(challengeToken, 'segundo_factor');
+        if (!userId) {
+            return res.status(401).json({ message: 'Token de reto inválido o expirado' });
+        }
+
+        const user = await User.findById(userId);
+        if (!user || !user.active) {
+            return res.status(401).json({ message: 'Token de reto inválido o expirado' });
+        }
+
+        const isValidCode = await verifySecondFactor(user._id, { code, recoveryCode });
+        if (!isValidCode) {
+            await recordAttempt(req, user.id);
+            return res.status(401).json({ message: 'Código de verificación inválido' });
+        }
+
+        await clearAttempts(req);
+        const { token, refreshToken } = await createSession(user, req);
+
+        return res.status(200).json({
+            message: 'Login exitoso',
+            token,
+            refreshToken,
+            user: {
+                id: user._id,
+                name: user.name,
+                email: user.email,
+                role: user.role,
+                emailVerified: user.emailVerified
+            }
+        });
+    } catch (error) {
+        console.error('Error en verificación de segundo factor:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
 export const getProfile = async (req: Request, res: Response): Promise<Response> => {
     try {
         if (!req.user?.id) {
@@ -148,6 +233,244 @@ export const getProfile = async (req: Request, res: Response): Promise<Response>
     }
 };
 
+export const refresh = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { tokens, error } = await rotateRefreshToken(req.body.refreshToken, req);
+        if (error) {
+            return res.status(401).json({ message: error });
+        }
+
+        return res.json(tokens);
+    } catch (error) {
+        console.error('Error al renovar token:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const logout = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        await revokeSession(req.user!.sessionId!, 'logout');
+        return res.json({ message: 'Sesión cerrada exitosamente' });
+    } catch (error) {
+        console.error('Error al cerrar sesión:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const logoutAll = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const revoked = await revokeAllSessions(req.user!.id, 'logout_all');
+        return res.json({ message: 'Se han cerrado todas las sesiones', revoked });
+    } catch (error) {
+        console.error('Error al cerrar todas las sesiones:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const getSessions = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const sessions = await Session.find({
+            user: req.user!.id,
+            revokedAt: { $exists: false },
+            expiresAt: { $gt: new Date() }
+        })
+            .select('ip userAgent createdAt lastUsedAt expiresAt')
+            .sort({ lastUsedAt: -1 });
+
+        return res.json(sessions.map((session) => ({
+            id: session.id,
+            ip: session.ip,
+            userAgent: session.userAgent,
+            createdAt: session.createdAt,
+            lastUsedAt: session.lastUsedAt,
+            expiresAt: session.expiresAt,
+            current: session.id === req.user!.sessionId
+        })));
+    } catch (error) {
+        console.error('Error al obtener sesiones:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const revokeUserSession = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const session = await Session.findOne({ _id: req.params.id, user: req.user!.id });
+        if (!session) {
+            return res.status(404).json({ message: 'Sesión no encontrada' });
+        }
+
+        await revokeSession(session._id, 'logout');
+        return res.json({ message: 'Sesión cerrada exitosamente' });
+    } catch (error) {
+        console.error('Error al revocar sesión:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const verifyEmail = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const userId = await consumeAuthToken(req.body.token, 'verificar_email');
+        if (!userId) {
+            return res.status(400).json({ message: 'El enlace de verificación no es válido o ha expirado' });
+        }
+
+        await User.updateOne({ _id: userId }, { emailVerified: true, emailVerifiedAt: new Date() });
+        return res.json({ message: 'Correo electrónico verificado exitosamente' });
+    } catch (error) {
+        console.error('Error al verificar email:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const resendVerification = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const user = await User.findById(req.user!.id);
+        if (!user) {
+            return res.status(404).json({ message: 'Usuario no encontrado' });
+        }
+        if (user.emailVerified) {
+            return res.status(400).json({ message: 'El correo electrónico ya está verificado' });
+        }
+
+        await sendVerificationEmail(user);
+        return res.json({ message: 'Se ha enviado un nuevo enlace de verificación' });
+    } catch (error) {
+        console.error('Error al reenviar verificación:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+// La respuesta es la misma exista o no el correo, para no revelar qué cuentas hay registradas
+export const forgotPassword = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        // Limita el número de correos que se pueden solicitar por cuenta e IP
+        await recordAttempt(req);
+
+        const user = await User.findOne({ email: req.body.email });
+        if (user && user.active) {
+            await enqueueNotification(user, 'restablecer_contrasena', {}, {
+                channels: ['email'],
+                secureLink: 'restablecer_contrasena'
+            });
+        }
+
+        return res.json({ message: PASSWORD_RESET_MESSAGE });
+    } catch (error) {
+        console.error('Error al solicitar restablecimiento de contraseña:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const resetPassword = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { token, password } = req.body;
+
+        const userId = await consumeAuthToken(token, 'restablecer_contrasena');
+        const user = userId ? await User.findById(userId) : null;
+        if (!user || !user.active) {
+            await recordAttempt(req);
+            return res.status(400).json({ message: 'El enlace para restablecer la contraseña no es válido o ha expirado' });
+        }
+
+        user.password = password;
+        // Quien recibe el enlace demuestra que el correo le pertenece
+        if (!user.emailVerified) {
+            user.emailVerified = true;
+            user.emailVerifiedAt = new Date();
+        }
+        await user.save();
+
+        await revokeAllSessions(user._id, 'cambio_contrasena');
+        await notifyPasswordChanged(user);
+
+        return res.json({ message: 'Contraseña restablecida exitosamente' });
+    } catch (error) {
+        console.error('Error al restablecer contraseña:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+// Datos de una invitación vigente para mostrar el formulario de alta
+export const getInvitation = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const invitation = await findPendingInvitation(req.params.token);
+        if (!invitation) {
+            await recordAttempt(req);
+            return res.status(404).json({ message: 'La invitación no es válida o ha expirado' });
+        }
+
+        const { email, role, name, specialty, expiresAt } = invitation;
+        return res.json({ email, role, name, specialty, expiresAt });
+    } catch (error) {
+        console.error('Error al obtener invitación:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+// Crea la cuenta con el rol de la invitación. No se abre sesión: el usuario inicia
+// sesión a continuación, con lo que se le pide configurar la verificación en dos pasos
+// si su rol la exige.
+export const acceptInvitation = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { token, password, name, documentId, birthDate, phone, address } = req.body;
+
+        const user = await acceptPendingInvitation(token, { password, name, documentId, birthDate, phone, address });
+        if (!user) {
+            await recordAttempt(req);
+            return res.status(400).json({ message: 'La invitación no es válida o ha expirado' });
+        }
+
+        return res.status(201).json({
+            message: 'Cuenta creada exitosamente',
+            user: {
+                id: user.id,
+                name: user.name,
+                email: user.email,
+                role: user.role,
+                emailVerified: user.emailVerified
+            }
+        });
+    } catch (error) {
+        console.error('Error al aceptar invitación:', error);
+        if (error instanceof MongoError && error.code === 11000) {
+            const mongoError = error as MongoError & { keyPattern: Record<string, number> };
+            const field = Object.keys(mongoError.keyPattern)[0];
+            return res.status(409).json({
+                message: `Ya existe un usuario con ese ${field === 'email' ? 'correo electrónico' : 'documento'}`
+            });
+        }
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
+export const changePassword = async (req: Request, res: Response): Promise<Response> => {
+    try {
+        const { currentPassword, newPassword } = req.body;
+
+        const user = await User.findById(req.user!.id);
+        if (!user) {
+            return res.status(404).json({ message: 'Usuario no encontrado' });
+        }
+
+        const isValidPassword = await user.comparePassword(currentPassword);
+        if (!isValidPassword) {
+            return res.status(400).json({ message: 'La contraseña actual es incorrecta' });
+        }
+
+        user.password = newPassword;
+        await user.save();
+
+        // Se mantiene la sesión actual y se cierran las demás
+        await revokeAllSessions(user._id, 'cambio_contrasena', req.user!.sessionId);
+        await notifyPasswordChanged(user);
+
+        return res.json({ message: 'Contraseña actualizada exitosamente' });
+    } catch (error) {
+        console.error('Error al cambiar contraseña:', error);
+        return res.status(500).json({ message: 'Error en el servidor' });
+    }
+};
+
 // Extender la interfaz Request para incluir el usuario
 declare global {
   namespace Express {
@@ -156,6 +479,7 @@ declare global {
         id: string;
         email: string;
         role: string;
+        sessionId?: string;
       };
     }
   }
@@ -0,0 +1,122 @@
+import { Request, Response } from 'express';
+import AuditLog from '../models/AuditLog';
+import BreakGlassAccess from '../models/BreakGlassAccess';
+import User from '../models/User';
+import { paginate } from '../services/listing';
+import { notifyBreakGlassAccess } from '../services/notifications/notificationService';
+
+// Duración del acceso de emergencia, en horas
+const BREAK_GLASS_HOURS = Number(process.env.BREAK_GLASS_HOURS) || 4;
+
+export const requestBreakGlassAccess = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { patientId, justification } = req.body;
+
+    const patient = await User.findOne({ _id: patientId, role: 'patient' });
+    if (!patient) {
+      res.status(404).json({ message: 'Paciente no encontrado' });
+      return;
+    }
+
+    const access = await BreakGlassAccess.create({
+      doctor: req.user!.id,
+      patient: patient._id,
+      justification,
+      expiresAt: new Date(Date.now() + BREAK_GLASS_HOURS * 60 * 60 * 1000),
+    });
+
+    await notifyBreakGlassAccess(access);
+    res.status(201).json(access);
+  } catch (error) {
+    console.error('Error al solicitar acceso de emergencia:', error);
+    res.status(500).json({ message: 'Error al solicitar el acceso de emergencia' });
+  }
+};
+
+// Para los administradores es la cola de revisión (por defecto, los pendientes
+// más antiguos primero); los doctores ven sus propios accesos
+export const getBreakGlassAccesses = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query: any = {};
+
+    if (req.user!.role === 'admin') {
+      query.reviewStatus = req.query.reviewStatus || 'pendiente';
+      if (req.query.doctor) query.doctor = req.query.doctor;
+      if (req.query.patient) query.patient = req.query.patient;
+    } else {
+      query.doctor = req.user!.id;
+      if (req.query.reviewStatus) query.reviewStatus = req.query.reviewStatus;
+    }
+
+    const accesses = await paginate(
+      BreakGlassAccess.find(query)
+        .populate('doctor', 'name specialty')
+        .populate('patient', 'name documentId')
+        .populate('reviewedBy', 'name'),
+      req,
+      res
+    );
+
+    res.json(accesses);
+  } catch (error) {
+    console.error('Error al obtener accesos de emergencia:', error);
+    res.status(500).json({ message: 'Error al obtener los accesos de emergencia' });
+  }
+};
+
+// Detalle del acceso junto con todo lo consultado bajo él
+export const getBreakGlassAccessById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const access = await BreakGlassAccess.findById(req.params.id)
+      .populate('doctor', 'name specialty')
+      .populate('patient', 'name documentId')
+      .populate('reviewedBy', 'name');
+
+    if (!access) {
+      res.status(404).json({ message: 'Acceso de emergencia no encontrado' });
+      return;
+    }
+
+    if (req.user!.role !== 'admin' && String(access.doctor._id) !== req.user!.id) {
+      res.status(403).json({ message: 'No tienes permiso para ver este acceso' });
+      return;
+    }
+
+    const auditEntries = await AuditLog.find({ 'details.breakGlass': access._id })
+      .select('action resourceType resource outcome createdAt')
+      .sort({ createdAt: 1 });
+
+    res.json({ access, auditEntries });
+  } catch (error) {
+    console.error('Error al obtener acceso de emergencia:', error);
+    res.status(500).json({ message: 'Error al obtener el acceso de emergencia' });
+  }
+};
+
+export const reviewBreakGlassAccess = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const access = await BreakGlassAccess.findOneAndUpdate(
+      { _id: req.params.id, reviewStatus: 'pendiente' },
+      {
+        reviewStatus: req.body.reviewStatus,
+        reviewNotes: req.body.notes,
+        reviewedBy: req.user!.id,
+        reviewedAt: new Date(),
+      },
+      { new: true }
+    );
+
+    if (!access) {
+      const exists = await BreakGlassAccess.exists({ _id: req.params.id });
+      res.status(exists ? 409 : 404).json({
+        message: exists ? 'El acceso de emergencia ya fue revisado' : 'Acceso de emergencia no encontrado'
+      });
+      return;
+    }
+
+    res.json(access);
+  } catch (error) {
+    console.error('Error al revisar acceso de emergencia:', error);
+    res.status(500).json({ message: 'Error al revisar el acceso de emergencia' });
+  }
+};
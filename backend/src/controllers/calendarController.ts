@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import Appointment from '../models/Appointment';
+import User from '../models/User';
+import { appointmentToEvent, buildCalendar, counterpartName } from '../services/icalendar';
+import { addDays, startOfDay } from '../utils/time';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Ventana de citas incluida en el feed
+const FEED_PAST_DAYS = 90;
+const FEED_FUTURE_DAYS = 365;
+
+const feedUrl = (req: Request, token: string): string =>
+  `${req.protocol}://${req.get('host')}${req.baseUrl}/feed/${token}.ics`;
+
+export const createFeedToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Generar un token nuevo invalida el anterior
+    const token = generateToken();
+    const user = await User.findByIdAndUpdate(req.user!.id, { calendarFeedTokenHash: hashToken(token) });
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    res.status(201).json({ token, url: feedUrl(req, token) });
+  } catch (error) {
+    console.error('Error al generar token de calendario:', error);
+    res.status(500).json({ message: 'Error al generar el enlace del calendario' });
+  }
+};
+
+export const revokeFeedToken = async (req: Request, res: Response): Promise<void> => {
+  try {
+    await User.updateOne({ _id: req.user!.id }, { $unset: { calendarFeedTokenHash: 1 } });
+    res.json({ message: 'Enlace del calendario revocado exitosamente' });
+  } catch (error) {
+    console.error('Error al revocar token de calendario:', error);
+    res.status(500).json({ message: 'Error al revocar el enlace del calendario' });
+  }
+};
+
+// Feed suscribible: se autentica con el token de la URL, no con el JWT,
+// porque las aplicaciones de calendario no pueden enviar cabeceras propias
+export const getCalendarFeed = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findOne({ calendarFeedTokenHash: hashToken(req.params.token) });
+    if (!user || !user.active || user.role === 'admin') {
+      res.status(404).json({ message: 'Calendario no encontrado' });
+      return;
+    }
+
+    const today = startOfDay(new Date());
+    const appointments = await Appointment.find({
+      [user.role === 'doctor' ? 'doctor' : 'patient']: user._id,
+      date: { $gte: addDays(today, -FEED_PAST_DAYS), $lte: addDays(today, FEED_FUTURE_DAYS) },
+    })
+      .populate('patient', 'name')
+      .populate('doctor', 'name')
+      .sort({ date: 1, startTime: 1 });
+
+    const events = appointments.map((appointment) =>
+      appointmentToEvent(appointment, { counterpart: counterpartName(appointment, user.id) })
+    );
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(buildCalendar(events, `Citas - ${user.name}`));
+  } catch (error) {
+    console.error('Error al generar calendario:', error);
+    res.status(500).json({ message: 'Error al generar el calendario' });
+  }
+};
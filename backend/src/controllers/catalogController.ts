@@ -0,0 +1,25 @@
+import { Request, Response } from 'express';
+import { findIcd10, searchIcd10 } from '../services/icd10';
+
+export const searchIcd10Codes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(searchIcd10(String(req.query.q), Number(req.query.limit) || undefined));
+  } catch (error) {
+    console.error('Error al buscar en el catálogo CIE-10:', error);
+    res.status(500).json({ message: 'Error al buscar en el catálogo CIE-10' });
+  }
+};
+
+export const getIcd10Code = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const entry = findIcd10(req.params.code);
+    if (!entry) {
+      res.status(404).json({ message: 'Código CIE-10 no encontrado' });
+      return;
+    }
+    res.json(entry);
+  } catch (error) {
+    console.error('Error al obtener código CIE-10:', error);
+    res.status(500).json({ message: 'Error al obtener el código CIE-10' });
+  }
+};
@@ -0,0 +1,101 @@
+import { Request, Response } from 'express';
+import Consent from '../models/Consent';
+import User from '../models/User';
+import { paginate } from '../services/listing';
+import { addDays } from '../utils/time';
+
+const MAX_CONSENT_DAYS = 365;
+
+export const createConsent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { granteeId, recordTypes, purpose, expiresAt, durationDays } = req.body;
+
+    const grantee = await User.findOne({ _id: granteeId, role: 'doctor', active: true });
+    if (!grantee) {
+      res.status(404).json({ message: 'Doctor no encontrado' });
+      return;
+    }
+
+    const now = new Date();
+    const expiration = expiresAt ? new Date(expiresAt) : addDays(now, Number(durationDays));
+    if (expiration <= now || expiration > addDays(now, MAX_CONSENT_DAYS)) {
+      res.status(400).json({ message: `La vigencia debe ser futura y de como máximo ${MAX_CONSENT_DAYS} días` });
+      return;
+    }
+
+    const consent = await Consent.create({
+      patient: req.user!.id,
+      grantee: grantee._id,
+      recordTypes: recordTypes || [],
+      purpose,
+      expiresAt: expiration,
+    });
+
+    res.status(201).json(consent);
+  } catch (error) {
+    console.error('Error al crear consentimiento:', error);
+    res.status(500).json({ message: 'Error al crear el consentimiento' });
+  }
+};
+
+export const getConsents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, id } = req.user!;
+    const query: any = {};
+
+    if (role === 'patient') {
+      query.patient = id;
+    } else if (role === 'doctor') {
+      query.grantee = id;
+    } else {
+      if (req.query.patient) query.patient = req.query.patient;
+      if (req.query.grantee) query.grantee = req.query.grantee;
+    }
+
+    // Por defecto solo los vigentes; ?all=true incluye revocados y vencidos
+    if (req.query.all !== 'true') {
+      query.revokedAt = { $exists: false };
+      query.expiresAt = { $gt: new Date() };
+    }
+
+    const consents = await paginate(
+      Consent.find(query)
+        .populate('patient', 'name documentId')
+        .populate('grantee', 'name specialty'),
+      req,
+      res
+    );
+
+    res.json(consents);
+  } catch (error) {
+    console.error('Error al obtener consentimientos:', error);
+    res.status(500).json({ message: 'Error al obtener los consentimientos' });
+  }
+};
+
+export const revokeConsent = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const consent = await Consent.findById(req.params.id);
+    if (!consent) {
+      res.status(404).json({ message: 'Consentimiento no encontrado' });
+      return;
+    }
+
+    if (req.user!.role !== 'admin' && consent.patient.toString() !== req.user!.id) {
+      res.status(403).json({ message: 'No tienes permiso para revocar este consentimiento' });
+      return;
+    }
+
+    if (consent.revokedAt) {
+      res.status(409).json({ message: 'El consentimiento ya fue revocado' });
+      return;
+    }
+
+    consent.revokedAt = new Date();
+    await consent.save();
+    res.json(consent);
+  } catch (error) {
+    console.error('Error al revocar consentimiento:', error);
+    res.status(500).json({ message: 'Error al revocar el consentimiento' });
+  }
+};
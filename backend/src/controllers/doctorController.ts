@@ -0,0 +1,49 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { getAvailableSlots } from '../services/availabilityService';
+import { addDays, formatDate, startOfDay } from '../utils/time';
+
+const DEFAULT_SLOT_MINUTES = 30;
+const DEFAULT_RANGE_DAYS = 7;
+const MAX_RANGE_DAYS = 31;
+
+export const getDoctorAvailability = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const doctor = await User.findOne({ _id: req.params.id, role: 'doctor' });
+    if (!doctor) {
+      res.status(404).json({ message: 'Doctor no encontrado' });
+      return;
+    }
+
+    const from = startOfDay(req.query.from ? (req.query.from as string) : new Date());
+    const to = req.query.to ? startOfDay(req.query.to as string) : addDays(from, DEFAULT_RANGE_DAYS - 1);
+    const duration = req.query.duration ? Number(req.query.duration) : DEFAULT_SLOT_MINUTES;
+
+    if (to < from) {
+      res.status(400).json({ message: 'La fecha final debe ser posterior a la inicial' });
+      return;
+    }
+
+    if (to > addDays(from, MAX_RANGE_DAYS - 1)) {
+      res.status(400).json({ message: `El rango no puede superar ${MAX_RANGE_DAYS} días` });
+      return;
+    }
+
+    const slots = await getAvailableSlots(doctor, from, to, duration);
+
+    res.json({
+      doctor: {
+        id: doctor._id,
+        name: doctor.name,
+        specialty: doctor.specialty,
+      },
+      from: formatDate(from),
+      to: formatDate(to),
+      duration,
+      slots,
+    });
+  } catch (error) {
+    console.error('Error al obtener disponibilidad:', error);
+    res.status(500).json({ message: 'Error al obtener la disponibilidad del doctor' });
+  }
+};
@@ -0,0 +1,343 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Appointment from '../models/Appointment';
+import MedicalRecord, { IMedicalRecord } from '../models/MedicalRecord';
+import Prescription from '../models/Prescription';
+import User, { documentIdQuery } from '../models/User';
+import {
+  appointmentAccessFilter,
+  canAccessPatient,
+  getAccessiblePatients,
+  getRecordAccess,
+  listedBreakGlass,
+  prescriptionAccessFilter,
+  recordAccessFilter
+} from '../services/accessControl';
+import { recordAudit } from '../services/auditService';
+import {
+  appointmentMedicationRequests,
+  appointmentToFhir,
+  conditionsToFhir,
+  encounterToFhir,
+  FhirResource,
+  observationsToFhir,
+  patientToFhir,
+  practitionerToFhir,
+  prescriptionMedicationRequests,
+  recordMedicationRequests,
+  recordToFhir
+} from '../services/fhir/resources';
+import {
+  operationOutcome,
+  parseDateParams,
+  parseReferenceParam,
+  searchsetBundle,
+  splitResourceId
+} from '../services/fhir/search';
+
+const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+// Número máximo de documentos que se exportan en una búsqueda
+const MAX_SEARCH_RESULTS = Number(process.env.FHIR_MAX_RESULTS) || 500;
+
+type RecordResourceType = 'Encounter' | 'Condition' | 'Observation' | 'MedicationRequest';
+
+const RECORD_MAPPERS: Record<RecordResourceType, (record: IMedicalRecord) => FhirResource[]> = {
+  Encounter: (record) => [encounterToFhir(record)],
+  Condition: conditionsToFhir,
+  Observation: observationsToFhir,
+  MedicationRequest: recordMedicationRequests,
+};
+
+const sendFhir = (res: Response, status: number, body: unknown): void => {
+  res.status(status).type(FHIR_CONTENT_TYPE).json(body);
+};
+
+const sendOutcome = (res: Response, status: number, code: string, diagnostics: string): void =>
+  sendFhir(res, status, operationOutcome(code, diagnostics));
+
+// Parámetros `patient` y `date` comunes a las búsquedas clínicas
+const parseClinicalSearch = (req: Request, res: Response) => {
+  const patient = parseReferenceParam(req.query.patient, 'Patient');
+  if (patient === null) {
+    sendOutcome(res, 400, 'invalid', 'Parámetro patient inválido');
+    return null;
+  }
+  const date = parseDateParams(req.query.date);
+  if (date === null) {
+    sendOutcome(res, 400, 'invalid', 'Parámetro date inválido');
+    return null;
+  }
+  return { patient, date };
+};
+
+export const getCapabilityStatement = (req: Request, res: Response): void => {
+  const searchParams = [
+    { name: 'patient', type: 'reference' },
+    { name: 'date', type: 'date' },
+  ];
+  sendFhir(res, 200, {
+    resourceType: 'CapabilityStatement',
+    status: 'active',
+    date: new Date().toISOString(),
+    kind: 'instance',
+    fhirVersion: '4.0.1',
+    format: ['json'],
+    rest: [{
+      mode: 'server',
+      resource: [
+        { type: 'Patient', interaction: [{ code: 'read' }, { code: 'search-type' }], searchParam: [{ name: 'identifier', type: 'token' }] },
+        { type: 'Practitioner', interaction: [{ code: 'read' }, { code: 'search-type' }] },
+        ...['Appointment', 'Encounter', 'Condition', 'Observation', 'MedicationRequest'].map((type) => ({
+          type,
+          interaction: [{ code: 'read' }, { code: 'search-type' }],
+          searchParam: searchParams,
+        })),
+      ],
+    }],
+  });
+};
+
+export const searchPatients = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query: any = { role: 'patient' };
+
+    // identifier=[sistema|]documento
+    if (req.query.identifier) {
+      const value = String(req.query.identifier).split('|').pop()!;
+      Object.assign(query, documentIdQuery(value));
+    }
+
+    const accessible = await getAccessiblePatients(req.user!);
+    if (accessible !== null) query._id = { $in: accessible };
+
+    const patients = await User.find(query).limit(MAX_SEARCH_RESULTS);
+
+    await recordAudit(req, {
+      action: 'exportacion',
+      resourceType: 'User',
+      patients: patients.map((patient) => patient._id),
+      outcome: 'exito',
+      details: { fhir: 'Patient', filters: req.query, count: patients.length }
+    });
+    sendFhir(res, 200, searchsetBundle(req, patients.map(patientToFhir)));
+  } catch (error) {
+    console.error('Error al exportar pacientes FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+export const readPatient = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = mongoose.isValidObjectId(req.params.id)
+      ? await User.findOne({ _id: req.params.id, role: 'patient' })
+      : null;
+    if (!patient) {
+      sendOutcome(res, 404, 'not-found', 'Paciente no encontrado');
+      return;
+    }
+
+    const audit = {
+      action: 'exportacion' as const,
+      resourceType: 'User',
+      resource: patient._id,
+      patients: [patient._id],
+      details: { fhir: 'Patient' }
+    };
+
+    if (!(await canAccessPatient(req.user!, patient._id))) {
+      await recordAudit(req, { ...audit, outcome: 'denegado' });
+      sendOutcome(res, 403, 'forbidden', 'No tienes permiso para ver este paciente');
+      return;
+    }
+
+    await recordAudit(req, { ...audit, outcome: 'exito' });
+    sendFhir(res, 200, patientToFhir(patient));
+  } catch (error) {
+    console.error('Error al exportar paciente FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+// Los datos profesionales de los doctores son visibles para cualquier usuario autenticado
+export const searchPractitioners = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const doctors = await User.find({ role: 'doctor' }).limit(MAX_SEARCH_RESULTS);
+    sendFhir(res, 200, searchsetBundle(req, doctors.map(practitionerToFhir)));
+  } catch (error) {
+    console.error('Error al exportar profesionales FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+export const readPractitioner = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const doctor = mongoose.isValidObjectId(req.params.id)
+      ? await User.findOne({ _id: req.params.id, role: 'doctor' })
+      : null;
+    if (!doctor) {
+      sendOutcome(res, 404, 'not-found', 'Profesional no encontrado');
+      return;
+    }
+    sendFhir(res, 200, practitionerToFhir(doctor));
+  } catch (error) {
+    console.error('Error al exportar profesional FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+export const searchAppointments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const params = parseClinicalSearch(req, res);
+    if (!params) return;
+
+    const query: any = {};
+    if (params.patient) query.patient = params.patient;
+    if (params.date) query.date = params.date;
+
+    const appointments = await Appointment.find({ $and: [query, appointmentAccessFilter(req.user!)] })
+      .sort({ date: 1, startTime: 1 })
+      .limit(MAX_SEARCH_RESULTS);
+
+    sendFhir(res, 200, searchsetBundle(req, appointments.map(appointmentToFhir)));
+  } catch (error) {
+    console.error('Error al exportar citas FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+export const readAppointment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const appointment = mongoose.isValidObjectId(req.params.id)
+      ? await Appointment.findOne({ $and: [{ _id: req.params.id }, appointmentAccessFilter(req.user!)] })
+      : null;
+    if (!appointment) {
+      sendOutcome(res, 404, 'not-found', 'Cita no encontrada');
+      return;
+    }
+    sendFhir(res, 200, appointmentToFhir(appointment));
+  } catch (error) {
+    console.error('Error al exportar cita FHIR:', error);
+    sendOutcome(res, 500, 'exception', 'Error en el servidor');
+  }
+};
+
+// Búsqueda de los recursos que se derivan de los registros médicos visibles para el usuario
+export const searchRecordResources = (resourceType: RecordResourceType) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const params = parseClinicalSearch(req, res);
+      if (!params) return;
+
+      const query: any = {};
+      if (params.patient) query.patient = params.patient;
+      if (params.date) query.date = params.date;
+
+      const accessFilter = await recordAccessFilter(req.user!);
+      const records = await MedicalRecord.find({ $and: [query, accessFilter] })
+        .sort({ date: -1 })
+        .limit(MAX_SEARCH_RESULTS);
+
+      const resources = records.flatMap(RECORD_MAPPERS[resourceType]);
+
+      // Las prescripciones de las citas y las recetas electrónicas también se exportan como MedicationRequest
+      if (resourceType === 'MedicationRequest') {
+        const prescriptionQuery: any = {};
+        if (params.patient) prescriptionQuery.patient = params.patient;
+        if (params.date) prescriptionQuery.issuedAt = params.date;
+
+        const [appointments, prescriptions] = await Promise.all([
+          Appointment.find({
+            $and: [query, appointmentAccessFilter(req.user!), { 'prescription.medications.0': { $exists: true } }]
+          }).limit(MAX_SEARCH_RESULTS),
+          Prescription.find({ $and: [prescriptionQuery, prescriptionAccessFilter(req.user!)] })
+            .sort({ issuedAt: -1 })
+            .limit(MAX_SEARCH_RESULTS)
+        ]);
+        resources.push(...appointments.flatMap(appointmentMedicationRequests));
+        resources.push(...prescriptions.flatMap(prescriptionMedicationRequests));
+      }
+
+      const patients = records.map((record) => record.patient);
+      const breakGlass = await listedBreakGlass(req.user!, patients);
+
+      await recordAudit(req, {
+        action: 'exportacion',
+        resourceType: 'MedicalRecord',
+        patients,
+        outcome: 'exito',
+        details: {
+          fhir: resourceType,
+          filters: req.query,
+          count: resources.length,
+          ...(breakGlass.length ? { breakGlass } : {})
+        }
+      });
+      sendFhir(res, 200, searchsetBundle(req, resources));
+    } catch (error) {
+      console.error('Error al exportar recursos FHIR:', error);
+      sendOutcome(res, 500, 'exception', 'Error en el servidor');
+    }
+  };
+
+export const readRecordResource = (resourceType: RecordResourceType) =>
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const parts = splitResourceId(req.params.id);
+      const notFound = () => sendOutcome(res, 404, 'not-found', `${resourceType} no encontrado`);
+      if (!parts) {
+        notFound();
+        return;
+      }
+
+      const record = await MedicalRecord.findById(parts.documentId);
+      if (!record) {
+        // Las prescripciones de una cita llevan el id de la cita y las recetas electrónicas el suyo
+        const [appointment, prescription] = resourceType === 'MedicationRequest'
+          ? await Promise.all([
+            Appointment.findOne({ $and: [{ _id: parts.documentId }, appointmentAccessFilter(req.user!)] }),
+            Prescription.findOne({ $and: [{ _id: parts.documentId }, prescriptionAccessFilter(req.user!)] })
+          ])
+          : [null, null];
+        const candidates = [
+          ...(appointment ? appointmentMedicationRequests(appointment) : []),
+          ...(prescription ? prescriptionMedicationRequests(prescription) : [])
+        ];
+        const resource = candidates.find((item) => item.id === req.params.id);
+        if (resource) {
+          sendFhir(res, 200, resource);
+        } else {
+          notFound();
+        }
+        return;
+      }
+
+      const audit = {
+        action: 'exportacion' as const,
+        resourceType: 'MedicalRecord',
+        resource: record._id,
+        patients: [record.patient]
+      };
+
+      const access = await getRecordAccess(req.user!, record);
+      if (!access) {
+        await recordAudit(req, { ...audit, outcome: 'denegado', details: { fhir: resourceType } });
+        sendOutcome(res, 403, 'forbidden', 'No tienes permiso para ver este registro');
+        return;
+      }
+
+      const resource = recordToFhir(record).find(
+        (item) => item.resourceType === resourceType && item.id === req.params.id
+      );
+      if (!resource) {
+        notFound();
+        return;
+      }
+
+      await recordAudit(req, { ...audit, outcome: 'exito', details: { ...access, fhir: resourceType } });
+      sendFhir(res, 200, resource);
+    } catch (error) {
+      console.error('Error al exportar recurso FHIR:', error);
+      sendOutcome(res, 500, 'exception', 'Error en el servidor');
+    }
+  };
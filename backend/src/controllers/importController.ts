@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import ImportJob, { ImportFormat } from '../models/ImportJob';
+import User from '../models/User';
+import { recordAudit } from '../services/auditService';
+import {
+  ImportPayloadError,
+  parseImportPayload,
+  processPendingImports,
+  runImportJob
+} from '../services/fhir/importer';
+import { paginate } from '../services/listing';
+
+// Crea el trabajo de importación y lo procesa en segundo plano. El cliente consulta
+// su estado en GET /api/imports/:id.
+export const createImportJob = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format: ImportFormat = typeof req.body === 'string' ? 'ndjson' : 'bundle';
+    const payload = format === 'ndjson' ? req.body : JSON.stringify(req.body);
+    const dryRun = req.query.dryRun === 'true';
+
+    // Los registros importados se asignan al doctor que importa; un administrador
+    // debe indicar el doctor responsable
+    const doctorId = req.user!.role === 'doctor' ? req.user!.id : req.query.doctor;
+    const doctor = doctorId ? await User.findOne({ _id: doctorId, role: 'doctor' }) : null;
+    if (!doctor) {
+      res.status(400).json({ message: 'Debe indicar un doctor responsable válido' });
+      return;
+    }
+
+    // Los errores de formato del fichero se rechazan antes de crear el trabajo
+    const entries = parseImportPayload(payload, format);
+
+    const job = await ImportJob.create({
+      source: req.query.source,
+      format,
+      dryRun,
+      createdBy: req.user!.id,
+      doctor: doctor._id,
+      payload,
+    });
+
+    await recordAudit(req, {
+      action: 'creacion',
+      resourceType: 'ImportJob',
+      resource: job._id,
+      outcome: 'exito',
+      details: { source: job.source, format, dryRun, entries: entries.length }
+    });
+
+    // En Vercel la función puede congelarse tras responder: si el trabajo no termina
+    // aquí, lo retoma la tarea programada de /api/imports/process (si quedó a medias,
+    // cuando vence su concesión)
+    setImmediate(() => runImportJob(job._id));
+    res.status(202).json(job);
+  } catch (error) {
+    if (error instanceof ImportPayloadError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    console.error('Error al crear importación:', error);
+    res.status(500).json({ message: 'Error al crear la importación' });
+  }
+};
+
+export const getImportJobs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query: any = {};
+    if (req.user!.role !== 'admin') query.createdBy = req.user!.id;
+    if (req.query.status) query.status = req.query.status;
+
+    const jobs = await paginate(
+      ImportJob.find(query)
+        .select('-issues')
+        .populate('createdBy', 'name')
+        .populate('doctor', 'name'),
+      req,
+      res
+    );
+
+    res.json(jobs);
+  } catch (error) {
+    console.error('Error al obtener importaciones:', error);
+    res.status(500).json({ message: 'Error al obtener las importaciones' });
+  }
+};
+
+export const getImportJobById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const job = await ImportJob.findById(req.params.id)
+      .populate('createdBy', 'name')
+      .populate('doctor', 'name')
+      .populate('patients', 'name');
+
+    if (!job || (req.user!.role !== 'admin' && String(job.createdBy._id) !== req.user!.id)) {
+      res.status(404).json({ message: 'Importación no encontrada' });
+      return;
+    }
+
+    res.json(job);
+  } catch (error) {
+    console.error('Error al obtener importación:', error);
+    res.status(500).json({ message: 'Error al obtener la importación' });
+  }
+};
+
+export const processImports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await processPendingImports());
+  } catch (error) {
+    console.error('Error al procesar importaciones:', error);
+    res.status(500).json({ message: 'Error al procesar las importaciones pendientes' });
+  }
+};
@@ -0,0 +1,556 @@
+import { Request, Response, NextFunction } from 'express';
+import MedicalRecord, { IMedicalRecord } from '../models/MedicalRecord';
+import { getCareAccess, getRecordAccess, listedBreakGlass, recordAccessFilter } from '../services/accessControl';
+import { AttachmentRejectedError, storeAttachment } from '../services/attachmentService';
+import { recordAudit } from '../services/auditService';
+import { searchClinicalRecords } from '../services/clinicalSearch';
+import { normalizeIcd10Code } from '../services/icd10';
+import { paginate } from '../services/listing';
+import {
+  amendRecord,
+  editDraft,
+  getRecordAt,
+  getRecordVersions,
+  recordCreated,
+  signRecord
+} from '../services/medicalRecordVersions';
+import {
+  assessPrescribing,
+  medicationNames,
+  safetyBlockedResponse,
+  safetyAuditDetails
+} from '../services/medicationSafety';
+import { getStorage, StoredObjectNotFoundError } from '../services/storage/backends';
+import { textTerms } from '../utils/text';
+
+const RESOURCE_TYPE = 'MedicalRecord';
+
+const MAX_SEARCH_LIMIT = 100;
+
+export const createMedicalRecord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Solo se escribe en la historia de un paciente al que ya se atiende
+    const access = await getCareAccess(req.user!, req.body.patient, req.body.type);
+    if (!access) {
+      await recordAudit(req, {
+        action: 'creacion',
+        resourceType: RESOURCE_TYPE,
+        patients: [req.body.patient],
+        outcome: 'denegado'
+      });
+      res.status(403).json({ message: 'No tienes acceso a la historia clínica de este paciente' });
+      return;
+    }
+
+    const { safetyOverrideReason } = req.body;
+    const safety = await assessPrescribing(
+      req.body.patient,
+      medicationNames(req.body.treatment?.medications),
+      safetyOverrideReason
+    );
+    if (safety.blocked) {
+      res.status(409).json(safetyBlockedResponse(safety.warnings));
+      return;
+    }
+
+    const medicalRecord = new MedicalRecord({
+      ...req.body,
+      // Todo registro nace como borrador; la firma tiene su propio endpoint
+      status: 'borrador',
+      version: 1,
+      signedAt: undefined,
+      signedBy: undefined,
+      importSource: undefined,
+      attachments: [],
+      createdBy: req.user?.id
+    });
+    await medicalRecord.save();
+    await recordCreated(medicalRecord, req.user!.id);
+
+    await recordAudit(req, {
+      action: 'creacion',
+      resourceType: RESOURCE_TYPE,
+      resource: medicalRecord._id,
+      patients: [medicalRecord.patient],
+      outcome: 'exito',
+      details: {
+        ...access,
+        ...safetyAuditDetails(safety, safetyOverrideReason)
+      }
+    });
+    res.status(201).json({ ...medicalRecord.toJSON(), safetyWarnings: safety.warnings });
+  } catch (error) {
+    res.status(500).json({ message: 'Error al crear el registro médico' });
+  }
+};
+
+// Filtros comunes al listado y al buscador de registros
+const recordFilters = (params: Request['query']) => {
+  const { patient, doctor, startDate, endDate, type, diagnosisCode } = params;
+  const query: any = {};
+
+  if (patient) query.patient = patient;
+  if (doctor) query.doctor = doctor;
+  if (type) query.type = type;
+  // Un código de categoría ("J45") incluye también sus subcategorías ("J45.0")
+  if (diagnosisCode) {
+    const code = normalizeIcd10Code(diagnosisCode as string)!;
+    query['diagnosisCodes.code'] = { $regex: `^${code.replace('.', '\\.')}` };
+  }
+  if (startDate || endDate) {
+    query.date = {};
+    if (startDate) query.date.$gte = new Date(startDate as string);
+    if (endDate) query.date.$lte = new Date(endDate as string);
+  }
+  return query;
+};
+
+export const getMedicalRecords = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const query = recordFilters(req.query);
+
+    // Los pacientes solo ven sus historias; los doctores, las que escribieron y las de
+    // los pacientes con los que tienen una cita vigente o un consentimiento activo
+    const accessFilter = await recordAccessFilter(req.user!);
+
+    const records = await paginate(
+      MedicalRecord.find({ $and: [query, accessFilter] })
+        .populate('patient', 'name documentId')
+        .populate('doctor', 'name specialty'),
+      req,
+      res
+    );
+
+    const breakGlass = await listedBreakGlass(req.user!, records.map((record) => record.patient));
+
+    await recordAudit(req, {
+      action: 'listado',
+      resourceType: RESOURCE_TYPE,
+      patients: records.map((record) => record.patient),
+      outcome: 'exito',
+      details: {
+        filters: req.query,
+        count: records.length,
+        ...(breakGlass.length ? { breakGlass } : {})
+      }
+    });
+    res.json(records);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Búsqueda de texto en los registros que el usuario puede ver, con los mismos filtros
+// que el listado
+export const searchMedicalRecords = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const text = req.query.q as string;
+    if (!textTerms(text).length) {
+      res.status(400).json({ message: 'La búsqueda no contiene términos significativos' });
+      return;
+    }
+
+    const limit = Math.min(Number(req.query.limit) || 20, MAX_SEARCH_LIMIT);
+    const page = Math.max(Number(req.query.page) || 1, 1);
+    const accessFilter = await recordAccessFilter(req.user!);
+    const { results, ...search } = await searchClinicalRecords(
+      text,
+      { $and: [recordFilters(req.query), accessFilter] },
+      { page, limit }
+    );
+
+    const breakGlass = await listedBreakGlass(req.user!, results.map(({ record }) => record.patient));
+    await recordAudit(req, {
+      action: 'listado',
+      resourceType: RESOURCE_TYPE,
+      patients: results.map(({ record }) => record.patient),
+      outcome: 'exito',
+      details: {
+        filters: req.query,
+        count: results.length,
+        total: search.total,
+        ...(breakGlass.length ? { breakGlass } : {})
+      }
+    });
+    res.json({
+      ...search,
+      page,
+      limit,
+      results: results.map(({ record, score, snippets }) => {
+        const { _id, date, type, status, patient, doctor, diagnosis, diagnosisCodes } = record.toJSON();
+        return { record: { _id, date, type, status, patient, doctor, diagnosis, diagnosisCodes }, score, snippets };
+      })
+    });
+  } catch (error) {
+    console.error('Error al buscar registros médicos:', error);
+    res.status(500).json({ message: 'Error al buscar en los registros médicos' });
+  }
+};
+
+export const getMedicalRecordById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id)
+      .populate('patient', 'name email')
+      .populate('doctor', 'name email');
+
+    if (!record) {
+      await recordAudit(req, {
+        action: 'lectura',
+        resourceType: RESOURCE_TYPE,
+        resource: req.params.id,
+        outcome: 'no_encontrado'
+      });
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'lectura' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    // Verificar permisos
+    const access = await getRecordAccess(req.user!, record);
+    if (!access) {
+      await recordAudit(req, { ...audit, outcome: 'denegado' });
+      res.status(403).json({ message: 'No tienes permiso para ver este registro' });
+      return;
+    }
+
+    // Con ?at= se devuelve el registro tal como estaba en esa fecha
+    if (req.query.at) {
+      const at = new Date(req.query.at as string);
+      const snapshot = await getRecordAt(record, at);
+      await recordAudit(req, {
+        ...audit,
+        outcome: snapshot ? 'exito' : 'no_encontrado',
+        details: { ...access, at }
+      });
+      if (!snapshot) {
+        res.status(404).json({ message: 'El registro médico no existía en la fecha indicada' });
+        return;
+      }
+      res.json(snapshot);
+      return;
+    }
+
+    await recordAudit(req, { ...audit, outcome: 'exito', details: { ...access } });
+    res.json(record);
+  } catch (error) {
+    console.error('Error al obtener registro médico:', error);
+    res.status(500).json({ message: 'Error en el servidor' });
+  }
+};
+
+export const updateMedicalRecord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    if (!record) {
+      await recordAudit(req, {
+        action: 'actualizacion',
+        resourceType: RESOURCE_TYPE,
+        resource: req.params.id,
+        outcome: 'no_encontrado'
+      });
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'actualizacion' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    // Verificar permisos
+    if (req.user?.role === 'doctor' && record.doctor.toString() !== req.user.id) {
+      await recordAudit(req, { ...audit, outcome: 'denegado' });
+      res.status(403).json({ message: 'No tienes permiso para actualizar este registro' });
+      return;
+    }
+
+    if (record.status === 'firmado') {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { status: record.status } });
+      res.status(409).json({ message: 'El registro médico está firmado; utilice una enmienda para modificarlo' });
+      return;
+    }
+
+    // Solo se comprueba la medicación cuando la petición la modifica
+    const { safetyOverrideReason } = req.body;
+    const safety = await assessPrescribing(
+      record.patient,
+      medicationNames(req.body.treatment?.medications),
+      safetyOverrideReason,
+      { record: record._id }
+    );
+    if (safety.blocked) {
+      res.status(409).json(safetyBlockedResponse(safety.warnings));
+      return;
+    }
+
+    const changes = await editDraft(record, req.body, req.user!.id);
+
+    await recordAudit(req, {
+      ...audit,
+      outcome: 'exito',
+      details: {
+        version: record.version,
+        fields: changes.map((change) => change.path),
+        ...safetyAuditDetails(safety, safetyOverrideReason)
+      }
+    });
+    res.json({ ...record.toJSON(), safetyWarnings: safety.warnings });
+  } catch (error) {
+    console.error('Error al actualizar registro médico:', error);
+    res.status(500).json({ message: 'Error al actualizar el registro médico' });
+  }
+};
+
+// Firma del registro por su autor. A partir de aquí el contenido queda bloqueado.
+export const signMedicalRecord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    if (!record) {
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'actualizacion' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    if (record.doctor.toString() !== req.user!.id) {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { operation: 'firma' } });
+      res.status(403).json({ message: 'Solo el autor puede firmar el registro médico' });
+      return;
+    }
+
+    if (record.status === 'firmado') {
+      res.status(409).json({ message: 'El registro médico ya está firmado' });
+      return;
+    }
+
+    await signRecord(record, req.user!.id);
+
+    await recordAudit(req, {
+      ...audit,
+      outcome: 'exito',
+      details: { operation: 'firma', version: record.version }
+    });
+    res.json(record);
+  } catch (error) {
+    console.error('Error al firmar registro médico:', error);
+    res.status(500).json({ message: 'Error al firmar el registro médico' });
+  }
+};
+
+// Enmienda de un registro firmado. Pueden enmendar los doctores con acceso clínico
+// al paciente (no basta un acceso de emergencia).
+export const amendMedicalRecord = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    if (!record) {
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'actualizacion' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    const access = await getRecordAccess(req.user!, record);
+    if (!access || access.basis === 'emergencia') {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { operation: 'enmienda' } });
+      res.status(403).json({ message: 'No tienes permiso para enmendar este registro' });
+      return;
+    }
+
+    if (record.status !== 'firmado') {
+      res.status(409).json({ message: 'El registro médico no está firmado; puede editarse directamente' });
+      return;
+    }
+
+    const { safetyOverrideReason } = req.body;
+    const safety = await assessPrescribing(
+      record.patient,
+      medicationNames(req.body.changes.treatment?.medications),
+      safetyOverrideReason,
+      { record: record._id }
+    );
+    if (safety.blocked) {
+      res.status(409).json(safetyBlockedResponse(safety.warnings));
+      return;
+    }
+
+    const changes = await amendRecord(record, req.body.changes, req.body.reason, req.user!.id);
+    if (!changes.length) {
+      res.status(400).json({ message: 'La enmienda no modifica ningún campo clínico' });
+      return;
+    }
+
+    await recordAudit(req, {
+      ...audit,
+      outcome: 'exito',
+      details: {
+        operation: 'enmienda',
+        basis: access.basis,
+        version: record.version,
+        fields: changes.map((change) => change.path),
+        ...safetyAuditDetails(safety, safetyOverrideReason)
+      }
+    });
+    res.json({ ...record.toJSON(), safetyWarnings: safety.warnings });
+  } catch (error) {
+    console.error('Error al enmendar registro médico:', error);
+    res.status(500).json({ message: 'Error al enmendar el registro médico' });
+  }
+};
+
+export const getMedicalRecordVersions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    if (!record) {
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'lectura' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    const access = await getRecordAccess(req.user!, record);
+    if (!access) {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { versions: true } });
+      res.status(403).json({ message: 'No tienes permiso para ver este registro' });
+      return;
+    }
+
+    const versions = await getRecordVersions(record._id);
+
+    await recordAudit(req, { ...audit, outcome: 'exito', details: { ...access, versions: true } });
+    res.json({ record: record._id, status: record.status, version: record.version, versions });
+  } catch (error) {
+    console.error('Error al obtener versiones del registro médico:', error);
+    res.status(500).json({ message: 'Error en el servidor' });
+  }
+};
+
+// Subida de un adjunto. Sobre un registro firmado es una enmienda y requiere motivo.
+export const uploadAttachment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    if (!record) {
+      res.status(404).json({ message: 'Registro médico no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'actualizacion' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    const access = await getRecordAccess(req.user!, record);
+    if (!access || access.basis === 'emergencia') {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { operation: 'adjunto' } });
+      res.status(403).json({ message: 'No tienes permiso para añadir adjuntos a este registro' });
+      return;
+    }
+
+    if (record.status === 'firmado' && !req.body.reason?.trim()) {
+      res.status(400).json({ message: 'El registro está firmado: indique el motivo de la enmienda' });
+      return;
+    }
+
+    const attachment = await storeAttachment(record, req.file!, {
+      type: req.body.type,
+      description: req.body.description,
+      reason: req.body.reason?.trim()
+    }, req.user!.id);
+
+    await recordAudit(req, {
+      ...audit,
+      outcome: 'exito',
+      details: {
+        operation: 'adjunto',
+        attachment: attachment._id,
+        checksum: attachment.checksum,
+        version: record.version
+      }
+    });
+    res.status(201).json(attachment);
+  } catch (error) {
+    if (error instanceof AttachmentRejectedError) {
+      res.status(415).json({ message: error.message });
+      return;
+    }
+    console.error('Error al subir adjunto:', error);
+    res.status(500).json({ message: 'Error al subir el adjunto' });
+  }
+};
+
+// Descarga de un adjunto a través de la API, con las mismas reglas de acceso que el registro
+export const downloadAttachment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const record = await MedicalRecord.findById(req.params.id);
+    const attachment = record?.attachments?.find((item) => String(item._id) === req.params.attachmentId);
+    if (!record || !attachment) {
+      res.status(404).json({ message: 'Adjunto no encontrado' });
+      return;
+    }
+
+    const audit = {
+      action: 'lectura' as const,
+      resourceType: RESOURCE_TYPE,
+      resource: record._id,
+      patients: [record.patient]
+    };
+
+    const access = await getRecordAccess(req.user!, record);
+    if (!access) {
+      await recordAudit(req, { ...audit, outcome: 'denegado', details: { attachment: attachment._id } });
+      res.status(403).json({ message: 'No tienes permiso para ver este registro' });
+      return;
+    }
+
+    if (!attachment.storageKey) {
+      res.status(404).json({ message: 'El adjunto no tiene un fichero almacenado' });
+      return;
+    }
+
+    const stream = await getStorage().get(attachment.storageKey);
+    await recordAudit(req, { ...audit, outcome: 'exito', details: { ...access, attachment: attachment._id } });
+
+    res.setHeader('Content-Type', attachment.contentType || 'application/octet-stream');
+    if (attachment.size) res.setHeader('Content-Length', String(attachment.size));
+    if (attachment.checksum) res.setHeader('ETag', `"${attachment.checksum}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.attachment(attachment.name);
+
+    stream.on('error', (error) => {
+      console.error('Error al leer adjunto:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof StoredObjectNotFoundError) {
+      res.status(404).json({ message: 'El fichero del adjunto no está disponible' });
+      return;
+    }
+    console.error('Error al descargar adjunto:', error);
+    res.status(500).json({ message: 'Error al descargar el adjunto' });
+  }
+};
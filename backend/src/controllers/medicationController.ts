@@ -0,0 +1,35 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { canAccessPatient } from '../services/accessControl';
+import { assessPrescribing, searchCatalog } from '../services/medicationSafety';
+
+export const searchMedications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(searchCatalog(String(req.query.q || ''), Number(req.query.limit) || undefined));
+  } catch (error) {
+    console.error('Error al buscar medicamentos:', error);
+    res.status(500).json({ message: 'Error al buscar medicamentos' });
+  }
+};
+
+// Comprobación previa, sin guardar nada, de los medicamentos que se quieren prescribir
+export const checkMedications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const patient = await User.findOne({ _id: req.body.patientId, role: 'patient' }).select('_id');
+    if (!patient) {
+      res.status(404).json({ message: 'Paciente no encontrado' });
+      return;
+    }
+
+    if (!(await canAccessPatient(req.user!, patient._id))) {
+      res.status(403).json({ message: 'No tienes permiso para acceder a este paciente' });
+      return;
+    }
+
+    const { warnings } = await assessPrescribing(patient._id, req.body.medications);
+    res.json({ warnings, blocking: warnings.some((warning) => warning.blocking) });
+  } catch (error) {
+    console.error('Error al comprobar medicamentos:', error);
+    res.status(500).json({ message: 'Error al comprobar los medicamentos' });
+  }
+};
@@ -0,0 +1,83 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import Notification from '../models/Notification';
+import User from '../models/User';
+import { paginate } from '../services/listing';
+import { dispatchPendingNotifications } from '../services/notifications/notificationService';
+
+export const getNotifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, id } = req.user!;
+    const query: any = {};
+
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+
+    // Solo los administradores pueden consultar la bandeja de otros usuarios
+    if (role === 'admin' && req.query.user) {
+      query.user = req.query.user;
+    } else if (role !== 'admin') {
+      query.user = id;
+    }
+
+    const notifications = await paginate(Notification.find(query), req, res);
+
+    res.json(notifications);
+  } catch (error) {
+    console.error('Error al obtener notificaciones:', error);
+    res.status(500).json({ message: 'Error al obtener las notificaciones' });
+  }
+};
+
+export const getNotificationPreferences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.id).select('notificationPreferences');
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    res.json(user.notificationPreferences);
+  } catch (error) {
+    console.error('Error al obtener preferencias de notificación:', error);
+    res.status(500).json({ message: 'Error al obtener las preferencias de notificación' });
+  }
+};
+
+export const updateNotificationPreferences = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    const { email, sms, reminderHoursBefore } = req.body;
+    if (email !== undefined) user.notificationPreferences.email = email;
+    if (sms !== undefined) user.notificationPreferences.sms = sms;
+    if (reminderHoursBefore !== undefined) user.notificationPreferences.reminderHoursBefore = reminderHoursBefore;
+
+    await user.save();
+    res.json(user.notificationPreferences);
+  } catch (error) {
+    console.error('Error al actualizar preferencias de notificación:', error);
+    res.status(500).json({ message: 'Error al actualizar las preferencias de notificación' });
+  }
+};
+
+export const dispatchNotifications = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await dispatchPendingNotifications();
+    res.json(result);
+  } catch (error) {
+    console.error('Error al procesar la bandeja de salida:', error);
+    res.status(500).json({ message: 'Error al procesar las notificaciones pendientes' });
+  }
+};
@@ -0,0 +1,310 @@
+import { Request, Response } from 'express';
+import Appointment from '../models/Appointment';
+import MedicalRecord from '../models/MedicalRecord';
+import Prescription, { IPrescription } from '../models/Prescription';
+import User, { IUser } from '../models/User';
+import { canAccessPatient, prescriptionAccessFilter } from '../services/accessControl';
+import { recordAudit } from '../services/auditService';
+import { paginate } from '../services/listing';
+import {
+  assessPrescribing,
+  medicationNames,
+  safetyAuditDetails,
+  safetyBlockedResponse
+} from '../services/medicationSafety';
+import {
+  dispensePrescription,
+  effectiveStatus,
+  findPharmacy,
+  issuePrescription,
+  publicPrescriptionView,
+  renderPrescriptionPdf
+} from '../services/prescriptionService';
+import { normalizeVerificationCode } from '../utils/tokens';
+
+// La respuesta lleva el estado efectivo, que incluye "vencida"
+// Con ?fields= puede que el estado no se haya cargado; entonces no se añade
+const withStatus = (prescription: IPrescription) => ({
+  ...prescription.toJSON(),
+  ...(prescription.status ? { status: effectiveStatus(prescription) } : {})
+});
+
+const findAccessible = (req: Request) =>
+  Prescription.findOne({ $and: [{ _id: req.params.id }, prescriptionAccessFilter(req.user!)] });
+
+export const createPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { patientId, medications, instructions, appointmentId, medicalRecordId, validDays, safetyOverrideReason } = req.body;
+
+    const doctor = await User.findById(req.user!.id);
+    if (!doctor?.licenseNumber) {
+      res.status(400).json({ message: 'Debe registrar su número de matrícula antes de emitir recetas' });
+      return;
+    }
+
+    const patient = await User.findOne({ _id: patientId, role: 'patient' });
+    if (!patient) {
+      res.status(404).json({ message: 'Paciente no encontrado' });
+      return;
+    }
+
+    if (!(await canAccessPatient(req.user!, patient._id))) {
+      res.status(403).json({ message: 'No tienes permiso para emitir recetas a este paciente' });
+      return;
+    }
+
+    // La cita o el registro de origen deben ser del mismo paciente y del doctor que prescribe
+    if (appointmentId) {
+      const appointment = await Appointment.exists({ _id: appointmentId, patient: patient._id, doctor: doctor._id });
+      if (!appointment) {
+        res.status(400).json({ message: 'La cita no corresponde a este paciente y doctor' });
+        return;
+      }
+    }
+    if (medicalRecordId) {
+      const record = await MedicalRecord.exists({ _id: medicalRecordId, patient: patient._id });
+      if (!record) {
+        res.status(400).json({ message: 'El registro médico no corresponde a este paciente' });
+        return;
+      }
+    }
+
+    const safety = await assessPrescribing(patient._id, medicationNames(medications), safetyOverrideReason);
+    if (safety.blocked) {
+      res.status(409).json(safetyBlockedResponse(safety.warnings));
+      return;
+    }
+
+    const prescription = await issuePrescription({
+      patient: patient._id,
+      doctor: doctor._id,
+      prescriberLicense: doctor.licenseNumber,
+      medications,
+      instructions,
+      appointment: appointmentId,
+      medicalRecord: medicalRecordId,
+      validDays
+    });
+
+    await recordAudit(req, {
+      action: 'creacion',
+      resourceType: 'Prescription',
+      resource: prescription._id,
+      patients: [patient._id],
+      outcome: 'exito',
+      details: safetyAuditDetails(safety, safetyOverrideReason)
+    });
+
+    res.status(201).json({ ...withStatus(prescription), safetyWarnings: safety.warnings });
+  } catch (error) {
+    console.error('Error al emitir receta:', error);
+    res.status(500).json({ message: 'Error al emitir la receta' });
+  }
+};
+
+export const getPrescriptions = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query: any = {};
+    if (req.query.patient) query.patient = req.query.patient;
+    if (req.query.doctor) query.doctor = req.query.doctor;
+    if (req.query.appointment) query.appointment = req.query.appointment;
+
+    // "vencida" no se guarda, así que se traduce a su condición sobre la fecha
+    const now = new Date();
+    if (req.query.status === 'vencida') {
+      query.status = { $in: ['emitida', 'dispensada_parcial'] };
+      query.validUntil = { $lte: now };
+    } else if (req.query.status === 'emitida' || req.query.status === 'dispensada_parcial') {
+      query.status = req.query.status;
+      query.validUntil = { $gt: now };
+    } else if (req.query.status) {
+      query.status = req.query.status;
+    }
+
+    const prescriptions = await paginate(
+      Prescription.find({ $and: [query, prescriptionAccessFilter(req.user!)] })
+        .populate('patient', 'name documentId')
+        .populate('doctor', 'name specialty'),
+      req,
+      res
+    );
+
+    await recordAudit(req, {
+      action: 'listado',
+      resourceType: 'Prescription',
+      patients: prescriptions.map((prescription) => prescription.patient),
+      outcome: 'exito',
+      details: { filters: req.query, count: prescriptions.length }
+    });
+
+    res.json(prescriptions.map(withStatus));
+  } catch (error) {
+    console.error('Error al obtener recetas:', error);
+    res.status(500).json({ message: 'Error al obtener las recetas' });
+  }
+};
+
+export const getPrescriptionById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prescription = await findAccessible(req)
+      .populate('patient', 'name documentId birthDate')
+      .populate('doctor', 'name specialty');
+    if (!prescription) {
+      res.status(404).json({ message: 'Receta no encontrada' });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'lectura',
+      resourceType: 'Prescription',
+      resource: prescription._id,
+      patients: [prescription.patient],
+      outcome: 'exito'
+    });
+
+    res.json(withStatus(prescription));
+  } catch (error) {
+    console.error('Error al obtener receta:', error);
+    res.status(500).json({ message: 'Error al obtener la receta' });
+  }
+};
+
+export const getPrescriptionPdf = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prescription = await findAccessible(req);
+    if (!prescription) {
+      res.status(404).json({ message: 'Receta no encontrada' });
+      return;
+    }
+
+    const [patient, doctor] = await Promise.all([
+      User.findById(prescription.patient),
+      User.findById(prescription.doctor)
+    ]);
+    if (!patient || !doctor) {
+      res.status(404).json({ message: 'Paciente o doctor no encontrado' });
+      return;
+    }
+
+    const pdf = await renderPrescriptionPdf(prescription, patient, doctor);
+
+    await recordAudit(req, {
+      action: 'exportacion',
+      resourceType: 'Prescription',
+      resource: prescription._id,
+      patients: [prescription.patient],
+      outcome: 'exito',
+      details: { format: 'pdf' }
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="receta-${prescription.verificationCode}.pdf"`);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error al generar PDF de receta:', error);
+    res.status(500).json({ message: 'Error al generar el PDF de la receta' });
+  }
+};
+
+export const cancelPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prescription = await Prescription.findById(req.params.id);
+    if (!prescription) {
+      res.status(404).json({ message: 'Receta no encontrada' });
+      return;
+    }
+
+    if (req.user!.role !== 'admin' && prescription.doctor.toString() !== req.user!.id) {
+      res.status(403).json({ message: 'Solo el doctor que emitió la receta puede cancelarla' });
+      return;
+    }
+
+    if (prescription.status === 'cancelada' || prescription.status === 'dispensada') {
+      res.status(409).json({ message: `No se puede cancelar una receta ${prescription.status}` });
+      return;
+    }
+
+    prescription.set({
+      status: 'cancelada',
+      cancelledAt: new Date(),
+      cancelledBy: req.user!.id,
+      cancellationReason: req.body.reason
+    });
+    await prescription.save();
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'Prescription',
+      resource: prescription._id,
+      patients: [prescription.patient],
+      outcome: 'exito',
+      details: { cancelled: true }
+    });
+
+    res.json(withStatus(prescription));
+  } catch (error) {
+    console.error('Error al cancelar receta:', error);
+    res.status(500).json({ message: 'Error al cancelar la receta' });
+  }
+};
+
+const publicView = async (prescription: IPrescription) => {
+  const [patient, doctor] = await Promise.all([
+    User.findById(prescription.patient).select('name documentId'),
+    User.findById(prescription.doctor).select('name specialty')
+  ]);
+  return publicPrescriptionView(prescription, patient as IUser | null, doctor as IUser | null);
+};
+
+// Consulta pública por código: no requiere sesión
+export const verifyPrescription = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const code = normalizeVerificationCode(req.params.code);
+    const prescription = code ? await Prescription.findOne({ verificationCode: code }) : null;
+    if (!prescription) {
+      res.status(404).json({ message: 'Receta no encontrada' });
+      return;
+    }
+
+    res.setHeader('Cache-Control', 'no-store');
+    res.json(await publicView(prescription));
+  } catch (error) {
+    console.error('Error al verificar receta:', error);
+    res.status(500).json({ message: 'Error al verificar la receta' });
+  }
+};
+
+// Registro de una dispensación por una farmacia identificada con su clave (X-Pharmacy-Key)
+export const dispense = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pharmacy = findPharmacy(req.header('X-Pharmacy-Key'));
+    if (!pharmacy) {
+      res.status(401).json({ message: 'Clave de farmacia inválida' });
+      return;
+    }
+
+    const code = normalizeVerificationCode(req.params.code);
+    const existing = code ? await Prescription.findOne({ verificationCode: code }) : null;
+    if (!existing) {
+      res.status(404).json({ message: 'Receta no encontrada' });
+      return;
+    }
+
+    const prescription = await dispensePrescription(existing.verificationCode, pharmacy, req.body.complete !== false, req.body.notes);
+    if (!prescription) {
+      // Se vuelve a leer por si otra farmacia la ha dispensado mientras tanto
+      const current = await Prescription.findById(existing._id);
+      res.status(409).json({
+        message: 'La receta no se puede dispensar',
+        status: current ? effectiveStatus(current) : undefined
+      });
+      return;
+    }
+
+    res.json(await publicView(prescription));
+  } catch (error) {
+    console.error('Error al dispensar receta:', error);
+    res.status(500).json({ message: 'Error al registrar la dispensación' });
+  }
+};
@@ -0,0 +1,69 @@
+import { Request, Response } from 'express';
+import AuthAttempt from '../models/AuthAttempt';
+import SecurityEvent from '../models/SecurityEvent';
+import { accountKey, unlockAttempt } from '../services/bruteForceService';
+import { paginate } from '../services/listing';
+
+export const getLocks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const locks = await AuthAttempt.find({ lockedUntil: { $gt: new Date() } }).sort({ lockedUntil: -1 });
+    res.json(locks);
+  } catch (error) {
+    console.error('Error al obtener bloqueos:', error);
+    res.status(500).json({ message: 'Error al obtener los bloqueos' });
+  }
+};
+
+export const unlockById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const attempt = await unlockAttempt(req.params.id, req.user!.id);
+    if (!attempt) {
+      res.status(404).json({ message: 'Bloqueo no encontrado' });
+      return;
+    }
+
+    res.json({ message: 'Bloqueo eliminado exitosamente', attempt });
+  } catch (error) {
+    console.error('Error al eliminar bloqueo:', error);
+    res.status(500).json({ message: 'Error al eliminar el bloqueo' });
+  }
+};
+
+// Desbloquea una cuenta en todos los ámbitos (login, segundo factor, recuperación...)
+export const unlockAccount = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const attempts = await AuthAttempt.find({ key: accountKey(req.body.email) }).select('_id');
+    for (const attempt of attempts) {
+      await unlockAttempt(attempt._id, req.user!.id);
+    }
+
+    res.json({ message: 'Cuenta desbloqueada exitosamente', unlocked: attempts.length });
+  } catch (error) {
+    console.error('Error al desbloquear cuenta:', error);
+    res.status(500).json({ message: 'Error al desbloquear la cuenta' });
+  }
+};
+
+export const getSecurityEvents = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const query: any = {};
+    if (req.query.type) {
+      query.type = req.query.type;
+    }
+    if (req.query.email) {
+      query.key = accountKey(String(req.query.email));
+    }
+
+    const events = await paginate(
+      SecurityEvent.find(query)
+        .populate('actor', 'name email'),
+      req,
+      res
+    );
+
+    res.json(events);
+  } catch (error) {
+    console.error('Error al obtener eventos de seguridad:', error);
+    res.status(500).json({ message: 'Error al obtener los eventos de seguridad' });
+  }
+};
@@ -0,0 +1,136 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { createSession, revokeAllSessions } from '../services/sessionService';
+import {
+  confirmEnrollment,
+  disableTwoFactor as disableUserTwoFactor,
+  isTwoFactorRequired,
+  regenerateRecoveryCodes as regenerateUserRecoveryCodes,
+  startEnrollment,
+  verifySecondFactor,
+} from '../services/twoFactorService';
+
+export const getTwoFactorStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.id).select('+twoFactorRecoveryCodes');
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    res.json({
+      enabled: user.twoFactorEnabled,
+      enabledAt: user.twoFactorEnabledAt,
+      required: isTwoFactorRequired(user.role),
+      recoveryCodesRemaining: user.twoFactorRecoveryCodes?.length || 0,
+    });
+  } catch (error) {
+    console.error('Error al obtener estado del segundo factor:', error);
+    res.status(500).json({ message: 'Error al obtener estado del segundo factor' });
+  }
+};
+
+export const setupTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (user.twoFactorEnabled) {
+      res.status(409).json({ message: 'La verificación en dos pasos ya está activada' });
+      return;
+    }
+
+    res.json(await startEnrollment(user));
+  } catch (error) {
+    console.error('Error al iniciar configuración del segundo factor:', error);
+    res.status(500).json({ message: 'Error al iniciar configuración del segundo factor' });
+  }
+};
+
+// Confirma el alta con un primer código. Si se llegó aquí con el token de reto
+// del login, se abre además la sesión que quedó pendiente.
+export const enableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const recoveryCodes = await confirmEnrollment(req.user!.id, req.body.code);
+    if (!recoveryCodes) {
+      res.status(400).json({ message: 'Código de verificación inválido' });
+      return;
+    }
+
+    if (req.user!.sessionId) {
+      res.json({ message: 'Verificación en dos pasos activada', recoveryCodes });
+      return;
+    }
+
+    const user = await User.findById(req.user!.id);
+    const { token, refreshToken } = await createSession(user!, req);
+    res.json({
+      message: 'Verificación en dos pasos activada',
+      recoveryCodes,
+      token,
+      refreshToken,
+      user: {
+        id: user!._id,
+        name: user!.name,
+        email: user!.email,
+        role: user!.role,
+        emailVerified: user!.emailVerified,
+      },
+    });
+  } catch (error) {
+    console.error('Error al activar segundo factor:', error);
+    res.status(500).json({ message: 'Error al activar segundo factor' });
+  }
+};
+
+export const disableTwoFactor = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { password, code, recoveryCode } = req.body;
+
+    const user = await User.findById(req.user!.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (isTwoFactorRequired(user.role)) {
+      res.status(403).json({ message: 'La verificación en dos pasos es obligatoria para su rol' });
+      return;
+    }
+    if (!user.twoFactorEnabled) {
+      res.status(409).json({ message: 'La verificación en dos pasos no está activada' });
+      return;
+    }
+
+    const isValidPassword = await user.comparePassword(password);
+    if (!isValidPassword || !(await verifySecondFactor(user._id, { code, recoveryCode }))) {
+      res.status(400).json({ message: 'Contraseña o código de verificación inválidos' });
+      return;
+    }
+
+    // Como al cambiar la contraseña, se mantiene la sesión actual y se cierran las demás
+    await disableUserTwoFactor(user._id);
+    await revokeAllSessions(user._id, 'desactivacion_segundo_factor', req.user!.sessionId);
+    res.json({ message: 'Verificación en dos pasos desactivada' });
+  } catch (error) {
+    console.error('Error al desactivar segundo factor:', error);
+    res.status(500).json({ message: 'Error al desactivar segundo factor' });
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const isValidCode = await verifySecondFactor(req.user!.id, { code: req.body.code });
+    if (!isValidCode) {
+      res.status(400).json({ message: 'Código de verificación inválido' });
+      return;
+    }
+
+    const recoveryCodes = await regenerateUserRecoveryCodes(req.user!.id);
+    res.json({ message: 'Códigos de recuperación regenerados', recoveryCodes });
+  } catch (error) {
+    console.error('Error al regenerar códigos de recuperación:', error);
+    res.status(500).json({ message: 'Error al regenerar códigos de recuperación' });
+  }
+};
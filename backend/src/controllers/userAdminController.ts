@@ -0,0 +1,454 @@
+import { Request, Response } from 'express';
+import { MongoError } from 'mongodb';
+import Appointment from '../models/Appointment';
+import Invitation, { IInvitation } from '../models/Invitation';
+import User, { documentIdQuery, IUser, UserRole } from '../models/User';
+import { recordAudit } from '../services/auditService';
+import {
+  invitationStatus,
+  resendInvitation as resendInvitationEmail,
+  revokeInvitation as revokeInvitationRecord,
+  sendInvitation
+} from '../services/invitationService';
+import { paginate } from '../services/listing';
+import { enqueueNotification } from '../services/notifications/notificationService';
+import { revokeAllSessions } from '../services/sessionService';
+import { generateToken } from '../utils/tokens';
+
+// Los datos clínicos del paciente no forman parte de la gestión de cuentas
+const ACCOUNT_FIELDS = '-password -medicalHistory -allergies';
+
+const EDITABLE_FIELDS = [
+  'name', 'email', 'phone', 'address', 'birthDate', 'documentId', 'healthCoverage', 'specialty', 'licenseNumber'
+] as const;
+
+// Citas que un doctor todavía tiene que atender
+const UPCOMING_STATUSES = ['pendiente', 'confirmada'];
+
+const escapeRegex = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Los accesos a cuentas de pacientes se asocian al paciente en la auditoría
+const auditPatients = (user: IUser) => (user.role === 'patient' ? [user._id] : []);
+
+const isDuplicateKey = (error: unknown): error is MongoError & { keyPattern: Record<string, number> } =>
+  error instanceof MongoError && error.code === 11000;
+
+const duplicateMessage = (error: MongoError & { keyPattern: Record<string, number> }): string =>
+  `Ya existe un usuario con ese ${Object.keys(error.keyPattern)[0] === 'email' ? 'correo electrónico' : 'documento'}`;
+
+const findAccount = (id: string) => User.findById(id).select(ACCOUNT_FIELDS);
+
+// Un administrador no puede modificarse a sí mismo el rol ni desactivarse, y siempre
+// tiene que quedar al menos otro administrador activo
+const adminGuard = async (req: Request, user: IUser): Promise<string | null> => {
+  if (user.id === req.user!.id) {
+    return 'No puedes cambiar tu propio rol ni desactivar tu cuenta';
+  }
+  if (user.role === 'admin' && user.active) {
+    const otherAdmins = await User.countDocuments({ _id: { $ne: user._id }, role: 'admin', active: true });
+    if (otherAdmins === 0) return 'Debe quedar al menos un administrador activo';
+  }
+  return null;
+};
+
+const upcomingAppointments = (user: IUser): Promise<number> =>
+  user.role === 'doctor'
+    ? Appointment.countDocuments({ doctor: user._id, status: { $in: UPCOMING_STATUSES }, date: { $gte: new Date() } })
+    : Promise.resolve(0);
+
+const withStatus = (invitation: IInvitation) => ({ ...invitation.toJSON(), status: invitationStatus(invitation) });
+
+export const listUsers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { q, role, active, emailVerified } = req.query;
+    const query: any = {};
+
+    // El documento está cifrado: se busca por coincidencia exacta con el índice ciego
+    if (q) {
+      const pattern = new RegExp(escapeRegex(String(q)), 'i');
+      query.$or = [{ name: pattern }, { email: pattern }, documentIdQuery(String(q).trim())];
+    }
+    if (role) query.role = role;
+    if (active !== undefined) query.active = active === 'true';
+    if (emailVerified !== undefined) query.emailVerified = emailVerified === 'true';
+
+    const users = await paginate(User.find(query).select(ACCOUNT_FIELDS), req, res);
+
+    await recordAudit(req, {
+      action: 'listado',
+      resourceType: 'User',
+      patients: users.filter((user) => user.role === 'patient').map((user) => user._id),
+      outcome: 'exito',
+      details: { q, role, active, emailVerified, count: users.length }
+    });
+
+    res.json(users);
+  } catch (error) {
+    console.error('Error al listar usuarios:', error);
+    res.status(500).json({ message: 'Error al obtener los usuarios' });
+  }
+};
+
+export const getUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findAccount(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    await recordAudit(req, {
+      action: 'lectura',
+      resourceType: 'User',
+      resource: user._id,
+      patients: auditPatients(user),
+      outcome: 'exito'
+    });
+
+    res.json(user);
+  } catch (error) {
+    console.error('Error al obtener usuario:', error);
+    res.status(500).json({ message: 'Error al obtener el usuario' });
+  }
+};
+
+// Edición del perfil. Un cambio de correo obliga a verificar la nueva dirección.
+export const updateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findAccount(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+
+    const changed = EDITABLE_FIELDS.filter((field) => req.body[field] !== undefined);
+    for (const field of changed) {
+      user.set(field, req.body[field]);
+    }
+    const emailChanged = user.isModified('email');
+    if (emailChanged) {
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+    await user.save();
+
+    if (emailChanged) {
+      await enqueueNotification(user, 'verificar_email', {}, { channels: ['email'], secureLink: 'verificar_email' });
+    }
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'User',
+      resource: user._id,
+      patients: auditPatients(user),
+      outcome: 'exito',
+      details: { fields: changed }
+    });
+
+    res.json(user);
+  } catch (error) {
+    if (isDuplicateKey(error)) {
+      res.status(409).json({ message: duplicateMessage(error) });
+      return;
+    }
+    console.error('Error al actualizar usuario:', error);
+    res.status(500).json({ message: 'Error al actualizar el usuario' });
+  }
+};
+
+// Cambio de rol. Se cierran las sesiones del usuario para que el nuevo rol se aplique
+// en su próximo inicio de sesión (y con él la verificación en dos pasos si la requiere).
+export const changeUserRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const role: UserRole = req.body.role;
+    const user = await findAccount(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (user.role === role) {
+      res.status(409).json({ message: 'El usuario ya tiene ese rol' });
+      return;
+    }
+
+    const guard = await adminGuard(req, user);
+    if (guard) {
+      res.status(409).json({ message: guard });
+      return;
+    }
+
+    const pending = await upcomingAppointments(user);
+    if (pending > 0) {
+      res.status(409).json({
+        message: 'El doctor tiene citas pendientes; reasígnelas o cancélelas antes de cambiar su rol',
+        upcomingAppointments: pending
+      });
+      return;
+    }
+
+    if (role === 'doctor') {
+      const specialty = req.body.specialty || user.specialty;
+      const licenseNumber = req.body.licenseNumber || user.licenseNumber;
+      if (!specialty || !licenseNumber) {
+        res.status(400).json({ message: 'La especialidad y la matrícula son requeridas para el rol de doctor' });
+        return;
+      }
+      user.specialty = specialty;
+      user.licenseNumber = licenseNumber;
+    }
+
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+    await revokeAllSessions(user._id, 'cambio_rol');
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'User',
+      resource: user._id,
+      patients: previousRole === 'patient' ? [user._id] : [],
+      outcome: 'exito',
+      details: { previousRole, role }
+    });
+
+    res.json(user);
+  } catch (error) {
+    console.error('Error al cambiar rol:', error);
+    res.status(500).json({ message: 'Error al cambiar el rol del usuario' });
+  }
+};
+
+// Desactiva la cuenta: se cierran sus sesiones y no puede volver a iniciar sesión.
+// Las citas futuras de un doctor no se cancelan; se informan para reasignarlas.
+export const deactivateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findAccount(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (!user.active) {
+      res.status(409).json({ message: 'El usuario ya está desactivado' });
+      return;
+    }
+
+    const guard = await adminGuard(req, user);
+    if (guard) {
+      res.status(409).json({ message: guard });
+      return;
+    }
+
+    // El enlace del calendario también deja de funcionar: no depende de la sesión
+    user.active = false;
+    user.deactivatedAt = new Date();
+    user.calendarFeedTokenHash = undefined;
+    await user.save();
+    const revokedSessions = await revokeAllSessions(user._id, 'desactivacion');
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'User',
+      resource: user._id,
+      patients: auditPatients(user),
+      outcome: 'exito',
+      details: { active: false, revokedSessions }
+    });
+
+    res.json({ user, upcomingAppointments: await upcomingAppointments(user) });
+  } catch (error) {
+    console.error('Error al desactivar usuario:', error);
+    res.status(500).json({ message: 'Error al desactivar el usuario' });
+  }
+};
+
+export const reactivateUser = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await findAccount(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (user.active) {
+      res.status(409).json({ message: 'El usuario ya está activo' });
+      return;
+    }
+
+    user.active = true;
+    user.deactivatedAt = undefined;
+    await user.save();
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'User',
+      resource: user._id,
+      patients: auditPatients(user),
+      outcome: 'exito',
+      details: { active: true }
+    });
+
+    res.json(user);
+  } catch (error) {
+    console.error('Error al reactivar usuario:', error);
+    res.status(500).json({ message: 'Error al reactivar el usuario' });
+  }
+};
+
+// Restablecimiento forzado: la contraseña actual deja de servir, se cierran las sesiones
+// y el usuario recibe un enlace para elegir una nueva
+export const forcePasswordReset = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      res.status(404).json({ message: 'Usuario no encontrado' });
+      return;
+    }
+    if (!user.active) {
+      res.status(409).json({ message: 'No se puede restablecer la contraseña de un usuario desactivado' });
+      return;
+    }
+
+    user.password = generateToken();
+    await user.save();
+    const revokedSessions = await revokeAllSessions(user._id, 'restablecimiento_forzado');
+
+    await enqueueNotification(user, 'contrasena_restablecida_admin', {}, {
+      channels: ['email'],
+      secureLink: 'restablecer_contrasena'
+    });
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'User',
+      resource: user._id,
+      patients: auditPatients(user),
+      outcome: 'exito',
+      details: { passwordReset: true, revokedSessions }
+    });
+
+    res.json({ message: 'Contraseña restablecida; se ha enviado un enlace al usuario', revokedSessions });
+  } catch (error) {
+    console.error('Error al forzar restablecimiento de contraseña:', error);
+    res.status(500).json({ message: 'Error al restablecer la contraseña' });
+  }
+};
+
+export const createInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email, role, name, specialty, licenseNumber } = req.body;
+
+    if (await User.exists({ email })) {
+      res.status(409).json({ message: 'Ya existe un usuario con ese correo electrónico' });
+      return;
+    }
+
+    const invitation = await sendInvitation({ email, role, name, specialty, licenseNumber }, req.user!.id);
+
+    await recordAudit(req, {
+      action: 'creacion',
+      resourceType: 'Invitation',
+      resource: invitation._id,
+      outcome: 'exito',
+      details: { role }
+    });
+
+    res.status(201).json(withStatus(invitation));
+  } catch (error) {
+    console.error('Error al crear invitación:', error);
+    res.status(500).json({ message: 'Error al crear la invitación' });
+  }
+};
+
+export const getInvitations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { status, email } = req.query;
+    const query: any = {};
+    const now = new Date();
+
+    if (email) query.email = String(email).toLowerCase();
+    if (status === 'aceptada') query.acceptedAt = { $exists: true };
+    if (status === 'revocada') query.revokedAt = { $exists: true };
+    if (status === 'pendiente' || status === 'vencida') {
+      query.acceptedAt = { $exists: false };
+      query.revokedAt = { $exists: false };
+      query.expiresAt = status === 'pendiente' ? { $gt: now } : { $lte: now };
+    }
+
+    const invitations = await paginate(
+      Invitation.find(query).populate('invitedBy', 'name email'),
+      req,
+      res
+    );
+
+    res.json(invitations.map(withStatus));
+  } catch (error) {
+    console.error('Error al obtener invitaciones:', error);
+    res.status(500).json({ message: 'Error al obtener las invitaciones' });
+  }
+};
+
+// Reenvía la invitación con un enlace nuevo; el anterior deja de ser válido
+export const resendInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await Invitation.findById(req.params.id);
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitación no encontrada' });
+      return;
+    }
+
+    const status = invitationStatus(invitation);
+    if (status === 'aceptada' || status === 'revocada') {
+      res.status(409).json({ message: `No se puede reenviar una invitación ${status}` });
+      return;
+    }
+    if (await User.exists({ email: invitation.email })) {
+      res.status(409).json({ message: 'Ya existe un usuario con ese correo electrónico' });
+      return;
+    }
+
+    await resendInvitationEmail(invitation);
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'Invitation',
+      resource: invitation._id,
+      outcome: 'exito',
+      details: { resent: true }
+    });
+
+    res.json(withStatus(invitation));
+  } catch (error) {
+    console.error('Error al reenviar invitación:', error);
+    res.status(500).json({ message: 'Error al reenviar la invitación' });
+  }
+};
+
+export const revokeInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await Invitation.findById(req.params.id);
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitación no encontrada' });
+      return;
+    }
+
+    const status = invitationStatus(invitation);
+    if (status === 'aceptada' || status === 'revocada') {
+      res.status(409).json({ message: `La invitación ya está ${status}` });
+      return;
+    }
+
+    await revokeInvitationRecord(invitation, req.user!.id);
+
+    await recordAudit(req, {
+      action: 'actualizacion',
+      resourceType: 'Invitation',
+      resource: invitation._id,
+      outcome: 'exito',
+      details: { revoked: true }
+    });
+
+    res.json(withStatus(invitation));
+  } catch (error) {
+    console.error('Error al revocar invitación:', error);
+    res.status(500).json({ message: 'Error al revocar la invitación' });
+  }
+};
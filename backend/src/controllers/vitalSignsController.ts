@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import User from '../models/User';
+import { canAccessPatient, listedBreakGlass, recordAccessFilter } from '../services/accessControl';
+import { recordAudit } from '../services/auditService';
+import { currentReferenceRanges, getVitalSignSeries, summarizeSeries } from '../services/vitalSignsService';
+import { ageAt, ageGroup, VitalSignMeasure } from '../utils/vitalSigns';
+
+const loadSeries = async (req: Request, res: Response) => {
+  const patient = await User.findOne({ _id: req.params.patientId, role: 'patient' }).select('name birthDate');
+  if (!patient) {
+    res.status(404).json({ message: 'Paciente no encontrado' });
+    return null;
+  }
+
+  const audit = {
+    action: 'lectura' as const,
+    resourceType: 'MedicalRecord',
+    patients: [patient._id]
+  };
+
+  if (!(await canAccessPatient(req.user!, patient._id))) {
+    await recordAudit(req, { ...audit, outcome: 'denegado', details: { vitalSigns: true } });
+    res.status(403).json({ message: 'No tienes permiso para ver los signos vitales de este paciente' });
+    return null;
+  }
+
+  // Solo se incluyen los registros que el usuario puede consultar
+  const accessFilter = await recordAccessFilter(req.user!);
+  const measures = req.query.measure
+    ? String(req.query.measure).split(',') as VitalSignMeasure[]
+    : undefined;
+  const { records, series } = await getVitalSignSeries(patient.id, patient.birthDate, accessFilter, {
+    measures,
+    from: req.query.from ? new Date(req.query.from as string) : undefined,
+    to: req.query.to ? new Date(req.query.to as string) : undefined
+  });
+
+  // Si el doctor tiene un acceso de emergencia sobre el paciente, la lectura queda marcada
+  const [breakGlass] = await listedBreakGlass(req.user!, [patient._id]);
+  await recordAudit(req, {
+    ...audit,
+    outcome: 'exito',
+    details: { vitalSigns: true, filters: req.query, count: records.length, ...(breakGlass ? { breakGlass } : {}) }
+  });
+
+  return {
+    patient: { _id: patient._id, name: patient.name },
+    ageGroup: ageGroup(ageAt(patient.birthDate, new Date())),
+    referenceRanges: currentReferenceRanges(patient.birthDate),
+    series
+  };
+};
+
+export const getVitalSignsSeries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await loadSeries(req, res);
+    if (result) res.json(result);
+  } catch (error) {
+    console.error('Error al obtener signos vitales:', error);
+    res.status(500).json({ message: 'Error al obtener los signos vitales' });
+  }
+};
+
+export const getVitalSignsSummary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await loadSeries(req, res);
+    if (!result) return;
+    const { series, ...rest } = result;
+    res.json({ ...rest, trends: summarizeSeries(series) });
+  } catch (error) {
+    console.error('Error al obtener resumen de signos vitales:', error);
+    res.status(500).json({ message: 'Error al obtener el resumen de signos vitales' });
+  }
+};
@@ -0,0 +1,228 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import SlotOffer from '../models/SlotOffer';
+import User from '../models/User';
+import WaitlistEntry from '../models/WaitlistEntry';
+import { BookingLockTimeoutError } from '../services/availabilityService';
+import { paginate } from '../services/listing';
+import {
+  acceptOffer,
+  declineOffer,
+  processWaitlistExpirations,
+} from '../services/waitlistService';
+import { startOfDay } from '../utils/time';
+
+export const createWaitlistEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { role, id } = req.user!;
+    const { doctorId, specialty, preferredFrom, preferredTo, type, notes } = req.body;
+    // Los pacientes solo pueden inscribirse a sí mismos
+    const patientId = role === 'patient' ? id : req.body.patientId;
+
+    const patient = await User.findOne({ _id: patientId, role: 'patient' });
+    if (!patient) {
+      res.status(404).json({ message: 'Paciente no encontrado' });
+      return;
+    }
+
+    if (doctorId) {
+      const doctor = await User.findOne({ _id: doctorId, role: 'doctor' });
+      if (!doctor) {
+        res.status(404).json({ message: 'Doctor no encontrado' });
+        return;
+      }
+    }
+
+    const from = startOfDay(preferredFrom);
+    const to = startOfDay(preferredTo);
+    if (to < from) {
+      res.status(400).json({ message: 'La fecha final debe ser posterior a la inicial' });
+      return;
+    }
+
+    const entry = await WaitlistEntry.create({
+      patient: patientId,
+      doctor: doctorId,
+      specialty: doctorId ? undefined : specialty,
+      preferredFrom: from,
+      preferredTo: to,
+      type,
+      notes,
+      createdBy: id,
+    });
+
+    res.status(201).json(entry);
+  } catch (error) {
+    console.error('Error al crear entrada en lista de espera:', error);
+    res.status(500).json({ message: 'Error al inscribir en la lista de espera' });
+  }
+};
+
+export const getWaitlistEntries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, id } = req.user!;
+    const query: any = {};
+
+    if (req.query.status) {
+      query.status = req.query.status;
+    }
+
+    // Filtrar por rol del usuario
+    if (role === 'patient') {
+      query.patient = id;
+    } else if (role === 'doctor') {
+      const doctor = await User.findById(id).select('specialty');
+      query.$or = [{ doctor: id }];
+      if (doctor?.specialty) {
+        query.$or.push({ doctor: { $exists: false }, specialty: doctor.specialty });
+      }
+    }
+
+    const entries = await paginate(
+      WaitlistEntry.find(query)
+        .populate('patient', 'name documentId')
+        .populate('doctor', 'name specialty'),
+      req,
+      res
+    );
+
+    res.json(entries);
+  } catch (error) {
+    console.error('Error al obtener lista de espera:', error);
+    res.status(500).json({ message: 'Error al obtener la lista de espera' });
+  }
+};
+
+export const cancelWaitlistEntry = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const entry = await WaitlistEntry.findById(req.params.id);
+    if (!entry) {
+      res.status(404).json({ message: 'Entrada de lista de espera no encontrada' });
+      return;
+    }
+
+    const { role, id } = req.user!;
+    if (role !== 'admin' && entry.patient.toString() !== id) {
+      res.status(403).json({ message: 'No tiene permisos para cancelar esta entrada' });
+      return;
+    }
+
+    if (!['activa', 'ofertada'].includes(entry.status)) {
+      res.status(409).json({ message: `La entrada ya está en estado '${entry.status}'` });
+      return;
+    }
+
+    // Una oferta pendiente se libera para el siguiente de la lista
+    const pendingOffer = await SlotOffer.findOne({ entry: entry._id, status: 'pendiente' });
+    entry.status = 'cancelada';
+    await entry.save();
+    if (pendingOffer) {
+      await declineOffer(pendingOffer);
+    }
+
+    res.json({ message: 'Entrada de lista de espera cancelada exitosamente' });
+  } catch (error) {
+    console.error('Error al cancelar entrada de lista de espera:', error);
+    res.status(500).json({ message: 'Error al cancelar la entrada de lista de espera' });
+  }
+};
+
+export const getOffers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { role, id } = req.user!;
+    const query: any = { status: req.query.status || 'pendiente' };
+    // Las ofertas vencidas se cierran en la tarea programada; hasta entonces no se listan
+    if (query.status === 'pendiente') {
+      query.expiresAt = { $gt: new Date() };
+    }
+    if (role === 'patient') {
+      query.patient = id;
+    } else if (role === 'doctor') {
+      query.doctor = id;
+    }
+
+    const offers = await paginate(
+      SlotOffer.find(query)
+        .populate('doctor', 'name specialty'),
+      req,
+      res
+    );
+
+    res.json(offers);
+  } catch (error) {
+    console.error('Error al obtener ofertas:', error);
+    res.status(500).json({ message: 'Error al obtener las ofertas' });
+  }
+};
+
+const findRespondableOffer = async (req: Request, res: Response) => {
+  const offer = await SlotOffer.findById(req.params.id);
+  if (!offer) {
+    res.status(404).json({ message: 'Oferta no encontrada' });
+    return null;
+  }
+
+  const { role, id } = req.user!;
+  if (role !== 'admin' && offer.patient.toString() !== id) {
+    res.status(403).json({ message: 'No tiene permisos para responder a esta oferta' });
+    return null;
+  }
+
+  if (offer.status !== 'pendiente') {
+    res.status(409).json({ message: `La oferta ya está en estado '${offer.status}'` });
+    return null;
+  }
+
+  return offer;
+};
+
+export const acceptSlotOffer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const offer = await findRespondableOffer(req, res);
+    if (!offer) return;
+
+    const { appointment, error } = await acceptOffer(offer, req.user!);
+    if (error) {
+      res.status(409).json({ message: error });
+      return;
+    }
+
+    res.status(201).json(appointment);
+  } catch (error) {
+    if (error instanceof BookingLockTimeoutError) {
+      res.status(409).json({ message: error.message });
+      return;
+    }
+    console.error('Error al aceptar oferta:', error);
+    res.status(500).json({ message: 'Error al aceptar la oferta' });
+  }
+};
+
+export const declineSlotOffer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const offer = await findRespondableOffer(req, res);
+    if (!offer) return;
+
+    await declineOffer(offer);
+    res.json({ message: 'Oferta rechazada exitosamente' });
+  } catch (error) {
+    console.error('Error al rechazar oferta:', error);
+    res.status(500).json({ message: 'Error al rechazar la oferta' });
+  }
+};
+
+export const expireOffers = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const expired = await processWaitlistExpirations();
+    res.json({ expired });
+  } catch (error) {
+    console.error('Error al procesar ofertas vencidas:', error);
+    res.status(500).json({ message: 'Error al procesar las ofertas vencidas' });
+  }
+};
@@ -9,6 +9,23 @@ import mongoose from 'mongoose';
 import authRoutes from './routes/auth';
 import appointmentRoutes from './routes/appointments';
 import medicalRecordRoutes from './routes/medicalRecords';
+import doctorRoutes from './routes/doctors';
+import appointmentSeriesRoutes from './routes/appointmentSeries';
+import waitlistRoutes from './routes/waitlist';
+import notificationRoutes from './routes/notifications';
+import calendarRoutes from './routes/calendar';
+import securityRoutes from './routes/security';
+import auditRoutes from './routes/audit';
+import consentRoutes from './routes/consents';
+import breakGlassRoutes from './routes/breakGlass';
+import fhirRoutes from './routes/fhir';
+import importRoutes from './routes/imports';
+import vitalSignsRoutes from './routes/vitalSigns';
+import prescriptionRoutes from './routes/prescriptions';
+import allergyRoutes from './routes/allergies';
+import medicationRoutes from './routes/medications';
+import catalogRoutes from './routes/catalogs';
+import adminRoutes from './routes/admin';
 
 // Configuración de variables de entorno
 dotenv.config();
@@ -16,6 +33,13 @@ dotenv.config();
 // Crear la aplicación Express
 export const app = express();
 
+// Detrás de un proxy (p. ej. Vercel) la IP real del cliente llega en X-Forwarded-For;
+// se necesita para limitar los intentos fallidos por IP
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : Number(trustProxy) || trustProxy);
+}
+
 // Middleware
 app.use(express.json());
 app.use(helmet());
@@ -25,9 +49,9 @@ app.use(morgan('dev'));
 const corsOptions = {
   origin: process.env.FRONTEND_URL || 'http://localhost:3000',
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-  exposedHeaders: ['Content-Range', 'X-Content-Range'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Pharmacy-Key'],
+  exposedHeaders: ['Content-Range', 'X-Content-Range', 'Link', 'X-Total-Count'],
   maxAge: 600
 };
 
@@ -37,6 +61,23 @@ app.use(cors(corsOptions));
 app.use('/api/auth', authRoutes);
 app.use('/api/appointments', appointmentRoutes);
 app.use('/api/medical-records', medicalRecordRoutes);
+app.use('/api/doctors', doctorRoutes);
+app.use('/api/appointment-series', appointmentSeriesRoutes);
+app.use('/api/waitlist', waitlistRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/security', securityRoutes);
+app.use('/api/audit', auditRoutes);
+app.use('/api/consents', consentRoutes);
+app.use('/api/break-glass', breakGlassRoutes);
+app.use('/api/fhir', fhirRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/vital-signs', vitalSignsRoutes);
+app.use('/api/prescriptions', prescriptionRoutes);
+app.use('/api/allergies', allergyRoutes);
+app.use('/api/medications', medicationRoutes);
+app.use('/api/catalogs', catalogRoutes);
+app.use('/api/admin', adminRoutes);
 
 // Manejador de errores
 app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
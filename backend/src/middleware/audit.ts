@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuditAction } from '../models/AuditLog';
+import { recordAudit } from '../services/auditService';
+
+// Igual que checkRole, pero deja constancia en la auditoría de los accesos denegados
+export const checkRoleAudited = (roles: string[], action: AuditAction, resourceType: string) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({ message: 'No autorizado' });
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      await recordAudit(req, {
+        action,
+        resourceType,
+        resource: req.params.id,
+        outcome: 'denegado',
+        details: { reason: 'rol' }
+      });
+      res.status(403).json({ message: 'No tiene permisos para realizar esta acción' });
+      return;
+    }
+
+    next();
+  };
+};
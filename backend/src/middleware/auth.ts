@@ -1,9 +1,12 @@
+import crypto from 'crypto';
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { getJwtSecret } from '../config/auth';
+import User from '../models/User';
+import { AccessTokenPayload, findActiveSession } from '../services/sessionService';
+import { verifyChallengeToken } from '../services/twoFactorService';
 
-const JWT_SECRET = process.env.JWT_SECRET || 'tu_clave_secreta_muy_segura';
-
-export const auth = (req: Request, res: Response, next: NextFunction): void => {
+export const auth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     const token = req.header('Authorization')?.replace('Bearer ', '');
 
@@ -12,19 +15,61 @@ export const auth = (req: Request, res: Response, next: NextFunction): void => {
       return;
     }
 
-    const decoded = jwt.verify(token, JWT_SECRET) as {
-      id: string;
-      email: string;
-      role: string;
-    };
+    const decoded = jwt.verify(token, getJwtSecret()) as AccessTokenPayload;
+    if (decoded.type !== 'access' || !decoded.sid) {
+      res.status(401).json({ message: 'Token inválido' });
+      return;
+    }
+
+    // La sesión debe seguir vigente y el usuario activo, así un logout o una
+    // desactivación invalidan el token aunque todavía no haya expirado
+    const session = await findActiveSession(decoded.sid);
+    if (!session || !session.user || session.user.id !== decoded.id) {
+      res.status(401).json({ message: 'La sesión ha sido revocada' });
+      return;
+    }
 
-    req.user = decoded;
+    if (!session.user.active) {
+      res.status(401).json({ message: 'La cuenta está desactivada' });
+      return;
+    }
+
+    req.user = {
+      id: decoded.id,
+      email: session.user.email,
+      role: session.user.role,
+      sessionId: decoded.sid,
+    };
     next();
   } catch (error) {
     res.status(401).json({ message: 'Token inválido' });
   }
 };
 
+// Para configurar el 2FA se acepta una sesión normal o, si el rol lo exige y
+// aún no está configurado, el token de reto emitido por el login
+export const twoFactorSetupAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const challengeToken = req.body?.challengeToken;
+  if (!challengeToken) {
+    await auth(req, res, next);
+    return;
+  }
+
+  try {
+    const userId = verifyChallengeToken(challengeToken, 'alta_segundo_factor');
+    const user = userId ? await User.findById(userId) : null;
+    if (!user || !user.active) {
+      res.status(401).json({ message: 'Token de reto inválido o expirado' });
+      return;
+    }
+
+    req.user = { id: user.id, email: user.email, role: user.role };
+    next();
+  } catch (error) {
+    res.status(401).json({ message: 'Token de reto inválido o expirado' });
+  }
+};
+
 export const checkRole = (roles: string[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
@@ -39,4 +84,16 @@ export const checkRole = (roles: string[]) => {
 
     next();
   };
-}; 
\ No newline at end of file
+};
+
+// Vercel Cron llama con `Authorization: Bearer <CRON_SECRET>`; el resto de llamadas requieren un administrador
+export const cronOrAdmin = (req: Request, res: Response, next: NextFunction): void => {
+  const secret = process.env.CRON_SECRET;
+  const provided = Buffer.from(req.header('Authorization') || '');
+  const expected = Buffer.from(`Bearer ${secret}`);
+  if (secret && provided.length === expected.length && crypto.timingSafeEqual(provided, expected)) {
+    next();
+    return;
+  }
+  auth(req, res, () => checkRole(['admin'])(req, res, next));
+};
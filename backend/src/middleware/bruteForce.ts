@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import { AttemptScope } from '../models/AuthAttempt';
+import { attemptKeys, getAttemptStatus, progressiveDelay } from '../services/bruteForceService';
+
+// Cuenta afectada por la petición: un campo del cuerpo o una función que la obtenga
+type AccountResolver = string | ((req: Request) => string | null | undefined);
+
+const resolveAccount = (req: Request, account?: AccountResolver): string | undefined => {
+  if (!account) return undefined;
+  const value = typeof account === 'function' ? account(req) : req.body?.[account];
+  return typeof value === 'string' && value ? value : undefined;
+};
+
+// Rechaza la petición si la cuenta o la IP están bloqueadas y, si no, aplica un
+// retardo progresivo según los fallos recientes. El controlador registra después
+// el resultado con recordAttempt / clearAttempts.
+export const bruteForceGuard = (scope: AttemptScope, account?: AccountResolver) => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const keys = attemptKeys(req.ip, resolveAccount(req, account));
+      const status = await getAttemptStatus(scope, keys);
+
+      if (status.lockedUntil) {
+        const retryAfter = Math.ceil((status.lockedUntil.getTime() - Date.now()) / 1000);
+        res.set('Retry-After', String(retryAfter));
+        res.status(429).json({
+          message: 'Demasiados intentos fallidos. Inténtelo de nuevo más tarde',
+          retryAfter
+        });
+        return;
+      }
+
+      const delay = progressiveDelay(status.failures);
+      if (delay) {
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+
+      req.bruteForce = { scope, keys };
+      next();
+    } catch (error) {
+      console.error('Error al comprobar intentos fallidos:', error);
+      res.status(500).json({ message: 'Error en el servidor' });
+    }
+  };
+};
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import { InvalidListingError, ListingOptions, parseListing } from '../services/listing';
+
+// Valida los parámetros de paginación, orden y campos de un listado y los deja en
+// req.listing para que el controlador los aplique con paginate()
+export const listing = (options: ListingOptions) => (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    req.listing = parseListing(req, options);
+    next();
+  } catch (error) {
+    if (error instanceof InvalidListingError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    next(error);
+  }
+};
@@ -0,0 +1,34 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ATTACHMENT_MAX_BYTES } from '../services/attachmentService';
+
+// El fichero se mantiene en memoria para calcular su checksum y comprobar su tipo
+// antes de enviarlo al almacenamiento
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: ATTACHMENT_MAX_BYTES, files: 1 },
+});
+
+// Recibe un único fichero en el campo indicado y traduce los errores de multer a respuestas 4xx
+export const singleFile = (field: string) => (req: Request, res: Response, next: NextFunction): void => {
+  upload.single(field)(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const tooLarge = error.code === 'LIMIT_FILE_SIZE';
+      res.status(tooLarge ? 413 : 400).json({
+        message: tooLarge
+          ? `El fichero supera el tamaño máximo de ${Math.round(ATTACHMENT_MAX_BYTES / 1024 / 1024)} MB`
+          : 'Fichero inválido',
+      });
+      return;
+    }
+    if (error) {
+      next(error);
+      return;
+    }
+    if (!req.file) {
+      res.status(400).json({ message: `El fichero es requerido (campo ${field})` });
+      return;
+    }
+    next();
+  });
+};
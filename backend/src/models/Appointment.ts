@@ -1,4 +1,19 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { diagnosisCodesPlugin, IDiagnosisCode } from './plugins/diagnosisCodes';
+import { IImportSource, importSourcePlugin } from './plugins/importSource';
+
+export const APPOINTMENT_STATUSES = ['pendiente', 'confirmada', 'cancelada', 'completada', 'no_asistio'] as const;
+
+export type AppointmentStatus = typeof APPOINTMENT_STATUSES[number];
+
+export interface IStatusChange {
+  from?: AppointmentStatus;
+  to: AppointmentStatus;
+  changedBy: mongoose.Types.ObjectId;
+  role: string;
+  reason?: string;
+  changedAt: Date;
+}
 
 export interface IAppointment extends Document {
   patient: mongoose.Types.ObjectId;
@@ -7,10 +22,15 @@ export interface IAppointment extends Document {
   startTime: string;
   endTime: string;
   type: 'presencial' | 'remota';
-  status: 'pendiente' | 'confirmada' | 'cancelada' | 'completada';
+  status: AppointmentStatus;
+  statusHistory: IStatusChange[];
+  series?: mongoose.Types.ObjectId;
+  seriesIndex?: number;
   reason: string;
+  meetingUrl?: string;
   notes?: string;
   diagnosis?: string;
+  diagnosisCodes?: IDiagnosisCode[];
   prescription?: {
     medications: {
       name: string;
@@ -20,6 +40,7 @@ export interface IAppointment extends Document {
     }[];
     instructions: string;
   };
+  importSource?: IImportSource;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -55,13 +76,51 @@ const appointmentSchema = new Schema<IAppointment>(
     },
     status: {
       type: String,
-      enum: ['pendiente', 'confirmada', 'cancelada', 'completada'],
+      enum: APPOINTMENT_STATUSES,
       default: 'pendiente',
     },
+    statusHistory: [
+      {
+        from: {
+          type: String,
+          enum: APPOINTMENT_STATUSES,
+        },
+        to: {
+          type: String,
+          enum: APPOINTMENT_STATUSES,
+          required: true,
+        },
+        changedBy: {
+          type: Schema.Types.ObjectId,
+          ref: 'User',
+          required: true,
+        },
+        role: {
+          type: String,
+          required: true,
+        },
+        reason: String,
+        changedAt: {
+          type: Date,
+          default: Date.now,
+        },
+      },
+    ],
     reason: {
       type: String,
       required: true,
     },
+    meetingUrl: {
+      type: String,
+      trim: true,
+    },
+    series: {
+      type: Schema.Types.ObjectId,
+      ref: 'AppointmentSeries',
+    },
+    seriesIndex: {
+      type: Number,
+    },
     notes: {
       type: String,
     },
@@ -85,9 +144,22 @@ const appointmentSchema = new Schema<IAppointment>(
   }
 );
 
+appointmentSchema.plugin(importSourcePlugin);
+appointmentSchema.plugin(diagnosisCodesPlugin);
+
 // Índices para mejorar el rendimiento de las consultas
 appointmentSchema.index({ patient: 1, date: 1 });
 appointmentSchema.index({ doctor: 1, date: 1 });
 appointmentSchema.index({ status: 1 });
+appointmentSchema.index({ series: 1, date: 1 }, { sparse: true });
+// Dos citas vigentes no pueden empezar a la misma hora con el mismo doctor, aunque
+// caduque el bloqueo de la agenda
+appointmentSchema.index(
+  { doctor: 1, date: 1, startTime: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ['pendiente', 'confirmada', 'completada', 'no_asistio'] } },
+  }
+);
 
 export default mongoose.model<IAppointment>('Appointment', appointmentSchema); 
\ No newline at end of file
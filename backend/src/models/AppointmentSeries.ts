@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+
+export type RecurrenceFrequency = typeof RECURRENCE_FREQUENCIES[number];
+
+export interface IRecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+}
+
+export interface IAppointmentSeries extends Document {
+  patient: mongoose.Types.ObjectId;
+  doctor: mongoose.Types.ObjectId;
+  startDate: Date;
+  startTime: string;
+  endTime: string;
+  type: 'presencial' | 'remota';
+  reason: string;
+  notes?: string;
+  recurrence: IRecurrenceRule;
+  status: 'activa' | 'cancelada';
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const appointmentSeriesSchema = new Schema<IAppointmentSeries>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    startTime: {
+      type: String,
+      required: true,
+    },
+    endTime: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['presencial', 'remota'],
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+    },
+    notes: {
+      type: String,
+    },
+    recurrence: {
+      frequency: {
+        type: String,
+        enum: RECURRENCE_FREQUENCIES,
+        required: true,
+      },
+      interval: {
+        type: Number,
+        default: 1,
+        min: 1,
+      },
+      count: Number,
+      until: Date,
+    },
+    status: {
+      type: String,
+      enum: ['activa', 'cancelada'],
+      default: 'activa',
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para mejorar el rendimiento de las consultas
+appointmentSeriesSchema.index({ patient: 1 });
+appointmentSeriesSchema.index({ doctor: 1 });
+
+export default mongoose.model<IAppointmentSeries>('AppointmentSeries', appointmentSeriesSchema);
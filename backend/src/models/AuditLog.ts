@@ -0,0 +1,96 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const AUDIT_ACTIONS = ['lectura', 'listado', 'creacion', 'actualizacion', 'exportacion'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export const AUDIT_OUTCOMES = ['exito', 'denegado', 'no_encontrado', 'error'] as const;
+
+export type AuditOutcome = typeof AUDIT_OUTCOMES[number];
+
+// Registro de acceso a datos clínicos. Es de solo inserción: el esquema rechaza
+// cualquier modificación o borrado de entradas existentes.
+export interface IAuditLog extends Document {
+  actor: mongoose.Types.ObjectId;
+  actorRole: string;
+  action: AuditAction;
+  resourceType: string;
+  // Registro concreto afectado (vacío en los listados)
+  resource?: mongoose.Types.ObjectId;
+  // Pacientes cuyos datos se vieron afectados
+  patients: mongoose.Types.ObjectId[];
+  outcome: AuditOutcome;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const auditLogSchema = new Schema<IAuditLog>(
+  {
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    actorRole: {
+      type: String,
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: AUDIT_ACTIONS,
+      required: true,
+    },
+    resourceType: {
+      type: String,
+      required: true,
+    },
+    resource: {
+      type: Schema.Types.ObjectId,
+    },
+    patients: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    outcome: {
+      type: String,
+      enum: AUDIT_OUTCOMES,
+      required: true,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+const rejectChange = function (next: (error?: Error) => void) {
+  next(new Error('El registro de auditoría no admite modificaciones'));
+};
+
+auditLogSchema.pre('save', function (next) {
+  if (!this.isNew) return rejectChange(next);
+  next();
+});
+
+auditLogSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace', 'deleteOne', 'deleteMany', 'findOneAndDelete'],
+  rejectChange
+);
+
+// Índices para las consultas de auditoría por paciente, actor y registro
+auditLogSchema.index({ patients: 1, createdAt: -1 });
+auditLogSchema.index({ actor: 1, createdAt: -1 });
+auditLogSchema.index({ resource: 1, createdAt: -1 });
+auditLogSchema.index({ action: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditLog>('AuditLog', auditLogSchema);
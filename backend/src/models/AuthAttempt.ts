@@ -0,0 +1,64 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const ATTEMPT_SCOPES = ['login', 'segundo_factor', 'registro', 'recuperacion'] as const;
+
+export type AttemptScope = typeof ATTEMPT_SCOPES[number];
+
+// Contador de intentos fallidos por cuenta o por IP. Se guarda en MongoDB y no
+// en memoria para que el límite se comparta entre todas las instancias.
+export interface IAuthAttempt extends Document {
+  scope: AttemptScope;
+  // "cuenta:<email o id>" o "ip:<dirección>"
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+  // Número de bloqueos previos; cada bloqueo dura el doble que el anterior
+  lockCount: number;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const authAttemptSchema = new Schema<IAuthAttempt>(
+  {
+    scope: {
+      type: String,
+      enum: ATTEMPT_SCOPES,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    lastFailureAt: {
+      type: Date,
+      default: Date.now,
+    },
+    lockedUntil: {
+      type: Date,
+    },
+    lockCount: {
+      type: Number,
+      default: 0,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para el contador atómico, el listado de bloqueos y la limpieza
+authAttemptSchema.index({ scope: 1, key: 1 }, { unique: true });
+authAttemptSchema.index({ lockedUntil: 1 });
+authAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthAttempt>('AuthAttempt', authAttemptSchema);
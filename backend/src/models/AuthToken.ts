@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const AUTH_TOKEN_PURPOSES = ['restablecer_contrasena', 'verificar_email'] as const;
+
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+// Token de un solo uso enviado por correo (recuperación de contraseña y
+// verificación de email). Solo se guarda su hash.
+export interface IAuthToken extends Document {
+  user: mongoose.Types.ObjectId;
+  purpose: AuthTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const authTokenSchema = new Schema<IAuthToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    purpose: {
+      type: String,
+      enum: AUTH_TOKEN_PURPOSES,
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para el canje del token, la invalidación de los anteriores y la limpieza
+authTokenSchema.index({ tokenHash: 1 }, { unique: true });
+authTokenSchema.index({ user: 1, purpose: 1, usedAt: 1 });
+authTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IAuthToken>('AuthToken', authTokenSchema);
@@ -0,0 +1,35 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IBookingLock extends Document {
+  doctor: mongoose.Types.ObjectId;
+  date: Date;
+  token: string;
+  expiresAt: Date;
+}
+
+const bookingLockSchema = new Schema<IBookingLock>({
+  doctor: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  date: {
+    type: Date,
+    required: true,
+  },
+  token: {
+    type: String,
+    required: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// Un único bloqueo por doctor y día: el índice único es lo que garantiza la exclusión
+bookingLockSchema.index({ doctor: 1, date: 1 }, { unique: true });
+// Limpieza automática de bloqueos abandonados
+bookingLockSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 60 });
+
+export default mongoose.model<IBookingLock>('BookingLock', bookingLockSchema);
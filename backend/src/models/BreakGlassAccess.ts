@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const BREAK_GLASS_REVIEW_STATUSES = ['pendiente', 'justificado', 'injustificado'] as const;
+
+export type BreakGlassReviewStatus = typeof BREAK_GLASS_REVIEW_STATUSES[number];
+
+// Acceso de emergencia ("romper el cristal") a la historia de un paciente sin
+// relación asistencial previa. Todo acceso queda pendiente de revisión.
+export interface IBreakGlassAccess extends Document {
+  doctor: mongoose.Types.ObjectId;
+  patient: mongoose.Types.ObjectId;
+  justification: string;
+  expiresAt: Date;
+  reviewStatus: BreakGlassReviewStatus;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const breakGlassAccessSchema = new Schema<IBreakGlassAccess>(
+  {
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    justification: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    reviewStatus: {
+      type: String,
+      enum: BREAK_GLASS_REVIEW_STATUSES,
+      default: 'pendiente',
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    reviewNotes: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para comprobar accesos vigentes y para la cola de revisión
+breakGlassAccessSchema.index({ doctor: 1, patient: 1, expiresAt: 1 });
+breakGlassAccessSchema.index({ reviewStatus: 1, createdAt: 1 });
+
+export default mongoose.model<IBreakGlassAccess>('BreakGlassAccess', breakGlassAccessSchema);
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { MEDICAL_RECORD_TYPES, MedicalRecordType } from './MedicalRecord';
+
+// Autorización expresa de un paciente para que un doctor consulte su historia clínica
+export interface IConsent extends Document {
+  patient: mongoose.Types.ObjectId;
+  grantee: mongoose.Types.ObjectId;
+  // Tipos de registro incluidos; vacío equivale a toda la historia
+  recordTypes: MedicalRecordType[];
+  purpose?: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const consentSchema = new Schema<IConsent>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    grantee: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    recordTypes: [{
+      type: String,
+      enum: MEDICAL_RECORD_TYPES,
+    }],
+    purpose: {
+      type: String,
+      trim: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para comprobar los permisos vigentes de un doctor y listar los de un paciente
+consentSchema.index({ grantee: 1, patient: 1, expiresAt: 1 });
+consentSchema.index({ patient: 1, createdAt: -1 });
+
+export default mongoose.model<IConsent>('Consent', consentSchema);
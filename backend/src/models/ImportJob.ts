@@ -0,0 +1,122 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { encryptedFieldsPlugin } from './plugins/encryptedFields';
+
+export const IMPORT_JOB_STATUSES = ['pendiente', 'procesando', 'completado', 'fallido'] as const;
+
+export type ImportJobStatus = typeof IMPORT_JOB_STATUSES[number];
+
+export const IMPORT_FORMATS = ['bundle', 'ndjson'] as const;
+
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+export const IMPORT_OUTCOMES = ['creado', 'existente', 'ignorado', 'error'] as const;
+
+export type ImportOutcome = typeof IMPORT_OUTCOMES[number];
+
+// Problema con un recurso concreto del fichero importado
+export interface IImportIssue {
+  index: number;
+  resourceType?: string;
+  resourceId?: string;
+  message: string;
+}
+
+// Importación de historias clínicas de otro proveedor a partir de recursos FHIR.
+// El contenido se guarda cifrado hasta que se procesa y después se descarta.
+export interface IImportJob extends Document {
+  source: string;
+  format: ImportFormat;
+  dryRun: boolean;
+  status: ImportJobStatus;
+  createdBy: mongoose.Types.ObjectId;
+  // Doctor al que se asignan los registros y citas importados
+  doctor: mongoose.Types.ObjectId;
+  payload?: string;
+  // Recuento por tipo de recurso y resultado, p. ej. { Encounter: { creado: 3 } }
+  summary: Record<string, Partial<Record<ImportOutcome, number>>>;
+  issues: IImportIssue[];
+  patients: mongoose.Types.ObjectId[];
+  error?: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  leaseUntil?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const importJobSchema = new Schema<IImportJob>(
+  {
+    source: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    format: {
+      type: String,
+      enum: IMPORT_FORMATS,
+      required: true,
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: IMPORT_JOB_STATUSES,
+      default: 'pendiente',
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    payload: {
+      type: String,
+      select: false,
+      encrypted: true,
+    },
+    summary: {
+      type: Schema.Types.Mixed,
+      default: {},
+    },
+    issues: [{
+      _id: false,
+      index: { type: Number, required: true },
+      resourceType: String,
+      resourceId: String,
+      message: { type: String, required: true },
+    }],
+    patients: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    finishedAt: {
+      type: Date,
+    },
+    leaseUntil: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+importJobSchema.plugin(encryptedFieldsPlugin);
+
+// Índices para la cola de trabajos y el listado de cada usuario
+importJobSchema.index({ status: 1, createdAt: 1 });
+importJobSchema.index({ createdBy: 1, createdAt: -1 });
+
+export default mongoose.model<IImportJob>('ImportJob', importJobSchema);
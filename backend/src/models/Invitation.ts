@@ -0,0 +1,92 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { USER_ROLES, UserRole } from './User';
+
+// Alta de cuentas por invitación: el registro público solo crea pacientes, así que
+// los doctores y administradores se dan de alta aceptando una invitación enviada por
+// un administrador. Del token solo se guarda su hash.
+export interface IInvitation extends Document {
+  email: string;
+  role: UserRole;
+  name: string;
+  specialty?: string;
+  licenseNumber?: string;
+  tokenHash: string;
+  expiresAt: Date;
+  invitedBy: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  // Cuenta creada al aceptar la invitación
+  user?: mongoose.Types.ObjectId;
+  revokedAt?: Date;
+  revokedBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Estado calculado a partir de las fechas; "vencida" no se guarda
+export type InvitationStatus = 'pendiente' | 'aceptada' | 'revocada' | 'vencida';
+
+const invitationSchema = new Schema<IInvitation>(
+  {
+    email: {
+      type: String,
+      required: true,
+      trim: true,
+      lowercase: true,
+    },
+    role: {
+      type: String,
+      enum: USER_ROLES,
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    specialty: {
+      type: String,
+      trim: true,
+    },
+    licenseNumber: {
+      type: String,
+      trim: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para el canje del token y para buscar invitaciones abiertas por correo
+invitationSchema.index({ tokenHash: 1 }, { unique: true });
+invitationSchema.index({ email: 1, createdAt: -1 });
+
+export default mongoose.model<IInvitation>('Invitation', invitationSchema);
@@ -1,12 +1,73 @@
 import mongoose, { Document, Schema } from 'mongoose';
+import { blindIndex } from '../utils/encryption';
+import { textTerms } from '../utils/text';
+import { evaluateVitalSigns, FLAG_LEVELS, VitalSignFlag } from '../utils/vitalSigns';
+import { diagnosisCodesPlugin, IDiagnosisCode } from './plugins/diagnosisCodes';
+import { encryptedFieldsPlugin } from './plugins/encryptedFields';
+import { IImportSource, importSourcePlugin } from './plugins/importSource';
+import User from './User';
+
+export const MEDICAL_RECORD_TYPES = ['consulta', 'emergencia', 'control', 'procedimiento'] as const;
+
+export type MedicalRecordType = typeof MEDICAL_RECORD_TYPES[number];
+
+// Un registro firmado ya no se edita: cualquier cambio se hace mediante una enmienda
+export const MEDICAL_RECORD_STATUSES = ['borrador', 'firmado'] as const;
+
+export type MedicalRecordStatus = typeof MEDICAL_RECORD_STATUSES[number];
+
+// Campos con el contenido clínico, que se versionan y quedan bloqueados al firmar
+export const CLINICAL_FIELDS = [
+  'date',
+  'type',
+  'symptoms',
+  'diagnosis',
+  'diagnosisCodes',
+  'treatment',
+  'vitalSigns',
+  'attachments',
+  'notes',
+  'followUp',
+] as const;
+
+// Campos en los que busca el buscador clínico, por orden de relevancia
+export const SEARCHABLE_FIELDS = [
+  'diagnosis',
+  'symptoms',
+  'treatment.medications.name',
+  'treatment.recommendations',
+  'notes',
+] as const;
+
+export type SearchableField = typeof SEARCHABLE_FIELDS[number];
+
+export const ATTACHMENT_TYPES = ['imagen', 'documento', 'laboratorio'] as const;
+
+// Fichero adjunto guardado en el almacenamiento de la aplicación. Los adjuntos
+// anteriores solo tienen `url`, un enlace externo que no se gestiona.
+export interface IAttachment {
+  _id: mongoose.Types.ObjectId;
+  type: typeof ATTACHMENT_TYPES[number];
+  name: string;
+  url?: string;
+  description?: string;
+  storageKey?: string;
+  contentType?: string;
+  size?: number;
+  // SHA-256 del contenido en hexadecimal
+  checksum?: string;
+  uploadedBy?: mongoose.Types.ObjectId;
+  uploadedAt?: Date;
+}
 
 export interface IMedicalRecord extends Document {
   patient: mongoose.Types.ObjectId;
   doctor: mongoose.Types.ObjectId;
   date: Date;
-  type: 'consulta' | 'emergencia' | 'control' | 'procedimiento';
+  type: MedicalRecordType;
   symptoms: string[];
   diagnosis: string;
+  diagnosisCodes?: IDiagnosisCode[];
   treatment: {
     medications: {
       name: string;
@@ -33,17 +94,21 @@ export interface IMedicalRecord extends Document {
     respiratoryRate?: number;
     oxygenSaturation?: number;
   };
-  attachments?: {
-    type: 'imagen' | 'documento' | 'laboratorio';
-    name: string;
-    url: string;
-    description?: string;
-  }[];
+  // Signos vitales fuera de rango para la edad del paciente, calculados al guardar
+  vitalSignFlags?: VitalSignFlag[];
+  attachments?: IAttachment[];
   notes: string;
   followUp?: {
     date: Date;
     notes: string;
   };
+  status: MedicalRecordStatus;
+  version: number;
+  signedAt?: Date;
+  signedBy?: mongoose.Types.ObjectId;
+  importSource?: IImportSource;
+  // Índices ciegos de las raíces de los campos de búsqueda (ver searchTermIndex)
+  searchTokens?: string[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -67,34 +132,40 @@ const medicalRecordSchema = new Schema<IMedicalRecord>(
     },
     type: {
       type: String,
-      enum: ['consulta', 'emergencia', 'control', 'procedimiento'],
+      enum: MEDICAL_RECORD_TYPES,
       required: true,
     },
     symptoms: [{
       type: String,
       required: true,
+      encrypted: true,
     }],
     diagnosis: {
       type: String,
       required: true,
+      encrypted: true,
     },
     treatment: {
       medications: [{
         name: {
           type: String,
           required: true,
+          encrypted: true,
         },
         dosage: {
           type: String,
           required: true,
+          encrypted: true,
         },
         frequency: {
           type: String,
           required: true,
+          encrypted: true,
         },
         duration: {
           type: String,
           required: true,
+          encrypted: true,
         },
         startDate: {
           type: Date,
@@ -103,13 +174,14 @@ const medicalRecordSchema = new Schema<IMedicalRecord>(
         endDate: Date,
       }],
       procedures: [{
-        name: String,
+        name: { type: String, encrypted: true },
         date: Date,
-        notes: String,
+        notes: { type: String, encrypted: true },
       }],
       recommendations: {
         type: String,
         required: true,
+        encrypted: true,
       },
     },
     vitalSigns: {
@@ -122,29 +194,69 @@ const medicalRecordSchema = new Schema<IMedicalRecord>(
       respiratoryRate: Number,
       oxygenSaturation: Number,
     },
+    vitalSignFlags: {
+      type: [{
+        _id: false,
+        measure: { type: String, required: true },
+        value: { type: Number, required: true },
+        level: { type: String, enum: FLAG_LEVELS, required: true },
+        direction: { type: String, enum: ['bajo', 'alto'], required: true },
+        low: Number,
+        high: Number,
+      }],
+      default: undefined,
+    },
     attachments: [{
       type: {
         type: String,
-        enum: ['imagen', 'documento', 'laboratorio'],
+        enum: ATTACHMENT_TYPES,
         required: true,
       },
       name: {
         type: String,
         required: true,
       },
-      url: {
-        type: String,
-        required: true,
-      },
+      url: String,
       description: String,
+      storageKey: String,
+      contentType: String,
+      size: Number,
+      checksum: String,
+      uploadedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+      uploadedAt: Date,
     }],
     notes: {
       type: String,
       required: true,
+      encrypted: true,
     },
     followUp: {
       date: Date,
-      notes: String,
+      notes: { type: String, encrypted: true },
+    },
+    status: {
+      type: String,
+      enum: MEDICAL_RECORD_STATUSES,
+      default: 'borrador',
+    },
+    version: {
+      type: Number,
+      default: 1,
+    },
+    signedAt: {
+      type: Date,
+    },
+    signedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    searchTokens: {
+      type: [String],
+      select: false,
+      default: undefined,
     },
   },
   {
@@ -152,9 +264,67 @@ const medicalRecordSchema = new Schema<IMedicalRecord>(
   }
 );
 
+// Los datos clínicos se guardan cifrados
+medicalRecordSchema.plugin(encryptedFieldsPlugin);
+medicalRecordSchema.plugin(importSourcePlugin);
+medicalRecordSchema.plugin(diagnosisCodesPlugin);
+
+// El índice de búsqueda es interno y no se devuelve aunque esté cargado (tras guardar)
+medicalRecordSchema.set('toJSON', {
+  ...medicalRecordSchema.get('toJSON'),
+  transform: (_doc: unknown, ret: Record<string, unknown>) => {
+    delete ret.searchTokens;
+    return ret;
+  },
+});
+
+// Textos en claro de los campos de búsqueda de un registro
+export const searchableTexts = (record: IMedicalRecord): { field: SearchableField; text: string }[] => [
+  { field: 'diagnosis' as const, text: record.diagnosis },
+  ...(record.symptoms || []).map((text) => ({ field: 'symptoms' as const, text })),
+  ...(record.treatment?.medications || []).map(({ name }) => ({ field: 'treatment.medications.name' as const, text: name })),
+  { field: 'treatment.recommendations' as const, text: record.treatment?.recommendations },
+  { field: 'notes' as const, text: record.notes },
+].filter(({ text }) => typeof text === 'string' && text !== '');
+
+// Los campos de búsqueda están cifrados, así que se indexa el HMAC de cada raíz: permite
+// encontrar los registros que contienen un término sin guardar el término en claro
+export const searchTermIndex = (term: string): string => blindIndex(`termino:${term}`);
+
+// Salvaguarda frente a escrituras directas: el contenido de un registro ya firmado
+// solo puede cambiar a través de una enmienda (que activa $locals.amendment). La rotación
+// de claves (con $locals.reencryption) vuelve a cifrar el mismo contenido.
+medicalRecordSchema.pre('save', function (next) {
+  const wasSigned = !this.isNew && this.status === 'firmado' && !this.isModified('status');
+  const clinicalChange = CLINICAL_FIELDS.some((field) => this.isModified(field));
+  if (wasSigned && clinicalChange && !this.$locals.amendment && !this.$locals.reencryption) {
+    return next(new Error('El registro médico está firmado y solo se puede modificar mediante una enmienda'));
+  }
+  next();
+});
+
+// Marca los signos vitales anormales o críticos según la edad del paciente en la fecha del registro
+medicalRecordSchema.pre('save', async function () {
+  if (!this.isNew && !this.isModified('vitalSigns') && !this.isModified('date')) return;
+  const patient = await User.findById(this.patient).select('birthDate');
+  this.vitalSignFlags = evaluateVitalSigns(this.vitalSigns || {}, patient?.birthDate, this.date);
+});
+
+// Recalcula el índice de búsqueda cuando cambian los campos de búsqueda (o falta)
+medicalRecordSchema.pre('save', function (next) {
+  const missing = this.isSelected('searchTokens') && !this.searchTokens;
+  const changed = ['diagnosis', 'symptoms', 'treatment', 'notes'].some((field) => this.isModified(field));
+  if (this.isNew || changed || missing) {
+    const terms = new Set(searchableTexts(this).flatMap(({ text }) => textTerms(text)));
+    this.searchTokens = [...terms].map(searchTermIndex);
+  }
+  next();
+});
+
 // Índices para mejorar el rendimiento de las consultas
 medicalRecordSchema.index({ patient: 1, date: -1 });
 medicalRecordSchema.index({ doctor: 1, date: -1 });
 medicalRecordSchema.index({ type: 1 });
+medicalRecordSchema.index({ searchTokens: 1 });
 
 export default mongoose.model<IMedicalRecord>('MedicalRecord', medicalRecordSchema); 
\ No newline at end of file
@@ -0,0 +1,81 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { encryptedFieldsPlugin } from './plugins/encryptedFields';
+
+export const RECORD_VERSION_KINDS = ['creacion', 'edicion', 'firma', 'enmienda'] as const;
+
+export type RecordVersionKind = typeof RECORD_VERSION_KINDS[number];
+
+// Copia del contenido clínico de un registro tras cada cambio. El contenido y los
+// cambios se guardan como JSON cifrado, igual que los campos del propio registro.
+export interface IMedicalRecordVersion extends Document {
+  record: mongoose.Types.ObjectId;
+  version: number;
+  kind: RecordVersionKind;
+  author: mongoose.Types.ObjectId;
+  reason?: string;
+  content: string;
+  changes: string;
+  // Huella SHA-256 del contenido, la firma y el autor (solo en firmas y enmiendas)
+  signature?: string;
+  createdAt: Date;
+}
+
+const medicalRecordVersionSchema = new Schema<IMedicalRecordVersion>(
+  {
+    record: {
+      type: Schema.Types.ObjectId,
+      ref: 'MedicalRecord',
+      required: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: RECORD_VERSION_KINDS,
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reason: {
+      type: String,
+      trim: true,
+      encrypted: true,
+    },
+    content: {
+      type: String,
+      required: true,
+      encrypted: true,
+    },
+    changes: {
+      type: String,
+      default: '[]',
+      encrypted: true,
+    },
+    signature: {
+      type: String,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+medicalRecordVersionSchema.plugin(encryptedFieldsPlugin);
+
+// Las versiones no se modifican una vez creadas, salvo para volver a cifrarlas al
+// rotar las claves ($locals.reencryption)
+medicalRecordVersionSchema.pre('save', function (next) {
+  if (!this.isNew && !this.$locals.reencryption) return next(new Error('Las versiones de un registro médico no se pueden modificar'));
+  next();
+});
+
+// Índices para el historial de un registro y la consulta a una fecha
+medicalRecordVersionSchema.index({ record: 1, version: 1 }, { unique: true });
+medicalRecordVersionSchema.index({ record: 1, createdAt: -1 });
+
+export default mongoose.model<IMedicalRecordVersion>('MedicalRecordVersion', medicalRecordVersionSchema);
@@ -0,0 +1,121 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const NOTIFICATION_CHANNELS = ['email', 'sms', 'console'] as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// Enlaces con un token de un solo uso. El token se emite al enviar el mensaje y el
+// cuerpo no se guarda, así que nunca queda en claro en la base de datos.
+export const SECURE_LINKS = ['verificar_email', 'restablecer_contrasena', 'invitacion'] as const;
+
+export type SecureLink = typeof SECURE_LINKS[number];
+
+export interface INotification extends Document {
+  // Destinatario con cuenta; las invitaciones van a un correo que aún no la tiene
+  user?: mongoose.Types.ObjectId;
+  invitation?: mongoose.Types.ObjectId;
+  channel: NotificationChannel;
+  template: string;
+  recipient: string;
+  subject: string;
+  // Solo en los mensajes sin enlace seguro
+  body?: string;
+  secureLink?: SecureLink;
+  // Datos con los que se genera al enviarlo un mensaje con enlace seguro
+  templateData?: Record<string, unknown>;
+  appointment?: mongoose.Types.ObjectId;
+  status: 'pendiente' | 'enviada' | 'fallida' | 'cancelada';
+  scheduledFor: Date;
+  nextAttemptAt: Date;
+  attempts: number;
+  lastError?: string;
+  sentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const notificationSchema = new Schema<INotification>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: function (this: INotification) {
+        return !this.invitation;
+      },
+    },
+    invitation: {
+      type: Schema.Types.ObjectId,
+      ref: 'Invitation',
+    },
+    channel: {
+      type: String,
+      enum: NOTIFICATION_CHANNELS,
+      required: true,
+    },
+    template: {
+      type: String,
+      required: true,
+    },
+    recipient: {
+      type: String,
+      required: true,
+    },
+    subject: {
+      type: String,
+      required: true,
+    },
+    // Los mensajes no se devuelven por la API
+    body: {
+      type: String,
+      required: function (this: INotification) {
+        return !this.secureLink;
+      },
+      select: false,
+    },
+    secureLink: {
+      type: String,
+      enum: SECURE_LINKS,
+    },
+    templateData: {
+      type: Schema.Types.Mixed,
+      select: false,
+    },
+    appointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    status: {
+      type: String,
+      enum: ['pendiente', 'enviada', 'fallida', 'cancelada'],
+      default: 'pendiente',
+    },
+    scheduledFor: {
+      type: Date,
+      default: Date.now,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: Date.now,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    lastError: {
+      type: String,
+    },
+    sentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para la cola de envío y la consulta por usuario
+notificationSchema.index({ status: 1, nextAttemptAt: 1 });
+notificationSchema.index({ appointment: 1, template: 1, status: 1 });
+notificationSchema.index({ user: 1, createdAt: -1 });
+
+export default mongoose.model<INotification>('Notification', notificationSchema);
@@ -0,0 +1,142 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { encryptedFieldsPlugin } from './plugins/encryptedFields';
+
+// "vencida" no se guarda: se deduce de validUntil al consultar la receta
+export const PRESCRIPTION_STATUSES = ['emitida', 'dispensada_parcial', 'dispensada', 'cancelada'] as const;
+
+export type PrescriptionStatus = typeof PRESCRIPTION_STATUSES[number];
+
+export interface IPrescribedMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  quantity?: string;
+  instructions?: string;
+}
+
+// Entrega total o parcial registrada por una farmacia
+export interface IDispensation {
+  at: Date;
+  pharmacy: string;
+  complete: boolean;
+  notes?: string;
+}
+
+// Receta electrónica emitida por un doctor. El código de verificación permite a
+// las farmacias comprobar su validez sin acceder al resto de la historia clínica.
+export interface IPrescription extends Document {
+  patient: mongoose.Types.ObjectId;
+  doctor: mongoose.Types.ObjectId;
+  // Matrícula del doctor en el momento de emitirla
+  prescriberLicense: string;
+  medications: IPrescribedMedication[];
+  instructions?: string;
+  appointment?: mongoose.Types.ObjectId;
+  medicalRecord?: mongoose.Types.ObjectId;
+  verificationCode: string;
+  issuedAt: Date;
+  validUntil: Date;
+  status: PrescriptionStatus;
+  dispensations: IDispensation[];
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancellationReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const prescriptionSchema = new Schema<IPrescription>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    prescriberLicense: {
+      type: String,
+      required: true,
+    },
+    medications: {
+      type: [{
+        _id: false,
+        name: { type: String, required: true, encrypted: true },
+        dosage: { type: String, required: true, encrypted: true },
+        frequency: { type: String, required: true, encrypted: true },
+        duration: { type: String, required: true, encrypted: true },
+        quantity: { type: String, encrypted: true },
+        instructions: { type: String, encrypted: true },
+      }],
+      validate: {
+        validator: (medications: IPrescribedMedication[]) => medications.length > 0,
+        message: 'La receta debe incluir al menos un medicamento',
+      },
+    },
+    instructions: {
+      type: String,
+      encrypted: true,
+    },
+    appointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    medicalRecord: {
+      type: Schema.Types.ObjectId,
+      ref: 'MedicalRecord',
+    },
+    verificationCode: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+    validUntil: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: PRESCRIPTION_STATUSES,
+      default: 'emitida',
+    },
+    dispensations: [{
+      _id: false,
+      at: { type: Date, required: true },
+      pharmacy: { type: String, required: true },
+      complete: { type: Boolean, required: true },
+      notes: String,
+    }],
+    cancelledAt: {
+      type: Date,
+    },
+    cancelledBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    cancellationReason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Los medicamentos y las indicaciones se guardan cifrados
+prescriptionSchema.plugin(encryptedFieldsPlugin);
+
+// Índices para mejorar el rendimiento de las consultas
+prescriptionSchema.index({ patient: 1, issuedAt: -1 });
+prescriptionSchema.index({ doctor: 1, issuedAt: -1 });
+
+export default mongoose.model<IPrescription>('Prescription', prescriptionSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+import { ATTEMPT_SCOPES, AttemptScope } from './AuthAttempt';
+
+export const SECURITY_EVENT_TYPES = ['bloqueo', 'desbloqueo'] as const;
+
+export type SecurityEventType = typeof SECURITY_EVENT_TYPES[number];
+
+export interface ISecurityEvent extends Document {
+  type: SecurityEventType;
+  scope: AttemptScope;
+  key: string;
+  ip?: string;
+  userAgent?: string;
+  // Administrador que realizó la acción (desbloqueos manuales)
+  actor?: mongoose.Types.ObjectId;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    type: {
+      type: String,
+      enum: SECURITY_EVENT_TYPES,
+      required: true,
+    },
+    scope: {
+      type: String,
+      enum: ATTEMPT_SCOPES,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    details: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para la consulta de eventos por tipo y por clave
+securityEventSchema.index({ type: 1, createdAt: -1 });
+securityEventSchema.index({ key: 1, createdAt: -1 });
+
+export default mongoose.model<ISecurityEvent>('SecurityEvent', securityEventSchema);
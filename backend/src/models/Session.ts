@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export const SESSION_REVOCATION_REASONS = [
+  'logout',
+  'logout_all',
+  'reutilizacion',
+  'desactivacion',
+  'cambio_contrasena',
+  'cambio_rol',
+  'restablecimiento_forzado',
+  'desactivacion_segundo_factor',
+] as const;
+
+export type SessionRevocationReason = typeof SESSION_REVOCATION_REASONS[number];
+
+// Una sesión agrupa la familia de refresh tokens emitidos desde un mismo login.
+// Solo se guarda el hash del token vigente y de los ya rotados.
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string;
+  previousTokenHashes: string[];
+  expiresAt: Date;
+  lastUsedAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevocationReason;
+  ip?: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    previousTokenHashes: {
+      type: [String],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    revokedReason: {
+      type: String,
+      enum: SESSION_REVOCATION_REASONS,
+    },
+    ip: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para la rotación, la detección de reutilización y la limpieza
+sessionSchema.index({ tokenHash: 1 }, { unique: true });
+sessionSchema.index({ previousTokenHashes: 1 });
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', sessionSchema);
@@ -0,0 +1,86 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ISlotOffer extends Document {
+  entry: mongoose.Types.ObjectId;
+  patient: mongoose.Types.ObjectId;
+  doctor: mongoose.Types.ObjectId;
+  date: Date;
+  startTime: string;
+  endTime: string;
+  type: 'presencial' | 'remota';
+  status: 'pendiente' | 'aceptada' | 'rechazada' | 'expirada' | 'invalidada';
+  expiresAt: Date;
+  respondedAt?: Date;
+  appointment?: mongoose.Types.ObjectId;
+  sourceAppointment?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const slotOfferSchema = new Schema<ISlotOffer>(
+  {
+    entry: {
+      type: Schema.Types.ObjectId,
+      ref: 'WaitlistEntry',
+      required: true,
+    },
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    startTime: {
+      type: String,
+      required: true,
+    },
+    endTime: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['presencial', 'remota'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pendiente', 'aceptada', 'rechazada', 'expirada', 'invalidada'],
+      default: 'pendiente',
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+    },
+    appointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    sourceAppointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para mejorar el rendimiento de las consultas
+slotOfferSchema.index({ doctor: 1, date: 1, status: 1 });
+slotOfferSchema.index({ status: 1, expiresAt: 1 });
+slotOfferSchema.index({ patient: 1, status: 1 });
+slotOfferSchema.index({ entry: 1 });
+
+export default mongoose.model<ISlotOffer>('SlotOffer', slotOfferSchema);
@@ -1,16 +1,46 @@
 import mongoose, { Document, Schema } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { blindIndex } from '../utils/encryption';
+import { encryptedFieldsPlugin } from './plugins/encryptedFields';
+
+export interface INotificationPreferences {
+  email: boolean;
+  sms: boolean;
+  reminderHoursBefore: number[];
+}
+
+export const USER_ROLES = ['patient', 'doctor', 'admin'] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const ALLERGY_SEVERITIES = ['leve', 'moderada', 'grave'] as const;
+
+export type AllergySeverity = typeof ALLERGY_SEVERITIES[number];
+
+// Alergia o intolerancia registrada del paciente. La sustancia puede ser un
+// principio activo ("amoxicilina") o un grupo ("penicilina", "AINE").
+export interface IAllergy {
+  _id: mongoose.Types.ObjectId;
+  substance: string;
+  reaction?: string;
+  severity: AllergySeverity;
+  notedAt: Date;
+  notedBy?: mongoose.Types.ObjectId;
+}
 
 export interface IUser extends Document {
   name: string;
   email: string;
   password: string;
-  role: 'patient' | 'doctor' | 'admin';
+  role: UserRole;
   documentId: string;
+  // Índice ciego del documento (el documento se guarda cifrado)
+  documentIdHash?: string;
   birthDate: Date;
   phone: string;
   address: string;
   medicalHistory?: string;
+  allergies?: IAllergy[];
   healthCoverage?: string;
   specialty?: string;
   licenseNumber?: string;
@@ -19,6 +49,18 @@ export interface IUser extends Document {
     startTime: string;
     endTime: string;
   }[];
+  notificationPreferences: INotificationPreferences;
+  calendarFeedTokenHash?: string;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastStep?: number;
+  active: boolean;
+  deactivatedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -45,13 +87,14 @@ const userSchema = new Schema<IUser>(
     },
     role: {
       type: String,
-      enum: ['patient', 'doctor', 'admin'],
+      enum: USER_ROLES,
       required: [true, 'El rol es requerido'],
     },
     documentId: {
       type: String,
       required: [true, 'El documento de identidad es requerido'],
       trim: true,
+      encrypted: true,
     },
     birthDate: {
       type: Date,
@@ -69,7 +112,34 @@ const userSchema = new Schema<IUser>(
     },
     medicalHistory: {
       type: String,
+      encrypted: true,
     },
+    allergies: [{
+      substance: {
+        type: String,
+        required: true,
+        trim: true,
+        encrypted: true,
+      },
+      reaction: {
+        type: String,
+        trim: true,
+        encrypted: true,
+      },
+      severity: {
+        type: String,
+        enum: ALLERGY_SEVERITIES,
+        required: true,
+      },
+      notedAt: {
+        type: Date,
+        default: Date.now,
+      },
+      notedBy: {
+        type: Schema.Types.ObjectId,
+        ref: 'User',
+      },
+    }],
     healthCoverage: {
       type: String,
     },
@@ -89,6 +159,65 @@ const userSchema = new Schema<IUser>(
         endTime: String,
       },
     ],
+    notificationPreferences: {
+      email: {
+        type: Boolean,
+        default: true,
+      },
+      sms: {
+        type: Boolean,
+        default: false,
+      },
+      reminderHoursBefore: {
+        type: [Number],
+        default: [24],
+      },
+    },
+    calendarFeedTokenHash: {
+      type: String,
+      select: false,
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+    },
+    // Los datos del segundo factor nunca se devuelven salvo que se pidan explícitamente.
+    // Las semillas TOTP se guardan cifradas; los códigos de recuperación, como hash.
+    twoFactorSecret: {
+      type: String,
+      select: false,
+      encrypted: true,
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false,
+      encrypted: true,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false,
+    },
+    twoFactorLastStep: {
+      type: Number,
+      select: false,
+    },
+    active: {
+      type: Boolean,
+      default: true,
+    },
+    deactivatedAt: {
+      type: Date,
+    },
   },
   {
     timestamps: true,
@@ -115,9 +244,16 @@ userSchema.methods.comparePassword = async function (
   return bcrypt.compare(candidatePassword, this.password);
 };
 
+// El documento, la historia médica, las alergias y las semillas TOTP se guardan cifrados; la unicidad y las
+// búsquedas por documento usan el índice ciego documentIdHash
+userSchema.plugin(encryptedFieldsPlugin, { blindIndexes: { documentId: 'documentIdHash' } });
+
+// Condición para buscar usuarios por número de documento
+export const documentIdQuery = (documentId: string) => ({ documentIdHash: blindIndex(documentId) });
+
 // Índices para búsquedas frecuentes
 userSchema.index({ email: 1 }, { unique: true });
-userSchema.index({ documentId: 1 }, { unique: true });
+userSchema.index({ calendarFeedTokenHash: 1 }, { unique: true, sparse: true });
 
 const User = mongoose.model<IUser>('User', userSchema);
 
@@ -0,0 +1,74 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IWaitlistEntry extends Document {
+  patient: mongoose.Types.ObjectId;
+  doctor?: mongoose.Types.ObjectId;
+  specialty?: string;
+  preferredFrom: Date;
+  preferredTo: Date;
+  type: 'presencial' | 'remota';
+  status: 'activa' | 'ofertada' | 'asignada' | 'cancelada' | 'expirada';
+  appointment?: mongoose.Types.ObjectId;
+  notes?: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const waitlistEntrySchema = new Schema<IWaitlistEntry>(
+  {
+    patient: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    doctor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    specialty: {
+      type: String,
+      trim: true,
+    },
+    preferredFrom: {
+      type: Date,
+      required: true,
+    },
+    preferredTo: {
+      type: Date,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: ['presencial', 'remota'],
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['activa', 'ofertada', 'asignada', 'cancelada', 'expirada'],
+      default: 'activa',
+    },
+    appointment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Appointment',
+    },
+    notes: {
+      type: String,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Índices para localizar rápidamente candidatos en orden de llegada
+waitlistEntrySchema.index({ status: 1, doctor: 1, createdAt: 1 });
+waitlistEntrySchema.index({ status: 1, specialty: 1, createdAt: 1 });
+waitlistEntrySchema.index({ patient: 1 });
+
+export default mongoose.model<IWaitlistEntry>('WaitlistEntry', waitlistEntrySchema);
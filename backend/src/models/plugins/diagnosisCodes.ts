@@ -0,0 +1,40 @@
+import { Schema } from 'mongoose';
+import { diagnosisCodesError, findIcd10, normalizeIcd10Code } from '../../services/icd10';
+
+// Diagnósticos codificados con CIE-10 que acompañan al diagnóstico en texto libre:
+// uno principal y los secundarios. Los códigos no se cifran para poder contar casos.
+export interface IDiagnosisCode {
+  code: string;
+  display: string;
+  primary: boolean;
+}
+
+export const diagnosisCodesPlugin = (schema: Schema): void => {
+  schema.add({
+    diagnosisCodes: [{
+      _id: false,
+      code: { type: String, required: true },
+      display: String,
+      primary: { type: Boolean, default: false },
+    }],
+  });
+
+  // Se normalizan los códigos y la descripción se toma siempre del catálogo
+  schema.pre('validate', function (next) {
+    const codes = this.get('diagnosisCodes') as IDiagnosisCode[] | undefined;
+    if (!codes?.length || !this.isModified('diagnosisCodes')) return next();
+
+    const error = diagnosisCodesError(codes);
+    if (error) {
+      this.invalidate('diagnosisCodes', error);
+      return next();
+    }
+    for (const item of codes) {
+      item.code = normalizeIcd10Code(item.code)!;
+      item.display = findIcd10(item.code)!.description;
+    }
+    next();
+  });
+
+  schema.index({ 'diagnosisCodes.code': 1 });
+};
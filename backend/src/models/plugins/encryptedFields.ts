@@ -0,0 +1,138 @@
+import { Document, Model, Schema, SchemaType } from 'mongoose';
+import { getKeyring } from '../../config/encryption';
+import { blindIndex, decryptValue, encryptValue, isEncrypted, keyIdOf } from '../../utils/encryption';
+
+// Cifrado transparente de los campos marcados con `encrypted: true` en el esquema
+// (textos y listas de textos, también dentro de subdocumentos). Los valores se
+// cifran al asignarse y se descifran al leerlos y al serializar a JSON, por lo que
+// el resto de la aplicación trabaja siempre con el texto en claro.
+// Al estar cifrados no se puede consultar por estos campos; para buscar por igualdad
+// se declara un índice ciego.
+
+export interface EncryptedFieldsOptions {
+  // Campo cifrado -> campo donde se guarda su índice ciego
+  blindIndexes?: Record<string, string>;
+}
+
+const encryptSetter = (value: unknown): unknown =>
+  typeof value === 'string' && value !== '' && !isEncrypted(value) ? encryptValue(value) : value;
+
+const decryptGetter = (value: unknown): unknown => (typeof value === 'string' ? decryptValue(value) : value);
+
+const decryptArrayGetter = (value: unknown): unknown =>
+  Array.isArray(value) ? value.map(decryptGetter) : value;
+
+type EncryptedKind = 'valor' | 'lista';
+
+// Partes de los tipos de Mongoose que sus declaraciones no recogen: la lista de setters,
+// el tipo de los elementos de una lista (caster) y el esquema de un subdocumento
+interface SchemaTypeInternals {
+  setters?: ((value: unknown) => unknown)[];
+  caster?: SchemaType & SchemaTypeInternals;
+  schema?: Schema;
+}
+
+type FieldSchemaType = SchemaType & SchemaTypeInternals;
+
+const encryptedKind = (schemaType: FieldSchemaType): EncryptedKind | undefined => {
+  if (schemaType.options?.encrypted) return 'valor';
+  if (schemaType.caster?.options?.encrypted) return 'lista';
+  return undefined;
+};
+
+const subdocumentSchema = (schemaType: FieldSchemaType): Schema | undefined => schemaType.schema;
+
+const configureSchema = (schema: Schema): void => {
+  schema.eachPath((path, schemaType: FieldSchemaType) => {
+    const nested = subdocumentSchema(schemaType);
+    if (nested) configureSchema(nested);
+
+    const kind = encryptedKind(schemaType);
+    const target = kind === 'lista' ? schemaType.caster : schemaType;
+    if (!kind) return;
+
+    // Mongoose aplica los setters en orden inverso: al quedar el primero, el cifrado
+    // se ejecuta después de trim/lowercase
+    target?.setters?.unshift(encryptSetter);
+    // En las listas se descifra la lista completa: un getter por elemento haría
+    // que los elementos nunca pudieran leerse cifrados
+    schemaType.get(kind === 'lista' ? decryptArrayGetter : decryptGetter);
+  });
+
+  const toJSON = schema.get('toJSON') || {};
+  schema.set('toJSON', { ...toJSON, getters: true, virtuals: toJSON.virtuals ?? false });
+};
+
+export interface EncryptedModel {
+  model: Model<any>;
+  blindIndexFields: string[];
+}
+
+// Modelos compilados con el plugin, por nombre, para que la rotación de claves los
+// recorra todos sin mantener una lista aparte
+const encryptedModels = new Map<string, EncryptedModel>();
+
+export const getEncryptedModels = (): EncryptedModel[] => [...encryptedModels.values()];
+
+export const encryptedFieldsPlugin = (schema: Schema, options: EncryptedFieldsOptions = {}): void => {
+  configureSchema(schema);
+
+  const blindIndexes = Object.entries(options.blindIndexes || {});
+  for (const [, field] of blindIndexes) {
+    schema.add({ [field]: { type: String, select: false } });
+    schema.index({ [field]: 1 }, { unique: true, sparse: true });
+  }
+
+  // Mongoose emite `init` en el esquema al compilar cada modelo que lo usa
+  schema.on('init', (model: Model<any>) => {
+    encryptedModels.set(model.modelName, { model, blindIndexFields: blindIndexes.map(([, field]) => field) });
+  });
+
+  // El índice ciego se recalcula en cada guardado en el que cambie el campo de origen
+  schema.pre('save', function (next) {
+    try {
+      for (const [source, field] of blindIndexes) {
+        const value = this.get(source);
+        const missing = this.isSelected(field) && !this.get(field);
+        if (typeof value === 'string' && value && (this.isNew || this.isModified(source) || missing)) {
+          this.set(field, blindIndex(value));
+        }
+      }
+      next();
+    } catch (error: any) {
+      next(error);
+    }
+  });
+};
+
+const isStale = (value: unknown, activeKeyId: string): boolean =>
+  typeof value === 'string' && value !== '' && keyIdOf(value) !== activeKeyId;
+
+// Vuelve a cifrar con la clave activa los campos cifrados con claves anteriores o
+// todavía en claro. Devuelve true si el documento ha cambiado y hay que guardarlo.
+export const reencryptDocument = (doc: Document): boolean => {
+  const { activeKeyId } = getKeyring();
+  let changed = false;
+
+  doc.schema.eachPath((path, schemaType: FieldSchemaType) => {
+    const raw = doc.get(path, null, { getters: false });
+
+    if (subdocumentSchema(schemaType) && raw) {
+      for (const subdocument of Array.isArray(raw) ? raw : [raw]) {
+        changed = reencryptDocument(subdocument) || changed;
+      }
+      return;
+    }
+
+    const kind = encryptedKind(schemaType);
+    if (kind === 'valor' && isStale(raw, activeKeyId)) {
+      doc.set(path, decryptValue(raw));
+      changed = true;
+    } else if (kind === 'lista' && Array.isArray(raw) && raw.some((value) => isStale(value, activeKeyId))) {
+      doc.set(path, raw.map(decryptGetter));
+      changed = true;
+    }
+  });
+
+  return changed;
+};
@@ -0,0 +1,27 @@
+import mongoose, { Schema } from 'mongoose';
+
+// Origen de un documento importado de otro proveedor: el sistema de origen y el id
+// del recurso FHIR del que procede. El índice único hace que reimportar el mismo
+// recurso no duplique el documento.
+export interface IImportSource {
+  system: string;
+  resourceId: string;
+  importedAt: Date;
+  job?: mongoose.Types.ObjectId;
+}
+
+export const importSourcePlugin = (schema: Schema): void => {
+  schema.add({
+    importSource: {
+      system: String,
+      resourceId: String,
+      importedAt: Date,
+      job: { type: Schema.Types.ObjectId, ref: 'ImportJob' },
+    },
+  });
+
+  schema.index(
+    { 'importSource.system': 1, 'importSource.resourceId': 1 },
+    { unique: true, partialFilterExpression: { 'importSource.resourceId': { $exists: true } } }
+  );
+};
@@ -0,0 +1,128 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  changeUserRole,
+  createInvitation,
+  deactivateUser,
+  forcePasswordReset,
+  getInvitations,
+  getUser,
+  listUsers,
+  reactivateUser,
+  resendInvitation,
+  revokeInvitation,
+  updateUser
+} from '../controllers/userAdminController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { USER_ROLES } from '../models/User';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const idValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('q').optional().trim().isLength({ min: 1, max: 100 }).withMessage('La búsqueda debe tener entre 1 y 100 caracteres'),
+  query('role').optional().isIn(USER_ROLES).withMessage('Rol inválido'),
+  query('active').optional().isBoolean().withMessage('El filtro active debe ser verdadero o falso'),
+  query('emailVerified').optional().isBoolean().withMessage('El filtro emailVerified debe ser verdadero o falso'),
+  handleValidationErrors
+];
+
+// El rol, la contraseña y el estado de la cuenta tienen sus propias rutas
+const updateValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  body('name').optional().trim().notEmpty().withMessage('El nombre no puede estar vacío'),
+  body('email').optional().isEmail().withMessage('Email inválido'),
+  body('phone').optional().trim().notEmpty().withMessage('El teléfono no puede estar vacío'),
+  body('address').optional().trim().notEmpty().withMessage('La dirección no puede estar vacía'),
+  body('birthDate').optional().isISO8601().withMessage('Fecha de nacimiento inválida'),
+  body('documentId').optional().trim().notEmpty().withMessage('El documento no puede estar vacío'),
+  body('healthCoverage').optional().isString(),
+  body('specialty').optional().isString(),
+  body('licenseNumber').optional().isString(),
+  body(['role', 'password', 'active']).not().exists().withMessage('Este campo se modifica con su propia acción'),
+  handleValidationErrors
+];
+
+const roleValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  body('role').isIn(USER_ROLES).withMessage('Rol inválido'),
+  body('specialty').optional().trim().notEmpty().withMessage('La especialidad no puede estar vacía'),
+  body('licenseNumber').optional().trim().notEmpty().withMessage('La matrícula no puede estar vacía'),
+  handleValidationErrors
+];
+
+const invitationValidation = [
+  body('email').isEmail().withMessage('Email inválido'),
+  body('role').isIn(USER_ROLES).withMessage('Rol inválido'),
+  body('name').trim().notEmpty().withMessage('El nombre es requerido'),
+  body('specialty')
+    .if(body('role').equals('doctor'))
+    .trim()
+    .notEmpty()
+    .withMessage('La especialidad es requerida para doctores'),
+  body('licenseNumber')
+    .if(body('role').equals('doctor'))
+    .trim()
+    .notEmpty()
+    .withMessage('La matrícula es requerida para doctores'),
+  handleValidationErrors
+];
+
+const invitationSearchValidation = [
+  query('status')
+    .optional()
+    .isIn(['pendiente', 'aceptada', 'revocada', 'vencida'])
+    .withMessage('Estado de invitación inválido'),
+  query('email').optional().isEmail().withMessage('Email inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en los listados
+const userListing = listing({
+  sortKeys: { name: ['name'], email: ['email'], createdAt: ['createdAt'] },
+  defaultSort: 'name',
+  fields: [
+    'name', 'email', 'role', 'active', 'deactivatedAt', 'emailVerified', 'twoFactorEnabled',
+    'specialty', 'licenseNumber', 'phone', 'createdAt'
+  ]
+});
+
+const invitationListing = listing({
+  sortKeys: { createdAt: ['createdAt'], expiresAt: ['expiresAt'] },
+  defaultSort: '-createdAt'
+});
+
+// Todas las rutas son exclusivas de administradores
+router.use(auth, checkRole(['admin']));
+
+// Usuarios
+router.get('/users', searchValidation, userListing, listUsers);
+router.get('/users/:id', idValidation, getUser);
+router.patch('/users/:id', updateValidation, updateUser);
+router.patch('/users/:id/role', roleValidation, changeUserRole);
+router.post('/users/:id/deactivate', idValidation, deactivateUser);
+router.post('/users/:id/reactivate', idValidation, reactivateUser);
+router.post('/users/:id/reset-password', idValidation, forcePasswordReset);
+
+// Invitaciones
+router.post('/invitations', invitationValidation, createInvitation);
+router.get('/invitations', invitationSearchValidation, invitationListing, getInvitations);
+router.post('/invitations/:id/resend', idValidation, resendInvitation);
+router.post('/invitations/:id/revoke', idValidation, revokeInvitation);
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { addAllergy, deleteAllergy, getAllergies, updateAllergy } from '../controllers/allergyController';
+import { auth } from '../middleware/auth';
+import { ALLERGY_SEVERITIES } from '../models/User';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const patientValidation = param('patientId').isMongoId().withMessage('ID de paciente inválido');
+const allergyIdValidation = param('allergyId').isMongoId().withMessage('ID de alergia inválido');
+
+// Validación de la alergia; al actualizar todos los campos son opcionales
+const allergyValidation = (partial: boolean) => [
+  (partial ? body('substance').optional() : body('substance'))
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('La sustancia es requerida (2 a 100 caracteres)'),
+  body('reaction')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 300 })
+    .withMessage('La reacción no puede superar 300 caracteres'),
+  (partial ? body('severity').optional() : body('severity'))
+    .isIn(ALLERGY_SEVERITIES)
+    .withMessage(`Gravedad inválida (${ALLERGY_SEVERITIES.join(', ')})`),
+];
+
+// Rutas
+router.get('/:patientId', auth, patientValidation, handleValidationErrors, getAllergies);
+router.post('/:patientId', auth, patientValidation, allergyValidation(false), handleValidationErrors, addAllergy);
+router.put(
+  '/:patientId/:allergyId',
+  auth,
+  patientValidation,
+  allergyIdValidation,
+  allergyValidation(true),
+  handleValidationErrors,
+  updateAllergy
+);
+router.delete('/:patientId/:allergyId', auth, patientValidation, allergyIdValidation, handleValidationErrors, deleteAllergy);
+
+export default router;
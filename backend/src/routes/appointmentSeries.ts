@@ -0,0 +1,88 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import {
+  createAppointmentSeries,
+  getAppointmentSeries,
+  updateAppointmentSeries,
+  cancelAppointmentSeries,
+} from '../controllers/appointmentSeriesController';
+import { auth, checkRole } from '../middleware/auth';
+import { RECURRENCE_FREQUENCIES } from '../models/AppointmentSeries';
+import { MAX_OCCURRENCES } from '../services/recurrence';
+import { TIME_PATTERN } from '../utils/time';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const idValidation = [
+  param('id').isMongoId().withMessage('ID de serie inválido'),
+];
+
+// Validación para crear una serie
+const seriesValidation = [
+  body('patientId').isMongoId().withMessage('El ID del paciente es requerido'),
+  body('doctorId').isMongoId().withMessage('El ID del doctor es requerido'),
+  body('startDate').isDate().withMessage('La fecha de inicio debe ser válida'),
+  body('startTime').matches(TIME_PATTERN).withMessage('La hora de inicio debe tener formato HH:mm'),
+  body('endTime').matches(TIME_PATTERN).withMessage('La hora de fin debe tener formato HH:mm'),
+  body('type').isIn(['presencial', 'remota']).withMessage('Tipo de cita inválido'),
+  body('reason').notEmpty().withMessage('La razón de la cita es requerida'),
+  body('recurrence').notEmpty().withMessage('La regla de recurrencia es requerida'),
+  body('recurrence.frequency')
+    .if(body('recurrence').isObject())
+    .isIn(RECURRENCE_FREQUENCIES)
+    .withMessage('Frecuencia inválida'),
+  body('recurrence.interval')
+    .optional()
+    .isInt({ min: 1, max: 12 })
+    .withMessage('El intervalo debe estar entre 1 y 12'),
+  body('recurrence.count')
+    .optional()
+    .isInt({ min: 1, max: MAX_OCCURRENCES })
+    .withMessage(`El número de ocurrencias debe estar entre 1 y ${MAX_OCCURRENCES}`),
+  body('recurrence.until')
+    .optional()
+    .isDate()
+    .withMessage('La fecha límite debe ser válida'),
+  handleValidationErrors
+];
+
+// Validación del alcance de una modificación o cancelación
+const scopeValidation = [
+  body('scope')
+    .isIn(['this', 'following', 'all'])
+    .withMessage("El alcance debe ser 'this', 'following' o 'all'"),
+  body('appointmentId')
+    .if(body('scope').isIn(['this', 'following']))
+    .isMongoId()
+    .withMessage('El ID de la cita es requerido para este alcance'),
+  body('reason')
+    .optional()
+    .isString()
+    .trim(),
+];
+
+const seriesUpdateValidation = [
+  ...scopeValidation,
+  body('startTime').optional().matches(TIME_PATTERN).withMessage('La hora de inicio debe tener formato HH:mm'),
+  body('endTime').optional().matches(TIME_PATTERN).withMessage('La hora de fin debe tener formato HH:mm'),
+  body('type').optional().isIn(['presencial', 'remota']).withMessage('Tipo de cita inválido'),
+  handleValidationErrors
+];
+
+// Rutas
+router.post('/', auth, checkRole(['admin', 'doctor']), seriesValidation, createAppointmentSeries);
+router.get('/:id', auth, idValidation, handleValidationErrors, getAppointmentSeries);
+router.put('/:id', auth, checkRole(['admin', 'doctor']), idValidation, seriesUpdateValidation, updateAppointmentSeries);
+router.patch('/:id/cancel', auth, idValidation, scopeValidation, handleValidationErrors, cancelAppointmentSeries);
+
+export default router;
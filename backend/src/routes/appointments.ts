@@ -6,10 +6,14 @@ import {
   getAppointmentById,
   updateAppointment,
   cancelAppointment,
+  getAppointmentHistory,
 } from '../controllers/appointmentController';
 import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
 import { validationResult } from 'express-validator';
-import Appointment from '../models/Appointment';
+import Appointment, { APPOINTMENT_STATUSES } from '../models/Appointment';
+import { diagnosisCodesError } from '../services/icd10';
+import { TIME_PATTERN } from '../utils/time';
 
 const router = Router();
 
@@ -23,16 +27,50 @@ const handleValidationErrors = (req: Request, res: Response, next: Function): vo
   next();
 };
 
-// Validación para crear/actualizar cita
+// Validación para crear cita
 const appointmentValidation = [
-  body('patientId').notEmpty().withMessage('El ID del paciente es requerido'),
-  body('doctorId').notEmpty().withMessage('El ID del doctor es requerido'),
+  body('patientId').isMongoId().withMessage('El ID del paciente es requerido'),
+  body('doctorId').isMongoId().withMessage('El ID del doctor es requerido'),
   body('date').isDate().withMessage('La fecha debe ser válida'),
-  body('time').matches(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/).withMessage('La hora debe tener formato HH:mm'),
+  body('startTime').matches(TIME_PATTERN).withMessage('La hora de inicio debe tener formato HH:mm'),
+  body('endTime').matches(TIME_PATTERN).withMessage('La hora de fin debe tener formato HH:mm'),
+  body('type').isIn(['presencial', 'remota']).withMessage('Tipo de cita inválido'),
   body('reason').notEmpty().withMessage('La razón de la cita es requerida'),
+  body('meetingUrl').optional().isURL().withMessage('El enlace de la consulta remota es inválido'),
   handleValidationErrors
 ];
 
+// Validación para actualizar cita (todos los campos son opcionales)
+const appointmentUpdateValidation = [
+  body('date').optional().isDate().withMessage('La fecha debe ser válida'),
+  body('startTime').optional().matches(TIME_PATTERN).withMessage('La hora de inicio debe tener formato HH:mm'),
+  body('endTime').optional().matches(TIME_PATTERN).withMessage('La hora de fin debe tener formato HH:mm'),
+  body('type').optional().isIn(['presencial', 'remota']).withMessage('Tipo de cita inválido'),
+  body('status').optional().isIn(APPOINTMENT_STATUSES).withMessage('Estado inválido'),
+  body('meetingUrl').optional().isURL().withMessage('El enlace de la consulta remota es inválido'),
+  body('reason').optional().isString().trim(),
+  handleValidationErrors
+];
+
+// Validación para cancelar cita
+const cancelValidation = [
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo de cancelación no puede superar 500 caracteres'),
+  handleValidationErrors
+];
+
+// Motivo para guardar pese a advertencias graves de alergias o interacciones
+const safetyOverrideValidation = body('safetyOverrideReason')
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ min: 5, max: 500 })
+  .withMessage('El motivo para ignorar las advertencias debe tener entre 5 y 500 caracteres');
+
 // Validación para actualizar diagnóstico y prescripción
 const medicalUpdateValidation = [
   body('diagnosis')
@@ -40,6 +78,14 @@ const medicalUpdateValidation = [
     .trim()
     .notEmpty()
     .withMessage('El diagnóstico no puede estar vacío'),
+  // Diagnósticos CIE-10: uno principal y varios secundarios, todos del catálogo
+  body('diagnosisCodes')
+    .optional()
+    .custom((value) => {
+      const error = diagnosisCodesError(value);
+      if (error) throw new Error(error);
+      return true;
+    }),
   body('prescription.medications')
     .optional()
     .isArray()
@@ -64,6 +110,7 @@ const medicalUpdateValidation = [
     .trim()
     .notEmpty()
     .withMessage('La duración es requerida'),
+  safetyOverrideValidation,
 ];
 
 // Validación para filtros de búsqueda
@@ -78,15 +125,24 @@ const searchValidation = [
     .withMessage('Fecha de fin inválida'),
   query('status')
     .optional()
-    .isIn(['pendiente', 'confirmada', 'cancelada', 'completada'])
+    .isIn(APPOINTMENT_STATUSES)
     .withMessage('Estado inválido'),
+  handleValidationErrors
 ];
 
+// Orden, paginación y campos disponibles en el listado de citas
+const appointmentListing = listing({
+  sortKeys: { date: ['date', 'startTime'], createdAt: ['createdAt'] },
+  defaultSort: 'date',
+  fields: ['patient', 'doctor', 'date', 'startTime', 'endTime', 'type', 'status', 'series', 'reason', 'meetingUrl', 'notes', 'diagnosis', 'diagnosisCodes', 'prescription', 'createdAt', 'updatedAt']
+});
+
 // Rutas
 router.post('/', auth, checkRole(['admin', 'doctor']), appointmentValidation, createAppointment);
-router.get('/', auth, searchValidation, getAppointments);
+router.get('/', auth, searchValidation, appointmentListing, getAppointments);
 router.get('/:id', auth, getAppointmentById);
-router.put('/:id', auth, checkRole(['admin', 'doctor']), appointmentValidation, updateAppointment);
-router.patch('/:id/cancel', auth, cancelAppointment);
+router.get('/:id/history', auth, getAppointmentHistory);
+router.put('/:id', auth, checkRole(['admin', 'doctor']), appointmentUpdateValidation, medicalUpdateValidation, updateAppointment);
+router.patch('/:id/cancel', auth, cancelValidation, cancelAppointment);
 
 export default router; 
\ No newline at end of file
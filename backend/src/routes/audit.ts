@@ -0,0 +1,53 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import { getAuditLogs, getMyRecordAccess } from '../controllers/auditController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { AUDIT_ACTIONS, AUDIT_OUTCOMES } from '../models/AuditLog';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// El registro de auditoría se consulta en páginas más grandes que el resto de listados
+const auditListing = listing({
+  sortKeys: { createdAt: ['createdAt'] },
+  defaultSort: '-createdAt',
+  fields: ['actor', 'actorRole', 'action', 'resourceType', 'resource', 'patients', 'outcome', 'ip', 'userAgent', 'details', 'createdAt'],
+  maxLimit: 200
+});
+
+// El paciente solo ve quién accedió a qué y cuándo
+const myAccessListing = listing({
+  sortKeys: { createdAt: ['createdAt'] },
+  defaultSort: '-createdAt',
+  fields: ['actor', 'actorRole', 'action', 'resourceType', 'resource', 'createdAt'],
+  maxLimit: 200
+});
+
+const searchValidation = [
+  query('actor').optional().isMongoId().withMessage('ID de actor inválido'),
+  query('patient').optional().isMongoId().withMessage('ID de paciente inválido'),
+  query('resource').optional().isMongoId().withMessage('ID de registro inválido'),
+  query('breakGlass').optional().isMongoId().withMessage('ID de acceso de emergencia inválido'),
+  query('action').optional().isIn(AUDIT_ACTIONS).withMessage('Acción inválida'),
+  query('outcome').optional().isIn(AUDIT_OUTCOMES).withMessage('Resultado inválido'),
+  query('resourceType').optional().isString(),
+  query('from').optional().isISO8601().withMessage('Fecha de inicio inválida'),
+  query('to').optional().isISO8601().withMessage('Fecha de fin inválida'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/me', auth, checkRole(['patient']), myAccessListing, getMyRecordAccess);
+router.get('/', auth, checkRole(['admin']), searchValidation, auditListing, getAuditLogs);
+
+export default router;
@@ -1,7 +1,33 @@
 import express, { Request, Response, NextFunction } from 'express';
-import { body, validationResult } from 'express-validator';
-import { register, login, getProfile } from '../controllers/authController';
-import { auth } from '../middleware/auth';
+import { body, param, validationResult } from 'express-validator';
+import {
+    register,
+    login,
+    getProfile,
+    refresh,
+    logout,
+    logoutAll,
+    getSessions,
+    revokeUserSession,
+    verifyEmail,
+    resendVerification,
+    forgotPassword,
+    resetPassword,
+    changePassword,
+    verifyLoginTwoFactor,
+    getInvitation,
+    acceptInvitation
+} from '../controllers/authController';
+import {
+    getTwoFactorStatus,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes
+} from '../controllers/twoFactorController';
+import { auth, twoFactorSetupAuth } from '../middleware/auth';
+import { bruteForceGuard } from '../middleware/bruteForce';
+import { verifyChallengeToken } from '../services/twoFactorService';
 
 const router = express.Router();
 
@@ -10,7 +36,8 @@ const registerValidation = [
     body('email').isEmail().withMessage('Email inválido'),
     body('password').isLength({ min: 6 }).withMessage('La contraseña debe tener al menos 6 caracteres'),
     body('name').notEmpty().withMessage('El nombre es requerido'),
-    body('role').isIn(['admin', 'doctor', 'patient']).withMessage('Rol inválido'),
+    // Los doctores y administradores se dan de alta por invitación
+    body('role').optional().equals('patient').withMessage('El registro público solo admite pacientes; el personal se registra por invitación'),
     body('documentId').optional().isString(),
     body('documentType').optional().isString()
 ];
@@ -20,8 +47,69 @@ const loginValidation = [
     body('password').notEmpty().withMessage('La contraseña es requerida')
 ];
 
+const refreshValidation = [
+    body('refreshToken').isString().notEmpty().withMessage('El refresh token es requerido')
+];
+
+const tokenValidation = [
+    body('token').isString().notEmpty().withMessage('El token es requerido')
+];
+
+const forgotPasswordValidation = [
+    body('email').isEmail().withMessage('Email inválido')
+];
+
+const resetPasswordValidation = [
+    ...tokenValidation,
+    body('password').isLength({ min: 6 }).withMessage('La contraseña debe tener al menos 6 caracteres')
+];
+
+const changePasswordValidation = [
+    body('currentPassword').notEmpty().withMessage('La contraseña actual es requerida'),
+    body('newPassword').isLength({ min: 6 }).withMessage('La nueva contraseña debe tener al menos 6 caracteres')
+];
+
+const acceptInvitationValidation = [
+    ...tokenValidation,
+    body('password').isLength({ min: 6 }).withMessage('La contraseña debe tener al menos 6 caracteres'),
+    body('name').optional().trim().notEmpty().withMessage('El nombre no puede estar vacío'),
+    body('documentId').trim().notEmpty().withMessage('El documento de identidad es requerido'),
+    body('birthDate').isISO8601().withMessage('Fecha de nacimiento inválida'),
+    body('phone').trim().notEmpty().withMessage('El teléfono es requerido'),
+    body('address').trim().notEmpty().withMessage('La dirección es requerida')
+];
+
+const totpCodeValidation = body('code').matches(/^\d{6}$/).withMessage('El código debe tener 6 dígitos');
+
+const secondFactorValidation = [
+    body('code').optional().matches(/^\d{6}$/).withMessage('El código debe tener 6 dígitos'),
+    body('recoveryCode').optional().isString(),
+    body().custom((value) => Boolean(value.code || value.recoveryCode))
+        .withMessage('Debe indicar un código de verificación o de recuperación')
+];
+
+const loginTwoFactorValidation = [
+    body('challengeToken').isString().notEmpty().withMessage('El token de reto es requerido'),
+    ...secondFactorValidation
+];
+
+const disableTwoFactorValidation = [
+    body('password').notEmpty().withMessage('La contraseña es requerida'),
+    ...secondFactorValidation
+];
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+    }
+    next();
+};
+
 // Rutas
-router.post('/register', registerValidation, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+router.post('/register', bruteForceGuard('registro'), registerValidation, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
@@ -34,7 +122,7 @@ router.post('/register', registerValidation, async (req: Request, res: Response,
     }
 });
 
-router.post('/login', loginValidation, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+router.post('/login', bruteForceGuard('login', 'email'), loginValidation, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
         const errors = validationResult(req);
         if (!errors.isEmpty()) {
@@ -55,4 +143,31 @@ router.get('/profile', auth, async (req: Request, res: Response, next: NextFunct
     }
 });
 
+router.post('/refresh', refreshValidation, handleValidationErrors, refresh);
+router.post('/logout', auth, logout);
+router.post('/logout-all', auth, logoutAll);
+router.get('/sessions', auth, getSessions);
+router.delete('/sessions/:id', auth, param('id').isMongoId().withMessage('ID de sesión inválido'), handleValidationErrors, revokeUserSession);
+router.post('/verify-email', tokenValidation, handleValidationErrors, verifyEmail);
+router.post('/verify-email/resend', auth, resendVerification);
+router.post('/forgot-password', forgotPasswordValidation, handleValidationErrors, bruteForceGuard('recuperacion', 'email'), forgotPassword);
+router.post('/reset-password', bruteForceGuard('recuperacion'), resetPasswordValidation, handleValidationErrors, resetPassword);
+router.get('/invitations/:token', bruteForceGuard('registro'), getInvitation);
+router.post('/invitations/accept', bruteForceGuard('registro'), acceptInvitationValidation, handleValidationErrors, acceptInvitation);
+router.post('/change-password', auth, changePasswordValidation, handleValidationErrors, changePassword);
+
+// Verificación en dos pasos
+router.post(
+    '/login/2fa',
+    bruteForceGuard('segundo_factor', (req) => verifyChallengeToken(req.body?.challengeToken, 'segundo_factor')),
+    loginTwoFactorValidation,
+    handleValidationErrors,
+    verifyLoginTwoFactor
+);
+router.get('/2fa', auth, getTwoFactorStatus);
+router.post('/2fa/setup', twoFactorSetupAuth, setupTwoFactor);
+router.post('/2fa/enable', twoFactorSetupAuth, totpCodeValidation, handleValidationErrors, enableTwoFactor);
+router.post('/2fa/disable', auth, disableTwoFactorValidation, handleValidationErrors, disableTwoFactor);
+router.post('/2fa/recovery-codes', auth, totpCodeValidation, handleValidationErrors, regenerateRecoveryCodes);
+
 export default router; 
\ No newline at end of file
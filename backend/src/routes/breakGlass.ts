@@ -0,0 +1,75 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  requestBreakGlassAccess,
+  getBreakGlassAccesses,
+  getBreakGlassAccessById,
+  reviewBreakGlassAccess,
+} from '../controllers/breakGlassController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { BREAK_GLASS_REVIEW_STATUSES } from '../models/BreakGlassAccess';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const idValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  handleValidationErrors
+];
+
+const requestValidation = [
+  body('patientId').isMongoId().withMessage('El ID del paciente es requerido'),
+  body('justification')
+    .trim()
+    .isLength({ min: 20, max: 1000 })
+    .withMessage('La justificación debe tener entre 20 y 1000 caracteres'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('reviewStatus')
+    .optional()
+    .isIn(BREAK_GLASS_REVIEW_STATUSES)
+    .withMessage('Estado de revisión inválido'),
+  query('doctor').optional().isMongoId().withMessage('ID de doctor inválido'),
+  query('patient').optional().isMongoId().withMessage('ID de paciente inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de accesos. El administrador
+// los revisa por orden de llegada; el doctor ve primero los más recientes.
+const breakGlassListing = listing({
+  sortKeys: { createdAt: ['createdAt'], expiresAt: ['expiresAt'] },
+  defaultSort: (req) => (req.user!.role === 'admin' ? 'createdAt' : '-createdAt'),
+  fields: ['doctor', 'patient', 'justification', 'expiresAt', 'reviewStatus', 'reviewedBy', 'reviewedAt', 'reviewNotes', 'createdAt']
+});
+
+const reviewValidation = [
+  body('reviewStatus')
+    .isIn(['justificado', 'injustificado'])
+    .withMessage('La revisión debe ser justificado o injustificado'),
+  body('notes')
+    .optional()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las notas no pueden superar 1000 caracteres'),
+  handleValidationErrors
+];
+
+// Rutas
+router.post('/', auth, checkRole(['doctor']), requestValidation, requestBreakGlassAccess);
+router.get('/', auth, checkRole(['doctor', 'admin']), searchValidation, breakGlassListing, getBreakGlassAccesses);
+router.get('/:id', auth, checkRole(['doctor', 'admin']), idValidation, getBreakGlassAccessById);
+router.patch('/:id/review', auth, checkRole(['admin']), idValidation, reviewValidation, reviewBreakGlassAccess);
+
+export default router;
@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { createFeedToken, revokeFeedToken, getCalendarFeed } from '../controllers/calendarController';
+import { auth } from '../middleware/auth';
+
+const router = Router();
+
+// Rutas
+router.post('/feed-token', auth, createFeedToken);
+router.delete('/feed-token', auth, revokeFeedToken);
+router.get('/feed/:token.ics', getCalendarFeed);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { query, validationResult } from 'express-validator';
+import { getIcd10Code, searchIcd10Codes } from '../controllers/catalogController';
+import { auth } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const icd10SearchValidation = [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('El término de búsqueda debe tener entre 2 y 100 caracteres'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('El límite debe estar entre 1 y 100'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/icd10', auth, icd10SearchValidation, searchIcd10Codes);
+router.get('/icd10/:code', auth, getIcd10Code);
+
+export default router;
@@ -0,0 +1,65 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { createConsent, getConsents, revokeConsent } from '../controllers/consentController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { MEDICAL_RECORD_TYPES } from '../models/MedicalRecord';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// Validación del consentimiento: se indica la fecha de fin o la duración en días
+const consentValidation = [
+  body('granteeId').isMongoId().withMessage('El ID del doctor es requerido'),
+  body('recordTypes')
+    .optional()
+    .isArray()
+    .withMessage('Los tipos de registro deben ser un array'),
+  body('recordTypes.*')
+    .isIn(MEDICAL_RECORD_TYPES)
+    .withMessage('Tipo de registro inválido'),
+  body('purpose')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede superar 500 caracteres'),
+  body('expiresAt')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de vencimiento inválida'),
+  body('durationDays')
+    .if(body('expiresAt').not().exists())
+    .isInt({ min: 1, max: 365 })
+    .withMessage('Debe indicar la fecha de vencimiento o una duración entre 1 y 365 días'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('patient').optional().isMongoId().withMessage('ID de paciente inválido'),
+  query('grantee').optional().isMongoId().withMessage('ID de doctor inválido'),
+  query('all').optional().isBoolean().withMessage('El filtro all debe ser verdadero o falso'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de consentimientos
+const consentListing = listing({
+  sortKeys: { createdAt: ['createdAt'], expiresAt: ['expiresAt'] },
+  defaultSort: '-createdAt',
+  fields: ['patient', 'grantee', 'recordTypes', 'purpose', 'expiresAt', 'revokedAt', 'createdAt']
+});
+
+// Rutas
+router.post('/', auth, checkRole(['patient']), consentValidation, createConsent);
+router.get('/', auth, searchValidation, consentListing, getConsents);
+router.patch('/:id/revoke', auth, param('id').isMongoId().withMessage('ID inválido'), handleValidationErrors, revokeConsent);
+
+export default router;
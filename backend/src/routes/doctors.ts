@@ -0,0 +1,41 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { getDoctorAvailability } from '../controllers/doctorController';
+import { auth } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// Validación para la consulta de disponibilidad
+const availabilityValidation = [
+  param('id')
+    .isMongoId()
+    .withMessage('ID de doctor inválido'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de inicio inválida'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de fin inválida'),
+  query('duration')
+    .optional()
+    .isInt({ min: 5, max: 240 })
+    .withMessage('La duración debe estar entre 5 y 240 minutos'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/:id/availability', auth, availabilityValidation, getDoctorAvailability);
+
+export default router;
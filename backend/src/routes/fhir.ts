@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import { auth } from '../middleware/auth';
+import {
+  getCapabilityStatement,
+  readAppointment,
+  readPatient,
+  readPractitioner,
+  readRecordResource,
+  searchAppointments,
+  searchPatients,
+  searchPractitioners,
+  searchRecordResources
+} from '../controllers/fhirController';
+
+// API de solo lectura en HL7 FHIR R4. Los errores de búsqueda se devuelven como
+// OperationOutcome y los parámetros se validan en el controlador.
+const router = Router();
+
+router.get('/metadata', getCapabilityStatement);
+
+router.get('/Patient', auth, searchPatients);
+router.get('/Patient/:id', auth, readPatient);
+router.get('/Practitioner', auth, searchPractitioners);
+router.get('/Practitioner/:id', auth, readPractitioner);
+router.get('/Appointment', auth, searchAppointments);
+router.get('/Appointment/:id', auth, readAppointment);
+
+for (const resourceType of ['Encounter', 'Condition', 'Observation', 'MedicationRequest'] as const) {
+  router.get(`/${resourceType}`, auth, searchRecordResources(resourceType));
+  router.get(`/${resourceType}/:id`, auth, readRecordResource(resourceType));
+}
+
+export default router;
@@ -0,0 +1,73 @@
+import express, { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import {
+  createImportJob,
+  getImportJobById,
+  getImportJobs,
+  processImports
+} from '../controllers/importController';
+import { auth, checkRole, cronOrAdmin } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { IMPORT_JOB_STATUSES } from '../models/ImportJob';
+
+const router = Router();
+
+// Tamaño máximo del fichero importado
+const IMPORT_MAX_SIZE = process.env.FHIR_IMPORT_MAX_SIZE || '10mb';
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// El Bundle se envía como application/fhir+json y la exportación masiva como NDJSON.
+// Un Bundle enviado como application/json lo procesa el parser global de la aplicación.
+const importBody = [
+  express.json({ type: 'application/fhir+json', limit: IMPORT_MAX_SIZE }),
+  express.text({ type: ['application/fhir+ndjson', 'application/x-ndjson', 'application/ndjson'], limit: IMPORT_MAX_SIZE })
+];
+
+const importValidation = [
+  query('source')
+    .trim()
+    .notEmpty()
+    .withMessage('El sistema de origen es requerido'),
+  query('dryRun')
+    .optional()
+    .isBoolean()
+    .withMessage('El parámetro dryRun debe ser verdadero o falso'),
+  query('doctor')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de doctor inválido'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('status')
+    .optional()
+    .isIn(IMPORT_JOB_STATUSES)
+    .withMessage('Estado inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de importaciones (sin las incidencias)
+const importListing = listing({
+  sortKeys: { createdAt: ['createdAt'] },
+  defaultSort: '-createdAt',
+  fields: ['source', 'format', 'dryRun', 'status', 'createdBy', 'doctor', 'summary', 'error', 'startedAt', 'finishedAt', 'createdAt']
+});
+
+// Rutas
+router.post('/', auth, checkRole(['doctor', 'admin']), importBody, importValidation, createImportJob);
+router.get('/', auth, checkRole(['doctor', 'admin']), searchValidation, importListing, getImportJobs);
+router.get('/process', cronOrAdmin, processImports);
+router.post('/process', cronOrAdmin, processImports);
+router.get('/:id', auth, checkRole(['doctor', 'admin']), param('id').isMongoId().withMessage('ID inválido'), handleValidationErrors, getImportJobById);
+
+export default router;
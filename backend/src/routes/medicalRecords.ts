@@ -1,8 +1,24 @@
 import { Router, Request, Response, NextFunction } from 'express';
 import { body, query } from 'express-validator';
-import { auth, checkRole } from '../middleware/auth';
+import { auth } from '../middleware/auth';
+import { checkRoleAudited } from '../middleware/audit';
+import { listing } from '../middleware/listing';
+import { singleFile } from '../middleware/upload';
+import { ATTACHMENT_TYPES } from '../models/MedicalRecord';
+import { diagnosisCodesError, normalizeIcd10Code } from '../services/icd10';
 import { validationResult } from 'express-validator';
-import MedicalRecord from '../models/MedicalRecord';
+import {
+  createMedicalRecord,
+  getMedicalRecords,
+  searchMedicalRecords,
+  getMedicalRecordById,
+  updateMedicalRecord,
+  signMedicalRecord,
+  amendMedicalRecord,
+  getMedicalRecordVersions,
+  uploadAttachment,
+  downloadAttachment
+} from '../controllers/medicalRecordController';
 
 const router = Router();
 
@@ -16,6 +32,68 @@ const handleValidationErrors = (req: Request, res: Response, next: NextFunction)
   next();
 };
 
+// Convierte la presión arterial escrita como "120/80" al formato del modelo
+const parseBloodPressure = (value: unknown) => {
+  const match = typeof value === 'string' ? value.trim().match(/^(\d{2,3})\/(\d{2,3})$/) : null;
+  return match ? { systolic: Number(match[1]), diastolic: Number(match[2]) } : value;
+};
+
+// Validación de los signos vitales. Los límites solo descartan valores imposibles:
+// los valores fuera de rango se aceptan y se marcan como anormales o críticos.
+const vitalSignsValidation = (field: string) => [
+  body(field)
+    .optional()
+    .isObject()
+    .withMessage('Los signos vitales deben ser un objeto'),
+  body(`${field}.bloodPressure`)
+    .optional()
+    .customSanitizer(parseBloodPressure)
+    .isObject()
+    .withMessage('Presión arterial inválida (formato: { systolic, diastolic } o 120/80)'),
+  body(`${field}.bloodPressure.systolic`)
+    .if(body(`${field}.bloodPressure`).exists())
+    .isFloat({ min: 40, max: 300 })
+    .withMessage('Presión sistólica inválida'),
+  body(`${field}.bloodPressure.diastolic`)
+    .if(body(`${field}.bloodPressure`).exists())
+    .isFloat({ min: 20, max: 200 })
+    .withMessage('Presión diastólica inválida'),
+  body(`${field}.heartRate`)
+    .optional()
+    .isInt({ min: 20, max: 300 })
+    .withMessage('Frecuencia cardíaca inválida'),
+  body(`${field}.temperature`)
+    .optional()
+    .isFloat({ min: 30, max: 45 })
+    .withMessage('Temperatura inválida'),
+  body(`${field}.respiratoryRate`)
+    .optional()
+    .isInt({ min: 4, max: 80 })
+    .withMessage('Frecuencia respiratoria inválida'),
+  body(`${field}.oxygenSaturation`)
+    .optional()
+    .isFloat({ min: 50, max: 100 })
+    .withMessage('Saturación de oxígeno inválida'),
+];
+
+// Motivo para guardar pese a advertencias graves de alergias o interacciones
+const safetyOverrideValidation = body('safetyOverrideReason')
+  .optional()
+  .isString()
+  .trim()
+  .isLength({ min: 5, max: 500 })
+  .withMessage('El motivo para ignorar las advertencias debe tener entre 5 y 500 caracteres');
+
+// Diagnósticos CIE-10: uno principal y varios secundarios, todos del catálogo
+const diagnosisCodesValidation = (field: string) =>
+  body(field)
+    .optional()
+    .custom((value) => {
+      const error = diagnosisCodesError(value);
+      if (error) throw new Error(error);
+      return true;
+    });
+
 // Validación para crear/actualizar historia médica
 const medicalRecordValidation = [
   body('patient')
@@ -36,31 +114,22 @@ const medicalRecordValidation = [
     .trim()
     .notEmpty()
     .withMessage('El diagnóstico no puede estar vacío'),
+  diagnosisCodesValidation('diagnosisCodes'),
   body('treatment')
-    .optional()
-    .trim()
-    .notEmpty()
-    .withMessage('El tratamiento no puede estar vacío'),
-  body('vitalSigns')
     .optional()
     .isObject()
-    .withMessage('Los signos vitales deben ser un objeto'),
-  body('vitalSigns.bloodPressure')
-    .optional()
-    .matches(/^\d{2,3}\/\d{2,3}$/)
-    .withMessage('Presión arterial inválida (formato: 120/80)'),
-  body('vitalSigns.heartRate')
-    .optional()
-    .isInt({ min: 40, max: 200 })
-    .withMessage('Frecuencia cardíaca inválida'),
-  body('vitalSigns.temperature')
+    .withMessage('El tratamiento debe ser un objeto'),
+  body('treatment.medications')
     .optional()
-    .isFloat({ min: 35, max: 42 })
-    .withMessage('Temperatura inválida'),
-  body('vitalSigns.oxygenSaturation')
+    .isArray()
+    .withMessage('Los medicamentos deben ser un array'),
+  body('treatment.recommendations')
     .optional()
-    .isFloat({ min: 70, max: 100 })
-    .withMessage('Saturación de oxígeno inválida'),
+    .trim()
+    .notEmpty()
+    .withMessage('Las recomendaciones no pueden estar vacías'),
+  ...vitalSignsValidation('vitalSigns'),
+  safetyOverrideValidation,
   handleValidationErrors
 ];
 
@@ -86,112 +155,103 @@ const searchValidation = [
     .optional()
     .isIn(['consulta', 'emergencia', 'control', 'procedimiento'])
     .withMessage('Tipo de consulta inválido'),
+  query('diagnosisCode')
+    .optional()
+    .custom((value: string) => normalizeIcd10Code(value) !== null)
+    .withMessage('Código CIE-10 inválido'),
   handleValidationErrors
 ];
 
-// Controladores
-const createMedicalRecord = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const medicalRecord = new MedicalRecord({
-      ...req.body,
-      createdBy: req.user?.id
-    });
-    await medicalRecord.save();
-    res.status(201).json(medicalRecord);
-  } catch (error) {
-    res.status(500).json({ message: 'Error al crear el registro médico' });
-  }
-};
-
-const getMedicalRecords = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const { patient, doctor, startDate, endDate, type } = req.query;
-    const query: any = {};
-
-    if (patient) query.patient = patient;
-    if (doctor) query.doctor = doctor;
-    if (type) query.type = type;
-    if (startDate || endDate) {
-      query.date = {};
-      if (startDate) query.date.$gte = new Date(startDate as string);
-      if (endDate) query.date.$lte = new Date(endDate as string);
-    }
-
-    // Si es paciente, solo puede ver sus propias historias
-    if (req.user?.role === 'patient') {
-      query.patient = req.user.id;
-    }
-    // Si es doctor, solo puede ver las historias de sus pacientes
-    else if (req.user?.role === 'doctor') {
-      query.doctor = req.user.id;
-    }
+// Orden, paginación y campos disponibles en el listado de registros
+const recordListing = listing({
+  sortKeys: { date: ['date'], createdAt: ['createdAt'], updatedAt: ['updatedAt'] },
+  defaultSort: '-date',
+  fields: ['patient', 'doctor', 'date', 'type', 'symptoms', 'diagnosis', 'diagnosisCodes', 'treatment', 'vitalSigns', 'vitalSignFlags', 'attachments', 'notes', 'followUp', 'status', 'version', 'signedAt', 'signedBy', 'createdAt', 'updatedAt']
+});
 
-    const records = await MedicalRecord.find(query)
-      .populate('patient', 'name documentId')
-      .populate('doctor', 'name specialty')
-      .sort({ date: -1 });
-
-    res.json(records);
-  } catch (error) {
-    next(error);
-  }
-};
-
-const getMedicalRecordById = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
-  try {
-    const record = await MedicalRecord.findById(req.params.id)
-      .populate('patient', 'name email')
-      .populate('doctor', 'name email');
-
-    if (!record) {
-      res.status(404).json({ message: 'Registro médico no encontrado' });
-      return;
-    }
-
-    // Verificar permisos
-    if (req.user?.role === 'patient' && record.patient._id.toString() !== req.user.id) {
-      res.status(403).json({ message: 'No tienes permiso para ver este registro' });
-      return;
-    }
-
-    if (req.user?.role === 'doctor' && record.doctor._id.toString() !== req.user.id) {
-      res.status(403).json({ message: 'No tienes permiso para ver este registro' });
-      return;
-    }
-
-    res.json(record);
-  } catch (error) {
-    console.error('Error al obtener registro médico:', error);
-    res.status(500).json({ message: 'Error en el servidor' });
-  }
-};
+// Validación del buscador de texto: admite además los filtros del listado
+const textSearchValidation = [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 2, max: 200 })
+    .withMessage('La búsqueda debe tener entre 2 y 200 caracteres'),
+  query('page')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Página inválida'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('El límite debe estar entre 1 y 100'),
+  ...searchValidation
+];
 
-const updateMedicalRecord = async (req: Request, res: Response): Promise<void> => {
-  try {
-    const record = await MedicalRecord.findById(req.params.id);
-    if (!record) {
-      res.status(404).json({ message: 'Registro médico no encontrado' });
-      return;
-    }
+// Validación de la consulta de un registro a una fecha
+const recordAtValidation = [
+  query('at')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de consulta inválida'),
+  handleValidationErrors
+];
 
-    // Verificar permisos
-    if (req.user?.role === 'doctor' && record.doctor.toString() !== req.user.id) {
-      res.status(403).json({ message: 'No tienes permiso para actualizar este registro' });
-      return;
-    }
+// Validación de enmiendas sobre registros firmados
+const amendmentValidation = [
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage('El motivo de la enmienda es requerido'),
+  body('changes')
+    .isObject()
+    .withMessage('Los cambios deben ser un objeto'),
+  body('changes.type')
+    .optional()
+    .isIn(['consulta', 'emergencia', 'control', 'procedimiento'])
+    .withMessage('Tipo de consulta inválido'),
+  body('changes.symptoms')
+    .optional()
+    .isArray()
+    .withMessage('Los síntomas deben ser un array'),
+  body('changes.diagnosis')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('El diagnóstico no puede estar vacío'),
+  diagnosisCodesValidation('changes.diagnosisCodes'),
+  ...vitalSignsValidation('changes.vitalSigns'),
+  safetyOverrideValidation,
+  handleValidationErrors
+];
 
-    Object.assign(record, req.body);
-    await record.save();
-    res.json(record);
-  } catch (error) {
-    res.status(500).json({ message: 'Error al actualizar el registro médico' });
-  }
-};
+// Validación de los datos que acompañan a un adjunto (multipart/form-data)
+const attachmentValidation = [
+  body('type')
+    .isIn(ATTACHMENT_TYPES)
+    .withMessage('Tipo de adjunto inválido'),
+  body('description')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('La descripción no puede superar 500 caracteres'),
+  body('reason')
+    .optional()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('El motivo no puede superar 500 caracteres'),
+  handleValidationErrors
+];
 
 // Rutas
-router.post('/', auth, checkRole(['doctor', 'admin']), medicalRecordValidation, createMedicalRecord);
-router.get('/', auth, searchValidation, getMedicalRecords);
-router.get('/:id', auth, getMedicalRecordById);
-router.put('/:id', auth, checkRole(['doctor', 'admin']), medicalRecordValidation, updateMedicalRecord);
+router.post('/', auth, checkRoleAudited(['doctor', 'admin'], 'creacion', 'MedicalRecord'), medicalRecordValidation, createMedicalRecord);
+router.get('/', auth, searchValidation, recordListing, getMedicalRecords);
+router.get('/search', auth, textSearchValidation, searchMedicalRecords);
+router.get('/:id', auth, recordAtValidation, getMedicalRecordById);
+router.get('/:id/versions', auth, getMedicalRecordVersions);
+router.put('/:id', auth, checkRoleAudited(['doctor', 'admin'], 'actualizacion', 'MedicalRecord'), medicalRecordValidation, updateMedicalRecord);
+router.post('/:id/sign', auth, checkRoleAudited(['doctor'], 'actualizacion', 'MedicalRecord'), signMedicalRecord);
+router.post('/:id/attachments', auth, checkRoleAudited(['doctor'], 'actualizacion', 'MedicalRecord'), singleFile('file'), attachmentValidation, uploadAttachment);
+router.get('/:id/attachments/:attachmentId', auth, downloadAttachment);
+router.post('/:id/amendments', auth, checkRoleAudited(['doctor'], 'actualizacion', 'MedicalRecord'), amendmentValidation, amendMedicalRecord);
 
 export default router; 
\ No newline at end of file
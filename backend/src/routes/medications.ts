@@ -0,0 +1,41 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import { checkMedications, searchMedications } from '../controllers/medicationController';
+import { auth, checkRole } from '../middleware/auth';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const searchValidation = [
+  query('q').optional().isString().trim(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('El límite debe estar entre 1 y 100'),
+  handleValidationErrors
+];
+
+const checkValidation = [
+  body('patientId').isMongoId().withMessage('El ID del paciente es requerido'),
+  body('medications')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('Debe indicar entre 1 y 20 medicamentos'),
+  body('medications.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('El nombre del medicamento es requerido'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/', auth, searchValidation, searchMedications);
+router.post('/check', auth, checkRole(['doctor', 'admin']), checkValidation, checkMedications);
+
+export default router;
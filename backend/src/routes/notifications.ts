@@ -0,0 +1,70 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import {
+  getNotifications,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  dispatchNotifications,
+} from '../controllers/notificationController';
+import { auth, cronOrAdmin } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const searchValidation = [
+  query('status')
+    .optional()
+    .isIn(['pendiente', 'enviada', 'fallida', 'cancelada'])
+    .withMessage('Estado inválido'),
+  query('user')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de usuario inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de notificaciones
+const notificationListing = listing({
+  sortKeys: { createdAt: ['createdAt'], scheduledFor: ['scheduledFor'] },
+  defaultSort: '-createdAt',
+  fields: ['user', 'channel', 'template', 'recipient', 'subject', 'appointment', 'status', 'scheduledFor', 'attempts', 'lastError', 'sentAt', 'createdAt']
+});
+
+// Validación de las preferencias de notificación
+const preferencesValidation = [
+  body('email')
+    .optional()
+    .isBoolean()
+    .withMessage('El canal email debe ser verdadero o falso'),
+  body('sms')
+    .optional()
+    .isBoolean()
+    .withMessage('El canal SMS debe ser verdadero o falso'),
+  body('reminderHoursBefore')
+    .optional()
+    .isArray({ max: 5 })
+    .withMessage('Los recordatorios deben ser una lista de hasta 5 valores'),
+  body('reminderHoursBefore.*')
+    .isInt({ min: 1, max: 168 })
+    .withMessage('Cada recordatorio debe estar entre 1 y 168 horas antes'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/', auth, searchValidation, notificationListing, getNotifications);
+router.get('/preferences', auth, getNotificationPreferences);
+router.put('/preferences', auth, preferencesValidation, updateNotificationPreferences);
+router.get('/dispatch', cronOrAdmin, dispatchNotifications);
+router.post('/dispatch', cronOrAdmin, dispatchNotifications);
+
+export default router;
@@ -0,0 +1,120 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  cancelPrescription,
+  createPrescription,
+  dispense,
+  getPrescriptionById,
+  getPrescriptionPdf,
+  getPrescriptions,
+  verifyPrescription
+} from '../controllers/prescriptionController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { PRESCRIPTION_STATUSES } from '../models/Prescription';
+import { MAX_PRESCRIPTION_VALIDITY_DAYS } from '../services/prescriptionService';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const requiredText = (field: string, message: string) =>
+  body(field).isString().trim().notEmpty().withMessage(message);
+
+// Validación de la receta
+const prescriptionValidation = [
+  body('patientId').isMongoId().withMessage('El ID del paciente es requerido'),
+  body('medications')
+    .isArray({ min: 1, max: 20 })
+    .withMessage('La receta debe incluir entre 1 y 20 medicamentos'),
+  requiredText('medications.*.name', 'El nombre del medicamento es requerido'),
+  requiredText('medications.*.dosage', 'La dosis es requerida'),
+  requiredText('medications.*.frequency', 'La frecuencia es requerida'),
+  requiredText('medications.*.duration', 'La duración es requerida'),
+  body('medications.*.quantity').optional().isString().trim(),
+  body('medications.*.instructions').optional().isString().trim(),
+  body('instructions')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('Las indicaciones no pueden superar 1000 caracteres'),
+  body('appointmentId').optional().isMongoId().withMessage('ID de cita inválido'),
+  body('medicalRecordId').optional().isMongoId().withMessage('ID de registro médico inválido'),
+  body('validDays')
+    .optional()
+    .isInt({ min: 1, max: MAX_PRESCRIPTION_VALIDITY_DAYS })
+    .withMessage(`La vigencia debe ser de 1 a ${MAX_PRESCRIPTION_VALIDITY_DAYS} días`)
+    .toInt(),
+  body('safetyOverrideReason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 5, max: 500 })
+    .withMessage('El motivo para ignorar las advertencias debe tener entre 5 y 500 caracteres'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('patient').optional().isMongoId().withMessage('ID de paciente inválido'),
+  query('doctor').optional().isMongoId().withMessage('ID de doctor inválido'),
+  query('appointment').optional().isMongoId().withMessage('ID de cita inválido'),
+  query('status')
+    .optional()
+    .isIn([...PRESCRIPTION_STATUSES, 'vencida'])
+    .withMessage('Estado de receta inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de recetas. El estado
+// "vencida" se calcula con la fecha de validez, así que se carga con él.
+const prescriptionListing = listing({
+  sortKeys: { issuedAt: ['issuedAt'], validUntil: ['validUntil'] },
+  defaultSort: '-issuedAt',
+  fields: ['patient', 'doctor', 'prescriberLicense', 'medications', 'instructions', 'appointment', 'medicalRecord', 'verificationCode', 'issuedAt', 'validUntil', 'status', 'dispensations', 'cancelledAt', 'cancellationReason'],
+  fieldDependencies: { status: ['validUntil'] }
+});
+
+const idValidation = [param('id').isMongoId().withMessage('ID inválido'), handleValidationErrors];
+
+const cancelValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 5, max: 500 })
+    .withMessage('Debe indicar el motivo de la cancelación (5 a 500 caracteres)'),
+  handleValidationErrors
+];
+
+const dispenseValidation = [
+  body('complete').optional().isBoolean().withMessage('El campo complete debe ser verdadero o falso').toBoolean(),
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Las notas no pueden superar 500 caracteres'),
+  handleValidationErrors
+];
+
+// Verificación pública para farmacias: no requieren sesión
+router.get('/verify/:code', verifyPrescription);
+router.post('/verify/:code/dispense', dispenseValidation, dispense);
+
+// Rutas
+router.post('/', auth, checkRole(['doctor']), prescriptionValidation, createPrescription);
+router.get('/', auth, searchValidation, prescriptionListing, getPrescriptions);
+router.get('/:id', auth, idValidation, getPrescriptionById);
+router.get('/:id/pdf', auth, idValidation, getPrescriptionPdf);
+router.patch('/:id/cancel', auth, checkRole(['doctor', 'admin']), cancelValidation, cancelPrescription);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { getLocks, unlockById, unlockAccount, getSecurityEvents } from '../controllers/securityController';
+import { auth, checkRole } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+import { SECURITY_EVENT_TYPES } from '../models/SecurityEvent';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const eventsValidation = [
+  query('type')
+    .optional()
+    .isIn(SECURITY_EVENT_TYPES)
+    .withMessage('Tipo de evento inválido'),
+  query('email')
+    .optional()
+    .isEmail()
+    .withMessage('Email inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en el listado de eventos de seguridad
+const eventListing = listing({
+  sortKeys: { createdAt: ['createdAt'] },
+  defaultSort: '-createdAt',
+  fields: ['type', 'scope', 'key', 'ip', 'userAgent', 'actor', 'details', 'createdAt']
+});
+
+// Todas las rutas requieren un administrador
+router.use(auth, checkRole(['admin']));
+
+router.get('/locks', getLocks);
+router.delete('/locks/:id', param('id').isMongoId().withMessage('ID de bloqueo inválido'), handleValidationErrors, unlockById);
+router.post('/unlock', body('email').isEmail().withMessage('Email inválido'), handleValidationErrors, unlockAccount);
+router.get('/events', eventsValidation, eventListing, getSecurityEvents);
+
+export default router;
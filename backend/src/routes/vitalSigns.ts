@@ -0,0 +1,41 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { getVitalSignsSeries, getVitalSignsSummary } from '../controllers/vitalSignsController';
+import { auth } from '../middleware/auth';
+import { VITAL_SIGN_MEASURES } from '../utils/vitalSigns';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+// measure admite varias medidas separadas por comas
+const seriesValidation = [
+  param('patientId').isMongoId().withMessage('ID de paciente inválido'),
+  query('measure')
+    .optional()
+    .custom((value: string) => value.split(',').every((measure) => (VITAL_SIGN_MEASURES as readonly string[]).includes(measure)))
+    .withMessage(`Medida inválida (${VITAL_SIGN_MEASURES.join(', ')})`),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de inicio inválida'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Fecha de fin inválida'),
+  handleValidationErrors
+];
+
+// Rutas
+router.get('/:patientId', auth, seriesValidation, getVitalSignsSeries);
+router.get('/:patientId/summary', auth, seriesValidation, getVitalSignsSummary);
+
+export default router;
@@ -0,0 +1,92 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import {
+  createWaitlistEntry,
+  getWaitlistEntries,
+  cancelWaitlistEntry,
+  getOffers,
+  acceptSlotOffer,
+  declineSlotOffer,
+  expireOffers,
+} from '../controllers/waitlistController';
+import { auth, cronOrAdmin } from '../middleware/auth';
+import { listing } from '../middleware/listing';
+
+const router = Router();
+
+// Middleware para manejar errores de validación
+const handleValidationErrors = (req: Request, res: Response, next: NextFunction): void => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return;
+  }
+  next();
+};
+
+const idValidation = [
+  param('id').isMongoId().withMessage('ID inválido'),
+  handleValidationErrors
+];
+
+// Validación para inscribirse en la lista de espera
+const waitlistValidation = [
+  body('patientId')
+    .if((value: unknown, { req }) => req.user?.role !== 'patient')
+    .isMongoId()
+    .withMessage('El ID del paciente es requerido'),
+  body('doctorId')
+    .optional()
+    .isMongoId()
+    .withMessage('ID de doctor inválido'),
+  body('specialty')
+    .if(body('doctorId').not().exists())
+    .trim()
+    .notEmpty()
+    .withMessage('Debe indicar un doctor o una especialidad'),
+  body('preferredFrom').isDate().withMessage('La fecha de inicio debe ser válida'),
+  body('preferredTo').isDate().withMessage('La fecha de fin debe ser válida'),
+  body('type').isIn(['presencial', 'remota']).withMessage('Tipo de cita inválido'),
+  handleValidationErrors
+];
+
+const searchValidation = [
+  query('status')
+    .optional()
+    .isIn(['activa', 'ofertada', 'asignada', 'cancelada', 'expirada'])
+    .withMessage('Estado inválido'),
+  handleValidationErrors
+];
+
+const offerSearchValidation = [
+  query('status')
+    .optional()
+    .isIn(['pendiente', 'aceptada', 'rechazada', 'expirada', 'invalidada'])
+    .withMessage('Estado inválido'),
+  handleValidationErrors
+];
+
+// Orden, paginación y campos disponibles en los listados de la lista de espera
+const waitlistListing = listing({
+  sortKeys: { createdAt: ['createdAt'] },
+  defaultSort: 'createdAt',
+  fields: ['patient', 'doctor', 'specialty', 'preferredFrom', 'preferredTo', 'type', 'status', 'appointment', 'notes', 'createdAt']
+});
+
+const offerListing = listing({
+  sortKeys: { expiresAt: ['expiresAt'], date: ['date', 'startTime'] },
+  defaultSort: 'expiresAt',
+  fields: ['entry', 'patient', 'doctor', 'date', 'startTime', 'endTime', 'type', 'status', 'expiresAt', 'respondedAt', 'appointment']
+});
+
+// Rutas
+router.post('/', auth, waitlistValidation, createWaitlistEntry);
+router.get('/', auth, searchValidation, waitlistListing, getWaitlistEntries);
+router.get('/offers', auth, offerSearchValidation, offerListing, getOffers);
+router.get('/offers/expire', cronOrAdmin, expireOffers);
+router.post('/offers/expire', cronOrAdmin, expireOffers);
+router.post('/offers/:id/accept', auth, idValidation, acceptSlotOffer);
+router.post('/offers/:id/decline', auth, idValidation, declineSlotOffer);
+router.delete('/:id', auth, idValidation, cancelWaitlistEntry);
+
+export default router;
@@ -0,0 +1,82 @@
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import mongoose, { Model } from 'mongoose';
+import { getEncryptedModels, reencryptDocument } from '../models/plugins/encryptedFields';
+import { getKeyring } from '../config/encryption';
+
+// Vuelve a cifrar con la clave activa los campos cifrados con claves anteriores (o aún
+// en claro) de todos los modelos que usan el plugin de cifrado, y completa los índices
+// ciegos que falten, incluido el índice del buscador clínico de los registros anteriores a él.
+//
+// Uso: npm run encryption:rotate [-- --dry-run]
+//
+// Para rotar: añadir la nueva clave a ENCRYPTION_KEYS, marcarla en ENCRYPTION_ACTIVE_KEY,
+// desplegar, ejecutar este comando y, cuando termine, retirar la clave antigua.
+
+dotenv.config();
+
+const dryRun = process.argv.includes('--dry-run');
+
+// Índices que no declara el plugin y que se calculan al guardar
+const EXTRA_INDEX_FIELDS: Record<string, string[]> = {
+  MedicalRecord: ['searchTokens'],
+};
+
+// Carga todos los modelos para que el plugin registre los que tienen campos cifrados
+const loadModels = async (): Promise<void> => {
+  const directory = path.join(__dirname, '../models');
+  const files = fs.readdirSync(directory).filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'));
+  for (const file of files) {
+    await import(path.join(directory, file));
+  }
+};
+
+const rotateModel = async (model: Model<any>, blindIndexFields: string[] = []): Promise<void> => {
+  let scanned = 0;
+  let updated = 0;
+
+  // Se cargan también los campos ocultos (select: false), que pueden estar cifrados
+  const hidden: string[] = [];
+  model.schema.eachPath((path, schemaType) => {
+    if (schemaType.options?.select === false) hidden.push(path);
+  });
+  const fields = [...new Set([...hidden, ...blindIndexFields])];
+
+  const cursor = model.find().select(fields.map((field) => `+${field}`).join(' ')).cursor();
+  for await (const doc of cursor) {
+    scanned++;
+    const changed = reencryptDocument(doc);
+    const missingIndex = blindIndexFields.some((field) => !doc.get(field));
+    if (!changed && !missingIndex) continue;
+
+    updated++;
+    if (!dryRun) {
+      // El contenido no cambia, así que no cuenta como edición de un registro firmado
+      doc.$locals.reencryption = true;
+      await doc.save({ validateBeforeSave: false, timestamps: false });
+    }
+  }
+
+  console.log(`${model.modelName}: ${scanned} documentos revisados, ${updated} ${dryRun ? 'por actualizar' : 'actualizados'}`);
+};
+
+const main = async (): Promise<void> => {
+  const { activeKeyId } = getKeyring();
+  console.log(`Clave activa: ${activeKeyId}${dryRun ? ' (simulación)' : ''}`);
+
+  await mongoose.connect(process.env.MONGODB_URI || 'mongodb://localhost:27017/gestion-servicios-clinicos');
+  try {
+    await loadModels();
+    for (const { model, blindIndexFields } of getEncryptedModels()) {
+      await rotateModel(model, [...blindIndexFields, ...(EXTRA_INDEX_FIELDS[model.modelName] || [])]);
+    }
+  } finally {
+    await mongoose.disconnect();
+  }
+};
+
+main().catch((error) => {
+  console.error('Error al rotar las claves de cifrado:', error);
+  process.exit(1);
+});
@@ -0,0 +1,197 @@
+import mongoose, { FilterQuery } from 'mongoose';
+import Appointment, { IAppointment } from '../models/Appointment';
+import BreakGlassAccess, { IBreakGlassAccess } from '../models/BreakGlassAccess';
+import Consent, { IConsent } from '../models/Consent';
+import MedicalRecord, { IMedicalRecord } from '../models/MedicalRecord';
+import { IPrescription } from '../models/Prescription';
+import { addDays, startOfDay } from '../utils/time';
+import { refId } from './auditService';
+
+// Motivo por el que un usuario puede consultar un registro clínico
+export type AccessBasis = 'paciente' | 'administrador' | 'autor' | 'cita' | 'consentimiento' | 'emergencia';
+
+export interface RecordAccess {
+  basis: AccessBasis;
+  // Acceso de emergencia bajo el que se concede, para marcarlo en la auditoría
+  breakGlass?: mongoose.Types.ObjectId;
+}
+
+export interface AccessUser {
+  id: string;
+  role: string;
+}
+
+type Id = string | mongoose.Types.ObjectId;
+
+// Una cita da acceso desde unos días antes de la consulta hasta un tiempo después
+// de ella, para poder preparar la visita y hacer el seguimiento
+const CARE_TEAM_DAYS_BEFORE = Number(process.env.CARE_TEAM_DAYS_BEFORE) || 7;
+const CARE_TEAM_DAYS_AFTER = Number(process.env.CARE_TEAM_DAYS_AFTER) || 30;
+
+const CARE_APPOINTMENT_STATUSES = ['pendiente', 'confirmada', 'completada'];
+
+// Solo cuentan las citas que el paciente o un administrador ha solicitado o confirmado:
+// una cita que el doctor se da a sí mismo no puede sustituir al consentimiento
+const ENDORSED_APPOINTMENT = {
+  statusHistory: { $elemMatch: { role: { $in: ['patient', 'admin'] }, to: { $in: ['pendiente', 'confirmada'] } } },
+};
+
+// Los registros que el doctor firmó o importó, escritos mientras atendía al paciente,
+// le mantienen el acceso; un borrador por sí solo no cuenta
+const authoredRecordQuery = (doctorId: Id) => ({
+  doctor: doctorId,
+  $or: [{ status: 'firmado' }, { importSource: { $exists: true } }],
+});
+
+const careAppointmentQuery = (doctorId: Id) => {
+  const today = startOfDay(new Date());
+  return {
+    doctor: doctorId,
+    ...ENDORSED_APPOINTMENT,
+    status: { $in: CARE_APPOINTMENT_STATUSES },
+    date: { $gte: addDays(today, -CARE_TEAM_DAYS_AFTER), $lte: addDays(today, CARE_TEAM_DAYS_BEFORE) },
+  };
+};
+
+export const getCareTeamPatients = (doctorId: Id): Promise<mongoose.Types.ObjectId[]> =>
+  Appointment.distinct('patient', careAppointmentQuery(doctorId));
+
+export const hasActiveAppointment = async (doctorId: Id, patientId: Id): Promise<boolean> =>
+  Boolean(await Appointment.exists({ ...careAppointmentQuery(doctorId), patient: patientId }));
+
+export const getActiveConsents = (granteeId: Id, patientId?: Id): Promise<IConsent[]> =>
+  Consent.find({
+    grantee: granteeId,
+    ...(patientId ? { patient: patientId } : {}),
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  });
+
+export const getActiveBreakGlass = (doctorId: Id, patientId?: Id): Promise<IBreakGlassAccess[]> =>
+  BreakGlassAccess.find({
+    doctor: doctorId,
+    ...(patientId ? { patient: patientId } : {}),
+    expiresAt: { $gt: new Date() },
+  });
+
+const consentCovers = (consent: IConsent, recordType: string): boolean =>
+  !consent.recordTypes.length || consent.recordTypes.includes(recordType as IConsent['recordTypes'][number]);
+
+const consentFilter = (consent: IConsent): FilterQuery<IMedicalRecord> =>
+  consent.recordTypes.length
+    ? { patient: consent.patient, type: { $in: consent.recordTypes } }
+    : { patient: consent.patient };
+
+// Condición de MongoDB con los registros clínicos que el usuario puede consultar
+export const recordAccessFilter = async (user: AccessUser): Promise<FilterQuery<IMedicalRecord>> => {
+  if (user.role === 'admin') return {};
+  if (user.role === 'patient') return { patient: user.id };
+  if (user.role !== 'doctor') return { _id: null };
+
+  const [patients, consents, breakGlass] = await Promise.all([
+    getCareTeamPatients(user.id),
+    getActiveConsents(user.id),
+    getActiveBreakGlass(user.id),
+  ]);
+  const emergencyPatients = breakGlass.map((access) => access.patient);
+
+  return {
+    $or: [
+      { doctor: user.id },
+      ...(patients.length ? [{ patient: { $in: patients } }] : []),
+      ...consents.map(consentFilter),
+      ...(emergencyPatients.length ? [{ patient: { $in: emergencyPatients } }] : []),
+    ],
+  };
+};
+
+// Motivo por el que el usuario puede consultar el registro, o null si no tiene acceso.
+// El acceso de emergencia se comprueba al final para marcar solo lo que no tendría otra vía.
+export const getRecordAccess = async (
+  user: AccessUser,
+  record: Pick<IMedicalRecord, 'patient' | 'doctor' | 'type'>
+): Promise<RecordAccess | null> => {
+  const patientId = refId(record.patient);
+
+  if (user.role === 'admin') return { basis: 'administrador' };
+  if (user.role === 'patient') return patientId === user.id ? { basis: 'paciente' } : null;
+  if (user.role !== 'doctor') return null;
+
+  if (refId(record.doctor) === user.id) return { basis: 'autor' };
+  return getCareAccess(user, patientId, record.type);
+};
+
+// Motivo por el que el usuario atiende al paciente sin contar la autoría: es lo que
+// se exige para añadir registros a su historia, de modo que escribir un registro no
+// sirva para concederse acceso a ella
+export const getCareAccess = async (
+  user: AccessUser,
+  patientId: Id,
+  recordType: string
+): Promise<RecordAccess | null> => {
+  if (user.role === 'admin') return { basis: 'administrador' };
+  if (user.role !== 'doctor') return null;
+
+  if (await hasActiveAppointment(user.id, patientId)) return { basis: 'cita' };
+
+  const consents = await getActiveConsents(user.id, patientId);
+  if (consents.some((consent) => consentCovers(consent, recordType))) return { basis: 'consentimiento' };
+
+  const [breakGlass] = await getActiveBreakGlass(user.id, patientId);
+  return breakGlass ? { basis: 'emergencia', breakGlass: breakGlass._id } : null;
+};
+
+// Accesos de emergencia vigentes del doctor sobre los pacientes de un listado, para
+// marcar en la auditoría los datos que ha podido ver gracias a ellos
+export const listedBreakGlass = async (user: AccessUser, patients: Id[]): Promise<mongoose.Types.ObjectId[]> => {
+  if (user.role !== 'doctor') return [];
+  const listedPatients = new Set(patients.map(refId));
+  return (await getActiveBreakGlass(user.id))
+    .filter((access) => listedPatients.has(refId(access.patient)))
+    .map((access) => access._id);
+};
+
+// Condición con las citas visibles para el usuario: las propias como paciente o doctor
+export const appointmentAccessFilter = (user: AccessUser): FilterQuery<IAppointment> => {
+  if (user.role === 'admin') return {};
+  if (user.role === 'patient') return { patient: user.id };
+  if (user.role === 'doctor') return { doctor: user.id };
+  return { _id: null };
+};
+
+// Recetas visibles para el usuario: las propias como paciente o las emitidas como doctor
+export const prescriptionAccessFilter = (user: AccessUser): FilterQuery<IPrescription> => {
+  if (user.role === 'admin') return {};
+  if (user.role === 'patient') return { patient: user.id };
+  if (user.role === 'doctor') return { doctor: user.id };
+  return { _id: null };
+};
+
+// Pacientes cuyos datos personales puede consultar el usuario (null: todos). Un doctor
+// ve a quienes ha atendido o le han citado y a quienes le dan acceso a su historia.
+export const getAccessiblePatients = async (user: AccessUser): Promise<string[] | null> => {
+  if (user.role === 'admin') return null;
+  if (user.role === 'patient') return [user.id];
+  if (user.role !== 'doctor') return [];
+
+  const [appointmentPatients, recordPatients, consents, breakGlass] = await Promise.all([
+    Appointment.distinct('patient', { doctor: user.id, ...ENDORSED_APPOINTMENT }),
+    MedicalRecord.distinct('patient', authoredRecordQuery(user.id)),
+    getActiveConsents(user.id),
+    getActiveBreakGlass(user.id),
+  ]);
+
+  return [
+    ...new Set([
+      ...appointmentPatients.map(refId),
+      ...recordPatients.map(refId),
+      ...consents.map((consent) => refId(consent.patient)),
+      ...breakGlass.map((access) => refId(access.patient)),
+    ]),
+  ];
+};
+
+export const canAccessPatient = async (user: AccessUser, patientId: Id): Promise<boolean> => {
+  const patients = await getAccessiblePatients(user);
+  return patients === null || patients.includes(refId(patientId));
+};
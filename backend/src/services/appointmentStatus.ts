@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import { AppointmentStatus, IAppointment, IStatusChange } from '../models/Appointment';
+
+export interface StatusActor {
+  id: string;
+  role: string;
+}
+
+// Transiciones permitidas por estado de origen y los roles que pueden ejecutarlas.
+// Los estados sin transiciones de salida son finales.
+const TRANSITIONS: Record<AppointmentStatus, Partial<Record<AppointmentStatus, string[]>>> = {
+  pendiente: {
+    confirmada: ['doctor', 'admin'],
+    cancelada: ['patient', 'doctor', 'admin'],
+  },
+  confirmada: {
+    completada: ['doctor', 'admin'],
+    no_asistio: ['doctor', 'admin'],
+    cancelada: ['patient', 'doctor', 'admin'],
+  },
+  completada: {},
+  cancelada: {},
+  no_asistio: {},
+};
+
+export const isFinalStatus = (status: AppointmentStatus): boolean =>
+  Object.keys(TRANSITIONS[status]).length === 0;
+
+export const getAllowedTransitions = (from: AppointmentStatus, role: string): AppointmentStatus[] =>
+  (Object.keys(TRANSITIONS[from]) as AppointmentStatus[]).filter((to) =>
+    TRANSITIONS[from][to]!.includes(role)
+  );
+
+export const canTransition = (from: AppointmentStatus, to: AppointmentStatus, role: string): boolean =>
+  getAllowedTransitions(from, role).includes(to);
+
+// Aplica el cambio de estado y lo registra en el historial de la cita.
+// Devuelve false (sin modificar la cita) si la transición no está permitida.
+export const applyStatusTransition = (
+  appointment: IAppointment,
+  to: AppointmentStatus,
+  actor: StatusActor,
+  reason?: string
+): boolean => {
+  const from = appointment.status;
+  if (!canTransition(from, to, actor.role)) {
+    return false;
+  }
+
+  appointment.status = to;
+  appointment.statusHistory.push({
+    from,
+    to,
+    changedBy: new mongoose.Types.ObjectId(actor.id),
+    role: actor.role,
+    reason,
+    changedAt: new Date(),
+  });
+  return true;
+};
+
+// Historial inicial de una cita recién creada
+export const initialStatusHistory = (actor: StatusActor): IStatusChange[] => [{
+  to: 'pendiente',
+  changedBy: new mongoose.Types.ObjectId(actor.id),
+  role: actor.role,
+  changedAt: new Date(),
+}];
+
+export const invalidTransitionResponse = (appointment: IAppointment, to: AppointmentStatus, role: string) => ({
+  message: `No se puede cambiar el estado de la cita de '${appointment.status}' a '${to}'`,
+  currentStatus: appointment.status,
+  requestedStatus: to,
+  allowedTransitions: getAllowedTransitions(appointment.status, role),
+});
@@ -0,0 +1,77 @@
+import crypto from 'crypto';
+import { IAttachment, IMedicalRecord } from '../models/MedicalRecord';
+import { addAttachment } from './medicalRecordVersions';
+import { getStorage } from './storage/backends';
+
+type Id = string | IMedicalRecord['_id'];
+
+// Tipos de fichero admitidos y tamaño máximo de cada adjunto
+export const ATTACHMENT_CONTENT_TYPES = (process.env.ATTACHMENT_CONTENT_TYPES || 'application/pdf,image/jpeg,image/png')
+  .split(',')
+  .map((type) => type.trim())
+  .filter(Boolean);
+
+// Por defecto queda por debajo del límite de 4,5 MB que Vercel impone al cuerpo de la petición
+export const ATTACHMENT_MAX_BYTES = Number(process.env.ATTACHMENT_MAX_BYTES) || 4 * 1024 * 1024;
+
+// Firmas (magic numbers) de los tipos conocidos, para no fiarse solo del Content-Type
+// declarado por el cliente
+const SIGNATURES: Record<string, Buffer> = {
+  'application/pdf': Buffer.from('%PDF-', 'latin1'),
+  'image/png': Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  'image/jpeg': Buffer.from([0xff, 0xd8, 0xff]),
+};
+
+export interface UploadedFile {
+  originalname: string;
+  mimetype: string;
+  buffer: Buffer;
+  size: number;
+}
+
+export interface AttachmentDetails {
+  type: IAttachment['type'];
+  description?: string;
+  reason?: string;
+}
+
+export class AttachmentRejectedError extends Error {}
+
+// Comprueba que el contenido corresponde al tipo declarado y que este está permitido
+export const checkContentType = (file: Pick<UploadedFile, 'mimetype' | 'buffer'>): void => {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.mimetype)) {
+    throw new AttachmentRejectedError(`Tipo de fichero no permitido: ${file.mimetype}`);
+  }
+  const signature = SIGNATURES[file.mimetype];
+  if (signature && !file.buffer.subarray(0, signature.length).equals(signature)) {
+    throw new AttachmentRejectedError('El contenido del fichero no corresponde a su tipo');
+  }
+};
+
+export const sha256 = (buffer: Buffer): string => crypto.createHash('sha256').update(buffer).digest('hex');
+
+// Guarda el fichero y lo añade al registro como una nueva versión
+export const storeAttachment = async (
+  record: IMedicalRecord,
+  file: UploadedFile,
+  details: AttachmentDetails,
+  author: Id
+): Promise<IAttachment> => {
+  checkContentType(file);
+
+  // La clave no incluye el nombre original, que solo se guarda como metadato
+  const storageKey = `medical-records/${record.id}/${crypto.randomUUID()}`;
+  await getStorage().put(storageKey, file.buffer, { contentType: file.mimetype });
+
+  return addAttachment(record, {
+    type: details.type,
+    name: file.originalname,
+    description: details.description,
+    storageKey,
+    contentType: file.mimetype,
+    size: file.size,
+    checksum: sha256(file.buffer),
+    uploadedBy: author as IAttachment['uploadedBy'],
+    uploadedAt: new Date(),
+  }, author, details.reason);
+};
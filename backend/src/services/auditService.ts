@@ -0,0 +1,41 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuditLog, { AuditAction, AuditOutcome } from '../models/AuditLog';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface AuditEntry {
+  action: AuditAction;
+  resourceType: string;
+  resource?: Id;
+  patients?: Id[];
+  outcome: AuditOutcome;
+  details?: Record<string, unknown>;
+}
+
+// Identificador de una referencia, esté o no poblada
+export const refId = (value: any): string => String(value?._id ?? value);
+
+// Registra el acceso de la petición actual. Nunca lanza: un fallo al auditar
+// se registra en el log del servidor sin interrumpir la respuesta.
+export const recordAudit = async (req: Request, entry: AuditEntry): Promise<void> => {
+  try {
+    if (!req.user) return;
+    const patients = [...new Set((entry.patients || []).map(refId))];
+
+    await AuditLog.create({
+      actor: req.user.id,
+      actorRole: req.user.role,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resource: entry.resource && mongoose.isValidObjectId(entry.resource) ? entry.resource : undefined,
+      patients,
+      outcome: entry.outcome,
+      ip: req.ip,
+      userAgent: req.get('User-Agent'),
+      details: entry.details,
+    });
+  } catch (error) {
+    console.error('Error al registrar auditoría:', error);
+  }
+};
@@ -0,0 +1,37 @@
+import mongoose from 'mongoose';
+import AuthToken, { AuthTokenPurpose } from '../models/AuthToken';
+import { generateToken, hashToken } from '../utils/tokens';
+
+// Vigencia de cada tipo de token, en minutos
+const TOKEN_TTL_MINUTES: Record<AuthTokenPurpose, number> = {
+  restablecer_contrasena: Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 60,
+  verificar_email: Number(process.env.EMAIL_VERIFICATION_TTL_MINUTES) || 48 * 60,
+};
+
+// Emite un token nuevo e invalida los anteriores del mismo tipo que sigan sin usar
+export const issueAuthToken = async (
+  userId: mongoose.Types.ObjectId,
+  purpose: AuthTokenPurpose
+): Promise<{ token: string; expiresAt: Date }> => {
+  const now = new Date();
+  await AuthToken.updateMany({ user: userId, purpose, usedAt: { $exists: false } }, { usedAt: now });
+
+  const token = generateToken();
+  const expiresAt = new Date(now.getTime() + TOKEN_TTL_MINUTES[purpose] * 60 * 1000);
+  await AuthToken.create({ user: userId, purpose, tokenHash: hashToken(token), expiresAt });
+  return { token, expiresAt };
+};
+
+// Marca el token como usado de forma atómica, de modo que solo una petición puede
+// canjearlo. Devuelve el usuario al que pertenece o null si no es válido.
+export const consumeAuthToken = async (
+  token: string,
+  purpose: AuthTokenPurpose
+): Promise<mongoose.Types.ObjectId | null> => {
+  const now = new Date();
+  const authToken = await AuthToken.findOneAndUpdate(
+    { tokenHash: hashToken(token), purpose, usedAt: { $exists: false }, expiresAt: { $gt: now } },
+    { usedAt: now }
+  );
+  return authToken ? authToken.user : null;
+};
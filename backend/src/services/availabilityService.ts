@@ -0,0 +1,265 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { MongoError } from 'mongodb';
+import Appointment from '../models/Appointment';
+import BookingLock from '../models/BookingLock';
+import SlotOffer from '../models/SlotOffer';
+import { IUser } from '../models/User';
+import {
+  addDays,
+  dayName,
+  formatDate,
+  fromInstant,
+  fromMinutes,
+  rangesOverlap,
+  startOfDay,
+  toInstant,
+  toMinutes,
+} from '../utils/time';
+
+export type ScheduleBlock = NonNullable<IUser['schedule']>[number];
+
+export interface BusyInterval {
+  date: Date;
+  startTime: string;
+  endTime: string;
+}
+
+export interface TimeSlot {
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+export interface SlotReservation<T> {
+  result?: T;
+  conflict?: string;
+}
+
+type ObjectIdLike = mongoose.Types.ObjectId | string;
+
+// Citas u ofertas que no deben contar como ocupadas (p. ej. la propia cita al reprogramarla)
+export interface BusyExclusions {
+  appointment?: ObjectIdLike;
+  offer?: ObjectIdLike;
+}
+
+const SLOT_TAKEN = 'El doctor ya tiene una cita programada en ese horario';
+
+const LOCK_TTL_MS = 10 * 1000;
+const LOCK_RETRIES = 20;
+const LOCK_RETRY_DELAY_MS = 100;
+
+export class BookingLockTimeoutError extends Error {
+  constructor() {
+    super('La agenda del doctor está siendo modificada, intente nuevamente');
+    this.name = 'BookingLockTimeoutError';
+  }
+}
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Indica si el intervalo cae completamente dentro de algún bloque de la agenda del doctor
+export const isWithinSchedule = (
+  schedule: ScheduleBlock[],
+  date: Date,
+  startTime: string,
+  endTime: string
+): boolean => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+  return schedule.some(
+    (block) =>
+      block.day === dayName(date) &&
+      toMinutes(block.startTime) <= start &&
+      end <= toMinutes(block.endTime)
+  );
+};
+
+// Expande la agenda semanal en huecos de `duration` minutos y descarta los que
+// se solapan con algún intervalo ocupado. Se omiten los huecos que empiezan antes
+// de `now`, tomando la hora local de la clínica.
+export const computeFreeSlots = (
+  schedule: ScheduleBlock[],
+  busy: BusyInterval[],
+  from: Date,
+  to: Date,
+  duration: number,
+  now: Date = new Date()
+): TimeSlot[] => {
+  const slots: TimeSlot[] = [];
+  const today = fromInstant(now).date;
+  const last = startOfDay(to);
+
+  for (let day = startOfDay(from); day <= last; day = addDays(day, 1)) {
+    if (day < today) continue;
+
+    const key = formatDate(day);
+    const dayBusy = busy
+      .filter((interval) => formatDate(startOfDay(interval.date)) === key)
+      .map((interval) => [toMinutes(interval.startTime), toMinutes(interval.endTime)]);
+
+    const blocks = schedule
+      .filter((block) => block.day === dayName(day))
+      .sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+
+    for (const block of blocks) {
+      const blockEnd = toMinutes(block.endTime);
+      for (let start = toMinutes(block.startTime); start + duration <= blockEnd; start += duration) {
+        const end = start + duration;
+        if (toInstant(day, fromMinutes(start)) <= now) {
+          continue;
+        }
+        if (dayBusy.some(([busyStart, busyEnd]) => rangesOverlap(start, end, busyStart, busyEnd))) {
+          continue;
+        }
+        slots.push({ date: key, startTime: fromMinutes(start), endTime: fromMinutes(end) });
+      }
+    }
+  }
+
+  return slots;
+};
+
+// Intervalos ocupados del doctor entre dos días (ambos inclusive): citas no
+// canceladas y huecos retenidos por ofertas vigentes de la lista de espera
+export const getBusyIntervals = async (
+  doctorId: ObjectIdLike,
+  from: Date,
+  to: Date,
+  exclude: BusyExclusions = {}
+): Promise<BusyInterval[]> => {
+  const date = { $gte: startOfDay(from), $lt: addDays(startOfDay(to), 1) };
+
+  const appointmentQuery: any = { doctor: doctorId, date, status: { $ne: 'cancelada' } };
+  if (exclude.appointment) {
+    appointmentQuery._id = { $ne: exclude.appointment };
+  }
+
+  const offerQuery: any = { doctor: doctorId, date, status: 'pendiente', expiresAt: { $gt: new Date() } };
+  if (exclude.offer) {
+    offerQuery._id = { $ne: exclude.offer };
+  }
+
+  const [appointments, offers] = await Promise.all([
+    Appointment.find(appointmentQuery).select('date startTime endTime'),
+    SlotOffer.find(offerQuery).select('date startTime endTime'),
+  ]);
+
+  return [...appointments, ...offers];
+};
+
+export const getAvailableSlots = async (
+  doctor: IUser,
+  from: Date,
+  to: Date,
+  duration: number
+): Promise<TimeSlot[]> => {
+  const busy = await getBusyIntervals(doctor._id, from, to);
+  return computeFreeSlots(doctor.schedule || [], busy, from, to, duration);
+};
+
+// Devuelve el motivo por el que el intervalo no se puede reservar, o null si está libre
+export const findSlotConflict = async (
+  doctor: IUser,
+  date: Date,
+  startTime: string,
+  endTime: string,
+  exclude: BusyExclusions = {}
+): Promise<string | null> => {
+  const start = toMinutes(startTime);
+  const end = toMinutes(endTime);
+
+  if (end <= start) {
+    return 'La hora de fin debe ser posterior a la hora de inicio';
+  }
+
+  if (!isWithinSchedule(doctor.schedule || [], date, startTime, endTime)) {
+    return 'El horario solicitado está fuera de la agenda del doctor';
+  }
+
+  const busy = await getBusyIntervals(doctor._id, date, date, exclude);
+  const overlaps = busy.some((interval) =>
+    rangesOverlap(start, end, toMinutes(interval.startTime), toMinutes(interval.endTime))
+  );
+  if (overlaps) {
+    return SLOT_TAKEN;
+  }
+
+  return null;
+};
+
+// Ejecuta `fn` con la agenda del doctor bloqueada para ese día. El bloqueo es un
+// documento con índice único, así que funciona entre instancias distintas.
+export const withBookingLock = async <T>(
+  doctorId: ObjectIdLike,
+  date: Date,
+  fn: () => Promise<T>
+): Promise<T> => {
+  const day = startOfDay(date);
+  const token = crypto.randomUUID();
+
+  let acquired = false;
+  for (let attempt = 0; attempt < LOCK_RETRIES && !acquired; attempt++) {
+    try {
+      const now = new Date();
+      await BookingLock.findOneAndUpdate(
+        { doctor: doctorId, date: day, expiresAt: { $lte: now } },
+        { $set: { token, expiresAt: new Date(now.getTime() + LOCK_TTL_MS) } },
+        { upsert: true }
+      );
+      acquired = true;
+    } catch (error) {
+      if (!(error instanceof MongoError && error.code === 11000)) {
+        throw error;
+      }
+      await sleep(LOCK_RETRY_DELAY_MS);
+    }
+  }
+
+  if (!acquired) {
+    throw new BookingLockTimeoutError();
+  }
+
+  // Mientras `fn` se ejecuta el bloqueo se renueva, para que no caduque a mitad de
+  // una operación lenta y otra petición entre en la misma agenda
+  const renewal = setInterval(() => {
+    BookingLock.updateOne(
+      { doctor: doctorId, date: day, token },
+      { $set: { expiresAt: new Date(Date.now() + LOCK_TTL_MS) } }
+    ).catch((error) => console.error('Error al renovar el bloqueo de la agenda:', error));
+  }, LOCK_TTL_MS / 2);
+
+  try {
+    return await fn();
+  } finally {
+    clearInterval(renewal);
+    await BookingLock.deleteOne({ doctor: doctorId, date: day, token });
+  }
+};
+
+// Comprueba y reserva el intervalo de forma atómica: `commit` solo se ejecuta
+// si el hueco sigue libre mientras se mantiene el bloqueo de la agenda.
+export const reserveSlot = async <T>(
+  doctor: IUser,
+  date: Date,
+  startTime: string,
+  endTime: string,
+  commit: () => Promise<T>,
+  exclude: BusyExclusions = {}
+): Promise<SlotReservation<T>> =>
+  withBookingLock(doctor._id, date, async () => {
+    const conflict = await findSlotConflict(doctor, startOfDay(date), startTime, endTime, exclude);
+    if (conflict) {
+      return { conflict };
+    }
+    try {
+      return { result: await commit() };
+    } catch (error) {
+      // El índice único de las citas es la última defensa si el bloqueo se perdió
+      if (error instanceof MongoError && error.code === 11000) {
+        return { conflict: SLOT_TAKEN };
+      }
+      throw error;
+    }
+  });
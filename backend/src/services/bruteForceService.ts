@@ -0,0 +1,169 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import AuthAttempt, { AttemptScope, IAuthAttempt } from '../models/AuthAttempt';
+import SecurityEvent from '../models/SecurityEvent';
+
+interface AttemptPolicy {
+  maxPerAccount: number;
+  maxPerIp: number;
+  // Los fallos más antiguos que la ventana dejan de contar
+  windowMinutes: number;
+  // Duración del primer bloqueo; los siguientes duran el doble cada vez
+  lockMinutes: number;
+}
+
+const POLICIES: Record<AttemptScope, AttemptPolicy> = {
+  login: { maxPerAccount: 5, maxPerIp: 20, windowMinutes: 15, lockMinutes: 15 },
+  segundo_factor: { maxPerAccount: 5, maxPerIp: 20, windowMinutes: 15, lockMinutes: 15 },
+  registro: { maxPerAccount: 5, maxPerIp: 10, windowMinutes: 60, lockMinutes: 60 },
+  recuperacion: { maxPerAccount: 5, maxPerIp: 20, windowMinutes: 60, lockMinutes: 60 },
+};
+
+const MAX_LOCK_MINUTES = 24 * 60;
+const DELAY_STEP_MS = 250;
+const MAX_DELAY_MS = 4000;
+// Tiempo que se conserva un contador sin actividad (y con él el historial de bloqueos)
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+
+export interface AttemptStatus {
+  failures: number;
+  lockedUntil?: Date;
+}
+
+export interface AttemptContext {
+  ip?: string;
+  userAgent?: string;
+}
+
+export interface BruteForceState {
+  scope: AttemptScope;
+  keys: string[];
+}
+
+const isIpKey = (key: string): boolean => key.startsWith('ip:');
+
+export const accountKey = (account: string): string => `cuenta:${account.trim().toLowerCase()}`;
+
+export const attemptKeys = (ip?: string, account?: string): string[] => {
+  const keys: string[] = [];
+  if (account) keys.push(accountKey(account));
+  if (ip) keys.push(`ip:${ip}`);
+  return keys;
+};
+
+// Espera que se impone antes de procesar la petición: crece con cada fallo hasta 4 segundos
+export const progressiveDelay = (failures: number): number =>
+  failures > 0 ? Math.min(DELAY_STEP_MS * 2 ** (failures - 1), MAX_DELAY_MS) : 0;
+
+export const lockDuration = (scope: AttemptScope, lockCount: number): number =>
+  Math.min(POLICIES[scope].lockMinutes * 2 ** lockCount, MAX_LOCK_MINUTES);
+
+// Estado combinado de todas las claves: el bloqueo más largo y el mayor número de fallos recientes
+export const getAttemptStatus = async (scope: AttemptScope, keys: string[]): Promise<AttemptStatus> => {
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - POLICIES[scope].windowMinutes * 60 * 1000);
+  const attempts = await AuthAttempt.find({ scope, key: { $in: keys } });
+
+  const status: AttemptStatus = { failures: 0 };
+  for (const attempt of attempts) {
+    if (attempt.lockedUntil && attempt.lockedUntil > now && (!status.lockedUntil || attempt.lockedUntil > status.lockedUntil)) {
+      status.lockedUntil = attempt.lockedUntil;
+    }
+    if (attempt.lastFailureAt >= windowStart) {
+      status.failures = Math.max(status.failures, attempt.failures);
+    }
+  }
+  return status;
+};
+
+const registerFailure = async (
+  scope: AttemptScope,
+  key: string,
+  context: AttemptContext
+): Promise<Date | undefined> => {
+  const policy = POLICIES[scope];
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - policy.windowMinutes * 60 * 1000);
+
+  await AuthAttempt.updateOne({ scope, key, lastFailureAt: { $lt: windowStart } }, { failures: 0 });
+  const attempt = await AuthAttempt.findOneAndUpdate(
+    { scope, key },
+    { $inc: { failures: 1 }, $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + RETENTION_MS) } },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  const maxFailures = isIpKey(key) ? policy.maxPerIp : policy.maxPerAccount;
+  if (attempt.failures < maxFailures) return undefined;
+
+  const lockMinutes = lockDuration(scope, attempt.lockCount);
+  const lockedUntil = new Date(now.getTime() + lockMinutes * 60 * 1000);
+
+  // Condicional para que, con peticiones simultáneas, solo una aplique el bloqueo y lo registre
+  const locked = await AuthAttempt.findOneAndUpdate(
+    { _id: attempt._id, failures: { $gte: maxFailures } },
+    {
+      $set: { failures: 0, lockedUntil, expiresAt: new Date(lockedUntil.getTime() + RETENTION_MS) },
+      $inc: { lockCount: 1 },
+    }
+  );
+  if (!locked) return undefined;
+
+  await SecurityEvent.create({
+    type: 'bloqueo',
+    scope,
+    key,
+    ip: context.ip,
+    userAgent: context.userAgent,
+    details: { failures: attempt.failures, lockMinutes, lockedUntil },
+  });
+  return lockedUntil;
+};
+
+export const recordFailures = async (
+  scope: AttemptScope,
+  keys: string[],
+  context: AttemptContext = {}
+): Promise<void> => {
+  for (const key of keys) {
+    await registerFailure(scope, key, context);
+  }
+};
+
+// Un acceso correcto reinicia el contador de la cuenta, pero no el de la IP:
+// de lo contrario bastaría con entrar en una cuenta propia para seguir probando otras
+export const clearFailures = async (scope: AttemptScope, keys: string[]): Promise<void> => {
+  const accountKeys = keys.filter((key) => !isIpKey(key));
+  if (!accountKeys.length) return;
+  await AuthAttempt.updateMany({ scope, key: { $in: accountKeys } }, { failures: 0 });
+};
+
+// Registra un intento con las claves que fijó el middleware (más la cuenta, si se conoce
+// en este punto). En los límites por volumen, como el registro, se cuenta cualquier intento.
+export const recordAttempt = async (req: Request, account?: string): Promise<void> => {
+  if (!req.bruteForce) return;
+  const keys = [...req.bruteForce.keys];
+  if (account && !keys.includes(accountKey(account))) {
+    keys.unshift(accountKey(account));
+  }
+  await recordFailures(req.bruteForce.scope, keys, { ip: req.ip, userAgent: req.get('User-Agent') });
+};
+
+export const clearAttempts = async (req: Request): Promise<void> => {
+  if (!req.bruteForce) return;
+  await clearFailures(req.bruteForce.scope, req.bruteForce.keys);
+};
+
+export const unlockAttempt = async (
+  attemptId: string | mongoose.Types.ObjectId,
+  actorId: string
+): Promise<IAuthAttempt | null> => {
+  const attempt = await AuthAttempt.findOneAndUpdate(
+    { _id: attemptId },
+    { $set: { failures: 0 }, $unset: { lockedUntil: 1 } },
+    { new: true }
+  );
+  if (!attempt) return null;
+
+  await SecurityEvent.create({ type: 'desbloqueo', scope: attempt.scope, key: attempt.key, actor: actorId });
+  return attempt;
+};
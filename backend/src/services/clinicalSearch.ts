@@ -0,0 +1,166 @@
+import { FilterQuery } from 'mongoose';
+import MedicalRecord, {
+  IMedicalRecord,
+  SearchableField,
+  searchableTexts,
+  searchTermIndex
+} from '../models/MedicalRecord';
+import { analyzeText, textTerms } from '../utils/text';
+
+// Búsqueda de texto en los registros clínicos. Los campos están cifrados, así que la
+// base de datos solo puede acotar los candidatos con el índice ciego de raíces
+// (searchTokens); la puntuación, los fragmentos y las facetas se calculan aquí sobre
+// el texto descifrado.
+
+// Registros que se descifran y puntúan como máximo; si hay más coincidencias se
+// ordenan solo los más recientes y la respuesta lo indica con `truncated`
+const MAX_SEARCH_CANDIDATES = Number(process.env.SEARCH_MAX_CANDIDATES) || 500;
+
+const SNIPPET_LENGTH = 160;
+// Contexto que se deja delante de la primera coincidencia de un fragmento
+const SNIPPET_LEAD = 40;
+const MAX_SNIPPETS = 3;
+
+const FIELD_WEIGHTS: Record<SearchableField, number> = {
+  diagnosis: 3,
+  symptoms: 2,
+  'treatment.medications.name': 2,
+  'treatment.recommendations': 1,
+  notes: 1,
+};
+
+export interface Highlight {
+  start: number;
+  end: number;
+}
+
+// Fragmento de un campo con las posiciones de los términos encontrados
+export interface SearchSnippet {
+  field: SearchableField;
+  text: string;
+  highlights: Highlight[];
+}
+
+export interface RecordMatch {
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface SearchResults {
+  results: (RecordMatch & { record: IMedicalRecord })[];
+  total: number;
+  truncated: boolean;
+  facets: {
+    type: FacetCount[];
+    month: FacetCount[];
+  };
+}
+
+// Recorta el texto alrededor de la primera coincidencia, sin partir palabras
+export const buildSnippet = (field: SearchableField, text: string, matches: Highlight[]): SearchSnippet => {
+  if (text.length <= SNIPPET_LENGTH) return { field, text, highlights: matches };
+
+  let start = Math.max(0, matches[0].start - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space === -1 || space > matches[0].start ? matches[0].start : space + 1;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > matches[0].end) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const shift = prefix.length - start;
+  return {
+    field,
+    text: `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`,
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start + shift, end: match.end + shift })),
+  };
+};
+
+// Puntuación de un registro para los términos buscados: cada aparición suma según el
+// peso del campo (con rendimiento decreciente) y se premia encontrar la frase completa.
+// Devuelve null si falta alguno de los términos.
+export const matchRecord = (record: IMedicalRecord, terms: string[]): RecordMatch | null => {
+  const found = new Set<string>();
+  let score = 0;
+  const snippets: (SearchSnippet & { weight: number })[] = [];
+
+  for (const { field, text } of searchableTexts(record)) {
+    const analyzed = analyzeText(text);
+    const matches = analyzed.filter(({ term }) => terms.includes(term));
+    if (!matches.length) continue;
+
+    const weight = FIELD_WEIGHTS[field];
+    for (const term of terms) {
+      const frequency = matches.filter((match) => match.term === term).length;
+      if (frequency) found.add(term);
+      score += weight * Math.log(1 + frequency);
+    }
+    const phrase = terms.length > 1 && analyzed.some((_, index) =>
+      terms.every((term, offset) => analyzed[index + offset]?.term === term));
+    if (phrase) score += weight;
+
+    snippets.push({ ...buildSnippet(field, text, matches.map(({ start, end }) => ({ start, end }))), weight });
+  }
+
+  if (found.size < terms.length) return null;
+  return {
+    score: Math.round(score * 1000) / 1000,
+    snippets: snippets
+      .sort((a, b) => b.weight - a.weight)
+      .slice(0, MAX_SNIPPETS)
+      .map(({ weight, ...snippet }) => snippet),
+  };
+};
+
+const countBy = (values: string[]): FacetCount[] => {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+  return [...counts].map(([value, count]) => ({ value, count }));
+};
+
+// Busca en los registros que cumplen `filter` (que debe incluir el filtro de acceso
+// del usuario). Las facetas por tipo y mes (UTC) cuentan todas las coincidencias.
+export const searchClinicalRecords = async (
+  text: string,
+  filter: FilterQuery<IMedicalRecord>,
+  { page, limit }: { page: number; limit: number }
+): Promise<SearchResults> => {
+  const terms = textTerms(text);
+  const query = { $and: [filter, { searchTokens: { $all: terms.map(searchTermIndex) } }] };
+
+  // Las facetas solo necesitan campos sin cifrar, así que se calculan sobre todas las coincidencias
+  const matches = await MedicalRecord.find(query).select('type date').sort({ date: -1 }).lean();
+  const candidates = await MedicalRecord.find({ _id: { $in: matches.slice(0, MAX_SEARCH_CANDIDATES).map(({ _id }) => _id) } })
+    .populate('patient', 'name documentId')
+    .populate('doctor', 'name specialty');
+
+  const ranked = candidates
+    .flatMap((record) => {
+      const match = matchRecord(record, terms);
+      return match ? [{ record: record as IMedicalRecord, ...match }] : [];
+    })
+    .sort((a, b) => b.score - a.score || b.record.date.getTime() - a.record.date.getTime());
+
+  return {
+    results: ranked.slice((page - 1) * limit, page * limit),
+    total: matches.length,
+    truncated: matches.length > MAX_SEARCH_CANDIDATES,
+    facets: {
+      type: countBy(matches.map(({ type }) => type))
+        .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value)),
+      month: countBy(matches.map(({ date }) => date.toISOString().slice(0, 7)))
+        .sort((a, b) => b.value.localeCompare(a.value)),
+    },
+  };
+};
@@ -0,0 +1,515 @@
+import { MongoError } from 'mongodb';
+import mongoose, { FilterQuery } from 'mongoose';
+import Appointment, { AppointmentStatus } from '../../models/Appointment';
+import ImportJob, { IImportIssue, IImportJob, ImportFormat, ImportOutcome } from '../../models/ImportJob';
+import MedicalRecord, { MEDICAL_RECORD_TYPES, MedicalRecordType } from '../../models/MedicalRecord';
+import User, { documentIdQuery } from '../../models/User';
+import { fromInstant } from '../../utils/time';
+import { generateToken } from '../../utils/tokens';
+import { getAccessiblePatients } from '../accessControl';
+import { findIcd10, ICD10_SYSTEM, MAX_DIAGNOSIS_CODES } from '../icd10';
+import { recordCreated } from '../medicalRecordVersions';
+import { DOCUMENT_ID_SYSTEM, VITAL_SIGN_CODES, VitalSignKey } from './resources';
+
+// Importación de historias clínicas desde un Bundle FHIR o un fichero NDJSON de
+// exportación masiva. Cada Encounter da lugar a un registro médico con sus Condition,
+// Observation y MedicationRequest; cada Appointment, a una cita. Los documentos creados
+// guardan el recurso de origen, de modo que reimportar el mismo fichero no los duplica.
+
+type FhirJson = Record<string, any>;
+
+type Id = mongoose.Types.ObjectId;
+
+export interface ImportEntry {
+  index: number;
+  resource: FhirJson;
+  fullUrl?: string;
+}
+
+export class ImportPayloadError extends Error {}
+
+// Tiempo durante el que un trabajo reclamado no se procesa desde otra instancia
+const LEASE_MS = 10 * 60 * 1000;
+
+const MISSING = 'No consta';
+
+const CHILD_TYPES = ['Condition', 'Observation', 'MedicationRequest'];
+
+const APPOINTMENT_STATUS_FROM_FHIR: Record<string, AppointmentStatus> = {
+  proposed: 'pendiente',
+  pending: 'pendiente',
+  booked: 'confirmada',
+  arrived: 'confirmada',
+  checkedin: 'confirmada',
+  fulfilled: 'completada',
+  cancelled: 'cancelada',
+  noshow: 'no_asistio',
+};
+
+const VITAL_SIGN_BY_LOINC = new Map(
+  (Object.entries(VITAL_SIGN_CODES) as [VitalSignKey, { code: string }][]).map(([key, entry]) => [entry.code, key])
+);
+
+const SYSTOLIC_LOINC = '8480-6';
+const DIASTOLIC_LOINC = '8462-4';
+
+export const parseImportPayload = (payload: string, format: ImportFormat): ImportEntry[] => {
+  if (format === 'bundle') {
+    let bundle: FhirJson;
+    try {
+      bundle = JSON.parse(payload);
+    } catch {
+      throw new ImportPayloadError('El contenido no es un JSON válido');
+    }
+    if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+      throw new ImportPayloadError('Se esperaba un recurso Bundle con entradas');
+    }
+    return bundle.entry.map((entry: FhirJson, index: number) => ({
+      index,
+      resource: entry?.resource,
+      fullUrl: entry?.fullUrl,
+    }));
+  }
+
+  const lines = payload.split(/\r?\n/).map((line, index) => ({ line: line.trim(), index })).filter(({ line }) => line);
+  if (!lines.length) throw new ImportPayloadError('El fichero NDJSON está vacío');
+  return lines.map(({ line, index }) => {
+    try {
+      return { index, resource: JSON.parse(line) };
+    } catch {
+      return { index, resource: undefined as unknown as FhirJson };
+    }
+  });
+};
+
+const codeText = (concept: FhirJson | undefined): string | undefined =>
+  concept?.text || concept?.coding?.find((coding: FhirJson) => coding.display)?.display || concept?.coding?.[0]?.code;
+
+// Códigos CIE-10 del catálogo presentes en los diagnósticos, sin repetir. El
+// primero se toma como principal.
+const diagnosisCodes = (concepts: (FhirJson | undefined)[]) => {
+  const codes = new Set<string>();
+  for (const concept of concepts) {
+    for (const coding of concept?.coding || []) {
+      const entry = coding.system === ICD10_SYSTEM && typeof coding.code === 'string' ? findIcd10(coding.code) : undefined;
+      if (entry) codes.add(entry.code);
+    }
+  }
+  return [...codes].slice(0, MAX_DIAGNOSIS_CODES).map((code, index) => ({ code, primary: index === 0 }));
+};
+
+const loincCodes = (concept: FhirJson | undefined): string[] =>
+  (concept?.coding || []).map((coding: FhirJson) => coding.code).filter(Boolean);
+
+const validDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Estado de un trabajo en curso: índice de referencias, pacientes resueltos y resultados
+class ImportRun {
+  private readonly byReference = new Map<string, ImportEntry>();
+  private readonly patients = new Map<string, Id | 'nuevo'>();
+  private readonly documentIds = new Map<string, Id | null>();
+  private accessiblePatients?: string[] | null;
+  readonly summary: IImportJob['summary'] = {};
+  readonly issues: IImportIssue[] = [];
+  readonly touchedPatients = new Set<string>();
+
+  constructor(private readonly job: IImportJob, private readonly entries: ImportEntry[]) {
+    for (const entry of entries) {
+      const { resource } = entry;
+      if (!resource?.resourceType) continue;
+      if (resource.id) this.byReference.set(`${resource.resourceType}/${resource.id}`, entry);
+      if (entry.fullUrl) this.byReference.set(entry.fullUrl, entry);
+    }
+  }
+
+  private count(resourceType: string, outcome: ImportOutcome): void {
+    const counts = (this.summary[resourceType] ||= {});
+    counts[outcome] = (counts[outcome] || 0) + 1;
+  }
+
+  private fail(entry: ImportEntry, message: string): void {
+    this.count(entry.resource?.resourceType || 'desconocido', 'error');
+    this.issues.push({
+      index: entry.index,
+      resourceType: entry.resource?.resourceType,
+      resourceId: entry.resource?.id,
+      message,
+    });
+  }
+
+  // Id estable del recurso en el sistema de origen, usado para la idempotencia
+  private sourceId(entry: ImportEntry): string | undefined {
+    const { resource } = entry;
+    if (resource.id) return `${resource.resourceType}/${resource.id}`;
+    return entry.fullUrl;
+  }
+
+  private importSource(entry: ImportEntry) {
+    return {
+      system: this.job.source,
+      resourceId: this.sourceId(entry)!,
+      importedAt: new Date(),
+      job: this.job._id,
+    };
+  }
+
+  private resolve(reference: FhirJson | undefined): ImportEntry | undefined {
+    return reference?.reference ? this.byReference.get(reference.reference) : undefined;
+  }
+
+  private async findByDocumentId(documentId: string): Promise<Id | null> {
+    if (!this.documentIds.has(documentId)) {
+      const user = await User.findOne({ ...documentIdQuery(documentId), role: 'patient' }).select('_id');
+      this.documentIds.set(documentId, user?._id ?? null);
+    }
+    return this.documentIds.get(documentId)!;
+  }
+
+  // Un paciente ya registrado solo recibe datos si quien importa tiene acceso a su
+  // historia: de lo contrario, el doctor pasaría a ser autor de sus registros y a verla
+  private async canUsePatient(patient: Id): Promise<boolean> {
+    if (this.touchedPatients.has(String(patient))) return true;
+    if (this.accessiblePatients === undefined) {
+      const creator = await User.findById(this.job.createdBy).select('role');
+      this.accessiblePatients = await getAccessiblePatients({
+        id: String(this.job.createdBy),
+        role: creator?.role || '',
+      });
+    }
+    return this.accessiblePatients === null || this.accessiblePatients.includes(String(patient));
+  }
+
+  // Paciente de una referencia: un Patient del propio fichero o un identificador de documento
+  private async resolvePatient(reference: FhirJson | undefined): Promise<Id | 'nuevo' | null> {
+    const target = this.resolve(reference);
+    if (target?.resource.resourceType === 'Patient') {
+      return this.patients.get(this.sourceId(target)!) ?? null;
+    }
+    const documentId = reference?.identifier?.value;
+    const existing = documentId ? await this.findByDocumentId(String(documentId)) : null;
+    return existing && (await this.canUsePatient(existing)) ? existing : null;
+  }
+
+  private documentIdOf(resource: FhirJson): string | undefined {
+    const identifiers: FhirJson[] = resource.identifier || [];
+    const identifier = identifiers.find((item) => item.system === DOCUMENT_ID_SYSTEM) || identifiers[0];
+    return identifier?.value ? String(identifier.value) : undefined;
+  }
+
+  private async importPatient(entry: ImportEntry): Promise<void> {
+    const { resource } = entry;
+    const documentId = this.documentIdOf(resource);
+    if (!documentId) return this.fail(entry, 'El paciente no tiene identificador de documento');
+
+    const existing = await this.findByDocumentId(documentId);
+    if (existing) {
+      if (!(await this.canUsePatient(existing))) {
+        return this.fail(entry, 'El paciente ya está registrado y quien importa no tiene acceso a su historia');
+      }
+      this.patients.set(this.sourceId(entry)!, existing);
+      this.touchedPatients.add(String(existing));
+      return this.count('Patient', 'existente');
+    }
+
+    const name = resource.name?.[0]?.text ||
+      [...(resource.name?.[0]?.given || []), resource.name?.[0]?.family].filter(Boolean).join(' ');
+    const email = resource.telecom?.find((item: FhirJson) => item.system === 'email')?.value;
+    const birthDate = validDate(resource.birthDate);
+    if (!name) return this.fail(entry, 'El paciente no tiene nombre');
+    if (!email) return this.fail(entry, 'El paciente no tiene email');
+    if (!birthDate) return this.fail(entry, 'El paciente no tiene una fecha de nacimiento válida');
+
+    if (this.job.dryRun) {
+      this.patients.set(this.sourceId(entry)!, 'nuevo');
+      return this.count('Patient', 'creado');
+    }
+
+    // La contraseña es aleatoria: el paciente accede mediante la recuperación de contraseña
+    const patient = await User.create({
+      name,
+      email,
+      password: generateToken(),
+      role: 'patient',
+      documentId,
+      birthDate,
+      phone: resource.telecom?.find((item: FhirJson) => item.system === 'phone')?.value || MISSING,
+      address: resource.address?.[0]?.text || resource.address?.[0]?.line?.join(', ') || MISSING,
+    });
+    this.documentIds.set(documentId, patient._id);
+    this.patients.set(this.sourceId(entry)!, patient._id);
+    this.touchedPatients.add(patient.id);
+    this.count('Patient', 'creado');
+  }
+
+  private vitalSigns(observations: ImportEntry[]): FhirJson {
+    const vitalSigns: FhirJson = {};
+    for (const entry of observations) {
+      const { resource } = entry;
+      const key = loincCodes(resource.code).map((code) => VITAL_SIGN_BY_LOINC.get(code)).find(Boolean);
+      if (key === 'bloodPressure') {
+        const component = (code: string) =>
+          resource.component?.find((item: FhirJson) => loincCodes(item.code).includes(code))?.valueQuantity?.value;
+        const systolic = component(SYSTOLIC_LOINC);
+        const diastolic = component(DIASTOLIC_LOINC);
+        if (typeof systolic !== 'number' || typeof diastolic !== 'number') {
+          this.fail(entry, 'La presión arterial no tiene valores sistólico y diastólico');
+          continue;
+        }
+        vitalSigns.bloodPressure = { systolic, diastolic };
+      } else if (key && typeof resource.valueQuantity?.value === 'number') {
+        vitalSigns[key] = resource.valueQuantity.value;
+      } else {
+        this.fail(entry, 'Observación sin código LOINC de signo vital conocido o sin valor numérico');
+        continue;
+      }
+      this.count('Observation', 'creado');
+    }
+    return vitalSigns;
+  }
+
+  private medications(requests: ImportEntry[], fallbackDate: Date): FhirJson[] {
+    const medications: FhirJson[] = [];
+    for (const entry of requests) {
+      const { resource } = entry;
+      const name = codeText(resource.medicationCodeableConcept);
+      if (!name) {
+        this.fail(entry, 'La prescripción no indica el medicamento');
+        continue;
+      }
+      const dosage = resource.dosageInstruction?.[0];
+      const supply = resource.dispenseRequest?.expectedSupplyDuration;
+      medications.push({
+        name,
+        dosage: dosage?.text || MISSING,
+        frequency: codeText(dosage?.timing?.code) || MISSING,
+        duration: supply?.value ? `${supply.value} ${supply.unit || ''}`.trim() : MISSING,
+        startDate: validDate(resource.authoredOn) || fallbackDate,
+      });
+      this.count('MedicationRequest', 'creado');
+    }
+    return medications;
+  }
+
+  private recordType(resource: FhirJson): MedicalRecordType {
+    const text = resource.type?.[0]?.text;
+    if ((MEDICAL_RECORD_TYPES as readonly string[]).includes(text)) return text as MedicalRecordType;
+    return resource.class?.code === 'EMER' ? 'emergencia' : 'consulta';
+  }
+
+  // Los recursos hijos se cuentan con el mismo resultado que su Encounter cuando este
+  // ya existe o no se llega a crear
+  private countChildren(children: ImportEntry[], outcome: ImportOutcome): void {
+    for (const child of children) this.count(child.resource.resourceType, outcome);
+  }
+
+  private async importEncounter(entry: ImportEntry, children: ImportEntry[]): Promise<void> {
+    const { resource } = entry;
+    const patient = await this.resolvePatient(resource.subject);
+    const date = validDate(resource.period?.start);
+    if (!patient) {
+      this.fail(entry, 'No se pudo identificar al paciente del encuentro o no hay acceso a su historia');
+      return children.forEach((child) => this.fail(child, 'Su Encounter no se pudo importar'));
+    }
+    if (!date) {
+      this.fail(entry, 'El encuentro no tiene fecha de inicio válida');
+      return children.forEach((child) => this.fail(child, 'Su Encounter no se pudo importar'));
+    }
+
+    if (patient !== 'nuevo') {
+      this.touchedPatients.add(String(patient));
+      const exists = await MedicalRecord.exists({
+        'importSource.system': this.job.source,
+        'importSource.resourceId': this.sourceId(entry),
+      });
+      if (exists) {
+        this.count('Encounter', 'existente');
+        return this.countChildren(children, 'existente');
+      }
+    }
+
+    const byType = (type: string) => children.filter((child) => child.resource.resourceType === type);
+    const diagnoses = byType('Condition').filter((child) => {
+      if (codeText(child.resource.code)) return true;
+      this.fail(child, 'El diagnóstico no tiene código ni descripción');
+      return false;
+    });
+    diagnoses.forEach(() => this.count('Condition', 'creado'));
+    const vitalSigns = this.vitalSigns(byType('Observation'));
+    const medications = this.medications(byType('MedicationRequest'), date);
+
+    if (this.job.dryRun) return this.count('Encounter', 'creado');
+
+    const record = await MedicalRecord.create({
+      patient,
+      doctor: this.job.doctor,
+      date,
+      type: this.recordType(resource),
+      symptoms: (resource.reasonCode || []).map(codeText).filter(Boolean),
+      diagnosis: diagnoses.map((child) => codeText(child.resource.code)).join('; ') || 'Sin diagnóstico en el origen',
+      diagnosisCodes: diagnosisCodes(diagnoses.map((child) => child.resource.code)),
+      treatment: { medications, recommendations: MISSING },
+      vitalSigns,
+      notes: `Importado de ${this.job.source}`,
+      importSource: this.importSource(entry),
+    });
+    await recordCreated(record, this.job.createdBy);
+    this.count('Encounter', 'creado');
+  }
+
+  private async importAppointment(entry: ImportEntry): Promise<void> {
+    const { resource } = entry;
+    const participant = (resource.participant || []).find((item: FhirJson) =>
+      item.actor?.reference?.startsWith('Patient/') ||
+      this.resolve(item.actor)?.resource.resourceType === 'Patient' ||
+      item.actor?.identifier
+    );
+    const patient = await this.resolvePatient(participant?.actor);
+    const start = validDate(resource.start);
+    const end = validDate(resource.end);
+    const status = APPOINTMENT_STATUS_FROM_FHIR[resource.status];
+
+    if (!patient) return this.fail(entry, 'No se pudo identificar al paciente de la cita o no hay acceso a su historia');
+    if (!start || !end || end <= start) return this.fail(entry, 'La cita no tiene un horario válido');
+    if (!status) return this.fail(entry, `Estado de cita no soportado: ${resource.status}`);
+
+    if (patient !== 'nuevo') {
+      this.touchedPatients.add(String(patient));
+      const exists = await Appointment.exists({
+        'importSource.system': this.job.source,
+        'importSource.resourceId': this.sourceId(entry),
+      });
+      if (exists) return this.count('Appointment', 'existente');
+    }
+    if (this.job.dryRun) return this.count('Appointment', 'creado');
+
+    const local = fromInstant(start);
+    const serviceType = resource.serviceType?.map(codeText).join(' ') || '';
+    try {
+      await Appointment.create({
+        patient,
+        doctor: this.job.doctor,
+        date: local.date,
+        startTime: local.time,
+        endTime: fromInstant(end).time,
+        type: /remot|virtual|tele/i.test(serviceType) ? 'remota' : 'presencial',
+        status,
+        reason: resource.description || codeText(resource.reasonCode?.[0]) || `Importada de ${this.job.source}`,
+        importSource: this.importSource(entry),
+      });
+    } catch (error) {
+      // El índice único de las citas impide dos citas vigentes del doctor a la misma hora
+      if (error instanceof MongoError && error.code === 11000) {
+        return this.fail(entry, 'El doctor ya tiene una cita vigente que empieza a esa hora');
+      }
+      throw error;
+    }
+    this.count('Appointment', 'creado');
+  }
+
+  async run(): Promise<void> {
+    const encounters: ImportEntry[] = [];
+    const children = new Map<ImportEntry, ImportEntry[]>();
+    const appointments: ImportEntry[] = [];
+    const patients: ImportEntry[] = [];
+
+    for (const entry of this.entries) {
+      const { resource } = entry;
+      if (!resource?.resourceType) {
+        this.fail(entry, 'La entrada no contiene un recurso FHIR válido');
+      } else if (!this.sourceId(entry)) {
+        this.fail(entry, 'El recurso no tiene id');
+      } else if (resource.resourceType === 'Patient') {
+        patients.push(entry);
+      } else if (resource.resourceType === 'Encounter') {
+        encounters.push(entry);
+      } else if (resource.resourceType === 'Appointment') {
+        appointments.push(entry);
+      } else if (CHILD_TYPES.includes(resource.resourceType)) {
+        const encounter = this.resolve(resource.encounter);
+        if (encounter?.resource.resourceType !== 'Encounter') {
+          this.fail(entry, 'El recurso no está asociado a ningún Encounter del fichero');
+        } else {
+          children.set(encounter, [...(children.get(encounter) || []), entry]);
+        }
+      } else {
+        this.count(resource.resourceType, 'ignorado');
+      }
+    }
+
+    // Primero los pacientes, para poder resolver las referencias del resto de recursos
+    for (const entry of patients) await this.guard(entry, () => this.importPatient(entry));
+    for (const entry of encounters) {
+      await this.guard(entry, () => this.importEncounter(entry, children.get(entry) || []));
+    }
+    for (const entry of appointments) await this.guard(entry, () => this.importAppointment(entry));
+  }
+
+  // Un error inesperado en un recurso se anota y no detiene el resto de la importación
+  private async guard(entry: ImportEntry, action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      this.fail(entry, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+const claimImportJob = (filter: FilterQuery<IImportJob>): Promise<IImportJob | null> => {
+  const now = new Date();
+  return ImportJob.findOneAndUpdate(
+    {
+      ...filter,
+      $or: [{ status: 'pendiente' }, { status: 'procesando', leaseUntil: { $lt: now } }],
+    },
+    { $set: { status: 'procesando', startedAt: now, leaseUntil: new Date(now.getTime() + LEASE_MS) } },
+    { sort: { createdAt: 1 }, new: true }
+  ).select<IImportJob>('+payload');
+};
+
+const processJob = async (job: IImportJob): Promise<void> => {
+  try {
+    const entries = parseImportPayload(job.payload || '', job.format);
+    const run = new ImportRun(job, entries);
+    await run.run();
+
+    job.summary = run.summary;
+    job.issues = run.issues;
+    job.patients = [...run.touchedPatients].map((id) => new mongoose.Types.ObjectId(id));
+    job.status = 'completado';
+  } catch (error) {
+    console.error('Error al procesar importación FHIR:', error);
+    job.status = 'fallido';
+    job.error = error instanceof Error ? error.message : String(error);
+  }
+
+  // El contenido importado no se conserva una vez procesado
+  job.payload = undefined;
+  job.leaseUntil = undefined;
+  job.finishedAt = new Date();
+  job.markModified('summary');
+  await job.save();
+};
+
+export const runImportJob = async (jobId: string | Id): Promise<void> => {
+  try {
+    const job = await claimImportJob({ _id: jobId });
+    if (job) await processJob(job);
+  } catch (error) {
+    console.error('Error al procesar importación FHIR:', error);
+  }
+};
+
+// Procesa los trabajos pendientes (o abandonados por otra instancia) de la cola
+export const processPendingImports = async (limit = 5): Promise<{ processed: number }> => {
+  let processed = 0;
+  for (; processed < limit; processed++) {
+    const job = await claimImportJob({});
+    if (!job) break;
+    await processJob(job);
+  }
+  return { processed };
+};
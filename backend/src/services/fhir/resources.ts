@@ -0,0 +1,310 @@
+import { AppointmentStatus, IAppointment } from '../../models/Appointment';
+import { IMedicalRecord } from '../../models/MedicalRecord';
+import { IDiagnosisCode } from '../../models/plugins/diagnosisCodes';
+import { IPrescription } from '../../models/Prescription';
+import { IUser } from '../../models/User';
+import { formatDate, toInstant } from '../../utils/time';
+import { EvaluatedMeasure, VitalSignFlag } from '../../utils/vitalSigns';
+import { refId } from '../auditService';
+import { ICD10_SYSTEM } from '../icd10';
+import { EffectiveStatus, effectiveStatus } from '../prescriptionService';
+
+// Conversión de los modelos de la aplicación a recursos HL7 FHIR R4.
+// Solo se usa para exportar: los recursos generados no se guardan.
+
+export interface FhirResource {
+  resourceType: string;
+  id: string;
+  [key: string]: unknown;
+}
+
+// Sistemas de identificadores propios de la clínica
+export const DOCUMENT_ID_SYSTEM = process.env.FHIR_DOCUMENT_ID_SYSTEM || 'urn:gestion-medica:documento';
+export const LICENSE_SYSTEM = process.env.FHIR_LICENSE_SYSTEM || 'urn:gestion-medica:matricula';
+export const PRESCRIPTION_CODE_SYSTEM = process.env.FHIR_PRESCRIPTION_CODE_SYSTEM || 'urn:gestion-medica:receta';
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const CONDITION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/condition-category';
+const CONDITION_VERIFICATION = 'http://terminology.hl7.org/CodeSystem/condition-ver-status';
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+
+const APPOINTMENT_STATUS_MAP: Record<AppointmentStatus, string> = {
+  pendiente: 'pending',
+  confirmada: 'booked',
+  completada: 'fulfilled',
+  cancelada: 'cancelled',
+  no_asistio: 'noshow',
+};
+
+const PRESCRIPTION_STATUS_MAP: Record<EffectiveStatus, string> = {
+  emitida: 'active',
+  dispensada_parcial: 'active',
+  dispensada: 'completed',
+  cancelada: 'cancelled',
+  vencida: 'stopped',
+};
+
+// Sufijos de los recursos que se derivan de un registro médico. El id del recurso
+// es el del registro seguido del sufijo, lo que permite recuperarlo por id.
+export const RECORD_RESOURCE_SUFFIX = {
+  condition: 'dx',
+  observation: 'vs',
+  medicationRequest: 'med',
+} as const;
+
+// Signos vitales con su código LOINC y unidad UCUM
+export const VITAL_SIGN_CODES = {
+  bloodPressure: { code: '85354-9', display: 'Blood pressure panel with all children optional', unit: 'mm[Hg]' },
+  heartRate: { code: '8867-4', display: 'Heart rate', unit: '/min' },
+  temperature: { code: '8310-5', display: 'Body temperature', unit: 'Cel' },
+  respiratoryRate: { code: '9279-1', display: 'Respiratory rate', unit: '/min' },
+  oxygenSaturation: { code: '2708-6', display: 'Oxygen saturation in Arterial blood', unit: '%' },
+} as const;
+
+export type VitalSignKey = keyof typeof VITAL_SIGN_CODES;
+
+const BLOOD_PRESSURE_COMPONENTS = {
+  systolic: { code: '8480-6', display: 'Systolic blood pressure' },
+  diastolic: { code: '8462-4', display: 'Diastolic blood pressure' },
+} as const;
+
+export const reference = (resourceType: string, id: unknown): { reference: string } => ({
+  reference: `${resourceType}/${refId(id)}`,
+});
+
+const loinc = (entry: { code: string; display: string }) => ({
+  coding: [{ system: LOINC, code: entry.code, display: entry.display }],
+  text: entry.display,
+});
+
+const quantity = (value: number, unit: string) => ({ value, unit, system: UCUM, code: unit });
+
+// Interpretación y rango de referencia de un valor a partir de su marca (si la tiene)
+const interpretation = (flags: VitalSignFlag[], measure: EvaluatedMeasure, unit: string) => {
+  const flag = flags.find((item) => item.measure === measure);
+  if (!flag) return { interpretation: [{ coding: [{ system: INTERPRETATION, code: 'N', display: 'Normal' }] }] };
+  const letter = flag.direction === 'alto' ? 'H' : 'L';
+  const code = flag.level === 'critico' ? `${letter}${letter}` : letter;
+  return {
+    interpretation: [{ coding: [{ system: INTERPRETATION, code }] }],
+    referenceRange: [{ low: quantity(flag.low, unit), high: quantity(flag.high, unit) }],
+  };
+};
+
+const meta = (updatedAt?: Date) => (updatedAt ? { meta: { lastUpdated: updatedAt.toISOString() } } : {});
+
+export const patientToFhir = (user: IUser): FhirResource => ({
+  resourceType: 'Patient',
+  id: user.id,
+  ...meta(user.updatedAt),
+  identifier: user.documentId ? [{ system: DOCUMENT_ID_SYSTEM, value: user.documentId }] : [],
+  active: user.active !== false,
+  name: [{ text: user.name }],
+  telecom: [
+    ...(user.phone ? [{ system: 'phone', value: user.phone }] : []),
+    ...(user.email ? [{ system: 'email', value: user.email }] : []),
+  ],
+  ...(user.birthDate ? { birthDate: formatDate(new Date(user.birthDate)) } : {}),
+  ...(user.address ? { address: [{ text: user.address }] } : {}),
+});
+
+export const practitionerToFhir = (user: IUser): FhirResource => ({
+  resourceType: 'Practitioner',
+  id: user.id,
+  ...meta(user.updatedAt),
+  identifier: user.licenseNumber ? [{ system: LICENSE_SYSTEM, value: user.licenseNumber }] : [],
+  active: user.active !== false,
+  name: [{ text: user.name }],
+  ...(user.specialty ? { qualification: [{ code: { text: user.specialty } }] } : {}),
+});
+
+export const appointmentToFhir = (appointment: IAppointment): FhirResource => ({
+  resourceType: 'Appointment',
+  id: appointment.id,
+  ...meta(appointment.updatedAt),
+  status: APPOINTMENT_STATUS_MAP[appointment.status],
+  serviceType: [{ text: appointment.type === 'remota' ? 'Consulta remota' : 'Consulta presencial' }],
+  ...(appointment.reason ? { description: appointment.reason } : {}),
+  start: toInstant(appointment.date, appointment.startTime).toISOString(),
+  end: toInstant(appointment.date, appointment.endTime).toISOString(),
+  participant: [
+    { actor: reference('Patient', appointment.patient), status: 'accepted' },
+    { actor: reference('Practitioner', appointment.doctor), status: 'accepted' },
+  ],
+});
+
+// Diagnóstico principal (con el texto libre del registro) seguido de los secundarios
+// codificados. Las Condition secundarias llevan además su código en el id.
+const recordDiagnoses = (record: IMedicalRecord) => {
+  const primary = record.diagnosisCodes?.find((item) => item.primary);
+  const secondary = (record.diagnosisCodes || []).filter((item) => !item.primary);
+  const conditionId = (item?: IDiagnosisCode) =>
+    `${record.id}-${RECORD_RESOURCE_SUFFIX.condition}${item ? `-${item.code}` : ''}`;
+
+  return [
+    ...(record.diagnosis || primary ? [{ id: conditionId(), coded: primary, text: record.diagnosis || primary!.display }] : []),
+    ...secondary.map((item) => ({ id: conditionId(item), coded: item, text: item.display })),
+  ];
+};
+
+const icd10Coding = (item: IDiagnosisCode) => ({ system: ICD10_SYSTEM, code: item.code, display: item.display });
+
+export const encounterToFhir = (record: IMedicalRecord): FhirResource => {
+  const diagnoses = recordDiagnoses(record);
+  return {
+    resourceType: 'Encounter',
+    id: record.id,
+    ...meta(record.updatedAt),
+    status: 'finished',
+    class: record.type === 'emergencia'
+      ? { system: ACT_CODE, code: 'EMER', display: 'emergency' }
+      : { system: ACT_CODE, code: 'AMB', display: 'ambulatory' },
+    type: [{ text: record.type }],
+    subject: reference('Patient', record.patient),
+    participant: [{ individual: reference('Practitioner', record.doctor) }],
+    period: { start: record.date.toISOString() },
+    ...(record.symptoms?.length ? { reasonCode: record.symptoms.map((symptom) => ({ text: symptom })) } : {}),
+    ...(diagnoses.length
+      ? { diagnosis: diagnoses.map((diagnosis, index) => ({ condition: reference('Condition', diagnosis.id), rank: index + 1 })) }
+      : {}),
+  };
+};
+
+export const conditionsToFhir = (record: IMedicalRecord): FhirResource[] =>
+  recordDiagnoses(record).map((diagnosis) => ({
+    resourceType: 'Condition',
+    id: diagnosis.id,
+    ...meta(record.updatedAt),
+    verificationStatus: { coding: [{ system: CONDITION_VERIFICATION, code: 'confirmed' }] },
+    category: [{ coding: [{ system: CONDITION_CATEGORY, code: 'encounter-diagnosis' }] }],
+    code: { ...(diagnosis.coded ? { coding: [icd10Coding(diagnosis.coded)] } : {}), text: diagnosis.text },
+    subject: reference('Patient', record.patient),
+    encounter: reference('Encounter', record.id),
+    recordedDate: record.date.toISOString(),
+    recorder: reference('Practitioner', record.doctor),
+  }));
+
+// Una Observation por cada signo vital registrado, con su interpretación cuando el registro
+// tiene las marcas calculadas. Las de un registro sin firmar se exportan como preliminares.
+export const observationsToFhir = (record: IMedicalRecord): FhirResource[] => {
+  const vitalSigns = record.vitalSigns || {};
+  const flags = record.vitalSignFlags;
+  const interpret = (measure: EvaluatedMeasure, unit: string) => (flags ? interpretation(flags, measure, unit) : {});
+  const base = (key: VitalSignKey) => ({
+    resourceType: 'Observation',
+    id: `${record.id}-${RECORD_RESOURCE_SUFFIX.observation}-${key}`,
+    ...meta(record.updatedAt),
+    status: record.status === 'firmado' ? 'final' : 'preliminary',
+    category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'vital-signs', display: 'Vital Signs' }] }],
+    code: loinc(VITAL_SIGN_CODES[key]),
+    subject: reference('Patient', record.patient),
+    encounter: reference('Encounter', record.id),
+    effectiveDateTime: record.date.toISOString(),
+    performer: [reference('Practitioner', record.doctor)],
+  });
+
+  const observations: FhirResource[] = [];
+  const pressure = vitalSigns.bloodPressure;
+  if (pressure?.systolic != null && pressure?.diastolic != null) {
+    observations.push({
+      ...base('bloodPressure'),
+      component: (['systolic', 'diastolic'] as const).map((part) => ({
+        code: loinc(BLOOD_PRESSURE_COMPONENTS[part]),
+        valueQuantity: quantity(pressure[part], VITAL_SIGN_CODES.bloodPressure.unit),
+        ...interpret(part, VITAL_SIGN_CODES.bloodPressure.unit),
+      })),
+    });
+  }
+  for (const key of ['heartRate', 'temperature', 'respiratoryRate', 'oxygenSaturation'] as const) {
+    const value = vitalSigns[key];
+    if (value == null) continue;
+    observations.push({
+      ...base(key),
+      valueQuantity: quantity(value, VITAL_SIGN_CODES[key].unit),
+      ...interpret(key, VITAL_SIGN_CODES[key].unit),
+    });
+  }
+  return observations;
+};
+
+interface PrescribedMedication {
+  name: string;
+  dosage: string;
+  frequency: string;
+  duration: string;
+  endDate?: Date;
+}
+
+const medicationRequest = (
+  id: string,
+  medication: PrescribedMedication,
+  context: { patient: unknown; doctor: unknown; authoredOn: Date; status: string; note?: string }
+): FhirResource => ({
+  resourceType: 'MedicationRequest',
+  id,
+  status: context.status,
+  intent: 'order',
+  medicationCodeableConcept: { text: medication.name },
+  subject: reference('Patient', context.patient),
+  requester: reference('Practitioner', context.doctor),
+  authoredOn: context.authoredOn.toISOString(),
+  dosageInstruction: [
+    { text: [medication.dosage, medication.frequency, medication.duration && `durante ${medication.duration}`].filter(Boolean).join(', ') },
+  ],
+  ...(context.note ? { note: [{ text: context.note }] } : {}),
+});
+
+export const recordMedicationRequests = (record: IMedicalRecord): FhirResource[] =>
+  (record.treatment?.medications || []).map((medication, index) => ({
+    ...medicationRequest(`${record.id}-${RECORD_RESOURCE_SUFFIX.medicationRequest}-${index}`, medication, {
+      patient: record.patient,
+      doctor: record.doctor,
+      authoredOn: record.date,
+      status: !medication.endDate || medication.endDate >= new Date() ? 'active' : 'completed',
+    }),
+    encounter: reference('Encounter', record.id),
+  }));
+
+export const appointmentMedicationRequests = (appointment: IAppointment): FhirResource[] =>
+  (appointment.prescription?.medications || []).map((medication, index) =>
+    medicationRequest(`${appointment.id}-${RECORD_RESOURCE_SUFFIX.medicationRequest}-${index}`, medication, {
+      patient: appointment.patient,
+      doctor: appointment.doctor,
+      authoredOn: appointment.date,
+      status: appointment.status === 'cancelada' ? 'cancelled' : 'active',
+      note: appointment.prescription?.instructions,
+    })
+  );
+
+// Cada medicamento de una receta electrónica es un MedicationRequest; el código de
+// verificación los agrupa y la vigencia de la receta es la de la dispensación
+export const prescriptionMedicationRequests = (prescription: IPrescription): FhirResource[] =>
+  prescription.medications.map((medication, index) => ({
+    ...medicationRequest(`${prescription.id}-${RECORD_RESOURCE_SUFFIX.medicationRequest}-${index}`, medication, {
+      patient: prescription.patient,
+      doctor: prescription.doctor,
+      authoredOn: prescription.issuedAt,
+      status: PRESCRIPTION_STATUS_MAP[effectiveStatus(prescription)],
+      // La cantidad es texto libre ("2 cajas"), así que va en la nota y no como Quantity
+      note: [medication.quantity && `Cantidad: ${medication.quantity}`, medication.instructions, prescription.instructions]
+        .filter(Boolean)
+        .join('. ') || undefined,
+    }),
+    groupIdentifier: { system: PRESCRIPTION_CODE_SYSTEM, value: prescription.verificationCode },
+    ...(prescription.cancellationReason ? { statusReason: { text: prescription.cancellationReason } } : {}),
+    dispenseRequest: {
+      validityPeriod: { start: prescription.issuedAt.toISOString(), end: prescription.validUntil.toISOString() },
+    },
+    ...(prescription.medicalRecord ? { encounter: reference('Encounter', prescription.medicalRecord) } : {}),
+  }));
+
+// Todos los recursos clínicos que se derivan de un registro médico
+export const recordToFhir = (record: IMedicalRecord): FhirResource[] => [
+  encounterToFhir(record),
+  ...conditionsToFhir(record),
+  ...observationsToFhir(record),
+  ...recordMedicationRequests(record),
+];
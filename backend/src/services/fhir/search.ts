@@ -0,0 +1,90 @@
+import { Request } from 'express';
+import mongoose from 'mongoose';
+import { FhirResource } from './resources';
+
+// Parámetros de búsqueda FHIR comunes y construcción de las respuestas Bundle
+
+export interface DateRange {
+  $gte?: Date;
+  $gt?: Date;
+  $lte?: Date;
+  $lt?: Date;
+}
+
+const DATE_PREFIXES = ['eq', 'ge', 'gt', 'le', 'lt'] as const;
+
+// Fecha con la precisión indicada (año, mes, día o instante) como intervalo [inicio, fin)
+const dateInterval = (value: string): [Date, Date] | null => {
+  const partial = value.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/);
+  if (partial) {
+    const [, year, month, day] = partial;
+    const start = new Date(Date.UTC(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1));
+    const end = day
+      ? new Date(Date.UTC(Number(year), Number(month) - 1, Number(day) + 1))
+      : month
+        ? new Date(Date.UTC(Number(year), Number(month), 1))
+        : new Date(Date.UTC(Number(year) + 1, 0, 1));
+    return [start, end];
+  }
+  const instant = new Date(value);
+  if (Number.isNaN(instant.getTime())) return null;
+  return [instant, new Date(instant.getTime() + 1)];
+};
+
+// Convierte uno o varios parámetros `date` (p. ej. date=ge2024-01-01&date=lt2024-07)
+// en una condición de MongoDB. Devuelve null si alguno no es válido.
+export const parseDateParams = (param: unknown): DateRange | null | undefined => {
+  if (param === undefined) return undefined;
+  const values = (Array.isArray(param) ? param : [param]).map(String);
+  const range: DateRange = {};
+
+  for (const raw of values) {
+    const prefix = DATE_PREFIXES.find((candidate) => raw.startsWith(candidate)) || 'eq';
+    const interval = dateInterval(raw.startsWith(prefix) ? raw.slice(prefix.length) : raw);
+    if (!interval) return null;
+    const [start, end] = interval;
+
+    if (prefix === 'eq' || prefix === 'ge') range.$gte = start;
+    if (prefix === 'eq') range.$lt = end;
+    if (prefix === 'gt') range.$gte = end;
+    if (prefix === 'lt') range.$lt = start;
+    if (prefix === 'le') range.$lt = end;
+  }
+  return range;
+};
+
+// Acepta tanto `Patient/<id>` como `<id>`. Devuelve null si no es un id válido.
+export const parseReferenceParam = (param: unknown, resourceType: string): string | null | undefined => {
+  if (param === undefined) return undefined;
+  const value = String(param).replace(new RegExp(`^${resourceType}/`), '');
+  return mongoose.isValidObjectId(value) ? value : null;
+};
+
+// Id de un recurso derivado (`<id del documento>-<sufijo>`) separado en sus partes
+export const splitResourceId = (id: string): { documentId: string; suffix: string } | null => {
+  const match = id.match(/^([a-f0-9]{24})(?:-(.+))?$/);
+  return match ? { documentId: match[1], suffix: match[2] || '' } : null;
+};
+
+export const fhirBaseUrl = (req: Request): string =>
+  process.env.FHIR_BASE_URL || `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+
+export const searchsetBundle = (req: Request, resources: FhirResource[]) => {
+  const base = fhirBaseUrl(req);
+  return {
+    resourceType: 'Bundle',
+    type: 'searchset',
+    total: resources.length,
+    link: [{ relation: 'self', url: `${base}${req.url}` }],
+    entry: resources.map((resource) => ({
+      fullUrl: `${base}/${resource.resourceType}/${resource.id}`,
+      resource,
+      search: { mode: 'match' },
+    })),
+  };
+};
+
+export const operationOutcome = (code: string, diagnostics: string) => ({
+  resourceType: 'OperationOutcome',
+  issue: [{ severity: 'error', code, diagnostics }],
+});
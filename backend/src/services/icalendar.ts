@@ -0,0 +1,109 @@
+import { AppointmentStatus, IAppointment } from '../models/Appointment';
+import { toInstant } from '../utils/time';
+
+// Generación de calendarios iCalendar (RFC 5545) a partir de las citas.
+// Las horas se emiten en UTC para no depender de definiciones VTIMEZONE.
+
+const PRODID = '-//Gestion Medica//Citas//ES';
+const UID_DOMAIN = process.env.CALENDAR_UID_DOMAIN || 'gestion-medica';
+
+const STATUS_MAP: Record<AppointmentStatus, string> = {
+  pendiente: 'TENTATIVE',
+  confirmada: 'CONFIRMED',
+  completada: 'CONFIRMED',
+  no_asistio: 'CONFIRMED',
+  cancelada: 'CANCELLED',
+};
+
+interface PopulatedParty {
+  name?: string;
+}
+
+export interface CalendarEventOptions {
+  // Nombre de la otra parte de la cita según quién consulta el calendario
+  counterpart?: string;
+  // Incluir el motivo de la cita (no se incluye en los feeds suscritos)
+  includeReason?: boolean;
+}
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Las líneas de más de 75 octetos se pliegan con CRLF seguido de un espacio
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (chunks.length ? 74 : 75)) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+};
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const eventUid = (appointment: IAppointment): string => `${appointment._id}@${UID_DOMAIN}`;
+
+export const counterpartName = (appointment: IAppointment, viewerId: string): string | undefined => {
+  const patient = appointment.patient as unknown as PopulatedParty & { _id: unknown };
+  const doctor = appointment.doctor as unknown as PopulatedParty & { _id: unknown };
+  return String(doctor._id) === viewerId ? patient.name : doctor.name;
+};
+
+export const appointmentToEvent = (appointment: IAppointment, options: CalendarEventOptions = {}): string[] => {
+  const start = toInstant(appointment.date, appointment.startTime);
+  const end = toInstant(appointment.date, appointment.endTime);
+  const isRemote = appointment.type === 'remota';
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${eventUid(appointment)}`,
+    `DTSTAMP:${formatUtc(appointment.updatedAt || new Date())}`,
+    `DTSTART:${formatUtc(start)}`,
+    `DTEND:${formatUtc(end)}`,
+    // Aumenta con cada modificación para que el cliente reemplace el evento existente
+    `SEQUENCE:${Math.floor((appointment.updatedAt || new Date()).getTime() / 1000)}`,
+    `STATUS:${STATUS_MAP[appointment.status]}`,
+    `SUMMARY:${escapeText(options.counterpart ? `Cita médica con ${options.counterpart}` : 'Cita médica')}`,
+  ];
+
+  const description = [isRemote ? 'Consulta remota' : 'Consulta presencial'];
+  if (options.includeReason && appointment.reason) {
+    description.push(`Motivo: ${appointment.reason}`);
+  }
+  lines.push(`DESCRIPTION:${escapeText(description.join('\n'))}`);
+
+  if (isRemote) {
+    lines.push(`LOCATION:${escapeText(appointment.meetingUrl || 'Consulta remota')}`);
+    if (appointment.meetingUrl) {
+      lines.push(`URL:${appointment.meetingUrl}`);
+    }
+  } else if (process.env.CLINIC_ADDRESS) {
+    lines.push(`LOCATION:${escapeText(process.env.CLINIC_ADDRESS)}`);
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+export const buildCalendar = (events: string[][], name?: string): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
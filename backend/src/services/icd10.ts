@@ -0,0 +1,100 @@
+import fs from 'fs';
+import bundledCatalog from '../data/icd10.json';
+import { foldText } from '../utils/text';
+
+// Catálogo CIE-10 (ICD-10) en español. Se incluye con la aplicación una selección de
+// los códigos más frecuentes en atención primaria; ICD10_CATALOG_PATH permite cargar
+// la clasificación completa desde un fichero JSON con el mismo formato.
+
+export const ICD10_SYSTEM = 'http://hl7.org/fhir/sid/icd-10';
+
+// Diagnósticos codificados que admite un registro o una cita (uno principal y el resto secundarios)
+export const MAX_DIAGNOSIS_CODES = 12;
+
+export interface Icd10Entry {
+  code: string;
+  description: string;
+}
+
+interface IndexedEntry extends Icd10Entry {
+  // Código sin punto, para buscar por prefijo ("J450")
+  compact: string;
+  words: string[];
+}
+
+let catalog: Map<string, IndexedEntry> | null = null;
+
+const compactCode = (code: string): string => code.toUpperCase().replace(/[\s.]/g, '');
+
+// Forma canónica de un código: mayúsculas y punto tras la categoría ("j450" -> "J45.0")
+export const normalizeIcd10Code = (code: string): string | null => {
+  const compact = compactCode(code);
+  if (!/^[A-Z][0-9]{2}[0-9A-Z]{0,4}$/.test(compact)) return null;
+  return compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+};
+
+const loadCatalog = (): Map<string, IndexedEntry> => {
+  if (!catalog) {
+    const entries: Icd10Entry[] = process.env.ICD10_CATALOG_PATH
+      ? JSON.parse(fs.readFileSync(process.env.ICD10_CATALOG_PATH, 'utf8'))
+      : bundledCatalog;
+    catalog = new Map();
+    for (const entry of entries) {
+      const code = normalizeIcd10Code(entry.code);
+      if (!code) continue;
+      catalog.set(code, { code, description: entry.description, compact: compactCode(code), words: foldText(entry.description).split(' ') });
+    }
+  }
+  return catalog;
+};
+
+export const findIcd10 = (code: string): Icd10Entry | undefined => {
+  const normalized = normalizeIcd10Code(code);
+  const entry = normalized ? loadCatalog().get(normalized) : undefined;
+  return entry && { code: entry.code, description: entry.description };
+};
+
+// Búsqueda por prefijo del código o de las palabras de la descripción, sin distinguir
+// tildes ni mayúsculas. Primero las coincidencias de código y después las de texto,
+// con preferencia por las descripciones que empiezan por el término buscado.
+export const searchIcd10 = (text: string, limit = 20): Icd10Entry[] => {
+  const code = compactCode(text);
+  const terms = foldText(text).split(' ').filter(Boolean);
+  if (!terms.length) return [];
+
+  const ranked: { entry: IndexedEntry; rank: number }[] = [];
+  for (const entry of loadCatalog().values()) {
+    let rank: number | undefined;
+    if (entry.compact === code) {
+      rank = 0;
+    } else if (/^[A-Z][0-9]/.test(code) && entry.compact.startsWith(code)) {
+      rank = 1;
+    } else if (terms.every((term) => entry.words.some((word) => word.startsWith(term)))) {
+      rank = entry.words[0].startsWith(terms[0]) ? 2 : 3;
+    }
+    if (rank !== undefined) ranked.push({ entry, rank });
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank || a.entry.code.localeCompare(b.entry.code))
+    .slice(0, limit)
+    .map(({ entry }) => ({ code: entry.code, description: entry.description }));
+};
+
+// Motivo por el que una lista de diagnósticos codificados no es válida, o null si lo es
+export const diagnosisCodesError = (value: unknown): string | null => {
+  if (!Array.isArray(value)) return 'Los diagnósticos codificados deben ser un array';
+  if (value.length > MAX_DIAGNOSIS_CODES) return `Como máximo ${MAX_DIAGNOSIS_CODES} diagnósticos codificados`;
+  if (!value.length) return null;
+
+  const codes = new Set<string>();
+  for (const item of value) {
+    const code = typeof item?.code === 'string' ? normalizeIcd10Code(item.code) : null;
+    if (!code || !findIcd10(code)) return `Código CIE-10 inexistente: ${item?.code}`;
+    if (codes.has(code)) return `Código CIE-10 repetido: ${code}`;
+    codes.add(code);
+  }
+
+  const primary = value.filter((item) => item.primary === true).length;
+  return primary === 1 ? null : 'Debe haber exactamente un diagnóstico principal';
+};
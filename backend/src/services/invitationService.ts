@@ -0,0 +1,119 @@
+import mongoose from 'mongoose';
+import Invitation, { IInvitation, InvitationStatus } from '../models/Invitation';
+import User, { IUser, UserRole } from '../models/User';
+import { generateToken, hashToken } from '../utils/tokens';
+import { cancelInvitationNotifications, notifyInvitation } from './notifications/notificationService';
+
+// Vigencia de una invitación, en días
+const INVITATION_TTL_DAYS = Number(process.env.INVITATION_TTL_DAYS) || 7;
+
+type Id = string | mongoose.Types.ObjectId;
+
+export interface InvitationData {
+  email: string;
+  role: UserRole;
+  name: string;
+  specialty?: string;
+  licenseNumber?: string;
+}
+
+// Datos que completa el invitado al crear su cuenta
+export interface AccountData {
+  password: string;
+  documentId: string;
+  birthDate: Date;
+  phone: string;
+  address: string;
+  name?: string;
+}
+
+export const invitationStatus = (invitation: IInvitation, now = new Date()): InvitationStatus => {
+  if (invitation.acceptedAt) return 'aceptada';
+  if (invitation.revokedAt) return 'revocada';
+  return invitation.expiresAt <= now ? 'vencida' : 'pendiente';
+};
+
+const pendingQuery = (now = new Date()) => ({
+  acceptedAt: { $exists: false },
+  revokedAt: { $exists: false },
+  expiresAt: { $gt: now },
+});
+
+// Renueva la vigencia de la invitación y la envía por correo. El hash se sustituye por
+// el de un token que nadie conoce, de modo que los enlaces ya enviados dejan de valer;
+// el token del enlace nuevo se emite al entregar el correo.
+const deliver = async (invitation: IInvitation): Promise<void> => {
+  invitation.tokenHash = hashToken(generateToken());
+  invitation.expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await invitation.save();
+
+  await cancelInvitationNotifications(invitation._id);
+  await notifyInvitation(invitation);
+};
+
+export const revokeInvitation = async (invitation: IInvitation, revokedBy: Id): Promise<void> => {
+  invitation.revokedAt = new Date();
+  invitation.revokedBy = new mongoose.Types.ObjectId(String(revokedBy));
+  await invitation.save();
+  await cancelInvitationNotifications(invitation._id);
+};
+
+// Crea y envía la invitación. Una invitación nueva al mismo correo sustituye a las
+// que sigan pendientes.
+export const sendInvitation = async (data: InvitationData, invitedBy: Id): Promise<IInvitation> => {
+  const previous = await Invitation.find({ email: data.email.toLowerCase(), ...pendingQuery() });
+  for (const invitation of previous) {
+    await revokeInvitation(invitation, invitedBy);
+  }
+
+  const invitation = new Invitation({ ...data, invitedBy });
+  await deliver(invitation);
+  return invitation;
+};
+
+// Reenvía la invitación con un enlace nuevo y la vigencia renovada
+export const resendInvitation = async (invitation: IInvitation): Promise<void> => {
+  await deliver(invitation);
+};
+
+export const findPendingInvitation = (token: string) =>
+  Invitation.findOne({ tokenHash: hashToken(token), ...pendingQuery() });
+
+// Crea la cuenta de la invitación. La invitación se marca como aceptada de forma
+// atómica antes de crear el usuario (solo una petición puede canjearla) y se libera
+// si el alta falla. Devuelve null si el token no es válido.
+export const acceptInvitation = async (token: string, data: AccountData): Promise<IUser | null> => {
+  const now = new Date();
+  const invitation = await Invitation.findOneAndUpdate(
+    { tokenHash: hashToken(token), ...pendingQuery(now) },
+    { acceptedAt: now },
+    { new: true }
+  );
+  if (!invitation) return null;
+
+  let user: IUser;
+  try {
+    user = await User.create({
+      name: data.name || invitation.name,
+      email: invitation.email,
+      password: data.password,
+      role: invitation.role,
+      documentId: data.documentId,
+      birthDate: data.birthDate,
+      phone: data.phone,
+      address: data.address,
+      specialty: invitation.specialty,
+      licenseNumber: invitation.licenseNumber,
+      // El enlace llegó al correo invitado, así que queda verificado
+      emailVerified: true,
+      emailVerifiedAt: now,
+    });
+  } catch (error) {
+    await Invitation.updateOne({ _id: invitation._id }, { $unset: { acceptedAt: 1 } });
+    throw error;
+  }
+
+  invitation.user = user._id;
+  await invitation.save();
+  return user;
+};
@@ -0,0 +1,148 @@
+import { Request, Response } from 'express';
+import { FilterQuery, Query } from 'mongoose';
+
+// Capa común de los listados: paginación por cursor, límite, orden y selección de
+// campos. Cada ruta declara lo que admite con el middleware `listing` y el controlador
+// ejecuta su consulta con `paginate`, que añade las cabeceras Link y X-Total-Count.
+//
+// El cursor es opaco para el cliente: codifica el orden y los valores del último
+// elemento devuelto, de modo que las páginas no se desplazan si se insertan documentos.
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 100;
+
+export interface ListingOptions {
+  // Claves de ordenación admitidas -> campos del modelo por los que se ordena. Deben ser
+  // campos obligatorios y sin cifrar; el _id se añade siempre para desempatar.
+  sortKeys: Record<string, string[]>;
+  // Orden por defecto ("-date" para descendente), que puede depender del usuario
+  defaultSort: string | ((req: Request) => string);
+  // Campos que se pueden pedir con ?fields=
+  fields?: readonly string[];
+  // Campos que se cargan además de uno pedido porque la respuesta se calcula con ellos
+  fieldDependencies?: Record<string, string[]>;
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+type SortField = [string, 1 | -1];
+
+export interface ListingParams {
+  sort: string;
+  sortFields: SortField[];
+  limit: number;
+  // Valores de ordenación del último elemento de la página anterior
+  after?: unknown[];
+  fields?: string[];
+  count: boolean;
+}
+
+export class InvalidListingError extends Error {}
+
+const sortFields = (sort: string, options: ListingOptions): SortField[] | undefined => {
+  const direction = sort.startsWith('-') ? -1 : 1;
+  const fields = options.sortKeys[sort.replace(/^-/, '')];
+  return fields && [...fields.map((field): SortField => [field, direction]), ['_id', direction]];
+};
+
+export const encodeCursor = (sort: string, values: unknown[]): string =>
+  Buffer.from(JSON.stringify({ s: sort, v: values })).toString('base64url');
+
+export const decodeCursor = (cursor: string, sort: string, size: number): unknown[] => {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (decoded?.s === sort && Array.isArray(decoded.v) && decoded.v.length === size) return decoded.v;
+  } catch {
+    // Se trata igual que un cursor con otro formato
+  }
+  throw new InvalidListingError('Cursor inválido o de un orden distinto al solicitado');
+};
+
+// Interpreta los parámetros del listado (cursor, limit, sort, fields, count)
+export const parseListing = (req: Request, options: ListingOptions): ListingParams => {
+  const { cursor, limit, sort, fields, count } = req.query;
+  const maxLimit = options.maxLimit ?? MAX_LIMIT;
+
+  const requestedSort = typeof sort === 'string' && sort
+    ? sort
+    : typeof options.defaultSort === 'function' ? options.defaultSort(req) : options.defaultSort;
+  const fieldsForSort = sortFields(requestedSort, options);
+  if (!fieldsForSort) {
+    const allowed = Object.keys(options.sortKeys).join(', ');
+    throw new InvalidListingError(`Orden inválido; se admite ${allowed} (con "-" para descendente)`);
+  }
+
+  let parsedLimit = options.defaultLimit ?? DEFAULT_LIMIT;
+  if (limit !== undefined) {
+    parsedLimit = Number(limit);
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > maxLimit) {
+      throw new InvalidListingError(`El límite debe estar entre 1 y ${maxLimit}`);
+    }
+  }
+
+  let selected: string[] | undefined;
+  if (fields !== undefined) {
+    selected = String(fields).split(',').map((field) => field.trim()).filter(Boolean);
+    const unknown = selected.filter((field) => !options.fields?.includes(field));
+    if (!selected.length || unknown.length) {
+      throw new InvalidListingError(`Campos no disponibles: ${unknown.join(', ') || '(ninguno)'}`);
+    }
+    selected = [...new Set(selected.flatMap((field) => [field, ...(options.fieldDependencies?.[field] || [])]))];
+  }
+
+  if (count !== undefined && count !== 'true' && count !== 'false') {
+    throw new InvalidListingError('count debe ser true o false');
+  }
+
+  return {
+    sort: requestedSort,
+    sortFields: fieldsForSort,
+    limit: parsedLimit,
+    after: typeof cursor === 'string' && cursor ? decodeCursor(cursor, requestedSort, fieldsForSort.length) : undefined,
+    fields: selected,
+    count: count === 'true',
+  };
+};
+
+// Documentos que van después de `values` en el orden indicado:
+// (a > va) o (a = va y b > vb) o ... hasta el _id
+export const keysetFilter = (fields: SortField[], values: unknown[]): FilterQuery<unknown> => ({
+  $or: fields.map(([field, direction], index) => ({
+    ...Object.fromEntries(fields.slice(0, index).map(([previous], i) => [previous, values[i]])),
+    [field]: { [direction === 1 ? '$gt' : '$lt']: values[index] },
+  })),
+});
+
+const pageUrl = (req: Request, cursor?: string): string => {
+  const url = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+  url.searchParams.delete('cursor');
+  if (cursor) url.searchParams.set('cursor', cursor);
+  return url.toString();
+};
+
+// Ejecuta la consulta de un listado según los parámetros fijados por el middleware
+// `listing`. La consulta no debe traer su propio orden ni límite.
+export const paginate = async <T>(query: Query<T[], any>, req: Request, res: Response): Promise<T[]> => {
+  const { sortFields: fields, limit, after, fields: selected, count } = req.listing!;
+
+  const total = count ? await query.model.countDocuments(query.getFilter()) : undefined;
+
+  if (after) query.and([keysetFilter(fields, after)]);
+  if (selected) {
+    // Los campos de ordenación se incluyen siempre para poder construir el cursor
+    query.projection(Object.fromEntries([...selected, ...fields.map(([field]) => field)].map((field) => [field, 1])));
+  }
+  const docs = await query.sort(Object.fromEntries(fields)).limit(limit + 1);
+
+  const page = docs.slice(0, limit);
+  const links = [`<${pageUrl(req)}>; rel="first"`];
+  if (docs.length > limit) {
+    const last = page[page.length - 1] as any;
+    const next = encodeCursor(req.listing!.sort, fields.map(([field]) => last.get(field, null, { getters: false })));
+    links.push(`<${pageUrl(req, next)}>; rel="next"`);
+  }
+  res.set('Link', links.join(', '));
+  if (total !== undefined) res.set('X-Total-Count', String(total));
+
+  return page;
+};
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { CLINICAL_FIELDS, IAttachment, IMedicalRecord } from '../models/MedicalRecord';
+import MedicalRecordVersion, { IMedicalRecordVersion, RecordVersionKind } from '../models/MedicalRecordVersion';
+import { canonicalJson, diffObjects, FieldChange } from '../utils/diff';
+
+type Id = string | mongoose.Types.ObjectId;
+
+export type ClinicalContent = Record<string, unknown>;
+
+export interface RecordVersionView {
+  version: number;
+  kind: RecordVersionKind;
+  author: unknown;
+  reason?: string;
+  content: ClinicalContent;
+  changes: FieldChange[];
+  signature?: string;
+  createdAt: Date;
+}
+
+// Los _id de los subdocumentos cambian cada vez que se reenvía una lista y solo
+// añadirían ruido a las diferencias
+const withoutIds = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(withoutIds);
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).filter(([key]) => key !== '_id').map(([key, item]) => [key, withoutIds(item)])
+    );
+  }
+  return value;
+};
+
+// Contenido clínico del registro en claro, tal como se versiona y se firma
+export const clinicalContent = (record: IMedicalRecord): ClinicalContent => {
+  const json = JSON.parse(JSON.stringify(record));
+  const content: ClinicalContent = {};
+  for (const field of CLINICAL_FIELDS) {
+    if (json[field] !== undefined) content[field] = withoutIds(json[field]);
+  }
+  return content;
+};
+
+const signContent = (content: ClinicalContent, signer: Id, signedAt: Date): string =>
+  crypto
+    .createHash('sha256')
+    .update(canonicalJson({ content, signer: String(signer), signedAt: signedAt.toISOString() }))
+    .digest('hex');
+
+// Se crea la versión antes de guardar el registro: el índice único sobre
+// (registro, versión) impide que dos cambios simultáneos reclamen el mismo número
+const createVersion = (
+  record: IMedicalRecord,
+  kind: RecordVersionKind,
+  author: Id,
+  content: ClinicalContent,
+  changes: FieldChange[],
+  options: { reason?: string; signedAt?: Date } = {}
+): Promise<IMedicalRecordVersion> =>
+  MedicalRecordVersion.create({
+    record: record._id,
+    version: record.version,
+    kind,
+    author,
+    reason: options.reason,
+    content: JSON.stringify(content),
+    changes: JSON.stringify(changes),
+    signature: options.signedAt ? signContent(content, author, options.signedAt) : undefined,
+  });
+
+// Los registros anteriores al versionado no tienen historial: su estado actual se
+// guarda como versión inicial antes del primer cambio
+const ensureBaseline = async (record: IMedicalRecord, content: ClinicalContent): Promise<void> => {
+  if (await MedicalRecordVersion.exists({ record: record._id })) return;
+  await createVersion(record, 'creacion', record.doctor, content, []);
+};
+
+// Los adjuntos no se editan desde el cuerpo de la petición: solo se añaden al subir
+// un fichero, para que nadie pueda apuntar un adjunto a un objeto almacenado ajeno
+const applyClinicalChanges = (record: IMedicalRecord, changes: Record<string, unknown>): void => {
+  for (const field of CLINICAL_FIELDS) {
+    if (field !== 'attachments' && changes[field] !== undefined) record.set(field, changes[field]);
+  }
+};
+
+// Guarda el registro ya modificado junto con su nueva versión. Sobre un registro firmado
+// el cambio es una enmienda, firmada por su autor junto con el motivo.
+const commitChange = async (
+  record: IMedicalRecord,
+  before: ClinicalContent,
+  author: Id,
+  reason?: string
+): Promise<FieldChange[]> => {
+  const after = clinicalContent(record);
+  const diff = diffObjects(before, after);
+  if (!diff.length) return diff;
+
+  record.version += 1;
+  if (record.status === 'firmado') {
+    record.$locals.amendment = true;
+    await createVersion(record, 'enmienda', author, after, diff, { reason, signedAt: new Date() });
+  } else {
+    await createVersion(record, 'edicion', author, after, diff);
+  }
+  await record.save();
+  return diff;
+};
+
+export const recordCreated = async (record: IMedicalRecord, author: Id): Promise<void> => {
+  await createVersion(record, 'creacion', author, clinicalContent(record), []);
+};
+
+// Edición de un borrador. Devuelve los cambios aplicados (vacío si no había ninguno).
+export const editDraft = async (
+  record: IMedicalRecord,
+  changes: Record<string, unknown>,
+  author: Id
+): Promise<FieldChange[]> => {
+  const before = clinicalContent(record);
+  await ensureBaseline(record, before);
+
+  applyClinicalChanges(record, changes);
+  return commitChange(record, before, author);
+};
+
+export const signRecord = async (record: IMedicalRecord, signer: Id): Promise<void> => {
+  const content = clinicalContent(record);
+  await ensureBaseline(record, content);
+
+  const signedAt = new Date();
+  record.status = 'firmado';
+  record.signedAt = signedAt;
+  record.signedBy = new mongoose.Types.ObjectId(String(signer));
+  record.version += 1;
+
+  await createVersion(record, 'firma', signer, content, [], { signedAt });
+  await record.save();
+};
+
+// Enmienda de un registro firmado
+export const amendRecord = async (
+  record: IMedicalRecord,
+  changes: Record<string, unknown>,
+  reason: string,
+  author: Id
+): Promise<FieldChange[]> => {
+  const before = clinicalContent(record);
+  await ensureBaseline(record, before);
+
+  applyClinicalChanges(record, changes);
+  return commitChange(record, before, author, reason);
+};
+
+// Añade un adjunto ya almacenado. En un registro firmado cuenta como enmienda.
+export const addAttachment = async (
+  record: IMedicalRecord,
+  attachment: Omit<IAttachment, '_id'>,
+  author: Id,
+  reason?: string
+): Promise<IAttachment> => {
+  const before = clinicalContent(record);
+  await ensureBaseline(record, before);
+
+  record.attachments = [...(record.attachments || []), attachment as IAttachment];
+  await commitChange(record, before, author, reason);
+  return record.attachments[record.attachments.length - 1];
+};
+
+export const toVersionView = (version: IMedicalRecordVersion): RecordVersionView => ({
+  version: version.version,
+  kind: version.kind,
+  author: version.author,
+  reason: version.reason,
+  content: JSON.parse(version.content),
+  changes: JSON.parse(version.changes),
+  signature: version.signature,
+  createdAt: version.createdAt,
+});
+
+export const getRecordVersions = async (recordId: Id): Promise<RecordVersionView[]> => {
+  const versions = await MedicalRecordVersion.find({ record: recordId })
+    .populate('author', 'name role')
+    .sort({ version: 1 });
+  return versions.map(toVersionView);
+};
+
+// Registro tal como estaba en la fecha indicada, o null si todavía no existía
+export const getRecordAt = async (record: IMedicalRecord, at: Date): Promise<Record<string, unknown> | null> => {
+  if (record.createdAt > at) return null;
+
+  // Antes del primer cambio de un registro previo al versionado vale la versión inicial,
+  // y si nunca se ha modificado, su contenido actual
+  const version =
+    (await MedicalRecordVersion.findOne({ record: record._id, createdAt: { $lte: at } }).sort({ version: -1 })) ||
+    (await MedicalRecordVersion.findOne({ record: record._id }).sort({ version: 1 }));
+  if (!version) return { ...record.toJSON(), asOf: at };
+
+  const signed = record.signedAt && record.signedAt <= at;
+  return {
+    ...record.toJSON(),
+    ...JSON.parse(version.content),
+    version: version.version,
+    status: signed ? 'firmado' : 'borrador',
+    ...(signed ? {} : { signedAt: undefined, signedBy: undefined }),
+    asOf: at,
+  };
+};
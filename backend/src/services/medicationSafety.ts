@@ -0,0 +1,253 @@
+import mongoose from 'mongoose';
+import catalogData from '../data/medications.json';
+import interactionData from '../data/drugInteractions.json';
+import MedicalRecord from '../models/MedicalRecord';
+import Prescription from '../models/Prescription';
+import User, { AllergySeverity, IAllergy } from '../models/User';
+import { foldText } from '../utils/text';
+import { refId } from './auditService';
+
+// Comprobaciones de seguridad al prescribir: alergias del paciente, interacciones
+// entre medicamentos y duplicidades con la medicación que ya está tomando.
+
+export type SafetyWarningType = 'alergia' | 'interaccion' | 'duplicidad';
+
+export interface CatalogMedication {
+  name: string;
+  aliases: string[];
+  ingredients: string[];
+  classes: string[];
+}
+
+// Interacción entre dos principios activos o grupos (a y b pueden coincidir para
+// indicar que dos medicamentos distintos del mismo grupo interactúan entre sí)
+interface Interaction {
+  a: string;
+  b: string;
+  severity: AllergySeverity;
+  description: string;
+}
+
+// Medicamento que el paciente está tomando según sus registros y recetas vigentes
+export interface ActiveMedication {
+  name: string;
+  source: 'registro' | 'receta';
+  id: string;
+}
+
+export interface SafetyWarning {
+  type: SafetyWarningType;
+  severity: AllergySeverity;
+  // Las advertencias graves impiden guardar salvo que se indique un motivo
+  blocking: boolean;
+  medication: string;
+  conflictsWith: string;
+  // Registro o receta de la medicación activa con la que se produce el conflicto
+  activeIn?: Omit<ActiveMedication, 'name'>;
+  description: string;
+}
+
+export interface SafetyAssessment {
+  warnings: SafetyWarning[];
+  blocked: boolean;
+}
+
+type Id = string | mongoose.Types.ObjectId;
+
+export const MEDICATION_CATALOG = catalogData as CatalogMedication[];
+const INTERACTIONS = (interactionData as Interaction[]).map((interaction) => ({
+  ...interaction,
+  a: foldText(interaction.a),
+  b: foldText(interaction.b),
+}));
+
+// Términos por los que se reconoce cada entrada del catálogo, de más largo a más corto
+// para que "amoxicilina/ácido clavulánico" no se confunda con "amoxicilina"
+const CATALOG_TERMS = MEDICATION_CATALOG
+  .flatMap((entry) => [entry.name, ...entry.aliases, ...entry.ingredients].map((term) => ({ term: foldText(term), entry })))
+  .sort((x, y) => y.term.length - x.term.length);
+
+// Entrada del catálogo de un medicamento escrito libremente ("Ibuprofeno 400 mg")
+export const findCatalogMedication = (name: string): CatalogMedication | undefined => {
+  const normalized = foldText(name);
+  return CATALOG_TERMS.find(({ term }) => normalized === term || normalized.startsWith(`${term} `))?.entry;
+};
+
+export const searchCatalog = (text: string, limit = 20): CatalogMedication[] => {
+  const normalized = foldText(text);
+  if (!normalized) return MEDICATION_CATALOG.slice(0, limit);
+  const matches = new Set<CatalogMedication>();
+  for (const { term, entry } of CATALOG_TERMS) {
+    if (term.split(' ').some((_, index, words) => words.slice(index).join(' ').startsWith(normalized))) {
+      matches.add(entry);
+    }
+  }
+  return [...matches].sort((x, y) => x.name.localeCompare(y.name)).slice(0, limit);
+};
+
+interface MedicationProfile {
+  name: string;
+  normalized: string;
+  ingredients: Set<string>;
+  // Principios activos y grupos terapéuticos
+  terms: Set<string>;
+}
+
+const profile = (name: string): MedicationProfile => {
+  const entry = findCatalogMedication(name);
+  const normalized = foldText(name);
+  // Un medicamento fuera del catálogo solo se compara por su nombre
+  const ingredients = new Set(entry ? entry.ingredients.map(foldText) : [normalized]);
+  const terms = new Set([...ingredients, ...(entry?.classes || []).map(foldText)]);
+  return { name, normalized, ingredients, terms };
+};
+
+// Sustancias a las que apunta una alergia: la escrita, su singular y, si es un
+// medicamento del catálogo ("Aspirina"), sus principios activos
+const allergens = (substance: string): string[] => {
+  const normalized = foldText(substance);
+  const terms = [normalized];
+  if (normalized.length > 4 && normalized.endsWith('s')) terms.push(normalized.slice(0, -1));
+  const entry = findCatalogMedication(substance);
+  if (entry) terms.push(...entry.ingredients.map(foldText));
+  return terms;
+};
+
+const matchesAllergy = (medication: MedicationProfile, substance: string): boolean =>
+  allergens(substance).some((term) => medication.terms.has(term) || ` ${medication.normalized} `.includes(` ${term} `));
+
+const pairWarnings = (
+  medication: MedicationProfile,
+  other: MedicationProfile,
+  activeIn?: Omit<ActiveMedication, 'name'>
+): SafetyWarning[] => {
+  const base = { medication: medication.name, conflictsWith: other.name, ...(activeIn ? { activeIn } : {}) };
+
+  const shared = [...medication.ingredients].filter((ingredient) => other.ingredients.has(ingredient));
+  if (shared.length) {
+    return [{
+      ...base,
+      type: 'duplicidad',
+      severity: 'moderada',
+      blocking: false,
+      description: `Duplicidad terapéutica: ambos contienen ${shared.join(', ')}`,
+    }];
+  }
+
+  return INTERACTIONS
+    .filter(({ a, b }) =>
+      (medication.terms.has(a) && other.terms.has(b)) || (medication.terms.has(b) && other.terms.has(a)))
+    .map((interaction) => ({
+      ...base,
+      type: 'interaccion' as const,
+      severity: interaction.severity,
+      blocking: interaction.severity === 'grave',
+      description: interaction.description,
+    }));
+};
+
+// Advertencias para los medicamentos que se van a prescribir frente a las alergias
+// del paciente, la medicación activa y el resto de la propia prescripción
+export const checkMedicationSafety = (
+  medications: string[],
+  allergies: Pick<IAllergy, 'substance' | 'severity' | 'reaction'>[],
+  active: ActiveMedication[] = []
+): SafetyWarning[] => {
+  const prescribed = medications.map(profile);
+  const current = active.map((medication) => ({ medication, profile: profile(medication.name) }));
+  const warnings: SafetyWarning[] = [];
+
+  prescribed.forEach((medication, index) => {
+    for (const allergy of allergies) {
+      if (!matchesAllergy(medication, allergy.substance)) continue;
+      warnings.push({
+        type: 'alergia',
+        severity: allergy.severity,
+        blocking: allergy.severity === 'grave',
+        medication: medication.name,
+        conflictsWith: allergy.substance,
+        description: `Alergia registrada a ${allergy.substance}${allergy.reaction ? ` (${allergy.reaction})` : ''}`,
+      });
+    }
+
+    for (const other of prescribed.slice(index + 1)) {
+      warnings.push(...pairWarnings(medication, other));
+    }
+
+    for (const { medication: activeMedication, profile: other } of current) {
+      warnings.push(...pairWarnings(medication, other, { source: activeMedication.source, id: activeMedication.id }));
+    }
+  });
+
+  return warnings;
+};
+
+// Medicación en curso del paciente: tratamientos sin terminar de sus registros y
+// recetas vigentes no canceladas. Se excluye el documento que se está guardando.
+export const getActiveMedications = async (
+  patientId: Id,
+  exclude: { record?: Id; prescription?: Id } = {}
+): Promise<ActiveMedication[]> => {
+  const now = new Date();
+  const ongoing = { startDate: { $lte: now }, $or: [{ endDate: null }, { endDate: { $gte: now } }] };
+
+  const recordQuery: any = { patient: patientId, 'treatment.medications': { $elemMatch: ongoing } };
+  if (exclude.record) recordQuery._id = { $ne: exclude.record };
+  const prescriptionQuery: any = { patient: patientId, status: { $ne: 'cancelada' }, validUntil: { $gt: now } };
+  if (exclude.prescription) prescriptionQuery._id = { $ne: exclude.prescription };
+
+  const [records, prescriptions] = await Promise.all([
+    MedicalRecord.find(recordQuery).select('treatment.medications'),
+    Prescription.find(prescriptionQuery).select('medications'),
+  ]);
+
+  return [
+    ...records.flatMap((record) =>
+      record.treatment.medications
+        .filter((medication) => medication.startDate <= now && (!medication.endDate || medication.endDate >= now))
+        .map((medication) => ({ name: medication.name, source: 'registro' as const, id: refId(record._id) }))),
+    ...prescriptions.flatMap((prescription) =>
+      prescription.medications.map((medication) => ({ name: medication.name, source: 'receta' as const, id: refId(prescription._id) }))),
+  ];
+};
+
+// Evalúa una prescripción para un paciente. Queda bloqueada si hay advertencias
+// graves y no se ha indicado el motivo para continuar.
+export const assessPrescribing = async (
+  patientId: Id,
+  medications: string[],
+  overrideReason?: string,
+  exclude: { record?: Id; prescription?: Id } = {}
+): Promise<SafetyAssessment> => {
+  if (!medications.length) return { warnings: [], blocked: false };
+
+  const [patient, active] = await Promise.all([
+    User.findById(patientId).select('allergies'),
+    getActiveMedications(patientId, exclude),
+  ]);
+  const warnings = checkMedicationSafety(medications, patient?.allergies || [], active);
+  return { warnings, blocked: !overrideReason && warnings.some((warning) => warning.blocking) };
+};
+
+export const safetyBlockedResponse = (warnings: SafetyWarning[]) => ({
+  message: 'La medicación presenta advertencias graves; indique el motivo en safetyOverrideReason para continuar',
+  warnings,
+});
+
+// Datos para la auditoría cuando se continúa pese a advertencias graves
+export const safetyAuditDetails = (assessment: SafetyAssessment, reason?: string) => {
+  const blocking = assessment.warnings.filter((warning) => warning.blocking);
+  if (!blocking.length || !reason) return {};
+  return {
+    safetyOverride: {
+      reason,
+      warnings: blocking.map(({ type, medication, conflictsWith }) => ({ type, medication, conflictsWith })),
+    },
+  };
+};
+
+// Nombres de los medicamentos de un tratamiento o prescripción tal como llegan en la petición
+export const medicationNames = (medications: unknown): string[] =>
+  Array.isArray(medications)
+    ? medications.map((medication) => medication?.name).filter((name): name is string => typeof name === 'string' && name !== '')
+    : [];
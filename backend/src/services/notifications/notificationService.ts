@@ -0,0 +1,312 @@
+import mongoose from 'mongoose';
+import { IAppointment } from '../../models/Appointment';
+import { IAppointmentSeries } from '../../models/AppointmentSeries';
+import { IBreakGlassAccess } from '../../models/BreakGlassAccess';
+import { IInvitation } from '../../models/Invitation';
+import Notification, { INotification, NotificationChannel, SecureLink } from '../../models/Notification';
+import { ISlotOffer } from '../../models/SlotOffer';
+import User, { IUser } from '../../models/User';
+import { toInstant } from '../../utils/time';
+import { issueSecureLink } from './secureLinks';
+import { renderTemplate, TemplateData } from './templates';
+import { getTransport, OutgoingMessage } from './transports';
+
+export const MAX_ATTEMPTS = 5;
+const BASE_RETRY_MS = 60 * 1000;
+const MAX_RETRY_MS = 6 * 60 * 60 * 1000;
+// Tiempo durante el que una notificación reclamada no se entrega desde otra instancia
+const LEASE_MS = 5 * 60 * 1000;
+
+export type AppointmentEvent = 'creada' | 'confirmada' | 'reprogramada' | 'cancelada';
+
+export type SeriesEvent = 'creada' | 'modificada' | 'cancelada';
+
+export interface EnqueueOptions {
+  appointment?: mongoose.Types.ObjectId;
+  scheduledFor?: Date;
+  channels?: NotificationChannel[];
+  // El mensaje lleva un enlace con token que se emite al enviarlo
+  secureLink?: SecureLink;
+}
+
+// Espera antes del siguiente intento: exponencial desde 1 minuto, con tope de 6 horas
+export const retryDelay = (attempts: number): number =>
+  Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+
+const preferredChannels = (user: IUser): NotificationChannel[] => {
+  const preferences = user.notificationPreferences;
+  const channels: NotificationChannel[] = [];
+  if (preferences?.email !== false) channels.push('email');
+  if (preferences?.sms) channels.push('sms');
+  return channels;
+};
+
+const recipientFor = (user: IUser, channel: NotificationChannel): string =>
+  channel === 'sms' ? user.phone : user.email;
+
+// Añade el mensaje a la bandeja de salida por cada canal habilitado del usuario
+export const enqueueNotification = async (
+  user: IUser,
+  template: string,
+  data: Partial<TemplateData>,
+  options: EnqueueOptions = {}
+): Promise<INotification[]> => {
+  const templateData = { name: user.name, ...data };
+  const { subject, body } = renderTemplate(template, templateData);
+  const scheduledFor = options.scheduledFor || new Date();
+  const channels = options.channels || preferredChannels(user);
+  const { secureLink } = options;
+
+  return Promise.all(
+    channels.map((channel) =>
+      Notification.create({
+        user: user._id,
+        channel,
+        template,
+        recipient: recipientFor(user, channel),
+        subject,
+        ...(secureLink ? { secureLink, templateData } : { body }),
+        appointment: options.appointment,
+        scheduledFor,
+        nextAttemptAt: scheduledFor,
+      })
+    )
+  );
+};
+
+export const cancelAppointmentReminders = async (appointmentId: mongoose.Types.ObjectId): Promise<void> => {
+  await Notification.updateMany(
+    { appointment: appointmentId, template: 'recordatorio_cita', status: 'pendiente' },
+    { status: 'cancelada' }
+  );
+};
+
+const scheduleReminders = async (patient: IUser, appointment: IAppointment, data: Partial<TemplateData>) => {
+  const start = toInstant(appointment.date, appointment.startTime);
+  const hours = patient.notificationPreferences?.reminderHoursBefore || [];
+
+  for (const hoursBefore of hours) {
+    const scheduledFor = new Date(start.getTime() - hoursBefore * 60 * 60 * 1000);
+    if (scheduledFor <= new Date()) continue;
+    await enqueueNotification(patient, 'recordatorio_cita', data, {
+      appointment: appointment._id,
+      scheduledFor,
+    });
+  }
+};
+
+// Notifica al paciente un cambio en su cita y mantiene sus recordatorios al día.
+// Nunca lanza: un fallo al encolar no debe deshacer la operación sobre la cita.
+export const notifyAppointmentEvent = async (
+  appointment: IAppointment,
+  event: AppointmentEvent,
+  reason?: string
+): Promise<void> => {
+  try {
+    const [patient, doctor] = await Promise.all([
+      User.findById(appointment.patient),
+      User.findById(appointment.doctor).select('name'),
+    ]);
+    if (!patient) return;
+
+    const data: Partial<TemplateData> = {
+      doctorName: doctor?.name,
+      date: appointment.date,
+      startTime: appointment.startTime,
+      type: appointment.type,
+      reason,
+    };
+
+    if (event === 'reprogramada' || event === 'cancelada') {
+      await cancelAppointmentReminders(appointment._id);
+    }
+
+    await enqueueNotification(patient, `cita_${event}`, data, { appointment: appointment._id });
+
+    if (event === 'creada' || event === 'reprogramada') {
+      await scheduleReminders(patient, appointment, data);
+    }
+  } catch (error) {
+    console.error('Error al encolar notificación de cita:', error);
+  }
+};
+
+// Rehace los recordatorios de una cita (p. ej. tras cambios masivos en una serie)
+export const refreshAppointmentReminders = async (appointment: IAppointment): Promise<void> => {
+  try {
+    await cancelAppointmentReminders(appointment._id);
+    if (appointment.status !== 'pendiente' && appointment.status !== 'confirmada') return;
+
+    const [patient, doctor] = await Promise.all([
+      User.findById(appointment.patient),
+      User.findById(appointment.doctor).select('name'),
+    ]);
+    if (!patient) return;
+
+    await scheduleReminders(patient, appointment, {
+      doctorName: doctor?.name,
+      date: appointment.date,
+      startTime: appointment.startTime,
+      type: appointment.type,
+    });
+  } catch (error) {
+    console.error('Error al programar recordatorios de cita:', error);
+  }
+};
+
+// Un único aviso por operación sobre la serie, en lugar de uno por ocurrencia
+export const notifySeriesEvent = async (
+  series: IAppointmentSeries,
+  event: SeriesEvent,
+  count: number,
+  reason?: string
+): Promise<void> => {
+  try {
+    if (!count) return;
+    const [patient, doctor] = await Promise.all([
+      User.findById(series.patient),
+      User.findById(series.doctor).select('name'),
+    ]);
+    if (!patient) return;
+
+    await enqueueNotification(patient, `serie_${event}`, {
+      doctorName: doctor?.name,
+      date: series.startDate,
+      startTime: series.startTime,
+      type: series.type,
+      count,
+      reason,
+    });
+  } catch (error) {
+    console.error('Error al encolar notificación de serie:', error);
+  }
+};
+
+export const notifyWaitlistOffer = async (offer: ISlotOffer): Promise<void> => {
+  try {
+    const [patient, doctor] = await Promise.all([
+      User.findById(offer.patient),
+      User.findById(offer.doctor).select('name'),
+    ]);
+    if (!patient) return;
+
+    await enqueueNotification(patient, 'oferta_lista_espera', {
+      doctorName: doctor?.name,
+      date: offer.date,
+      startTime: offer.startTime,
+      type: offer.type,
+      expiresAt: offer.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error al encolar notificación de oferta:', error);
+  }
+};
+
+// Avisa al paciente y a todos los administradores de un acceso de emergencia
+export const notifyBreakGlassAccess = async (access: IBreakGlassAccess): Promise<void> => {
+  try {
+    const [patient, doctor, admins] = await Promise.all([
+      User.findById(access.patient),
+      User.findById(access.doctor).select('name'),
+      User.find({ role: 'admin', active: true }),
+    ]);
+
+    const data = { doctorName: doctor?.name, reason: access.justification, expiresAt: access.expiresAt };
+    if (patient) {
+      await enqueueNotification(patient, 'acceso_emergencia', data);
+    }
+    for (const admin of admins) {
+      await enqueueNotification(admin, 'acceso_emergencia_revision', { ...data, patientName: patient?.name }, {
+        channels: ['email'],
+      });
+    }
+  } catch (error) {
+    console.error('Error al encolar notificación de acceso de emergencia:', error);
+  }
+};
+
+const ROLE_NAMES: Record<IInvitation['role'], string> = {
+  patient: 'paciente',
+  doctor: 'médico',
+  admin: 'administrador',
+};
+
+// La invitación se envía siempre por email a una dirección que todavía no tiene cuenta.
+// Su enlace se emite al enviar el correo, como el de los demás mensajes de acceso.
+export const notifyInvitation = async (invitation: IInvitation): Promise<void> => {
+  const templateData = { name: invitation.name, roleName: ROLE_NAMES[invitation.role] };
+  const { subject } = renderTemplate('invitacion', templateData);
+  const now = new Date();
+  await Notification.create({
+    invitation: invitation._id,
+    channel: 'email',
+    template: 'invitacion',
+    recipient: invitation.email,
+    subject,
+    secureLink: 'invitacion',
+    templateData,
+    scheduledFor: now,
+    nextAttemptAt: now,
+  });
+};
+
+// Descarta los envíos pendientes de una invitación revocada o reenviada
+export const cancelInvitationNotifications = async (invitationId: mongoose.Types.ObjectId): Promise<void> => {
+  await Notification.updateMany(
+    { invitation: invitationId, status: 'pendiente' },
+    { status: 'cancelada' }
+  );
+};
+
+// Mensaje que se entrega. Los que llevan enlace seguro se generan en este momento,
+// con un token recién emitido que no se guarda.
+const outgoingMessage = async (notification: INotification): Promise<OutgoingMessage> => {
+  if (!notification.secureLink) {
+    return { recipient: notification.recipient, subject: notification.subject, body: notification.body! };
+  }
+
+  const { link, expiresAt } = await issueSecureLink(notification);
+  const { subject, body } = renderTemplate(notification.template, {
+    ...notification.templateData,
+    link,
+    expiresAt,
+  } as TemplateData);
+  return { recipient: notification.recipient, subject, body };
+};
+
+// Entrega las notificaciones vencidas de la bandeja de salida. Cada una se reclama
+// de forma atómica, por lo que varias instancias pueden procesar la cola a la vez.
+export const dispatchPendingNotifications = async (limit = 50): Promise<{ sent: number; failed: number }> => {
+  let sent = 0;
+  let failed = 0;
+
+  for (let processed = 0; processed < limit; processed++) {
+    const now = new Date();
+    const notification = await Notification.findOneAndUpdate(
+      { status: 'pendiente', nextAttemptAt: { $lte: now } },
+      { $set: { nextAttemptAt: new Date(now.getTime() + LEASE_MS) }, $inc: { attempts: 1 } },
+      { sort: { nextAttemptAt: 1 }, new: true }
+    ).select('+body +templateData');
+    if (!notification) break;
+
+    try {
+      await getTransport(notification.channel).send(await outgoingMessage(notification));
+      notification.status = 'enviada';
+      notification.sentAt = new Date();
+      notification.lastError = undefined;
+      sent++;
+    } catch (error) {
+      notification.lastError = error instanceof Error ? error.message : String(error);
+      if (notification.attempts >= MAX_ATTEMPTS) {
+        notification.status = 'fallida';
+      } else {
+        notification.nextAttemptAt = new Date(Date.now() + retryDelay(notification.attempts));
+      }
+      failed++;
+    }
+
+    await notification.save();
+  }
+
+  return { sent, failed };
+};
@@ -0,0 +1,44 @@
+import Invitation from '../../models/Invitation';
+import { INotification, SecureLink } from '../../models/Notification';
+import { generateToken, hashToken } from '../../utils/tokens';
+import { issueAuthToken } from '../authTokenService';
+
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+const LINK_PATHS: Record<SecureLink, string> = {
+  verificar_email: '/verify-email',
+  restablecer_contrasena: '/reset-password',
+  invitacion: '/accept-invitation',
+};
+
+export interface IssuedLink {
+  link: string;
+  expiresAt: Date;
+}
+
+// El token de la invitación sustituye al anterior; solo se emite mientras siga pendiente
+const issueInvitationToken = async (notification: INotification): Promise<{ token: string; expiresAt: Date }> => {
+  const token = generateToken();
+  const invitation = await Invitation.findOneAndUpdate(
+    {
+      _id: notification.invitation,
+      acceptedAt: { $exists: false },
+      revokedAt: { $exists: false },
+      expiresAt: { $gt: new Date() },
+    },
+    { tokenHash: hashToken(token) },
+    { new: true }
+  );
+  if (!invitation) throw new Error('La invitación ya no está pendiente');
+  return { token, expiresAt: invitation.expiresAt };
+};
+
+// Emite el token del enlace en el momento del envío. Cada intento emite uno nuevo e
+// invalida los anteriores, de modo que el enlace válido es el del último mensaje.
+export const issueSecureLink = async (notification: INotification): Promise<IssuedLink> => {
+  const purpose = notification.secureLink!;
+  const { token, expiresAt } = purpose === 'invitacion'
+    ? await issueInvitationToken(notification)
+    : await issueAuthToken(notification.user!, purpose);
+  return { link: `${FRONTEND_URL}${LINK_PATHS[purpose]}?token=${token}`, expiresAt };
+};
@@ -0,0 +1,136 @@
+import { fromInstant } from '../../utils/time';
+
+// Plantillas de los mensajes enviados a los usuarios. Todas reciben los mismos
+// datos y devuelven asunto y cuerpo en texto plano (válido para email y SMS).
+
+export interface TemplateData {
+  name: string;
+  doctorName?: string;
+  date?: Date;
+  startTime?: string;
+  type?: 'presencial' | 'remota';
+  reason?: string;
+  expiresAt?: Date;
+  count?: number;
+  link?: string;
+  [key: string]: unknown;
+}
+
+export interface RenderedMessage {
+  subject: string;
+  body: string;
+}
+
+const formatDay = (date?: Date): string =>
+  date
+    ? date.toLocaleDateString('es-ES', {
+      weekday: 'long',
+      day: 'numeric',
+      month: 'long',
+      year: 'numeric',
+      timeZone: 'UTC',
+    })
+    : '';
+
+const formatDateTime = (instant?: Date): string => {
+  if (!instant) return '';
+  const { date, time } = fromInstant(instant);
+  return `${formatDay(date)} a las ${time}`;
+};
+
+const describeAppointment = (data: TemplateData): string => {
+  const modality = data.type === 'remota' ? 'consulta remota' : 'consulta presencial';
+  const doctor = data.doctorName ? ` con ${data.doctorName}` : '';
+  return `${modality}${doctor} el ${formatDay(data.date)} a las ${data.startTime}`;
+};
+
+const templates: Record<string, (data: TemplateData) => RenderedMessage> = {
+  cita_creada: (data) => ({
+    subject: 'Nueva cita programada',
+    body: `Hola ${data.name}, se ha programado una ${describeAppointment(data)}.`,
+  }),
+  cita_confirmada: (data) => ({
+    subject: 'Cita confirmada',
+    body: `Hola ${data.name}, su ${describeAppointment(data)} ha sido confirmada.`,
+  }),
+  cita_reprogramada: (data) => ({
+    subject: 'Cita reprogramada',
+    body: `Hola ${data.name}, su cita ha sido reprogramada: ${describeAppointment(data)}.`,
+  }),
+  cita_cancelada: (data) => ({
+    subject: 'Cita cancelada',
+    body: `Hola ${data.name}, su ${describeAppointment(data)} ha sido cancelada.` +
+      (data.reason ? ` Motivo: ${data.reason}.` : ''),
+  }),
+  recordatorio_cita: (data) => ({
+    subject: 'Recordatorio de cita',
+    body: `Hola ${data.name}, le recordamos su ${describeAppointment(data)}.`,
+  }),
+  serie_creada: (data) => ({
+    subject: 'Serie de citas programada',
+    body: `Hola ${data.name}, se han programado ${data.count} citas periódicas` +
+      `${data.doctorName ? ` con ${data.doctorName}` : ''} a partir del ${formatDay(data.date)} a las ${data.startTime}.`,
+  }),
+  serie_modificada: (data) => ({
+    subject: 'Serie de citas modificada',
+    body: `Hola ${data.name}, se han modificado ${data.count} citas de su serie` +
+      `${data.doctorName ? ` con ${data.doctorName}` : ''}. Nuevo horario: ${data.startTime}.`,
+  }),
+  serie_cancelada: (data) => ({
+    subject: 'Serie de citas cancelada',
+    body: `Hola ${data.name}, se han cancelado ${data.count} citas de su serie` +
+      `${data.doctorName ? ` con ${data.doctorName}` : ''}.` +
+      (data.reason ? ` Motivo: ${data.reason}.` : ''),
+  }),
+  oferta_lista_espera: (data) => ({
+    subject: 'Hay un hueco disponible para usted',
+    body: `Hola ${data.name}, se ha liberado una ${describeAppointment(data)}. ` +
+      `Puede aceptarla o rechazarla hasta el ${formatDateTime(data.expiresAt)}.`,
+  }),
+  acceso_emergencia: (data) => ({
+    subject: 'Acceso de emergencia a su historia clínica',
+    body: `Hola ${data.name}, ${data.doctorName} ha accedido a su historia clínica mediante el procedimiento de emergencia. ` +
+      `Justificación indicada: ${data.reason}. El acceso será revisado por la clínica.`,
+  }),
+  acceso_emergencia_revision: (data) => ({
+    subject: 'Acceso de emergencia pendiente de revisión',
+    body: `Hola ${data.name}, ${data.doctorName} ha activado un acceso de emergencia a la historia clínica de ` +
+      `${data.patientName} hasta el ${formatDateTime(data.expiresAt)}. Justificación: ${data.reason}.`,
+  }),
+  verificar_email: (data) => ({
+    subject: 'Confirme su correo electrónico',
+    body: `Hola ${data.name}, para confirmar su correo electrónico abra el siguiente enlace: ${data.link}. ` +
+      `El enlace vence el ${formatDateTime(data.expiresAt)}.`,
+  }),
+  restablecer_contrasena: (data) => ({
+    subject: 'Restablecer contraseña',
+    body: `Hola ${data.name}, hemos recibido una solicitud para restablecer su contraseña. ` +
+      `Puede elegir una nueva en el siguiente enlace: ${data.link}. El enlace vence el ${formatDateTime(data.expiresAt)}. ` +
+      'Si no ha sido usted, ignore este mensaje.',
+  }),
+  contrasena_restablecida_admin: (data) => ({
+    subject: 'Debe elegir una nueva contraseña',
+    body: `Hola ${data.name}, un administrador ha restablecido la contraseña de su cuenta y se han cerrado sus sesiones. ` +
+      `Elija una nueva en el siguiente enlace: ${data.link}. El enlace vence el ${formatDateTime(data.expiresAt)}.`,
+  }),
+  invitacion: (data) => ({
+    subject: 'Invitación para crear su cuenta',
+    body: `Hola ${data.name}, ha sido invitado a crear una cuenta de ${data.roleName} en el sistema de la clínica. ` +
+      `Complete sus datos en el siguiente enlace: ${data.link}. La invitación vence el ${formatDateTime(data.expiresAt)}.`,
+  }),
+  contrasena_cambiada: (data) => ({
+    subject: 'Su contraseña ha sido cambiada',
+    body: `Hola ${data.name}, la contraseña de su cuenta se ha cambiado y se han cerrado sus sesiones abiertas. ` +
+      'Si no ha sido usted, restablezca su contraseña y contacte con la clínica.',
+  }),
+};
+
+export const TEMPLATE_NAMES = Object.keys(templates);
+
+export const renderTemplate = (template: string, data: TemplateData): RenderedMessage => {
+  const render = templates[template];
+  if (!render) {
+    throw new Error(`Plantilla de notificación desconocida: ${template}`);
+  }
+  return render(data);
+};
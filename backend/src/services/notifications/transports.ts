@@ -0,0 +1,121 @@
+import fs from 'fs';
+import https from 'https';
+import http from 'http';
+import nodemailer from 'nodemailer';
+import { NotificationChannel } from '../../models/Notification';
+
+export interface OutgoingMessage {
+  recipient: string;
+  subject: string;
+  body: string;
+}
+
+export interface NotificationTransport {
+  send(message: OutgoingMessage): Promise<void>;
+}
+
+// Envío por correo mediante SMTP (SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_FROM)
+export class SmtpTransport implements NotificationTransport {
+  private transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+      : undefined,
+  });
+
+  async send(message: OutgoingMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: process.env.SMTP_FROM || 'no-reply@gestion-medica.local',
+      to: message.recipient,
+      subject: message.subject,
+      text: message.body,
+    });
+  }
+}
+
+// Envío de SMS a través de una pasarela HTTP genérica que acepta
+// POST { to, message } con autenticación Bearer (SMS_GATEWAY_URL, SMS_GATEWAY_TOKEN)
+export class SmsGatewayTransport implements NotificationTransport {
+  constructor(private readonly url: string, private readonly token?: string) {}
+
+  send(message: OutgoingMessage): Promise<void> {
+    const payload = JSON.stringify({ to: message.recipient, message: message.body });
+    const target = new URL(this.url);
+    const client = target.protocol === 'http:' ? http : https;
+
+    return new Promise((resolve, reject) => {
+      const request = client.request(
+        target,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Content-Length': Buffer.byteLength(payload),
+            ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+          },
+          timeout: 10000,
+        },
+        (response) => {
+          response.resume();
+          if (response.statusCode && response.statusCode >= 200 && response.statusCode < 300) {
+            resolve();
+          } else {
+            reject(new Error(`La pasarela SMS respondió con estado ${response.statusCode}`));
+          }
+        }
+      );
+      request.on('timeout', () => request.destroy(new Error('Tiempo de espera agotado con la pasarela SMS')));
+      request.on('error', reject);
+      request.end(payload);
+    });
+  }
+}
+
+// Transporte para desarrollo y pruebas: escribe los mensajes en un fichero
+// (NOTIFICATIONS_FILE) o, si no se indica, en la consola
+export class FileTransport implements NotificationTransport {
+  constructor(private readonly channel: NotificationChannel, private readonly file?: string) {}
+
+  async send(message: OutgoingMessage): Promise<void> {
+    const line = JSON.stringify({
+      channel: this.channel,
+      sentAt: new Date().toISOString(),
+      ...message,
+    });
+
+    if (this.file) {
+      await fs.promises.appendFile(this.file, `${line}\n`);
+    } else {
+      console.log('[notificación]', line);
+    }
+  }
+}
+
+const transports = new Map<NotificationChannel, NotificationTransport>();
+
+// Permite sustituir el transporte de un canal (p. ej. en pruebas o con otro proveedor)
+export const registerTransport = (channel: NotificationChannel, transport: NotificationTransport): void => {
+  transports.set(channel, transport);
+};
+
+// Transporte configurado para el canal. Si no hay proveedor configurado se usa
+// el transporte de fichero/consola para no perder los mensajes en local; en producción
+// no, porque los mensajes llevan enlaces de acceso que no deben acabar en los logs.
+export const getTransport = (channel: NotificationChannel): NotificationTransport => {
+  let transport = transports.get(channel);
+  if (!transport) {
+    if (channel === 'email' && process.env.SMTP_HOST) {
+      transport = new SmtpTransport();
+    } else if (channel === 'sms' && process.env.SMS_GATEWAY_URL) {
+      transport = new SmsGatewayTransport(process.env.SMS_GATEWAY_URL, process.env.SMS_GATEWAY_TOKEN);
+    } else if (process.env.NODE_ENV === 'production' && !process.env.NOTIFICATIONS_FILE) {
+      throw new Error(`No hay proveedor configurado para el canal ${channel}`);
+    } else {
+      transport = new FileTransport(channel, process.env.NOTIFICATIONS_FILE);
+    }
+    transports.set(channel, transport);
+  }
+  return transport;
+};
@@ -0,0 +1,171 @@
+import PDFDocument from 'pdfkit';
+import Prescription, { IPrescription, PrescriptionStatus } from '../models/Prescription';
+import { IUser } from '../models/User';
+import { addDays, formatDate } from '../utils/time';
+import { generateVerificationCode, secretsEqual } from '../utils/tokens';
+
+export const PRESCRIPTION_VALIDITY_DAYS = Number(process.env.PRESCRIPTION_VALIDITY_DAYS) || 30;
+export const MAX_PRESCRIPTION_VALIDITY_DAYS = 180;
+
+const CLINIC_NAME = process.env.CLINIC_NAME || 'Gestión Médica';
+const FRONTEND_URL = process.env.FRONTEND_URL || 'http://localhost:3000';
+const CODE_ATTEMPTS = 3;
+
+export type EffectiveStatus = PrescriptionStatus | 'vencida';
+
+export interface Pharmacy {
+  name: string;
+}
+
+export type PrescriptionData = Pick<
+  IPrescription,
+  'patient' | 'doctor' | 'prescriberLicense' | 'medications' | 'instructions' | 'appointment' | 'medicalRecord'
+> & { validDays?: number };
+
+// Una receta sin dispensar por completo deja de ser válida al vencer
+export const effectiveStatus = (prescription: IPrescription, now = new Date()): EffectiveStatus =>
+  (prescription.status === 'emitida' || prescription.status === 'dispensada_parcial') && prescription.validUntil <= now
+    ? 'vencida'
+    : prescription.status;
+
+export const verificationUrl = (code: string): string => `${FRONTEND_URL}/recetas/verificar/${code}`;
+
+// Emite la receta con un código nuevo; si coincide con uno existente se genera otro
+export const issuePrescription = async (data: PrescriptionData): Promise<IPrescription> => {
+  const { validDays, ...fields } = data;
+  const issuedAt = new Date();
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await Prescription.create({
+        ...fields,
+        verificationCode: generateVerificationCode(),
+        issuedAt,
+        validUntil: addDays(issuedAt, validDays || PRESCRIPTION_VALIDITY_DAYS),
+        status: 'emitida',
+        dispensations: [],
+      });
+    } catch (error: any) {
+      if (error?.code !== 11000 || attempt >= CODE_ATTEMPTS) throw error;
+    }
+  }
+};
+
+// Registra una entrega de forma atómica: dos farmacias no pueden dispensar a la vez
+// la misma receta, y una receta cancelada, dispensada o vencida no admite entregas
+export const dispensePrescription = (
+  code: string,
+  pharmacy: Pharmacy,
+  complete: boolean,
+  notes?: string
+): Promise<IPrescription | null> => {
+  const now = new Date();
+  return Prescription.findOneAndUpdate(
+    { verificationCode: code, status: { $in: ['emitida', 'dispensada_parcial'] }, validUntil: { $gt: now } },
+    {
+      $set: { status: complete ? 'dispensada' : 'dispensada_parcial' },
+      $push: { dispensations: { at: now, pharmacy: pharmacy.name, complete, notes } },
+    },
+    { new: true }
+  );
+};
+
+// Farmacias autorizadas a registrar dispensaciones: PHARMACY_API_KEYS="Nombre:clave,..."
+export const findPharmacy = (key: string | undefined): Pharmacy | null => {
+  if (!key) return null;
+  let pharmacy: Pharmacy | null = null;
+  for (const entry of (process.env.PHARMACY_API_KEYS || '').split(',')) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+    if (secretsEqual(entry.slice(separator + 1).trim(), key) && !pharmacy) {
+      pharmacy = { name: entry.slice(0, separator).trim() };
+    }
+  }
+  return pharmacy;
+};
+
+// Iniciales del nombre: la verificación pública no revela la identidad completa
+export const maskName = (name: string): string =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((part) => `${part[0].toUpperCase()}.`)
+    .join(' ');
+
+export const maskDocumentId = (documentId: string): string =>
+  documentId.length > 3 ? `${'*'.repeat(documentId.length - 3)}${documentId.slice(-3)}` : '***';
+
+// Datos que ve una farmacia al consultar el código: lo necesario para dispensar,
+// sin diagnósticos ni otros datos de la historia clínica
+export const publicPrescriptionView = (prescription: IPrescription, patient: IUser | null, doctor: IUser | null) => ({
+  verificationCode: prescription.verificationCode,
+  status: effectiveStatus(prescription),
+  issuedAt: prescription.issuedAt,
+  validUntil: prescription.validUntil,
+  patient: patient ? { name: maskName(patient.name), documentId: maskDocumentId(patient.documentId || '') } : null,
+  prescriber: { name: doctor?.name, specialty: doctor?.specialty, licenseNumber: prescription.prescriberLicense },
+  medications: prescription.medications.map(({ name, dosage, frequency, duration, quantity, instructions }) =>
+    ({ name, dosage, frequency, duration, quantity, instructions })),
+  instructions: prescription.instructions,
+  dispensations: prescription.dispensations,
+  cancelledAt: prescription.cancelledAt,
+});
+
+// Receta imprimible en PDF con el código y el enlace de verificación
+export const renderPrescriptionPdf = (
+  prescription: IPrescription,
+  patient: IUser,
+  doctor: IUser
+): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Receta ${prescription.verificationCode}` } });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    doc.fontSize(18).text(CLINIC_NAME, { align: 'center' });
+    if (process.env.CLINIC_ADDRESS) {
+      doc.fontSize(9).text(process.env.CLINIC_ADDRESS, { align: 'center' });
+    }
+    doc.moveDown().fontSize(14).text('Receta médica', { align: 'center' });
+    doc.moveDown();
+
+    doc.fontSize(10);
+    doc.text(`Paciente: ${patient.name}`);
+    doc.text(`Documento: ${patient.documentId || '-'}`);
+    if (patient.birthDate) {
+      doc.text(`Fecha de nacimiento: ${formatDate(patient.birthDate)}`);
+    }
+    doc.moveDown(0.5);
+    doc.text(`Prescriptor: ${doctor.name}${doctor.specialty ? ` (${doctor.specialty})` : ''}`);
+    doc.text(`Matrícula: ${prescription.prescriberLicense}`);
+    doc.text(`Fecha de emisión: ${formatDate(prescription.issuedAt)}`);
+    doc.text(`Válida hasta: ${formatDate(prescription.validUntil)}`);
+    doc.moveDown();
+
+    doc.fontSize(12).text('Rp/');
+    doc.fontSize(10);
+    prescription.medications.forEach((medication, index) => {
+      doc.moveDown(0.5).text(`${index + 1}. ${medication.name}${medication.quantity ? ` — ${medication.quantity}` : ''}`);
+      doc.text(`   ${medication.dosage}, ${medication.frequency}, durante ${medication.duration}`);
+      if (medication.instructions) {
+        doc.text(`   ${medication.instructions}`);
+      }
+    });
+
+    if (prescription.instructions) {
+      doc.moveDown().text(`Indicaciones: ${prescription.instructions}`);
+    }
+
+    const status = effectiveStatus(prescription);
+    if (status === 'cancelada' || status === 'vencida') {
+      doc.moveDown().fontSize(14).fillColor('red').text(status === 'cancelada' ? 'RECETA CANCELADA' : 'RECETA VENCIDA');
+      doc.fillColor('black').fontSize(10);
+    }
+
+    doc.moveDown(2);
+    doc.text(`Código de verificación: ${prescription.verificationCode}`);
+    doc.text(`Verifique la validez de esta receta en ${verificationUrl(prescription.verificationCode)}`);
+    doc.end();
+  });
@@ -0,0 +1,65 @@
+import { IRecurrenceRule, RECURRENCE_FREQUENCIES, RecurrenceFrequency } from '../models/AppointmentSeries';
+import { addDays, startOfDay } from '../utils/time';
+
+// Límite de ocurrencias materializadas por serie
+export const MAX_OCCURRENCES = 104;
+
+// Interpreta una regla al estilo RRULE (RFC 5545), p. ej. "FREQ=WEEKLY;INTERVAL=2;COUNT=6".
+// Solo se admiten FREQ, INTERVAL, COUNT y UNTIL; devuelve null si la regla no es válida.
+export const parseRRule = (rule: string): IRecurrenceRule | null => {
+  const parts = rule.replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const values: Record<string, string> = {};
+
+  for (const part of parts) {
+    const [key, value] = part.split('=');
+    if (!key || !value) return null;
+    values[key.toUpperCase()] = value;
+  }
+
+  const frequency = values.FREQ?.toUpperCase() as RecurrenceFrequency;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) return null;
+
+  const interval = values.INTERVAL ? Number(values.INTERVAL) : 1;
+  const count = values.COUNT ? Number(values.COUNT) : undefined;
+  let until: Date | undefined;
+  if (values.UNTIL) {
+    const match = values.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    until = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  }
+
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  if (count !== undefined && (!Number.isInteger(count) || count < 1)) return null;
+
+  return { frequency, interval, count, until };
+};
+
+// Genera los días de cada ocurrencia a partir de `startDate`. En la frecuencia
+// mensual los meses que no tienen ese día (p. ej. 31) se omiten, como en RFC 5545.
+export const expandRecurrence = (startDate: Date, rule: IRecurrenceRule): Date[] => {
+  const first = startOfDay(startDate);
+  const until = rule.until ? startOfDay(rule.until) : undefined;
+  const limit = Math.min(rule.count ?? MAX_OCCURRENCES, MAX_OCCURRENCES);
+  const interval = rule.interval || 1;
+  const dates: Date[] = [];
+
+  for (let step = 0; dates.length < limit && step < MAX_OCCURRENCES * 12; step++) {
+    let candidate: Date;
+    if (rule.frequency === 'MONTHLY') {
+      candidate = new Date(Date.UTC(
+        first.getUTCFullYear(),
+        first.getUTCMonth() + step * interval,
+        first.getUTCDate()
+      ));
+      if (candidate.getUTCDate() !== first.getUTCDate()) continue;
+    } else {
+      const days = rule.frequency === 'WEEKLY' ? 7 : 1;
+      candidate = addDays(first, step * interval * days);
+    }
+
+    if (until && candidate > until) break;
+    dates.push(candidate);
+  }
+
+  return dates;
+};
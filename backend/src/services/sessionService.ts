@@ -0,0 +1,122 @@
+import { Request } from 'express';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { ACCESS_TOKEN_TTL, getJwtSecret, REFRESH_TOKEN_TTL_DAYS } from '../config/auth';
+import Session, { ISession, SessionRevocationReason } from '../models/Session';
+import User, { IUser } from '../models/User';
+import { generateToken, hashToken } from '../utils/tokens';
+
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: string;
+  sid: string;
+  type: 'access';
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export type ActiveSession = Omit<ISession, 'user'> & { user: IUser };
+
+export interface RefreshResult {
+  tokens?: SessionTokens;
+  error?: string;
+}
+
+const refreshExpiry = (): Date => new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const signAccessToken = (user: IUser, sessionId: string): string => {
+  const payload: AccessTokenPayload = {
+    id: user.id,
+    email: user.email,
+    role: user.role,
+    sid: sessionId,
+    type: 'access',
+  };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions);
+};
+
+// Abre una sesión nueva (una familia de refresh tokens) y emite el primer par de tokens
+export const createSession = async (user: IUser, req: Request): Promise<SessionTokens> => {
+  const refreshToken = generateToken();
+  const session = await Session.create({
+    user: user._id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: refreshExpiry(),
+    ip: req.ip,
+    userAgent: req.get('User-Agent'),
+  });
+
+  return { token: signAccessToken(user, session.id), refreshToken };
+};
+
+export const revokeSession = async (
+  sessionId: string | mongoose.Types.ObjectId,
+  reason: SessionRevocationReason
+): Promise<void> => {
+  await Session.updateOne(
+    { _id: sessionId, revokedAt: { $exists: false } },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+};
+
+export const revokeAllSessions = async (
+  userId: string | mongoose.Types.ObjectId,
+  reason: SessionRevocationReason,
+  exceptSessionId?: string
+): Promise<number> => {
+  const query: any = { user: userId, revokedAt: { $exists: false } };
+  if (exceptSessionId) {
+    query._id = { $ne: exceptSessionId };
+  }
+  const { modifiedCount } = await Session.updateMany(query, { revokedAt: new Date(), revokedReason: reason });
+  return modifiedCount;
+};
+
+// Intercambia un refresh token por un par nuevo. La rotación es atómica: el token
+// presentado deja de ser válido en el mismo update que registra el nuevo. Si llega
+// un token ya rotado se asume que fue robado y se revoca toda la familia.
+export const rotateRefreshToken = async (refreshToken: string, req: Request): Promise<RefreshResult> => {
+  const tokenHash = hashToken(refreshToken);
+  const nextToken = generateToken();
+  const now = new Date();
+
+  const session = await Session.findOneAndUpdate(
+    { tokenHash, revokedAt: { $exists: false }, expiresAt: { $gt: now } },
+    {
+      $set: { tokenHash: hashToken(nextToken), lastUsedAt: now, ip: req.ip },
+      $push: { previousTokenHashes: tokenHash },
+    },
+    { new: true }
+  );
+
+  if (!session) {
+    const reused = await Session.findOne({ previousTokenHashes: tokenHash });
+    if (reused) {
+      await revokeSession(reused._id, 'reutilizacion');
+      return { error: 'Refresh token reutilizado: la sesión ha sido revocada' };
+    }
+    return { error: 'Refresh token inválido o expirado' };
+  }
+
+  const user = await User.findById(session.user);
+  if (!user || !user.active) {
+    await revokeSession(session._id, 'desactivacion');
+    return { error: 'Usuario inactivo' };
+  }
+
+  return { tokens: { token: signAccessToken(user, session.id), refreshToken: nextToken } };
+};
+
+// Sesión vigente (no revocada ni expirada) junto con su usuario
+export const findActiveSession = async (sessionId: string): Promise<ActiveSession | null> => {
+  if (!mongoose.isValidObjectId(sessionId)) return null;
+  return Session.findOne({
+    _id: sessionId,
+    revokedAt: { $exists: false },
+    expiresAt: { $gt: new Date() },
+  }).populate<{ user: IUser }>('user', 'email role active');
+};
@@ -0,0 +1,109 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+export interface StoredObjectInfo {
+  contentType: string;
+}
+
+export interface StorageBackend {
+  put(key: string, body: Buffer, info: StoredObjectInfo): Promise<void>;
+  get(key: string): Promise<Readable>;
+}
+
+export class StoredObjectNotFoundError extends Error {}
+
+// Almacenamiento en disco local (STORAGE_LOCAL_DIR), pensado para desarrollo y
+// para instalaciones con un volumen persistente
+export class LocalDiskStorage implements StorageBackend {
+  constructor(private readonly root: string) {}
+
+  // Las claves las genera la aplicación, pero se comprueba igualmente que no salgan del directorio
+  private resolve(key: string): string {
+    const target = path.resolve(this.root, key);
+    if (!target.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Clave de almacenamiento inválida: ${key}`);
+    }
+    return target;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    // wx: un objeto guardado nunca se sobrescribe
+    await fs.promises.writeFile(target, body, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const target = this.resolve(key);
+    try {
+      await fs.promises.access(target, fs.constants.R_OK);
+    } catch {
+      throw new StoredObjectNotFoundError(`Objeto no encontrado: ${key}`);
+    }
+    return fs.createReadStream(target);
+  }
+}
+
+// Almacenamiento compatible con S3 (AWS, MinIO, etc.): S3_BUCKET, S3_REGION y, para
+// otros proveedores, S3_ENDPOINT y S3_FORCE_PATH_STYLE. Las credenciales se toman de
+// S3_ACCESS_KEY_ID / S3_SECRET_ACCESS_KEY o de la configuración estándar de AWS.
+export class S3Storage implements StorageBackend {
+  private readonly client: S3Client;
+
+  constructor(private readonly bucket: string) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      credentials: process.env.S3_ACCESS_KEY_ID
+        ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '' }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Buffer, info: StoredObjectInfo): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: body,
+      ContentType: info.contentType,
+      ServerSideEncryption: process.env.S3_SERVER_SIDE_ENCRYPTION === 'false' ? undefined : 'AES256',
+    }));
+  }
+
+  async get(key: string): Promise<Readable> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      return response.Body as Readable;
+    } catch (error: any) {
+      if (error?.name === 'NoSuchKey') throw new StoredObjectNotFoundError(`Objeto no encontrado: ${key}`);
+      throw error;
+    }
+  }
+}
+
+let storage: StorageBackend | undefined;
+
+// Permite sustituir el almacenamiento (p. ej. en pruebas o con otro proveedor)
+export const registerStorage = (backend: StorageBackend): void => {
+  storage = backend;
+};
+
+// Almacenamiento configurado con STORAGE_DRIVER (local por defecto, o s3). En producción
+// el disco local solo se admite si STORAGE_LOCAL_DIR apunta a un volumen persistente:
+// en Vercel el sistema de ficheros es efímero y los adjuntos se perderían.
+export const getStorage = (): StorageBackend => {
+  if (!storage) {
+    if (process.env.STORAGE_DRIVER === 's3') {
+      if (!process.env.S3_BUCKET) throw new Error('S3_BUCKET es obligatorio con STORAGE_DRIVER=s3');
+      storage = new S3Storage(process.env.S3_BUCKET);
+    } else if (process.env.NODE_ENV === 'production' && !process.env.STORAGE_LOCAL_DIR) {
+      throw new Error('En producción se requiere STORAGE_DRIVER=s3 o un STORAGE_LOCAL_DIR persistente');
+    } else {
+      storage = new LocalDiskStorage(process.env.STORAGE_LOCAL_DIR || path.resolve(process.cwd(), 'uploads'));
+    }
+  }
+  return storage;
+};
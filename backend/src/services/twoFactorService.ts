@@ -0,0 +1,151 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import { CHALLENGE_TOKEN_TTL, getJwtSecret, TWO_FACTOR_ISSUER, TWO_FACTOR_REQUIRED_ROLES } from '../config/auth';
+import User, { IUser } from '../models/User';
+import { hashToken } from '../utils/tokens';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../utils/totp';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// segundo_factor: la contraseña es correcta y falta el código TOTP.
+// alta_segundo_factor: el rol exige 2FA y el usuario aún no lo ha configurado.
+export type ChallengePurpose = 'segundo_factor' | 'alta_segundo_factor';
+
+export interface ChallengeTokenPayload {
+  id: string;
+  type: 'challenge';
+  purpose: ChallengePurpose;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface SecondFactorInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+type UserId = string | mongoose.Types.ObjectId;
+
+export const isTwoFactorRequired = (role: string): boolean => TWO_FACTOR_REQUIRED_ROLES.includes(role);
+
+export const signChallengeToken = (user: IUser, purpose: ChallengePurpose): string => {
+  const payload: ChallengeTokenPayload = { id: user.id, type: 'challenge', purpose };
+  return jwt.sign(payload, getJwtSecret(), { expiresIn: CHALLENGE_TOKEN_TTL } as jwt.SignOptions);
+};
+
+// Devuelve el id del usuario si el token es un reto vigente con el propósito indicado
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): string | null => {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret()) as ChallengeTokenPayload;
+    return decoded.type === 'challenge' && decoded.purpose === purpose ? decoded.id : null;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Códigos de un solo uso con formato xxxxx-xxxxx; solo se guarda su hash
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(5).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+const normalizeRecoveryCode = (code: string): string => code.trim().toLowerCase();
+
+const replaceRecoveryCodes = async (userId: UserId): Promise<string[]> => {
+  const codes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: userId },
+    { twoFactorRecoveryCodes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) }
+  );
+  return codes;
+};
+
+// Un código TOTP solo se acepta una vez: el paso usado debe ser posterior al último
+const consumeTotpStep = async (userId: UserId, step: number): Promise<boolean> => {
+  const { modifiedCount } = await User.updateOne(
+    {
+      _id: userId,
+      $or: [{ twoFactorLastStep: { $exists: false } }, { twoFactorLastStep: { $lt: step } }],
+    },
+    { twoFactorLastStep: step }
+  );
+  return modifiedCount === 1;
+};
+
+// Genera un secreto pendiente de confirmar; el 2FA no se activa hasta validar un primer código
+export const startEnrollment = async (user: IUser): Promise<TwoFactorEnrollment> => {
+  const secret = generateTotpSecret();
+  await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER) };
+};
+
+// Activa el 2FA si el código corresponde al secreto pendiente y devuelve los códigos de recuperación
+export const confirmEnrollment = async (userId: UserId, code: string): Promise<string[] | null> => {
+  const user = await User.findById(userId).select('+twoFactorPendingSecret');
+  if (!user?.twoFactorPendingSecret) return null;
+
+  const step = verifyTotp(user.twoFactorPendingSecret, code);
+  if (step === null) return null;
+
+  // El secreto está cifrado con un IV aleatorio: se compara el valor guardado tal cual
+  const { modifiedCount } = await User.updateOne(
+    { _id: user._id, twoFactorPendingSecret: user.get('twoFactorPendingSecret', null, { getters: false }) },
+    {
+      $set: {
+        twoFactorEnabled: true,
+        twoFactorEnabledAt: new Date(),
+        twoFactorSecret: user.twoFactorPendingSecret,
+        twoFactorLastStep: step,
+      },
+      $unset: { twoFactorPendingSecret: 1 },
+    }
+  );
+  if (modifiedCount !== 1) return null;
+
+  return replaceRecoveryCodes(user._id);
+};
+
+// Comprueba un código TOTP o, en su defecto, consume un código de recuperación
+export const verifySecondFactor = async (userId: UserId, input: SecondFactorInput): Promise<boolean> => {
+  const user = await User.findById(userId).select('+twoFactorSecret');
+  if (!user?.twoFactorEnabled || !user.twoFactorSecret) return false;
+
+  if (input.code) {
+    const step = verifyTotp(user.twoFactorSecret, input.code);
+    return step !== null && consumeTotpStep(user._id, step);
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(input.recoveryCode));
+    const { modifiedCount } = await User.updateOne(
+      { _id: user._id, twoFactorRecoveryCodes: hash },
+      { $pull: { twoFactorRecoveryCodes: hash } }
+    );
+    return modifiedCount === 1;
+  }
+
+  return false;
+};
+
+export const regenerateRecoveryCodes = (userId: UserId): Promise<string[]> => replaceRecoveryCodes(userId);
+
+export const disableTwoFactor = async (userId: UserId): Promise<void> => {
+  await User.updateOne(
+    { _id: userId },
+    {
+      $set: { twoFactorEnabled: false },
+      $unset: {
+        twoFactorEnabledAt: 1,
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorRecoveryCodes: 1,
+        twoFactorLastStep: 1,
+      },
+    }
+  );
+};
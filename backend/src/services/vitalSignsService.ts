@@ -0,0 +1,136 @@
+import { FilterQuery } from 'mongoose';
+import MedicalRecord, { IMedicalRecord } from '../models/MedicalRecord';
+import {
+  EvaluatedMeasure,
+  evaluateVitalSigns,
+  measuredValues,
+  referenceRangesFor,
+  TREND_THRESHOLDS,
+  VITAL_SIGN_MEASURES,
+  VitalSignFlag,
+  VitalSignMeasure
+} from '../utils/vitalSigns';
+
+// Series temporales de signos vitales de un paciente a partir de sus registros médicos
+
+export interface SeriesPoint {
+  date: Date;
+  record: unknown;
+  value: number;
+  flag?: Pick<VitalSignFlag, 'level' | 'direction'>;
+}
+
+export type Trend = 'sube' | 'baja' | 'estable';
+
+export interface MeasureSummary {
+  count: number;
+  latest: SeriesPoint;
+  previous?: SeriesPoint;
+  change?: number;
+  trend?: Trend;
+  min: number;
+  max: number;
+  average: number;
+  outOfRange: number;
+}
+
+export interface SeriesOptions {
+  measures?: VitalSignMeasure[];
+  from?: Date;
+  to?: Date;
+}
+
+// La presión arterial se devuelve como dos series: sistólica y diastólica
+const SERIES_BY_MEASURE: Record<VitalSignMeasure, EvaluatedMeasure[]> = {
+  bloodPressure: ['systolic', 'diastolic'],
+  heartRate: ['heartRate'],
+  temperature: ['temperature'],
+  respiratoryRate: ['respiratoryRate'],
+  oxygenSaturation: ['oxygenSaturation'],
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+// Los registros anteriores al cálculo de marcas se evalúan al vuelo
+const flagsOf = (record: IMedicalRecord, birthDate?: Date): VitalSignFlag[] =>
+  record.vitalSignFlags ?? evaluateVitalSigns(record.vitalSigns || {}, birthDate, record.date);
+
+export const getVitalSignSeries = async (
+  patientId: string,
+  birthDate: Date | undefined,
+  accessFilter: FilterQuery<IMedicalRecord>,
+  options: SeriesOptions = {}
+): Promise<{ records: IMedicalRecord[]; series: Partial<Record<EvaluatedMeasure, SeriesPoint[]>> }> => {
+  const measures = options.measures?.length ? options.measures : [...VITAL_SIGN_MEASURES];
+  const evaluated = measures.flatMap((measure) => SERIES_BY_MEASURE[measure]);
+
+  const query: any = {
+    patient: patientId,
+    $or: measures.map((measure) => ({ [`vitalSigns.${measure}`]: { $exists: true } })),
+  };
+  if (options.from || options.to) {
+    query.date = {};
+    if (options.from) query.date.$gte = options.from;
+    if (options.to) query.date.$lte = options.to;
+  }
+
+  const records = await MedicalRecord.find({ $and: [query, accessFilter] })
+    .select('patient date vitalSigns vitalSignFlags')
+    .sort({ date: 1 });
+
+  const series: Partial<Record<EvaluatedMeasure, SeriesPoint[]>> = Object.fromEntries(
+    evaluated.map((measure) => [measure, []])
+  );
+  for (const record of records) {
+    const flags = flagsOf(record, birthDate);
+    for (const [measure, value] of measuredValues(record.vitalSigns || {})) {
+      if (!series[measure]) continue;
+      const flag = flags.find((item) => item.measure === measure);
+      series[measure]!.push({
+        date: record.date,
+        record: record._id,
+        value,
+        ...(flag ? { flag: { level: flag.level, direction: flag.direction } } : {}),
+      });
+    }
+  }
+
+  return { records, series };
+};
+
+// Resumen de cada serie: último valor, cambio respecto a la visita anterior y tendencia
+export const summarizeSeries = (
+  series: Partial<Record<EvaluatedMeasure, SeriesPoint[]>>
+): Partial<Record<EvaluatedMeasure, MeasureSummary>> => {
+  const summary: Partial<Record<EvaluatedMeasure, MeasureSummary>> = {};
+
+  for (const [measure, points] of Object.entries(series) as [EvaluatedMeasure, SeriesPoint[]][]) {
+    if (!points.length) continue;
+    const values = points.map((point) => point.value);
+    const latest = points[points.length - 1];
+    const previous = points.length > 1 ? points[points.length - 2] : undefined;
+
+    let trend: Trend | undefined;
+    let change: number | undefined;
+    if (previous) {
+      change = round(latest.value - previous.value);
+      trend = Math.abs(change) <= TREND_THRESHOLDS[measure] ? 'estable' : change > 0 ? 'sube' : 'baja';
+    }
+
+    summary[measure] = {
+      count: points.length,
+      latest,
+      previous,
+      change,
+      trend,
+      min: Math.min(...values),
+      max: Math.max(...values),
+      average: round(values.reduce((total, value) => total + value, 0) / values.length),
+      outOfRange: points.filter((point) => point.flag).length,
+    };
+  }
+
+  return summary;
+};
+
+export const currentReferenceRanges = (birthDate: Date | undefined) => referenceRangesFor(birthDate, new Date());
@@ -0,0 +1,187 @@
+import Appointment, { IAppointment } from '../models/Appointment';
+import SlotOffer, { ISlotOffer } from '../models/SlotOffer';
+import User from '../models/User';
+import WaitlistEntry from '../models/WaitlistEntry';
+import { findSlotConflict, reserveSlot, withBookingLock } from './availabilityService';
+import { initialStatusHistory, StatusActor } from './appointmentStatus';
+import { notifyAppointmentEvent, notifyWaitlistOffer } from './notifications/notificationService';
+import { startOfDay } from '../utils/time';
+
+// Minutos que el paciente tiene para aceptar un hueco antes de que pase al siguiente
+export const HOLD_MINUTES = Number(process.env.WAITLIST_HOLD_MINUTES) || 120;
+
+export interface FreedSlot {
+  doctor: IAppointment['doctor'];
+  date: Date;
+  startTime: string;
+  endTime: string;
+  type: IAppointment['type'];
+  sourceAppointment?: IAppointment['_id'];
+}
+
+export interface OfferAcceptance {
+  appointment?: IAppointment;
+  error?: string;
+}
+
+// Ofrece el hueco a la primera entrada activa compatible (orden de llegada) que
+// no lo haya recibido antes. La entrada se reclama y la oferta se crea bajo el
+// bloqueo de la agenda, para que nadie reserve el hueco entre la comprobación y la
+// retención; el reclamo es atómico para que dos huecos no se ofrezcan a la vez a la
+// misma entrada.
+export const offerSlot = async (slot: FreedSlot): Promise<ISlotOffer | null> => {
+  const day = startOfDay(slot.date);
+  if (day < startOfDay(new Date())) return null;
+
+  const doctor = await User.findOne({ _id: slot.doctor, role: 'doctor' });
+  if (!doctor) return null;
+
+  const matchDoctor: any[] = [{ doctor: slot.doctor }];
+  if (doctor.specialty) {
+    matchDoctor.push({ doctor: { $exists: false }, specialty: doctor.specialty });
+  }
+
+  const offer = await withBookingLock(doctor._id, day, async () => {
+    const conflict = await findSlotConflict(doctor, day, slot.startTime, slot.endTime);
+    if (conflict) return null;
+
+    const alreadyOffered = await SlotOffer.find({
+      doctor: slot.doctor,
+      date: day,
+      startTime: slot.startTime,
+    }).distinct('entry');
+
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      {
+        status: 'activa',
+        type: slot.type,
+        preferredFrom: { $lte: day },
+        preferredTo: { $gte: day },
+        _id: { $nin: alreadyOffered },
+        $or: matchDoctor,
+      },
+      { status: 'ofertada' },
+      { sort: { createdAt: 1 }, new: true }
+    );
+    if (!entry) return null;
+
+    return SlotOffer.create({
+      entry: entry._id,
+      patient: entry.patient,
+      doctor: doctor._id,
+      date: day,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      type: slot.type,
+      expiresAt: new Date(Date.now() + HOLD_MINUTES * 60 * 1000),
+      sourceAppointment: slot.sourceAppointment,
+    });
+  });
+
+  if (offer) {
+    await notifyWaitlistOffer(offer);
+  }
+  return offer;
+};
+
+export const offerFreedSlot = (appointment: IAppointment): Promise<ISlotOffer | null> =>
+  offerSlot({
+    doctor: appointment.doctor,
+    date: appointment.date,
+    startTime: appointment.startTime,
+    endTime: appointment.endTime,
+    type: appointment.type,
+    sourceAppointment: appointment._id,
+  });
+
+// Cierra una oferta sin aceptar y pasa el hueco a la siguiente persona. Solo la
+// petición que cierra la oferta pendiente la pasa, aunque varias la procesen a la vez.
+const releaseOffer = async (offer: ISlotOffer, status: 'rechazada' | 'expirada'): Promise<void> => {
+  const { modifiedCount } = await SlotOffer.updateOne(
+    { _id: offer._id, status: 'pendiente' },
+    { status, respondedAt: new Date() }
+  );
+  if (!modifiedCount) return;
+
+  await WaitlistEntry.updateOne({ _id: offer.entry, status: 'ofertada' }, { status: 'activa' });
+  await offerSlot(offer);
+};
+
+export const declineOffer = (offer: ISlotOffer): Promise<void> => releaseOffer(offer, 'rechazada');
+
+// Procesa las ofertas vencidas y las entradas cuya ventana ya pasó. Lo ejecuta la
+// tarea programada de /api/waitlist/offers/expire, ya que en Vercel no hay procesos
+// en segundo plano; las consultas de la lista de espera no modifican nada.
+export const processWaitlistExpirations = async (): Promise<number> => {
+  await WaitlistEntry.updateMany(
+    { status: 'activa', preferredTo: { $lt: startOfDay(new Date()) } },
+    { status: 'expirada' }
+  );
+
+  const expired = await SlotOffer.find({ status: 'pendiente', expiresAt: { $lte: new Date() } });
+  for (const offer of expired) {
+    await releaseOffer(offer, 'expirada');
+  }
+  return expired.length;
+};
+
+export const acceptOffer = async (offer: ISlotOffer, actor: StatusActor): Promise<OfferAcceptance> => {
+  if (offer.expiresAt <= new Date()) {
+    await releaseOffer(offer, 'expirada');
+    return { error: 'La oferta ha expirado' };
+  }
+
+  const doctor = await User.findById(offer.doctor);
+  if (!doctor) {
+    return { error: 'Doctor no encontrado' };
+  }
+
+  const entry = await WaitlistEntry.findById(offer.entry);
+  const { result: appointment, conflict } = await reserveSlot(
+    doctor,
+    offer.date,
+    offer.startTime,
+    offer.endTime,
+    async () => {
+      const created = await Appointment.create({
+        patient: offer.patient,
+        doctor: offer.doctor,
+        date: offer.date,
+        startTime: offer.startTime,
+        endTime: offer.endTime,
+        type: offer.type,
+        reason: entry?.notes || 'Cita asignada desde la lista de espera',
+        status: 'pendiente',
+        statusHistory: initialStatusHistory(actor),
+      });
+
+      offer.status = 'aceptada';
+      offer.respondedAt = new Date();
+      offer.appointment = created._id;
+      await offer.save();
+      return created;
+    },
+    { offer: offer._id }
+  );
+
+  if (conflict) {
+    // Solo se invalida si otra petición no la aceptó mientras tanto
+    const { modifiedCount } = await SlotOffer.updateOne(
+      { _id: offer._id, status: 'pendiente' },
+      { status: 'invalidada', respondedAt: new Date() }
+    );
+    if (modifiedCount) {
+      await WaitlistEntry.updateOne({ _id: offer.entry, status: 'ofertada' }, { status: 'activa' });
+    }
+    return { error: conflict };
+  }
+
+  if (entry) {
+    entry.status = 'asignada';
+    entry.appointment = appointment!._id;
+    await entry.save();
+  }
+
+  await notifyAppointmentEvent(appointment!, 'creada');
+  return { appointment };
+};
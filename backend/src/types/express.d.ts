@@ -1,4 +1,6 @@
 import { Request } from 'express';
+import { BruteForceState } from '../services/bruteForceService';
+import { ListingParams } from '../services/listing';
 
 declare global {
   namespace Express {
@@ -7,7 +9,12 @@ declare global {
         id: string;
         email: string;
         role: string;
+        sessionId?: string;
       };
+      // Claves de intentos fallidos fijadas por bruteForceGuard
+      bruteForce?: BruteForceState;
+      // Paginación, orden y campos de un listado, fijados por el middleware listing
+      listing?: ListingParams;
     }
   }
 } 
\ No newline at end of file
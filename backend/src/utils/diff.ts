@@ -0,0 +1,34 @@
+// Comparación de objetos planos (p. ej. el resultado de toJSON) campo a campo.
+
+export interface FieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Serialización con las claves ordenadas, para comparar y firmar contenidos de forma estable
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value).filter((key) => value[key] !== undefined).sort();
+    return `{${keys.map((key) => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value instanceof Date ? value.toISOString() : value) ?? 'null';
+};
+
+// Lista de cambios entre dos versiones. Los objetos se recorren campo a campo;
+// las listas se comparan enteras.
+export const diffObjects = (before: unknown, after: unknown, prefix = ''): FieldChange[] => {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return keys.flatMap((key) => diffObjects(before[key], after[key], prefix ? `${prefix}.${key}` : key));
+  }
+
+  if (canonicalJson(before) === canonicalJson(after)) return [];
+  return [{ path: prefix, before, after }];
+};
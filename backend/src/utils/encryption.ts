@@ -0,0 +1,41 @@
+import crypto from 'crypto';
+import { getKeyring } from '../config/encryption';
+
+// Cifrado AES-256-GCM de valores de texto. El resultado incluye el id de la clave
+// para poder descifrarlo tras una rotación: enc:<id>:<iv>:<tag>:<datos> (base64).
+
+const PREFIX = 'enc';
+const IV_BYTES = 12;
+
+export const isEncrypted = (value: unknown): value is string =>
+  typeof value === 'string' && value.startsWith(`${PREFIX}:`) && value.split(':').length === 5;
+
+export const keyIdOf = (value: string): string | undefined => (isEncrypted(value) ? value.split(':')[1] : undefined);
+
+export const encryptValue = (plaintext: string): string => {
+  const { activeKeyId, keys } = getKeyring();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', keys.get(activeKeyId)!, iv);
+  const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [PREFIX, activeKeyId, iv.toString('base64'), cipher.getAuthTag().toString('base64'), data.toString('base64')].join(':');
+};
+
+// Los valores sin cifrar (datos anteriores a la migración) se devuelven tal cual
+export const decryptValue = (value: string): string => {
+  if (!isEncrypted(value)) return value;
+
+  const [, keyId, iv, tag, data] = value.split(':');
+  const key = getKeyring().keys.get(keyId);
+  if (!key) {
+    throw new Error(`No se encuentra la clave de cifrado ${keyId}`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// Índice ciego: HMAC determinista que permite buscar por igualdad y exigir unicidad
+// sin guardar el valor en claro
+export const blindIndex = (value: string): string =>
+  crypto.createHmac('sha256', getKeyring().blindIndexKey).update(value.trim().toUpperCase()).digest('hex');
@@ -0,0 +1,136 @@
+// Lematizador del español basado en el algoritmo Snowball (sin la eliminación de
+// pronombres enclíticos). Trabaja sobre palabras ya normalizadas con foldText, sin
+// tildes, de modo que "torácico", "torácica" y "toracicos" comparten raíz ("torac").
+
+const isVowel = (char: string | undefined): boolean => char !== undefined && 'aeiou'.includes(char);
+
+// Inicio de la región que sigue a la primera consonante precedida de vocal
+const regionAfterConsonant = (word: string, from: number): number => {
+  for (let i = from + 1; i < word.length; i++) {
+    if (!isVowel(word[i]) && isVowel(word[i - 1])) return i + 1;
+  }
+  return word.length;
+};
+
+const regionRV = (word: string): number => {
+  if (word.length < 2) return word.length;
+  if (!isVowel(word[1])) {
+    for (let i = 2; i < word.length; i++) {
+      if (isVowel(word[i])) return i + 1;
+    }
+    return word.length;
+  }
+  if (isVowel(word[0])) {
+    for (let i = 2; i < word.length; i++) {
+      if (!isVowel(word[i])) return i + 1;
+    }
+    return word.length;
+  }
+  return 3;
+};
+
+// Sufijo más largo de la lista con el que termina la palabra
+const longestSuffix = (word: string, suffixes: string[]): string | undefined =>
+  suffixes.filter((suffix) => word.endsWith(suffix)).sort((a, b) => b.length - a.length)[0];
+
+const STEP1_DELETE = [
+  'anza', 'anzas', 'ico', 'ica', 'icos', 'icas', 'ismo', 'ismos', 'able', 'ables', 'ible', 'ibles',
+  'ista', 'istas', 'oso', 'osa', 'osos', 'osas', 'amiento', 'amientos', 'imiento', 'imientos',
+];
+const STEP1_ADOR = ['adora', 'ador', 'acion', 'adoras', 'adores', 'aciones', 'ante', 'antes', 'ancia', 'ancias'];
+const STEP1_REPLACE: [string[], string][] = [
+  [['logia', 'logias'], 'log'],
+  [['ucion', 'uciones'], 'u'],
+  [['encia', 'encias'], 'ente'],
+];
+
+const STEP2_GU = ['en', 'es', 'eis', 'emos'];
+const STEP2_DELETE = [
+  'arian', 'arias', 'aran', 'aras', 'ariais', 'aria', 'areis', 'ariamos', 'aremos', 'ara', 'are',
+  'erian', 'erias', 'eran', 'eras', 'eriais', 'eria', 'ereis', 'eriamos', 'eremos', 'era', 'ere',
+  'irian', 'irias', 'iran', 'iras', 'iriais', 'iria', 'ireis', 'iriamos', 'iremos', 'ira', 'ire',
+  'aba', 'ada', 'ida', 'ia', 'iera', 'ad', 'ed', 'id', 'ase', 'iese', 'aste', 'iste', 'an', 'aban',
+  'ian', 'ieran', 'asen', 'iesen', 'aron', 'ieron', 'ado', 'ido', 'ando', 'iendo', 'io', 'ar', 'er',
+  'ir', 'as', 'abas', 'adas', 'idas', 'ias', 'ieras', 'ases', 'ieses', 'is', 'ais', 'abais', 'iais',
+  'arais', 'ierais', 'aseis', 'ieseis', 'asteis', 'isteis', 'ados', 'idos', 'amos', 'abamos', 'iamos',
+  'imos', 'aramos', 'ieramos', 'iesemos', 'asemos',
+];
+
+// Sufijos derivativos (-ico, -mente, -idad, -ción...) dentro de la región R2 o R1
+const standardSuffix = (word: string, r1: number, r2: number): string | undefined => {
+  const inR2 = (suffix: string) => word.length - suffix.length >= r2;
+  const strip = (suffix: string) => word.slice(0, -suffix.length);
+
+  const candidates = [
+    ...STEP1_DELETE, ...STEP1_ADOR, ...STEP1_REPLACE.flatMap(([suffixes]) => suffixes),
+    'amente', 'mente', 'idad', 'idades', 'iva', 'ivo', 'ivas', 'ivos',
+  ];
+  const suffix = longestSuffix(word, candidates);
+  if (!suffix) return undefined;
+
+  if (STEP1_DELETE.includes(suffix)) return inR2(suffix) ? strip(suffix) : undefined;
+
+  if (STEP1_ADOR.includes(suffix)) {
+    if (!inR2(suffix)) return undefined;
+    const stem = strip(suffix);
+    return stem.endsWith('ic') && stem.length - 2 >= r2 ? stem.slice(0, -2) : stem;
+  }
+
+  const replacement = STEP1_REPLACE.find(([suffixes]) => suffixes.includes(suffix));
+  if (replacement) return inR2(suffix) ? strip(suffix) + replacement[1] : undefined;
+
+  if (suffix === 'amente') {
+    if (word.length - suffix.length < r1) return undefined;
+    let stem = strip(suffix);
+    if (stem.endsWith('iv') && stem.length - 2 >= r2) {
+      stem = stem.slice(0, -2);
+      if (stem.endsWith('at') && stem.length - 2 >= r2) stem = stem.slice(0, -2);
+    } else {
+      const preceding = ['os', 'ic', 'ad'].find((end) => stem.endsWith(end) && stem.length - end.length >= r2);
+      if (preceding) stem = stem.slice(0, -preceding.length);
+    }
+    return stem;
+  }
+
+  if (suffix === 'mente') return inR2(suffix) ? strip(suffix) : undefined;
+
+  if (suffix === 'idad' || suffix === 'idades') {
+    if (!inR2(suffix)) return undefined;
+    const stem = strip(suffix);
+    const preceding = ['abil', 'ic', 'iv'].find((end) => stem.endsWith(end) && stem.length - end.length >= r2);
+    return preceding ? stem.slice(0, -preceding.length) : stem;
+  }
+
+  // -iva, -ivo, -ivas, -ivos
+  if (!inR2(suffix)) return undefined;
+  const stem = strip(suffix);
+  return stem.endsWith('at') && stem.length - 2 >= r2 ? stem.slice(0, -2) : stem;
+};
+
+// Terminaciones verbales dentro de la región RV
+const verbSuffix = (word: string, rv: number): string | undefined => {
+  const suffix = longestSuffix(word, [...STEP2_GU, ...STEP2_DELETE]);
+  if (!suffix || word.length - suffix.length < rv) return undefined;
+
+  const stem = word.slice(0, -suffix.length);
+  return STEP2_GU.includes(suffix) && stem.endsWith('gu') ? stem.slice(0, -1) : stem;
+};
+
+export const stemSpanish = (word: string): string => {
+  if (word.length < 3 || /[0-9]/.test(word)) return word;
+
+  const rv = regionRV(word);
+  const r1 = regionAfterConsonant(word, 0);
+  const r2 = regionAfterConsonant(word, r1);
+
+  let stem = standardSuffix(word, r1, r2) ?? verbSuffix(word, rv) ?? word;
+
+  // Vocal residual final (-os, -a, -o, -i, -e)
+  const residual = longestSuffix(stem, ['os', 'a', 'o', 'i', 'e']);
+  if (residual && stem.length - residual.length >= rv) {
+    stem = stem.slice(0, -residual.length);
+    if (residual === 'e' && stem.endsWith('gu') && stem.length - 1 >= rv) stem = stem.slice(0, -1);
+  }
+
+  return stem;
+};
@@ -0,0 +1,45 @@
+import { stemSpanish } from './spanishStemmer';
+
+// Texto en minúsculas, sin tildes ni signos de puntuación, para comparar términos
+// con independencia de cómo se hayan escrito ("Ácido" y "acido" coinciden)
+export const foldText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Palabras vacías que no se indexan ni se buscan
+const STOPWORDS = new Set([
+  'a', 'al', 'ante', 'con', 'contra', 'de', 'del', 'desde', 'durante', 'e', 'el', 'ella', 'ellas',
+  'ellos', 'en', 'entre', 'era', 'es', 'esa', 'ese', 'eso', 'esta', 'este', 'esto', 'fue', 'ha', 'hace',
+  'han', 'hasta', 'hay', 'la', 'las', 'le', 'les', 'lo', 'los', 'mas', 'me', 'mi', 'mis', 'muy', 'ni',
+  'no', 'nos', 'o', 'para', 'pero', 'por', 'que', 'se', 'segun', 'ser', 'si', 'sin', 'sobre', 'su', 'sus',
+  'tambien', 'te', 'tras', 'u', 'un', 'una', 'unas', 'uno', 'unos', 'y', 'ya',
+]);
+
+export interface TextTerm {
+  // Raíz de la palabra, que es lo que se indexa y compara
+  term: string;
+  // Posición de la palabra en el texto original
+  start: number;
+  end: number;
+}
+
+// Palabras significativas de un texto con su raíz en español y su posición, para
+// buscar "dolores torácicos" y encontrar "dolor torácico"
+export const analyzeText = (text: string): TextTerm[] => {
+  const terms: TextTerm[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const word = foldText(match[0]);
+    if (!word || STOPWORDS.has(word)) continue;
+    terms.push({ term: stemSpanish(word), start: match.index, end: match.index + match[0].length });
+  }
+  return terms;
+};
+
+// Raíces distintas de un texto, en el orden en que aparecen
+export const textTerms = (text: string): string[] => [...new Set(analyzeText(text).map(({ term }) => term))];
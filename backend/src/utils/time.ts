@@ -0,0 +1,54 @@
+// Utilidades para trabajar con fechas de calendario y horas en formato HH:mm.
+// Las citas guardan el día en `date` (medianoche UTC) y la hora como texto,
+// por lo que todos los cálculos de días se hacen en UTC.
+
+export const DAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+export const TIME_PATTERN = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Desplazamiento horario de la clínica, usado para convertir fecha + HH:mm en un instante real
+export const CLINIC_UTC_OFFSET = process.env.CLINIC_UTC_OFFSET || '-05:00';
+
+export const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const fromMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60).toString().padStart(2, '0');
+  const mins = (minutes % 60).toString().padStart(2, '0');
+  return `${hours}:${mins}`;
+};
+
+export const startOfDay = (date: Date | string): Date => {
+  const value = new Date(date);
+  return new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+};
+
+export const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY);
+
+export const dayName = (date: Date): string => DAY_NAMES[date.getUTCDay()];
+
+export const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const rangesOverlap = (startA: number, endA: number, startB: number, endB: number): boolean =>
+  startA < endB && startB < endA;
+
+export const toInstant = (date: Date, time: string): Date =>
+  new Date(`${formatDate(date)}T${fromMinutes(toMinutes(time))}:00${CLINIC_UTC_OFFSET}`);
+
+const offsetMinutes = (): number => {
+  const [, sign, hours, minutes] = CLINIC_UTC_OFFSET.match(/^([+-])(\d{2}):(\d{2})$/) || ['', '+', '00', '00'];
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 60 + Number(minutes));
+};
+
+// Inversa de toInstant: día y hora locales de la clínica para un instante dado
+export const fromInstant = (instant: Date): { date: Date; time: string } => {
+  const local = new Date(instant.getTime() + offsetMinutes() * 60 * 1000);
+  return {
+    date: startOfDay(local),
+    time: fromMinutes(local.getUTCHours() * 60 + local.getUTCMinutes()),
+  };
+};
@@ -0,0 +1,36 @@
+import crypto from 'crypto';
+
+// Token aleatorio apto para URLs. Solo se entrega al usuario; en la base de datos
+// se guarda su hash para que una filtración no permita reutilizarlo.
+export const generateToken = (bytes = 32): string => crypto.randomBytes(bytes).toString('base64url');
+
+export const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Comparación en tiempo constante de secretos de longitud arbitraria: se comparan sus
+// hashes, que siempre miden lo mismo
+export const secretsEqual = (a: string, b: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(a).digest(),
+    crypto.createHash('sha256').update(b).digest()
+  );
+
+// Alfabeto Crockford base32: sin I, L, O ni U para evitar confusiones al dictarlo o copiarlo
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Código legible de 12 caracteres (60 bits) en grupos de cuatro: XXXX-XXXX-XXXX
+export const generateVerificationCode = (): string => {
+  const chars = [...crypto.randomBytes(12)].map((byte) => CROCKFORD_ALPHABET[byte % 32]);
+  return [0, 4, 8].map((start) => chars.slice(start, start + 4).join('')).join('-');
+};
+
+// Forma canónica de un código introducido a mano: mayúsculas, sin separadores y
+// con las letras ambiguas sustituidas por los dígitos que representan
+export const normalizeVerificationCode = (input: string): string | null => {
+  const chars = input
+    .toUpperCase()
+    .replace(/[\s-]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+  if (!/^[0-9A-HJKMNP-TV-Z]{12}$/.test(chars)) return null;
+  return [chars.slice(0, 4), chars.slice(4, 8), chars.slice(8)].join('-');
+};
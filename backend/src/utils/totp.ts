@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+
+// Implementación de TOTP (RFC 6238) con HMAC-SHA1, códigos de 6 dígitos y
+// pasos de 30 segundos, compatible con las aplicaciones de autenticación habituales.
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+export const base32Encode = (buffer: Buffer): string => {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+};
+
+export const base32Decode = (input: string): Buffer => {
+  const clean = input.replace(/=+$/, '').replace(/\s/g, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Secreto base32 inválido');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+};
+
+export const generateTotpSecret = (): string => base32Encode(crypto.randomBytes(20));
+
+export const currentStep = (now = Date.now()): number => Math.floor(now / 1000 / STEP_SECONDS);
+
+export const totpCode = (secret: string, step: number): string => {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+};
+
+// Devuelve el paso en el que el código es válido (admitiendo un desfase de `window`
+// pasos por la hora del dispositivo) o null si no coincide con ninguno
+export const verifyTotp = (secret: string, code: string, window = 1, now = Date.now()): number | null => {
+  if (!/^\d{6}$/.test(code)) return null;
+  const step = currentStep(now);
+  for (let offset = -window; offset <= window; offset++) {
+    const expected = Buffer.from(totpCode(secret, step + offset));
+    if (crypto.timingSafeEqual(expected, Buffer.from(code))) {
+      return step + offset;
+    }
+  }
+  return null;
+};
+
+export const buildOtpauthUri = (secret: string, account: string, issuer: string): string => {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+};
@@ -0,0 +1,160 @@
+// Rangos de referencia de los signos vitales según la edad y clasificación de los
+// valores medidos. La presión arterial se evalúa por separado en sistólica y diastólica.
+
+export const VITAL_SIGN_MEASURES = [
+  'bloodPressure',
+  'heartRate',
+  'temperature',
+  'respiratoryRate',
+  'oxygenSaturation',
+] as const;
+
+export type VitalSignMeasure = typeof VITAL_SIGN_MEASURES[number];
+
+// Magnitudes evaluadas individualmente (la presión arterial se divide en dos)
+export type EvaluatedMeasure = Exclude<VitalSignMeasure, 'bloodPressure'> | 'systolic' | 'diastolic';
+
+export const FLAG_LEVELS = ['anormal', 'critico'] as const;
+
+export type FlagLevel = typeof FLAG_LEVELS[number];
+
+export type FlagDirection = 'bajo' | 'alto';
+
+export const AGE_GROUPS = ['lactante', 'preescolar', 'escolar', 'adolescente', 'adulto'] as const;
+
+export type AgeGroup = typeof AGE_GROUPS[number];
+
+export interface ReferenceRange {
+  low: number;
+  high: number;
+  // Fuera de estos límites el valor se considera crítico
+  criticalLow: number;
+  criticalHigh: number;
+  unit: string;
+}
+
+export interface VitalSignValues {
+  bloodPressure?: { systolic?: number; diastolic?: number };
+  heartRate?: number;
+  temperature?: number;
+  respiratoryRate?: number;
+  oxygenSaturation?: number;
+}
+
+export interface VitalSignFlag {
+  measure: EvaluatedMeasure;
+  value: number;
+  level: FlagLevel;
+  direction: FlagDirection;
+  low: number;
+  high: number;
+}
+
+const range = (low: number, high: number, criticalLow: number, criticalHigh: number, unit: string): ReferenceRange =>
+  ({ low, high, criticalLow, criticalHigh, unit });
+
+// La temperatura y la saturación no dependen de la edad
+const COMMON_RANGES = {
+  temperature: range(36, 37.5, 35, 40, '°C'),
+  oxygenSaturation: range(95, 100, 90, 101, '%'),
+};
+
+export const REFERENCE_RANGES: Record<AgeGroup, Record<EvaluatedMeasure, ReferenceRange>> = {
+  lactante: {
+    ...COMMON_RANGES,
+    heartRate: range(100, 160, 80, 200, 'lpm'),
+    respiratoryRate: range(30, 60, 20, 70, 'rpm'),
+    systolic: range(70, 100, 60, 130, 'mmHg'),
+    diastolic: range(35, 65, 25, 85, 'mmHg'),
+  },
+  preescolar: {
+    ...COMMON_RANGES,
+    heartRate: range(80, 140, 60, 180, 'lpm'),
+    respiratoryRate: range(20, 40, 15, 60, 'rpm'),
+    systolic: range(80, 110, 70, 140, 'mmHg'),
+    diastolic: range(45, 70, 35, 90, 'mmHg'),
+  },
+  escolar: {
+    ...COMMON_RANGES,
+    heartRate: range(70, 120, 50, 160, 'lpm'),
+    respiratoryRate: range(18, 30, 10, 45, 'rpm'),
+    systolic: range(90, 120, 75, 150, 'mmHg'),
+    diastolic: range(55, 80, 40, 100, 'mmHg'),
+  },
+  adolescente: {
+    ...COMMON_RANGES,
+    heartRate: range(60, 100, 45, 140, 'lpm'),
+    respiratoryRate: range(12, 20, 8, 35, 'rpm'),
+    systolic: range(90, 130, 70, 170, 'mmHg'),
+    diastolic: range(60, 85, 40, 110, 'mmHg'),
+  },
+  adulto: {
+    ...COMMON_RANGES,
+    heartRate: range(60, 100, 40, 130, 'lpm'),
+    respiratoryRate: range(12, 20, 8, 30, 'rpm'),
+    systolic: range(90, 139, 70, 180, 'mmHg'),
+    diastolic: range(60, 89, 40, 120, 'mmHg'),
+  },
+};
+
+// Diferencia a partir de la cual un cambio entre visitas deja de considerarse estable
+export const TREND_THRESHOLDS: Record<EvaluatedMeasure, number> = {
+  heartRate: 5,
+  temperature: 0.3,
+  respiratoryRate: 2,
+  oxygenSaturation: 1,
+  systolic: 5,
+  diastolic: 5,
+};
+
+// Edad en años cumplidos en la fecha indicada
+export const ageAt = (birthDate: Date, at: Date): number => {
+  let age = at.getUTCFullYear() - birthDate.getUTCFullYear();
+  const beforeBirthday =
+    at.getUTCMonth() < birthDate.getUTCMonth() ||
+    (at.getUTCMonth() === birthDate.getUTCMonth() && at.getUTCDate() < birthDate.getUTCDate());
+  if (beforeBirthday) age--;
+  return Math.max(age, 0);
+};
+
+export const ageGroup = (age: number): AgeGroup => {
+  if (age < 1) return 'lactante';
+  if (age < 6) return 'preescolar';
+  if (age < 13) return 'escolar';
+  if (age < 18) return 'adolescente';
+  return 'adulto';
+};
+
+// Rangos aplicables a un paciente en una fecha; sin fecha de nacimiento se usan los de adulto
+export const referenceRangesFor = (birthDate: Date | undefined, at: Date): Record<EvaluatedMeasure, ReferenceRange> =>
+  REFERENCE_RANGES[birthDate ? ageGroup(ageAt(birthDate, at)) : 'adulto'];
+
+// Valores individuales de una medición, con la presión arterial separada
+export const measuredValues = (values: VitalSignValues): [EvaluatedMeasure, number][] => {
+  const measured: [EvaluatedMeasure, number | undefined][] = [
+    ['systolic', values.bloodPressure?.systolic],
+    ['diastolic', values.bloodPressure?.diastolic],
+    ['heartRate', values.heartRate],
+    ['temperature', values.temperature],
+    ['respiratoryRate', values.respiratoryRate],
+    ['oxygenSaturation', values.oxygenSaturation],
+  ];
+  return measured.filter((entry): entry is [EvaluatedMeasure, number] => typeof entry[1] === 'number');
+};
+
+export const classifyValue = (value: number, reference: ReferenceRange): Omit<VitalSignFlag, 'measure' | 'value'> | null => {
+  const { low, high } = reference;
+  if (value >= low && value <= high) return null;
+  const direction: FlagDirection = value < low ? 'bajo' : 'alto';
+  const critical = value < reference.criticalLow || value > reference.criticalHigh;
+  return { level: critical ? 'critico' : 'anormal', direction, low, high };
+};
+
+// Valores fuera de rango de una medición (los normales no generan marca)
+export const evaluateVitalSigns = (values: VitalSignValues, birthDate: Date | undefined, at: Date): VitalSignFlag[] => {
+  const ranges = referenceRangesFor(birthDate, at);
+  return measuredValues(values).flatMap(([measure, value]) => {
+    const flag = classifyValue(value, ranges[measure]);
+    return flag ? [{ measure, value, ...flag }] : [];
+  });
+};